@@ -0,0 +1,4 @@
+-- Add shadow mode: moderation runs end-to-end but never hides/deletes on the platform
+ALTER TABLE "moderation_settings" ADD COLUMN IF NOT EXISTS "shadow_mode_enabled" boolean DEFAULT false;
+--> statement-breakpoint
+ALTER TABLE "moderation_logs" ADD COLUMN IF NOT EXISTS "is_shadow_mode" boolean DEFAULT false;
@@ -0,0 +1,2 @@
+-- Persist the structured decision trace (every pipeline phase evaluated) with each moderation log
+ALTER TABLE "moderation_logs" ADD COLUMN IF NOT EXISTS "decision_trace" jsonb;
@@ -0,0 +1,4 @@
+-- Track which degraded-mode (heuristic) decisions have been re-queued for LLM classification
+ALTER TABLE "moderation_logs" ADD COLUMN IF NOT EXISTS "llm_re_evaluation_queued_at" timestamp;
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "moderation_logs_degraded_pending_idx" ON "moderation_logs" ("created_at") WHERE "is_degraded_mode" = true AND "llm_re_evaluation_queued_at" IS NULL;
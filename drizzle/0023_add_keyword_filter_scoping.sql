@@ -0,0 +1,5 @@
+-- Scope keyword filters like custom filters: owned by a client or user, optionally limited to one Instagram account
+ALTER TABLE "keyword_filters" ADD COLUMN IF NOT EXISTS "user_id" uuid;--> statement-breakpoint
+ALTER TABLE "keyword_filters" ADD COLUMN IF NOT EXISTS "instagram_account_id" uuid;--> statement-breakpoint
+ALTER TABLE "keyword_filters" ADD CONSTRAINT "keyword_filters_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "keyword_filters" ADD CONSTRAINT "keyword_filters_instagram_account_id_instagram_accounts_id_fk" FOREIGN KEY ("instagram_account_id") REFERENCES "public"."instagram_accounts"("id") ON DELETE no action ON UPDATE no action;
@@ -0,0 +1,3 @@
+-- Legal cases can be owned by a user directly (creators), not only by a client
+ALTER TABLE "legal_cases" ADD COLUMN IF NOT EXISTS "user_id" uuid;--> statement-breakpoint
+ALTER TABLE "legal_cases" ADD CONSTRAINT "legal_cases_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;
@@ -0,0 +1,28 @@
+-- Durable comment queue: jobs survive restarts, are leased with a visibility timeout and dead-lettered after max attempts
+DO $$ BEGIN
+  CREATE TYPE "public"."queue_job_status" AS ENUM('PENDING', 'RUNNING', 'DEAD');
+EXCEPTION
+  WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "queue_jobs" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"type" varchar(100) NOT NULL,
+	"data" jsonb NOT NULL,
+	"status" "queue_job_status" DEFAULT 'PENDING' NOT NULL,
+	"attempts" integer DEFAULT 0 NOT NULL,
+	"max_attempts" integer NOT NULL,
+	"run_at" timestamp DEFAULT now() NOT NULL,
+	"last_error" text,
+	"leased_by" varchar(255),
+	"leased_until" timestamp,
+	"dead_at" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "queue_jobs_pending_idx" ON "queue_jobs" ("run_at") WHERE "status" = 'PENDING';
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "queue_jobs_running_idx" ON "queue_jobs" ("leased_until") WHERE "status" = 'RUNNING';
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "queue_jobs_dead_idx" ON "queue_jobs" ("dead_at") WHERE "status" = 'DEAD';
@@ -0,0 +1,10 @@
+-- Fair scheduling for queue_jobs: priority (webhook before polling before deep-sync backfill) and tenant for round-robin leasing
+ALTER TABLE "queue_jobs" ADD COLUMN IF NOT EXISTS "priority" integer DEFAULT 1 NOT NULL;
+--> statement-breakpoint
+ALTER TABLE "queue_jobs" ADD COLUMN IF NOT EXISTS "tenant_key" varchar(100);
+--> statement-breakpoint
+DROP INDEX IF EXISTS "queue_jobs_pending_idx";
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "queue_jobs_pending_idx" ON "queue_jobs" ("priority", "tenant_key", "run_at") WHERE "status" = 'PENDING';
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "queue_jobs_running_tenant_idx" ON "queue_jobs" ("tenant_key") WHERE "status" = 'RUNNING';
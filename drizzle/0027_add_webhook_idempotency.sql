@@ -0,0 +1,29 @@
+-- Webhook idempotency: raw signature-verified payloads (for admin replay) and a dedupe store of processed changes
+CREATE TABLE IF NOT EXISTS "webhook_payloads" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"source" varchar(50) NOT NULL,
+	"raw_body" text NOT NULL,
+	"signature" varchar(255),
+	"status" varchar(20) DEFAULT 'RECEIVED' NOT NULL,
+	"error" text,
+	"changes_total" integer DEFAULT 0,
+	"changes_duplicate" integer DEFAULT 0,
+	"replay_count" integer DEFAULT 0,
+	"received_at" timestamp DEFAULT now() NOT NULL,
+	"processed_at" timestamp
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "webhook_event_keys" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"source" varchar(50) NOT NULL,
+	"dedupe_key" varchar(255) NOT NULL,
+	"payload_id" uuid,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "webhook_event_keys_dedupe_key_unique" UNIQUE("dedupe_key")
+);
+--> statement-breakpoint
+ALTER TABLE "webhook_event_keys" ADD CONSTRAINT "webhook_event_keys_payload_id_webhook_payloads_id_fk" FOREIGN KEY ("payload_id") REFERENCES "public"."webhook_payloads"("id") ON DELETE set null ON UPDATE no action;
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "webhook_event_keys_created_at_idx" ON "webhook_event_keys" ("created_at");
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "webhook_payloads_received_at_idx" ON "webhook_payloads" ("received_at" DESC);
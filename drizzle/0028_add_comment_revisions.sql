@@ -0,0 +1,25 @@
+-- Comment revision history: edits and deletions observed via webhooks and syncs, so edited comments can be re-moderated and exported with their full text history
+DO $$ BEGIN
+  CREATE TYPE "public"."comment_revision_type" AS ENUM('ORIGINAL', 'EDITED', 'DELETED');
+EXCEPTION
+  WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "comment_revisions" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"comment_id" uuid NOT NULL,
+	"revision_number" integer NOT NULL,
+	"change_type" "comment_revision_type" NOT NULL,
+	"text" text NOT NULL,
+	"source" varchar(20) NOT NULL,
+	"observed_at" timestamp DEFAULT now() NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "comment_revisions" ADD CONSTRAINT "comment_revisions_comment_id_comments_id_fk" FOREIGN KEY ("comment_id") REFERENCES "public"."comments"("id") ON DELETE cascade ON UPDATE no action;
+--> statement-breakpoint
+CREATE UNIQUE INDEX IF NOT EXISTS "comment_revisions_comment_revision_idx" ON "comment_revisions" ("comment_id", "revision_number");
+--> statement-breakpoint
+ALTER TABLE "comments" ADD COLUMN IF NOT EXISTS "last_edited_at" timestamp;
+--> statement-breakpoint
+ALTER TABLE "comments" ADD COLUMN IF NOT EXISTS "revision_count" integer DEFAULT 0;
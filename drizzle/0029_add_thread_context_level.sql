@@ -0,0 +1,8 @@
+-- Thread context for classification: how much of the surrounding conversation (caption, parent chain, sibling replies) is sent to the LLM
+DO $$ BEGIN
+  CREATE TYPE "public"."thread_context_level" AS ENUM('NONE', 'PARENT', 'THREAD');
+EXCEPTION
+  WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+ALTER TABLE "moderation_settings" ADD COLUMN IF NOT EXISTS "thread_context_level" "thread_context_level" DEFAULT 'THREAD';
@@ -0,0 +1,49 @@
+-- Per-tenant AI usage accounting: one event per LLM/embedding call, rolled up daily per tenant, kind, model and purpose
+CREATE TABLE IF NOT EXISTS "ai_usage_events" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" uuid,
+	"client_id" uuid,
+	"kind" varchar(20) NOT NULL,
+	"purpose" varchar(50) NOT NULL,
+	"provider" varchar(255) NOT NULL,
+	"model" varchar(255) NOT NULL,
+	"input_tokens" integer DEFAULT 0 NOT NULL,
+	"output_tokens" integer DEFAULT 0 NOT NULL,
+	"latency_ms" integer NOT NULL,
+	"success" boolean DEFAULT true NOT NULL,
+	"cost_usd" numeric(12, 6),
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "ai_usage_daily" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"usage_date" date NOT NULL,
+	"owner_key" varchar(100) NOT NULL,
+	"user_id" uuid,
+	"client_id" uuid,
+	"kind" varchar(20) NOT NULL,
+	"purpose" varchar(50) NOT NULL,
+	"model" varchar(255) NOT NULL,
+	"calls" integer DEFAULT 0 NOT NULL,
+	"errors" integer DEFAULT 0 NOT NULL,
+	"input_tokens" integer DEFAULT 0 NOT NULL,
+	"output_tokens" integer DEFAULT 0 NOT NULL,
+	"total_latency_ms" integer DEFAULT 0 NOT NULL,
+	"cost_usd" numeric(14, 6) DEFAULT '0' NOT NULL,
+	"billing_reported_at" timestamp,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "ai_usage_events" ADD CONSTRAINT "ai_usage_events_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;
+--> statement-breakpoint
+ALTER TABLE "ai_usage_events" ADD CONSTRAINT "ai_usage_events_client_id_clients_id_fk" FOREIGN KEY ("client_id") REFERENCES "public"."clients"("id") ON DELETE cascade ON UPDATE no action;
+--> statement-breakpoint
+ALTER TABLE "ai_usage_daily" ADD CONSTRAINT "ai_usage_daily_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;
+--> statement-breakpoint
+ALTER TABLE "ai_usage_daily" ADD CONSTRAINT "ai_usage_daily_client_id_clients_id_fk" FOREIGN KEY ("client_id") REFERENCES "public"."clients"("id") ON DELETE cascade ON UPDATE no action;
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "ai_usage_events_created_at_idx" ON "ai_usage_events" ("created_at");
+--> statement-breakpoint
+CREATE UNIQUE INDEX IF NOT EXISTS "ai_usage_daily_rollup_key_idx" ON "ai_usage_daily" ("usage_date", "owner_key", "kind", "purpose", "model");
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "ai_usage_daily_owner_date_idx" ON "ai_usage_daily" ("owner_key", "usage_date");
@@ -0,0 +1,6 @@
+-- Mark moderation decisions whose classification came from the classification cache, and the comment it was reused from
+ALTER TABLE "moderation_logs" ADD COLUMN IF NOT EXISTS "is_classification_cache_hit" boolean DEFAULT false;
+--> statement-breakpoint
+ALTER TABLE "moderation_logs" ADD COLUMN IF NOT EXISTS "classification_cache_source_comment_id" uuid;
+--> statement-breakpoint
+ALTER TABLE "moderation_logs" ADD CONSTRAINT "moderation_logs_classification_cache_source_comment_id_comments_id_fk" FOREIGN KEY ("classification_cache_source_comment_id") REFERENCES "public"."comments"("id") ON DELETE set null ON UPDATE no action;
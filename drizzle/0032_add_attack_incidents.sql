@@ -0,0 +1,50 @@
+-- Coordinated attack detection: incidents opened by the streaming detector, and the per-account response (lockdown) while one is active
+DO $$ BEGIN
+  CREATE TYPE "public"."attack_response" AS ENUM('NONE', 'TIGHTEN', 'HIDE_NON_WHITELISTED');
+EXCEPTION
+  WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+  CREATE TYPE "public"."incident_status" AS ENUM('ACTIVE', 'STOOD_DOWN');
+EXCEPTION
+  WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+ALTER TABLE "moderation_settings" ADD COLUMN IF NOT EXISTS "attack_response" "attack_response" DEFAULT 'TIGHTEN';
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "incidents" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" uuid,
+	"client_id" uuid,
+	"instagram_account_id" uuid NOT NULL,
+	"post_id" uuid,
+	"type" varchar(50) NOT NULL,
+	"source" varchar(20) NOT NULL,
+	"status" "incident_status" DEFAULT 'ACTIVE' NOT NULL,
+	"lockdown_mode" "attack_response" NOT NULL,
+	"detection" jsonb,
+	"started_at" timestamp NOT NULL,
+	"detected_at" timestamp DEFAULT now() NOT NULL,
+	"stood_down_at" timestamp,
+	"stood_down_by" uuid,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "incidents" ADD CONSTRAINT "incidents_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;
+--> statement-breakpoint
+ALTER TABLE "incidents" ADD CONSTRAINT "incidents_client_id_clients_id_fk" FOREIGN KEY ("client_id") REFERENCES "public"."clients"("id") ON DELETE no action ON UPDATE no action;
+--> statement-breakpoint
+ALTER TABLE "incidents" ADD CONSTRAINT "incidents_instagram_account_id_instagram_accounts_id_fk" FOREIGN KEY ("instagram_account_id") REFERENCES "public"."instagram_accounts"("id") ON DELETE cascade ON UPDATE no action;
+--> statement-breakpoint
+ALTER TABLE "incidents" ADD CONSTRAINT "incidents_post_id_posts_id_fk" FOREIGN KEY ("post_id") REFERENCES "public"."posts"("id") ON DELETE set null ON UPDATE no action;
+--> statement-breakpoint
+ALTER TABLE "incidents" ADD CONSTRAINT "incidents_stood_down_by_users_id_fk" FOREIGN KEY ("stood_down_by") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;
+--> statement-breakpoint
+-- At most one active incident per account, so concurrent detections can't open two
+CREATE UNIQUE INDEX IF NOT EXISTS "incidents_active_account_idx" ON "incidents" ("instagram_account_id") WHERE "status" = 'ACTIVE';
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "incidents_client_id_idx" ON "incidents" ("client_id");
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "incidents_user_id_idx" ON "incidents" ("user_id");
@@ -0,0 +1,37 @@
+-- Incident timeline: events recorded while an incident is open (detection, automatic and manual actions), a frozen summary report, legal case links, and owner-wide incidents from the under-attack flow
+ALTER TABLE "incidents" ALTER COLUMN "instagram_account_id" DROP NOT NULL;
+--> statement-breakpoint
+ALTER TABLE "incidents" ADD COLUMN IF NOT EXISTS "legal_case_id" uuid;
+--> statement-breakpoint
+ALTER TABLE "incidents" ADD COLUMN IF NOT EXISTS "summary" jsonb;
+--> statement-breakpoint
+ALTER TABLE "incidents" ADD CONSTRAINT "incidents_legal_case_id_legal_cases_id_fk" FOREIGN KEY ("legal_case_id") REFERENCES "public"."legal_cases"("id") ON DELETE set null ON UPDATE no action;
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "incident_events" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"incident_id" uuid NOT NULL,
+	"event_type" varchar(50) NOT NULL,
+	"is_automatic" boolean DEFAULT false NOT NULL,
+	"actor_user_id" uuid,
+	"instagram_account_id" uuid,
+	"post_id" uuid,
+	"comment_id" uuid,
+	"commenter_id" varchar(255),
+	"commenter_username" varchar(255),
+	"details" jsonb,
+	"occurred_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "incident_events" ADD CONSTRAINT "incident_events_incident_id_incidents_id_fk" FOREIGN KEY ("incident_id") REFERENCES "public"."incidents"("id") ON DELETE cascade ON UPDATE no action;
+--> statement-breakpoint
+ALTER TABLE "incident_events" ADD CONSTRAINT "incident_events_actor_user_id_users_id_fk" FOREIGN KEY ("actor_user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;
+--> statement-breakpoint
+ALTER TABLE "incident_events" ADD CONSTRAINT "incident_events_instagram_account_id_instagram_accounts_id_fk" FOREIGN KEY ("instagram_account_id") REFERENCES "public"."instagram_accounts"("id") ON DELETE set null ON UPDATE no action;
+--> statement-breakpoint
+ALTER TABLE "incident_events" ADD CONSTRAINT "incident_events_post_id_posts_id_fk" FOREIGN KEY ("post_id") REFERENCES "public"."posts"("id") ON DELETE set null ON UPDATE no action;
+--> statement-breakpoint
+ALTER TABLE "incident_events" ADD CONSTRAINT "incident_events_comment_id_comments_id_fk" FOREIGN KEY ("comment_id") REFERENCES "public"."comments"("id") ON DELETE set null ON UPDATE no action;
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "incident_events_incident_occurred_idx" ON "incident_events" ("incident_id", "occurred_at");
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "incidents_legal_case_id_idx" ON "incidents" ("legal_case_id");
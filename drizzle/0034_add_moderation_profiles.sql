@@ -0,0 +1,51 @@
+-- Moderation profiles: named settings overlays (quiet hours, live streams, announcements) scheduled per Instagram account by time range or weekly recurrence
+DO $$ BEGIN
+  CREATE TYPE "public"."profile_schedule_type" AS ENUM('ONE_TIME', 'RECURRING');
+EXCEPTION
+  WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "moderation_profiles" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" uuid,
+	"client_id" uuid,
+	"name" varchar(100) NOT NULL,
+	"description" text,
+	"overrides" jsonb NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "moderation_profile_schedules" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"profile_id" uuid NOT NULL,
+	"instagram_account_id" uuid NOT NULL,
+	"schedule_type" "profile_schedule_type" NOT NULL,
+	"starts_at" timestamp,
+	"ends_at" timestamp,
+	"days_of_week" jsonb,
+	"start_time" varchar(5),
+	"end_time" varchar(5),
+	"timezone" varchar(64) DEFAULT 'UTC' NOT NULL,
+	"priority" integer DEFAULT 0 NOT NULL,
+	"is_enabled" boolean DEFAULT true NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "moderation_profiles" ADD CONSTRAINT "moderation_profiles_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;
+--> statement-breakpoint
+ALTER TABLE "moderation_profiles" ADD CONSTRAINT "moderation_profiles_client_id_clients_id_fk" FOREIGN KEY ("client_id") REFERENCES "public"."clients"("id") ON DELETE no action ON UPDATE no action;
+--> statement-breakpoint
+ALTER TABLE "moderation_profile_schedules" ADD CONSTRAINT "moderation_profile_schedules_profile_id_moderation_profiles_id_fk" FOREIGN KEY ("profile_id") REFERENCES "public"."moderation_profiles"("id") ON DELETE cascade ON UPDATE no action;
+--> statement-breakpoint
+ALTER TABLE "moderation_profile_schedules" ADD CONSTRAINT "moderation_profile_schedules_instagram_account_id_instagram_accounts_id_fk" FOREIGN KEY ("instagram_account_id") REFERENCES "public"."instagram_accounts"("id") ON DELETE cascade ON UPDATE no action;
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "moderation_profiles_client_id_idx" ON "moderation_profiles" ("client_id");
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "moderation_profiles_user_id_idx" ON "moderation_profiles" ("user_id");
+--> statement-breakpoint
+-- Resolved on every classification: enabled schedules for one account
+CREATE INDEX IF NOT EXISTS "moderation_profile_schedules_account_idx" ON "moderation_profile_schedules" ("instagram_account_id") WHERE "is_enabled" = true;
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "moderation_profile_schedules_profile_id_idx" ON "moderation_profile_schedules" ("profile_id");
@@ -0,0 +1,36 @@
+-- Moderation settings version history: every change to a moderation_settings row with actor, snapshot and diff, and the version each moderation decision was made with
+CREATE TABLE IF NOT EXISTS "moderation_settings_versions" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"settings_id" uuid,
+	"client_id" uuid,
+	"user_id" uuid,
+	"managed_client_id" uuid,
+	"instagram_account_id" uuid,
+	"version_number" integer NOT NULL,
+	"change_type" varchar(20) NOT NULL,
+	"actor_user_id" uuid,
+	"snapshot" jsonb,
+	"diff" jsonb NOT NULL,
+	"rolled_back_to_version_id" uuid,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "moderation_settings_versions" ADD CONSTRAINT "moderation_settings_versions_client_id_clients_id_fk" FOREIGN KEY ("client_id") REFERENCES "public"."clients"("id") ON DELETE cascade ON UPDATE no action;
+--> statement-breakpoint
+ALTER TABLE "moderation_settings_versions" ADD CONSTRAINT "moderation_settings_versions_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;
+--> statement-breakpoint
+ALTER TABLE "moderation_settings_versions" ADD CONSTRAINT "moderation_settings_versions_managed_client_id_clients_id_fk" FOREIGN KEY ("managed_client_id") REFERENCES "public"."clients"("id") ON DELETE cascade ON UPDATE no action;
+--> statement-breakpoint
+ALTER TABLE "moderation_settings_versions" ADD CONSTRAINT "moderation_settings_versions_instagram_account_id_instagram_accounts_id_fk" FOREIGN KEY ("instagram_account_id") REFERENCES "public"."instagram_accounts"("id") ON DELETE cascade ON UPDATE no action;
+--> statement-breakpoint
+ALTER TABLE "moderation_settings_versions" ADD CONSTRAINT "moderation_settings_versions_actor_user_id_users_id_fk" FOREIGN KEY ("actor_user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "moderation_settings_versions_scope_idx" ON "moderation_settings_versions" ("client_id", "user_id", "managed_client_id", "instagram_account_id", "version_number");
+--> statement-breakpoint
+ALTER TABLE "moderation_settings" ADD COLUMN IF NOT EXISTS "current_version_id" uuid;
+--> statement-breakpoint
+ALTER TABLE "moderation_logs" ADD COLUMN IF NOT EXISTS "settings_version_id" uuid;
+--> statement-breakpoint
+ALTER TABLE "moderation_logs" ADD CONSTRAINT "moderation_logs_settings_version_id_moderation_settings_versions_id_fk" FOREIGN KEY ("settings_version_id") REFERENCES "public"."moderation_settings_versions"("id") ON DELETE set null ON UPDATE no action;
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "moderation_logs_settings_version_id_idx" ON "moderation_logs" ("settings_version_id");
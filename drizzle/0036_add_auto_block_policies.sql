@@ -0,0 +1,45 @@
+-- Auto-block policies: per-tenant (default) and per-Instagram-account rules over suspicious account counters, and the outcomes they applied
+CREATE TABLE IF NOT EXISTS "auto_block_policies" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" uuid,
+	"client_id" uuid,
+	"instagram_account_id" uuid,
+	"name" varchar(100) NOT NULL,
+	"description" text,
+	"rules" jsonb NOT NULL,
+	"is_enabled" boolean DEFAULT true NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "auto_block_policy_events" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"policy_id" uuid,
+	"suspicious_account_id" uuid NOT NULL,
+	"rule_name" varchar(100) NOT NULL,
+	"outcome" varchar(20) NOT NULL,
+	"reason" text NOT NULL,
+	"metrics" jsonb NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "auto_block_policies" ADD CONSTRAINT "auto_block_policies_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;
+--> statement-breakpoint
+ALTER TABLE "auto_block_policies" ADD CONSTRAINT "auto_block_policies_client_id_clients_id_fk" FOREIGN KEY ("client_id") REFERENCES "public"."clients"("id") ON DELETE no action ON UPDATE no action;
+--> statement-breakpoint
+ALTER TABLE "auto_block_policies" ADD CONSTRAINT "auto_block_policies_instagram_account_id_instagram_accounts_id_fk" FOREIGN KEY ("instagram_account_id") REFERENCES "public"."instagram_accounts"("id") ON DELETE cascade ON UPDATE no action;
+--> statement-breakpoint
+ALTER TABLE "auto_block_policy_events" ADD CONSTRAINT "auto_block_policy_events_policy_id_auto_block_policies_id_fk" FOREIGN KEY ("policy_id") REFERENCES "public"."auto_block_policies"("id") ON DELETE set null ON UPDATE no action;
+--> statement-breakpoint
+ALTER TABLE "auto_block_policy_events" ADD CONSTRAINT "auto_block_policy_events_suspicious_account_id_suspicious_accounts_id_fk" FOREIGN KEY ("suspicious_account_id") REFERENCES "public"."suspicious_accounts"("id") ON DELETE cascade ON UPDATE no action;
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "auto_block_policies_client_id_idx" ON "auto_block_policies" ("client_id");
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "auto_block_policies_user_id_idx" ON "auto_block_policies" ("user_id");
+--> statement-breakpoint
+-- Resolved on every tracked comment: the account's own policy
+CREATE INDEX IF NOT EXISTS "auto_block_policies_account_idx" ON "auto_block_policies" ("instagram_account_id") WHERE "is_enabled" = true;
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "auto_block_policy_events_account_idx" ON "auto_block_policy_events" ("suspicious_account_id", "created_at");
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "auto_block_policy_events_policy_id_idx" ON "auto_block_policy_events" ("policy_id");
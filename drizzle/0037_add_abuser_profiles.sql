@@ -0,0 +1,54 @@
+-- Abuser profiles: link suspicious accounts across a tenant's Instagram accounts and Facebook Pages; suspicious accounts can now be tracked on Facebook Pages
+ALTER TABLE "suspicious_accounts" ADD COLUMN IF NOT EXISTS "source" "source" DEFAULT 'instagram' NOT NULL;
+--> statement-breakpoint
+ALTER TABLE "suspicious_accounts" ADD COLUMN IF NOT EXISTS "facebook_page_id" uuid;
+--> statement-breakpoint
+ALTER TABLE "suspicious_accounts" ALTER COLUMN "instagram_account_id" DROP NOT NULL;
+--> statement-breakpoint
+ALTER TABLE "suspicious_accounts" ADD CONSTRAINT "suspicious_accounts_facebook_page_id_facebook_pages_id_fk" FOREIGN KEY ("facebook_page_id") REFERENCES "public"."facebook_pages"("id") ON DELETE no action ON UPDATE no action;
+--> statement-breakpoint
+ALTER TABLE "suspicious_accounts" ADD CONSTRAINT "suspicious_accounts_single_surface_check" CHECK (("instagram_account_id" IS NULL) <> ("facebook_page_id" IS NULL));
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "suspicious_accounts_facebook_page_commenter_idx" ON "suspicious_accounts" ("facebook_page_id", "commenter_id") WHERE "facebook_page_id" IS NOT NULL;
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "abuser_profiles" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" uuid,
+	"client_id" uuid,
+	"name" varchar(255) NOT NULL,
+	"notes" text,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "abuser_profile_links" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"profile_id" uuid NOT NULL,
+	"suspicious_account_id" uuid NOT NULL,
+	"link_source" varchar(20) NOT NULL,
+	"shared_identifier" varchar(500),
+	"linked_by" uuid,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "abuser_profiles" ADD CONSTRAINT "abuser_profiles_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;
+--> statement-breakpoint
+ALTER TABLE "abuser_profiles" ADD CONSTRAINT "abuser_profiles_client_id_clients_id_fk" FOREIGN KEY ("client_id") REFERENCES "public"."clients"("id") ON DELETE no action ON UPDATE no action;
+--> statement-breakpoint
+ALTER TABLE "abuser_profile_links" ADD CONSTRAINT "abuser_profile_links_profile_id_abuser_profiles_id_fk" FOREIGN KEY ("profile_id") REFERENCES "public"."abuser_profiles"("id") ON DELETE cascade ON UPDATE no action;
+--> statement-breakpoint
+ALTER TABLE "abuser_profile_links" ADD CONSTRAINT "abuser_profile_links_suspicious_account_id_suspicious_accounts_id_fk" FOREIGN KEY ("suspicious_account_id") REFERENCES "public"."suspicious_accounts"("id") ON DELETE cascade ON UPDATE no action;
+--> statement-breakpoint
+ALTER TABLE "abuser_profile_links" ADD CONSTRAINT "abuser_profile_links_linked_by_users_id_fk" FOREIGN KEY ("linked_by") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "abuser_profiles_client_id_idx" ON "abuser_profiles" ("client_id");
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "abuser_profiles_user_id_idx" ON "abuser_profiles" ("user_id");
+--> statement-breakpoint
+-- An account belongs to at most one profile
+CREATE UNIQUE INDEX IF NOT EXISTS "abuser_profile_links_account_idx" ON "abuser_profile_links" ("suspicious_account_id");
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "abuser_profile_links_profile_id_idx" ON "abuser_profile_links" ("profile_id");
+--> statement-breakpoint
+-- Auto-linking looks up other accounts sharing an extracted identifier
+CREATE INDEX IF NOT EXISTS "extracted_identifiers_normalized_idx" ON "extracted_identifiers" ("normalized_identifier") WHERE "is_active" = true;
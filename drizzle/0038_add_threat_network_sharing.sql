@@ -0,0 +1,38 @@
+-- Global threat network sharing: one report per agency and offender, verification timestamp, and first-sighting alerts
+ALTER TABLE "global_threat_network" ADD COLUMN IF NOT EXISTS "verified_at" timestamp;
+--> statement-breakpoint
+ALTER TABLE "threat_network_reports" ADD COLUMN IF NOT EXISTS "updated_at" timestamp DEFAULT now();
+--> statement-breakpoint
+-- Reports are upserted per agency; verification counts distinct agencies
+CREATE UNIQUE INDEX IF NOT EXISTS "threat_network_reports_threat_agency_idx" ON "threat_network_reports" ("global_threat_id", "reporting_agency_id");
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "threat_network_reports_agency_idx" ON "threat_network_reports" ("reporting_agency_id", "created_at");
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "global_threat_network_username_hash_idx" ON "global_threat_network" ("commenter_username_hash") WHERE "is_global_threat" = true;
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "threat_network_alerts" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"global_threat_id" uuid NOT NULL,
+	"agency_id" uuid NOT NULL,
+	"instagram_account_id" uuid,
+	"facebook_page_id" uuid,
+	"comment_id" uuid,
+	"commenter_username" varchar(255) NOT NULL,
+	"email_sent" boolean DEFAULT false NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "threat_network_alerts" ADD CONSTRAINT "threat_network_alerts_global_threat_id_global_threat_network_id_fk" FOREIGN KEY ("global_threat_id") REFERENCES "public"."global_threat_network"("id") ON DELETE cascade ON UPDATE no action;
+--> statement-breakpoint
+ALTER TABLE "threat_network_alerts" ADD CONSTRAINT "threat_network_alerts_agency_id_users_id_fk" FOREIGN KEY ("agency_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;
+--> statement-breakpoint
+ALTER TABLE "threat_network_alerts" ADD CONSTRAINT "threat_network_alerts_instagram_account_id_instagram_accounts_id_fk" FOREIGN KEY ("instagram_account_id") REFERENCES "public"."instagram_accounts"("id") ON DELETE set null ON UPDATE no action;
+--> statement-breakpoint
+ALTER TABLE "threat_network_alerts" ADD CONSTRAINT "threat_network_alerts_facebook_page_id_facebook_pages_id_fk" FOREIGN KEY ("facebook_page_id") REFERENCES "public"."facebook_pages"("id") ON DELETE set null ON UPDATE no action;
+--> statement-breakpoint
+ALTER TABLE "threat_network_alerts" ADD CONSTRAINT "threat_network_alerts_comment_id_comments_id_fk" FOREIGN KEY ("comment_id") REFERENCES "public"."comments"("id") ON DELETE set null ON UPDATE no action;
+--> statement-breakpoint
+-- An agency is alerted once per global threat
+CREATE UNIQUE INDEX IF NOT EXISTS "threat_network_alerts_threat_agency_idx" ON "threat_network_alerts" ("global_threat_id", "agency_id");
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "threat_network_alerts_agency_idx" ON "threat_network_alerts" ("agency_id", "created_at");
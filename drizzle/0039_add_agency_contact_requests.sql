@@ -0,0 +1,31 @@
+-- Agency network directory: contact requests between agencies that allow direct contact
+CREATE TABLE IF NOT EXISTS "agency_contact_requests" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"from_agency_id" uuid NOT NULL,
+	"to_agency_id" uuid NOT NULL,
+	"global_threat_id" uuid,
+	"message" text NOT NULL,
+	"from_contact_email" varchar(255) NOT NULL,
+	"to_contact_email" varchar(255),
+	"status" varchar(20) DEFAULT 'PENDING' NOT NULL,
+	"response_message" text,
+	"responded_at" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "agency_contact_requests" ADD CONSTRAINT "agency_contact_requests_from_agency_id_users_id_fk" FOREIGN KEY ("from_agency_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;
+--> statement-breakpoint
+ALTER TABLE "agency_contact_requests" ADD CONSTRAINT "agency_contact_requests_to_agency_id_users_id_fk" FOREIGN KEY ("to_agency_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;
+--> statement-breakpoint
+ALTER TABLE "agency_contact_requests" ADD CONSTRAINT "agency_contact_requests_global_threat_id_global_threat_network_id_fk" FOREIGN KEY ("global_threat_id") REFERENCES "public"."global_threat_network"("id") ON DELETE set null ON UPDATE no action;
+--> statement-breakpoint
+-- At most one open request from one agency to another
+CREATE UNIQUE INDEX IF NOT EXISTS "agency_contact_requests_pending_pair_idx" ON "agency_contact_requests" ("from_agency_id", "to_agency_id") WHERE "status" = 'PENDING';
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "agency_contact_requests_to_agency_idx" ON "agency_contact_requests" ("to_agency_id", "created_at");
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "agency_contact_requests_from_agency_idx" ON "agency_contact_requests" ("from_agency_id", "created_at");
+--> statement-breakpoint
+-- Directory listing
+CREATE INDEX IF NOT EXISTS "agency_network_settings_public_idx" ON "agency_network_settings" ("public_name") WHERE "is_public_profile" = true;
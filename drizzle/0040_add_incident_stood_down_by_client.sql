@@ -0,0 +1,4 @@
+-- Client sessions can stand incidents down too: record the actor as a user/client pair (stood_down_by stays the user)
+ALTER TABLE "incidents" ADD COLUMN IF NOT EXISTS "stood_down_by_client_id" uuid;
+--> statement-breakpoint
+ALTER TABLE "incidents" ADD CONSTRAINT "incidents_stood_down_by_client_id_clients_id_fk" FOREIGN KEY ("stood_down_by_client_id") REFERENCES "public"."clients"("id") ON DELETE no action ON UPDATE no action;
@@ -0,0 +1,4 @@
+-- Timeline events by client sessions: record the actor as a user/client pair (actor_user_id stays the user)
+ALTER TABLE "incident_events" ADD COLUMN IF NOT EXISTS "actor_client_id" uuid;
+--> statement-breakpoint
+ALTER TABLE "incident_events" ADD CONSTRAINT "incident_events_actor_client_id_clients_id_fk" FOREIGN KEY ("actor_client_id") REFERENCES "public"."clients"("id") ON DELETE no action ON UPDATE no action;
@@ -0,0 +1,4 @@
+-- Settings changes by client sessions: record the actor as a user/client pair (actor_user_id stays the user)
+ALTER TABLE "moderation_settings_versions" ADD COLUMN IF NOT EXISTS "actor_client_id" uuid;
+--> statement-breakpoint
+ALTER TABLE "moderation_settings_versions" ADD CONSTRAINT "moderation_settings_versions_actor_client_id_clients_id_fk" FOREIGN KEY ("actor_client_id") REFERENCES "public"."clients"("id") ON DELETE cascade ON UPDATE no action;
@@ -0,0 +1,395 @@
+import { Response } from 'express';
+import { eq, and, desc, ilike, inArray, sql, SQL } from 'drizzle-orm';
+import { db } from '../db';
+import {
+  abuserProfiles,
+  abuserProfileLinks,
+  suspiciousAccounts,
+  instagramAccounts,
+  facebookPages,
+  AbuserProfile
+} from '../db/schema';
+import { AuthRequest } from '../middleware/auth.middleware';
+import { getOwner } from '../middleware/delegation.middleware';
+import { abuserProfileService, AbuserCounters } from '../services/abuserProfile.service';
+import { autoBlockPolicyService } from '../services/autoBlockPolicy.service';
+import {
+  CreateAbuserProfileSchema,
+  UpdateAbuserProfileSchema,
+  LinkAbuserAccountsSchema
+} from '../validation/schemas';
+import { validationError } from '../utils/validation.utils';
+
+type ProfileOwner = { userId: string | undefined; clientId: string | undefined };
+
+interface LinkedAccountView {
+  suspiciousAccountId: string;
+  source: 'instagram' | 'facebook';
+  commenterId: string;
+  commenterUsername: string;
+  instagramAccountId: string | null;
+  facebookPageId: string | null;
+  seenOn: string | null; // '@username' or the Facebook Page name
+  totalComments: number;
+  isBlocked: boolean;
+  autoHideEnabled: boolean;
+  autoDeleteEnabled: boolean;
+  isWatchlisted: boolean;
+  lastSeenAt: Date;
+  linkSource: string;
+  sharedIdentifier: string | null;
+  linkedAt: Date;
+}
+
+interface AbuserProfileView extends AbuserProfile {
+  counters: AbuserCounters | null;
+  platforms: Array<'instagram' | 'facebook'>;
+  accounts: LinkedAccountView[];
+}
+
+const MAX_PAGE_SIZE = 100;
+
+export class AbuserProfilesController {
+  private ownershipCondition(owner: ProfileOwner): SQL {
+    return owner.clientId
+      ? eq(abuserProfiles.clientId, owner.clientId)
+      : eq(abuserProfiles.userId, owner.userId!);
+  }
+
+  private async findOwnedProfile(id: string, owner: ProfileOwner): Promise<AbuserProfile | null> {
+    const [profile] = await db
+      .select()
+      .from(abuserProfiles)
+      .where(and(eq(abuserProfiles.id, id), this.ownershipCondition(owner)))
+      .limit(1);
+    return profile ?? null;
+  }
+
+  /**
+   * Linked accounts of the given profiles with the Instagram account or Facebook Page each
+   * was seen on, and the profile-level counters
+   */
+  private async describe(profiles: AbuserProfile[]): Promise<AbuserProfileView[]> {
+    const members = profiles.length > 0
+      ? await db
+        .select({
+          profileId: abuserProfileLinks.profileId,
+          linkSource: abuserProfileLinks.linkSource,
+          sharedIdentifier: abuserProfileLinks.sharedIdentifier,
+          linkedAt: abuserProfileLinks.createdAt,
+          account: suspiciousAccounts,
+          instagramUsername: instagramAccounts.username,
+          pageName: facebookPages.pageName
+        })
+        .from(abuserProfileLinks)
+        .innerJoin(suspiciousAccounts, eq(abuserProfileLinks.suspiciousAccountId, suspiciousAccounts.id))
+        .leftJoin(instagramAccounts, eq(suspiciousAccounts.instagramAccountId, instagramAccounts.id))
+        .leftJoin(facebookPages, eq(suspiciousAccounts.facebookPageId, facebookPages.id))
+        .where(inArray(abuserProfileLinks.profileId, profiles.map(profile => profile.id)))
+        .orderBy(desc(suspiciousAccounts.lastSeenAt))
+      : [];
+
+    return profiles.map(profile => {
+      const linked = members.filter(member => member.profileId === profile.id);
+      return {
+        ...profile,
+        counters: linked.length > 0 ? abuserProfileService.aggregateCounters(linked.map(member => member.account)) : null,
+        platforms: [...new Set(linked.map(member => member.account.source))],
+        accounts: linked.map(member => ({
+          suspiciousAccountId: member.account.id,
+          source: member.account.source,
+          commenterId: member.account.commenterId,
+          commenterUsername: member.account.commenterUsername,
+          instagramAccountId: member.account.instagramAccountId,
+          facebookPageId: member.account.facebookPageId,
+          seenOn: member.instagramUsername ? `@${member.instagramUsername}` : member.pageName,
+          totalComments: member.account.totalComments ?? 0,
+          isBlocked: member.account.isBlocked ?? false,
+          autoHideEnabled: member.account.autoHideEnabled ?? false,
+          autoDeleteEnabled: member.account.autoDeleteEnabled ?? false,
+          isWatchlisted: member.account.isWatchlisted ?? false,
+          lastSeenAt: member.account.lastSeenAt,
+          linkSource: member.linkSource,
+          sharedIdentifier: member.sharedIdentifier,
+          linkedAt: member.linkedAt
+        }))
+      };
+    });
+  }
+
+  /**
+   * Re-run the auto-block policy on the profile's aggregated counters so its outcomes reach
+   * newly linked accounts. Counters are unchanged, so no NOTIFY rule starts matching.
+   */
+  private async reapplyPolicy(suspiciousAccountId: string): Promise<void> {
+    const account = await db.query.suspiciousAccounts.findFirst({
+      where: eq(suspiciousAccounts.id, suspiciousAccountId)
+    });
+    if (account) await autoBlockPolicyService.applyPolicy(account.id, account);
+  }
+
+  /**
+   * List abuser profiles, most recently updated first.
+   * Query: search (profile name), limit, offset
+   */
+  async getProfiles(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const owner = getOwner(req);
+      if (!owner.userId && !owner.clientId) {
+        res.status(401).json({ success: false, error: 'Unauthorized' });
+        return;
+      }
+
+      const limit = Math.min(Math.max(parseInt(req.query.limit as string) || 50, 1), MAX_PAGE_SIZE);
+      const offset = Math.max(parseInt(req.query.offset as string) || 0, 0);
+
+      const conditions: SQL[] = [this.ownershipCondition(owner)];
+      if (typeof req.query.search === 'string' && req.query.search.trim()) {
+        conditions.push(ilike(abuserProfiles.name, `%${req.query.search.trim()}%`));
+      }
+      const where = and(...conditions);
+
+      const [profiles, [{ count }]] = await Promise.all([
+        db
+          .select()
+          .from(abuserProfiles)
+          .where(where)
+          .orderBy(desc(abuserProfiles.updatedAt))
+          .limit(limit)
+          .offset(offset),
+        db.select({ count: sql<number>`count(*)::int` }).from(abuserProfiles).where(where)
+      ]);
+
+      res.json({
+        success: true,
+        data: {
+          profiles: await this.describe(profiles),
+          pagination: { total: count, limit, offset, hasMore: offset + profiles.length < count }
+        }
+      });
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      console.error('Error fetching abuser profiles:', errorMessage);
+      res.status(500).json({ success: false, error: 'Internal server error' });
+    }
+  }
+
+  /**
+   * Get an abuser profile with its linked accounts and aggregated counters
+   */
+  async getProfile(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const owner = getOwner(req);
+      if (!owner.userId && !owner.clientId) {
+        res.status(401).json({ success: false, error: 'Unauthorized' });
+        return;
+      }
+
+      const profile = await this.findOwnedProfile(req.params.id, owner);
+      if (!profile) {
+        res.status(404).json({ success: false, error: 'Abuser profile not found' });
+        return;
+      }
+
+      const [described] = await this.describe([profile]);
+      res.json({ success: true, data: described });
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      console.error('Error fetching abuser profile:', errorMessage);
+      res.status(500).json({ success: false, error: 'Internal server error' });
+    }
+  }
+
+  /**
+   * Create a profile from manually confirmed suspicious accounts. Accounts already on another
+   * profile are moved to the new one.
+   */
+  async createProfile(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const owner = getOwner(req);
+      if (!owner.userId && !owner.clientId) {
+        res.status(401).json({ success: false, error: 'Unauthorized' });
+        return;
+      }
+
+      const parsed = CreateAbuserProfileSchema.safeParse(req.body);
+      if (!parsed.success) {
+        res.status(400).json({ success: false, error: validationError(parsed.error) });
+        return;
+      }
+      const input = parsed.data;
+
+      const accountIds = [...new Set(input.suspiciousAccountIds)];
+      const accounts = await abuserProfileService.getOwnedAccounts(owner, accountIds);
+      if (accounts.length !== accountIds.length) {
+        res.status(404).json({ success: false, error: 'Suspicious account not found' });
+        return;
+      }
+
+      const [profile] = await db.insert(abuserProfiles).values({
+        userId: owner.clientId ? null : owner.userId,
+        clientId: owner.clientId || null,
+        name: input.name,
+        notes: input.notes ?? null
+      }).returning();
+
+      await abuserProfileService.linkAccounts(profile.id, accountIds, { linkSource: 'MANUAL', linkedBy: req.userId ?? null });
+      await this.reapplyPolicy(accountIds[0]);
+
+      const [described] = await this.describe([profile]);
+      res.status(201).json({ success: true, data: described });
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      console.error('Error creating abuser profile:', errorMessage);
+      res.status(500).json({ success: false, error: 'Internal server error' });
+    }
+  }
+
+  /**
+   * Rename a profile or update its notes
+   */
+  async updateProfile(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const owner = getOwner(req);
+      if (!owner.userId && !owner.clientId) {
+        res.status(401).json({ success: false, error: 'Unauthorized' });
+        return;
+      }
+
+      const parsed = UpdateAbuserProfileSchema.safeParse(req.body);
+      if (!parsed.success) {
+        res.status(400).json({ success: false, error: validationError(parsed.error) });
+        return;
+      }
+
+      const existing = await this.findOwnedProfile(req.params.id, owner);
+      if (!existing) {
+        res.status(404).json({ success: false, error: 'Abuser profile not found' });
+        return;
+      }
+
+      const [profile] = await db
+        .update(abuserProfiles)
+        .set({ ...parsed.data, updatedAt: new Date() })
+        .where(eq(abuserProfiles.id, existing.id))
+        .returning();
+
+      const [described] = await this.describe([profile]);
+      res.json({ success: true, data: described });
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      console.error('Error updating abuser profile:', errorMessage);
+      res.status(500).json({ success: false, error: 'Internal server error' });
+    }
+  }
+
+  /**
+   * Delete a profile. Its accounts are unlinked; auto-actions already applied to them stay.
+   */
+  async deleteProfile(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const owner = getOwner(req);
+      if (!owner.userId && !owner.clientId) {
+        res.status(401).json({ success: false, error: 'Unauthorized' });
+        return;
+      }
+
+      const existing = await this.findOwnedProfile(req.params.id, owner);
+      if (!existing) {
+        res.status(404).json({ success: false, error: 'Abuser profile not found' });
+        return;
+      }
+
+      await db.delete(abuserProfiles).where(eq(abuserProfiles.id, existing.id));
+
+      res.json({ success: true, message: 'Abuser profile deleted' });
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      console.error('Error deleting abuser profile:', errorMessage);
+      res.status(500).json({ success: false, error: 'Internal server error' });
+    }
+  }
+
+  /**
+   * Manually link suspicious accounts to a profile (confirming they are the same person)
+   */
+  async linkAccounts(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const owner = getOwner(req);
+      if (!owner.userId && !owner.clientId) {
+        res.status(401).json({ success: false, error: 'Unauthorized' });
+        return;
+      }
+
+      const parsed = LinkAbuserAccountsSchema.safeParse(req.body);
+      if (!parsed.success) {
+        res.status(400).json({ success: false, error: validationError(parsed.error) });
+        return;
+      }
+
+      const profile = await this.findOwnedProfile(req.params.id, owner);
+      if (!profile) {
+        res.status(404).json({ success: false, error: 'Abuser profile not found' });
+        return;
+      }
+
+      const accountIds = [...new Set(parsed.data.suspiciousAccountIds)];
+      const accounts = await abuserProfileService.getOwnedAccounts(owner, accountIds);
+      if (accounts.length !== accountIds.length) {
+        res.status(404).json({ success: false, error: 'Suspicious account not found' });
+        return;
+      }
+
+      await abuserProfileService.linkAccounts(profile.id, accountIds, { linkSource: 'MANUAL', linkedBy: req.userId ?? null });
+      await this.reapplyPolicy(accountIds[0]);
+
+      const [described] = await this.describe([profile]);
+      res.json({ success: true, data: described });
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      console.error('Error linking accounts to abuser profile:', errorMessage);
+      res.status(500).json({ success: false, error: 'Internal server error' });
+    }
+  }
+
+  /**
+   * Unlink a suspicious account from a profile. A profile left without accounts is deleted.
+   */
+  async unlinkAccount(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const owner = getOwner(req);
+      if (!owner.userId && !owner.clientId) {
+        res.status(401).json({ success: false, error: 'Unauthorized' });
+        return;
+      }
+
+      const profile = await this.findOwnedProfile(req.params.id, owner);
+      if (!profile) {
+        res.status(404).json({ success: false, error: 'Abuser profile not found' });
+        return;
+      }
+
+      const [removed] = await db
+        .delete(abuserProfileLinks)
+        .where(and(
+          eq(abuserProfileLinks.profileId, profile.id),
+          eq(abuserProfileLinks.suspiciousAccountId, req.params.suspiciousAccountId)
+        ))
+        .returning();
+      if (!removed) {
+        res.status(404).json({ success: false, error: 'Linked account not found' });
+        return;
+      }
+
+      await abuserProfileService.deleteEmptyProfiles([profile.id]);
+
+      res.json({ success: true, message: 'Account unlinked from abuser profile' });
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      console.error('Error unlinking account from abuser profile:', errorMessage);
+      res.status(500).json({ success: false, error: 'Internal server error' });
+    }
+  }
+}
+
+export const abuserProfilesController = new AbuserProfilesController();
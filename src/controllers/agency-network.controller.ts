@@ -0,0 +1,589 @@
+import { Response } from 'express';
+import { eq, and, ne, or, desc, asc, ilike, sql, SQL } from 'drizzle-orm';
+import { db } from '../db';
+import {
+  users,
+  agencyNetworkSettings,
+  agencyContactRequests,
+  threatNetworkReports,
+  threatNetworkAlerts,
+  AgencyContactRequest,
+  AgencyNetworkSettings
+} from '../db/schema';
+import { AuthRequest } from '../middleware/auth.middleware';
+import { isAgency } from '../utils/account-type.utils';
+import { EmailService } from '../services/email/email.service';
+import {
+  UpdateAgencyNetworkSettingsSchema,
+  CreateAgencyContactRequestSchema,
+  RespondAgencyContactRequestSchema
+} from '../validation/schemas';
+import { validationError } from '../utils/validation.utils';
+
+type ContactRequestDirection = 'incoming' | 'outgoing';
+
+interface DirectoryAgency {
+  agencyId: string;
+  name: string;
+  logoUrl: string | null;
+  instagramHandle: string | null;
+  twitterHandle: string | null;
+  website: string | null;
+  allowDirectContact: boolean;
+  sharesThreatData: boolean;
+  listedSince: Date | null;
+}
+
+interface ContactRequestView {
+  id: string;
+  direction: ContactRequestDirection;
+  agency: DirectoryAgency; // The other agency
+  globalThreatId: string | null;
+  message: string;
+  status: string;
+  responseMessage: string | null;
+  contactEmail: string | null; // The other agency's contact email, once accepted
+  respondedAt: Date | null;
+  createdAt: Date;
+}
+
+const CONTACT_REQUEST_STATUSES = ['PENDING', 'ACCEPTED', 'DECLINED', 'WITHDRAWN'];
+
+const MAX_PAGE_SIZE = 100;
+
+// Name shown in the directory: the public name, else the agency's business or account name
+const agencyDisplayName = sql<string>`coalesce(${agencyNetworkSettings.publicName}, ${users.businessName}, ${users.name}, 'Agency')`;
+
+const directoryColumns = {
+  agencyId: users.id,
+  name: agencyDisplayName,
+  logoUrl: users.logoUrl,
+  instagramHandle: agencyNetworkSettings.instagramHandle,
+  twitterHandle: agencyNetworkSettings.twitterHandle,
+  website: agencyNetworkSettings.website,
+  allowDirectContact: agencyNetworkSettings.allowDirectContact,
+  sharesThreatData: agencyNetworkSettings.shareThreatData,
+  listedSince: agencyNetworkSettings.createdAt
+};
+
+const toDirectoryAgency = (row: {
+  agencyId: string;
+  name: string;
+  logoUrl: string | null;
+  instagramHandle: string | null;
+  twitterHandle: string | null;
+  website: string | null;
+  allowDirectContact: boolean | null;
+  sharesThreatData: boolean | null;
+  listedSince: Date | null;
+}): DirectoryAgency => ({
+  ...row,
+  allowDirectContact: row.allowDirectContact ?? false,
+  sharesThreatData: row.sharesThreatData ?? false
+});
+
+// Network settings with the column defaults when the agency has none saved
+const toSettingsView = (settings: AgencyNetworkSettings | undefined): Omit<AgencyNetworkSettings, 'id' | 'userId' | 'createdAt'> => ({
+  publicName: settings?.publicName ?? null,
+  instagramHandle: settings?.instagramHandle ?? null,
+  twitterHandle: settings?.twitterHandle ?? null,
+  website: settings?.website ?? null,
+  shareThreatData: settings?.shareThreatData ?? false,
+  receiveThreatAlerts: settings?.receiveThreatAlerts ?? true,
+  isPublicProfile: settings?.isPublicProfile ?? false,
+  allowDirectContact: settings?.allowDirectContact ?? false,
+  updatedAt: settings?.updatedAt ?? null
+});
+
+const toContactRequestView = (
+  request: AgencyContactRequest,
+  agency: DirectoryAgency,
+  direction: ContactRequestDirection
+): ContactRequestView => ({
+  id: request.id,
+  direction,
+  agency,
+  globalThreatId: request.globalThreatId,
+  message: request.message,
+  status: request.status,
+  responseMessage: request.responseMessage,
+  contactEmail: request.status === 'ACCEPTED'
+    ? (direction === 'incoming' ? request.fromContactEmail : request.toContactEmail)
+    : null,
+  respondedAt: request.respondedAt,
+  createdAt: request.createdAt
+});
+
+export class AgencyNetworkController {
+  /**
+   * The requesting agency, or null after responding 401/403
+   */
+  private requireAgency(req: AuthRequest, res: Response): string | null {
+    if (!req.userId) {
+      res.status(401).json({ success: false, error: 'Unauthorized' });
+      return null;
+    }
+    if (!isAgency(req.accountType)) {
+      res.status(403).json({ success: false, error: 'Only agencies can use the agency network' });
+      return null;
+    }
+    return req.userId;
+  }
+
+  /**
+   * A listed agency in the directory (public profile, not the requester)
+   */
+  private async findListedAgency(agencyId: string, requesterId: string): Promise<DirectoryAgency | null> {
+    const [agency] = await db
+      .select(directoryColumns)
+      .from(agencyNetworkSettings)
+      .innerJoin(users, eq(agencyNetworkSettings.userId, users.id))
+      .where(and(
+        eq(agencyNetworkSettings.userId, agencyId),
+        eq(agencyNetworkSettings.isPublicProfile, true),
+        ne(users.id, requesterId)
+      ))
+      .limit(1);
+    return agency ? toDirectoryAgency(agency) : null;
+  }
+
+  /**
+   * Whether the agency reported the offender to the threat network or was alerted about it
+   */
+  private async isThreatKnownTo(globalThreatId: string, agencyId: string): Promise<boolean> {
+    const [report, alert] = await Promise.all([
+      db.query.threatNetworkReports.findFirst({
+        where: and(
+          eq(threatNetworkReports.globalThreatId, globalThreatId),
+          eq(threatNetworkReports.reportingAgencyId, agencyId)
+        ),
+        columns: { id: true }
+      }),
+      db.query.threatNetworkAlerts.findFirst({
+        where: and(
+          eq(threatNetworkAlerts.globalThreatId, globalThreatId),
+          eq(threatNetworkAlerts.agencyId, agencyId)
+        ),
+        columns: { id: true }
+      })
+    ]);
+    return !!report || !!alert;
+  }
+
+  /**
+   * Get the agency's network profile, sharing preferences and directory visibility
+   */
+  async getSettings(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const agencyId = this.requireAgency(req, res);
+      if (!agencyId) return;
+
+      const settings = await db.query.agencyNetworkSettings.findFirst({
+        where: eq(agencyNetworkSettings.userId, agencyId)
+      });
+
+      res.json({ success: true, data: toSettingsView(settings) });
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      console.error('Error fetching agency network settings:', errorMessage);
+      res.status(500).json({ success: false, error: 'Internal server error' });
+    }
+  }
+
+  /**
+   * Update the agency's network profile and directory visibility. Threat sharing preferences
+   * are updated through the threat network settings.
+   */
+  async updateSettings(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const agencyId = this.requireAgency(req, res);
+      if (!agencyId) return;
+
+      const parsed = UpdateAgencyNetworkSettingsSchema.safeParse(req.body);
+      if (!parsed.success) {
+        res.status(400).json({ success: false, error: validationError(parsed.error) });
+        return;
+      }
+
+      const [settings] = await db
+        .insert(agencyNetworkSettings)
+        .values({ userId: agencyId, ...parsed.data })
+        .onConflictDoUpdate({
+          target: agencyNetworkSettings.userId,
+          set: { ...parsed.data, updatedAt: new Date() }
+        })
+        .returning();
+
+      res.json({ success: true, data: toSettingsView(settings) });
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      console.error('Error updating agency network settings:', errorMessage);
+      res.status(500).json({ success: false, error: 'Internal server error' });
+    }
+  }
+
+  /**
+   * List agencies that opted into a public profile
+   */
+  async getDirectory(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const agencyId = this.requireAgency(req, res);
+      if (!agencyId) return;
+
+      const limit = Math.min(Math.max(parseInt(req.query.limit as string) || 50, 1), MAX_PAGE_SIZE);
+      const offset = Math.max(parseInt(req.query.offset as string) || 0, 0);
+
+      const conditions: SQL[] = [eq(agencyNetworkSettings.isPublicProfile, true), ne(users.id, agencyId)];
+      if (typeof req.query.search === 'string' && req.query.search.trim()) {
+        const pattern = `%${req.query.search.trim()}%`;
+        conditions.push(or(
+          ilike(agencyDisplayName, pattern),
+          ilike(agencyNetworkSettings.instagramHandle, pattern),
+          ilike(agencyNetworkSettings.twitterHandle, pattern)
+        )!);
+      }
+      if (req.query.allowDirectContact === 'true') {
+        conditions.push(eq(agencyNetworkSettings.allowDirectContact, true));
+      }
+      const where = and(...conditions);
+
+      const [rows, [{ count }]] = await Promise.all([
+        db
+          .select(directoryColumns)
+          .from(agencyNetworkSettings)
+          .innerJoin(users, eq(agencyNetworkSettings.userId, users.id))
+          .where(where)
+          .orderBy(asc(agencyDisplayName))
+          .limit(limit)
+          .offset(offset),
+        db
+          .select({ count: sql<number>`count(*)::int` })
+          .from(agencyNetworkSettings)
+          .innerJoin(users, eq(agencyNetworkSettings.userId, users.id))
+          .where(where)
+      ]);
+
+      res.json({
+        success: true,
+        data: {
+          agencies: rows.map(toDirectoryAgency),
+          pagination: { total: count, limit, offset, hasMore: offset + rows.length < count }
+        }
+      });
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      console.error('Error fetching agency directory:', errorMessage);
+      res.status(500).json({ success: false, error: 'Internal server error' });
+    }
+  }
+
+  /**
+   * Get a listed agency's public profile
+   */
+  async getDirectoryAgency(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const agencyId = this.requireAgency(req, res);
+      if (!agencyId) return;
+
+      const agency = await this.findListedAgency(req.params.agencyId, agencyId);
+      if (!agency) {
+        res.status(404).json({ success: false, error: 'Agency not found' });
+        return;
+      }
+
+      res.json({ success: true, data: agency });
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      console.error('Error fetching directory agency:', errorMessage);
+      res.status(500).json({ success: false, error: 'Internal server error' });
+    }
+  }
+
+  /**
+   * List contact requests the agency received (default) or sent. Contact emails are included
+   * once a request is accepted.
+   */
+  async getContactRequests(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const agencyId = this.requireAgency(req, res);
+      if (!agencyId) return;
+
+      const direction: ContactRequestDirection = req.query.direction === 'outgoing' ? 'outgoing' : 'incoming';
+      const limit = Math.min(Math.max(parseInt(req.query.limit as string) || 50, 1), MAX_PAGE_SIZE);
+      const offset = Math.max(parseInt(req.query.offset as string) || 0, 0);
+
+      const ownColumn = direction === 'incoming' ? agencyContactRequests.toAgencyId : agencyContactRequests.fromAgencyId;
+      const otherColumn = direction === 'incoming' ? agencyContactRequests.fromAgencyId : agencyContactRequests.toAgencyId;
+
+      const conditions: SQL[] = [eq(ownColumn, agencyId)];
+      const status = typeof req.query.status === 'string' ? req.query.status.toUpperCase() : undefined;
+      if (status) {
+        if (!CONTACT_REQUEST_STATUSES.includes(status)) {
+          res.status(400).json({ success: false, error: `status must be one of ${CONTACT_REQUEST_STATUSES.join(', ')}` });
+          return;
+        }
+        conditions.push(eq(agencyContactRequests.status, status));
+      }
+      const where = and(...conditions);
+
+      const [rows, [{ count }]] = await Promise.all([
+        db
+          .select({
+            request: agencyContactRequests,
+            agency: directoryColumns
+          })
+          .from(agencyContactRequests)
+          .innerJoin(users, eq(otherColumn, users.id))
+          .leftJoin(agencyNetworkSettings, eq(agencyNetworkSettings.userId, users.id))
+          .where(where)
+          .orderBy(desc(agencyContactRequests.createdAt))
+          .limit(limit)
+          .offset(offset),
+        db.select({ count: sql<number>`count(*)::int` }).from(agencyContactRequests).where(where)
+      ]);
+
+      const requests = rows.map(({ request, agency }) => toContactRequestView(request, toDirectoryAgency(agency), direction));
+
+      res.json({
+        success: true,
+        data: {
+          requests,
+          pagination: { total: count, limit, offset, hasMore: offset + requests.length < count }
+        }
+      });
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      console.error('Error fetching agency contact requests:', errorMessage);
+      res.status(500).json({ success: false, error: 'Internal server error' });
+    }
+  }
+
+  /**
+   * Ask a listed agency that allows direct contact to get in touch, optionally about an
+   * offender both agencies have seen in the threat network
+   */
+  async createContactRequest(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const agencyId = this.requireAgency(req, res);
+      if (!agencyId) return;
+
+      const parsed = CreateAgencyContactRequestSchema.safeParse(req.body);
+      if (!parsed.success) {
+        res.status(400).json({ success: false, error: validationError(parsed.error) });
+        return;
+      }
+      const { toAgencyId, message, globalThreatId, contactEmail } = parsed.data;
+
+      if (toAgencyId === agencyId) {
+        res.status(400).json({ success: false, error: 'Cannot send a contact request to your own agency' });
+        return;
+      }
+
+      const recipient = await this.findListedAgency(toAgencyId, agencyId);
+      if (!recipient) {
+        res.status(404).json({ success: false, error: 'Agency not found' });
+        return;
+      }
+      if (!recipient.allowDirectContact) {
+        res.status(403).json({ success: false, error: 'This agency does not accept direct contact' });
+        return;
+      }
+      if (globalThreatId && !(await this.isThreatKnownTo(globalThreatId, agencyId))) {
+        res.status(404).json({ success: false, error: 'Threat not found' });
+        return;
+      }
+
+      const pending = await db.query.agencyContactRequests.findFirst({
+        where: and(
+          eq(agencyContactRequests.fromAgencyId, agencyId),
+          eq(agencyContactRequests.toAgencyId, toAgencyId),
+          eq(agencyContactRequests.status, 'PENDING')
+        ),
+        columns: { id: true }
+      });
+      if (pending) {
+        res.status(409).json({ success: false, error: 'A contact request to this agency is already pending' });
+        return;
+      }
+
+      const [[sender], recipientUser] = await Promise.all([
+        db
+          .select({ name: agencyDisplayName, email: users.email })
+          .from(users)
+          .leftJoin(agencyNetworkSettings, eq(agencyNetworkSettings.userId, users.id))
+          .where(eq(users.id, agencyId))
+          .limit(1),
+        db.query.users.findFirst({
+          where: eq(users.id, toAgencyId),
+          columns: { email: true }
+        })
+      ]);
+
+      const [request] = await db
+        .insert(agencyContactRequests)
+        .values({
+          fromAgencyId: agencyId,
+          toAgencyId,
+          globalThreatId: globalThreatId ?? null,
+          message,
+          fromContactEmail: contactEmail ?? sender.email
+        })
+        .returning();
+
+      if (recipientUser) {
+        const result = await EmailService.sendAgencyContactRequest({
+          to: recipientUser.email,
+          kind: 'REQUEST',
+          recipientName: recipient.name,
+          agencyName: sender.name,
+          message,
+          aboutSharedThreat: !!globalThreatId
+        });
+        if (!result.success) {
+          console.warn(`⚠️ Contact request email for agency ${toAgencyId} not sent: ${result.error}`);
+        }
+      }
+
+      res.status(201).json({ success: true, data: toContactRequestView(request, recipient, 'outgoing') });
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      console.error('Error creating agency contact request:', errorMessage);
+      res.status(500).json({ success: false, error: 'Internal server error' });
+    }
+  }
+
+  /**
+   * Accept or decline a pending contact request sent to the agency. Accepting shares both
+   * agencies' contact emails with each other.
+   */
+  async respondToContactRequest(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const agencyId = this.requireAgency(req, res);
+      if (!agencyId) return;
+
+      const parsed = RespondAgencyContactRequestSchema.safeParse(req.body);
+      if (!parsed.success) {
+        res.status(400).json({ success: false, error: validationError(parsed.error) });
+        return;
+      }
+      const { status, responseMessage, contactEmail } = parsed.data;
+
+      const request = await db.query.agencyContactRequests.findFirst({
+        where: and(
+          eq(agencyContactRequests.id, req.params.id),
+          eq(agencyContactRequests.toAgencyId, agencyId)
+        )
+      });
+      if (!request) {
+        res.status(404).json({ success: false, error: 'Contact request not found' });
+        return;
+      }
+      if (request.status !== 'PENDING') {
+        res.status(409).json({ success: false, error: 'Contact request is not pending' });
+        return;
+      }
+
+      const [responder] = await db
+        .select({ name: agencyDisplayName, email: users.email })
+        .from(users)
+        .leftJoin(agencyNetworkSettings, eq(agencyNetworkSettings.userId, users.id))
+        .where(eq(users.id, agencyId))
+        .limit(1);
+
+      const now = new Date();
+      const accepted = status === 'ACCEPTED';
+      const [updated] = await db
+        .update(agencyContactRequests)
+        .set({
+          status,
+          responseMessage: responseMessage ?? null,
+          toContactEmail: accepted ? (contactEmail ?? responder.email) : null,
+          respondedAt: now,
+          updatedAt: now
+        })
+        .where(and(eq(agencyContactRequests.id, request.id), eq(agencyContactRequests.status, 'PENDING')))
+        .returning();
+      if (!updated) {
+        res.status(409).json({ success: false, error: 'Contact request is not pending' });
+        return;
+      }
+
+      if (accepted) {
+        const [requester] = await db
+          .select({ name: agencyDisplayName, email: users.email })
+          .from(users)
+          .leftJoin(agencyNetworkSettings, eq(agencyNetworkSettings.userId, users.id))
+          .where(eq(users.id, request.fromAgencyId))
+          .limit(1);
+        if (requester) {
+          const result = await EmailService.sendAgencyContactRequest({
+            to: request.fromContactEmail,
+            kind: 'ACCEPTED',
+            recipientName: requester.name,
+            agencyName: responder.name,
+            message: responseMessage ?? '',
+            contactEmail: updated.toContactEmail ?? undefined,
+            aboutSharedThreat: !!request.globalThreatId
+          });
+          if (!result.success) {
+            console.warn(`⚠️ Contact request accepted email for agency ${request.fromAgencyId} not sent: ${result.error}`);
+          }
+        }
+      }
+
+      res.json({
+        success: true,
+        data: {
+          id: updated.id,
+          status: updated.status,
+          responseMessage: updated.responseMessage,
+          contactEmail: accepted ? updated.fromContactEmail : null,
+          respondedAt: updated.respondedAt
+        }
+      });
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      console.error('Error responding to agency contact request:', errorMessage);
+      res.status(500).json({ success: false, error: 'Internal server error' });
+    }
+  }
+
+  /**
+   * Withdraw a pending contact request the agency sent
+   */
+  async withdrawContactRequest(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const agencyId = this.requireAgency(req, res);
+      if (!agencyId) return;
+
+      const request = await db.query.agencyContactRequests.findFirst({
+        where: and(
+          eq(agencyContactRequests.id, req.params.id),
+          eq(agencyContactRequests.fromAgencyId, agencyId)
+        ),
+        columns: { id: true, status: true }
+      });
+      if (!request) {
+        res.status(404).json({ success: false, error: 'Contact request not found' });
+        return;
+      }
+      if (request.status !== 'PENDING') {
+        res.status(409).json({ success: false, error: 'Contact request is not pending' });
+        return;
+      }
+
+      await db
+        .update(agencyContactRequests)
+        .set({ status: 'WITHDRAWN', updatedAt: new Date() })
+        .where(and(eq(agencyContactRequests.id, request.id), eq(agencyContactRequests.status, 'PENDING')));
+
+      res.json({ success: true, data: { id: request.id, status: 'WITHDRAWN' } });
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      console.error('Error withdrawing agency contact request:', errorMessage);
+      res.status(500).json({ success: false, error: 'Internal server error' });
+    }
+  }
+}
+
+export const agencyNetworkController = new AgencyNetworkController();
@@ -0,0 +1,384 @@
+import { Response } from 'express';
+import { eq, and, or, asc, desc, isNull, sql, SQL } from 'drizzle-orm';
+import { db } from '../db';
+import {
+  autoBlockPolicies,
+  autoBlockPolicyEvents,
+  suspiciousAccounts,
+  instagramAccounts,
+  facebookPages,
+  AutoBlockPolicy
+} from '../db/schema';
+import { AuthRequest } from '../middleware/auth.middleware';
+import { getOwner } from '../middleware/delegation.middleware';
+import {
+  autoBlockPolicyService,
+  AutoBlockRule,
+  DEFAULT_AUTO_BLOCK_RULES,
+  POLICY_METRICS,
+  POLICY_OPERATORS,
+  POLICY_OUTCOMES
+} from '../services/autoBlockPolicy.service';
+
+type PolicyOwner = { userId: string | undefined; clientId: string | undefined };
+
+const MAX_NAME_LENGTH = 100;
+const MAX_PAGE_SIZE = 100;
+
+export class AutoBlockPoliciesController {
+  private ownershipCondition(owner: PolicyOwner): SQL {
+    return owner.clientId
+      ? eq(autoBlockPolicies.clientId, owner.clientId)
+      : eq(autoBlockPolicies.userId, owner.userId!);
+  }
+
+  private async findOwnedPolicy(id: string, owner: PolicyOwner): Promise<AutoBlockPolicy | null> {
+    const [policy] = await db
+      .select()
+      .from(autoBlockPolicies)
+      .where(and(eq(autoBlockPolicies.id, id), this.ownershipCondition(owner)))
+      .limit(1);
+    return policy ?? null;
+  }
+
+  /**
+   * Check that an Instagram account belongs to the effective owner
+   */
+  private async ownsInstagramAccount(instagramAccountId: string, owner: PolicyOwner): Promise<boolean> {
+    const accountOwnershipCondition = owner.clientId
+      ? eq(instagramAccounts.clientId, owner.clientId)
+      : eq(instagramAccounts.userId, owner.userId!);
+
+    const accountCheck = await db
+      .select({ id: instagramAccounts.id })
+      .from(instagramAccounts)
+      .where(and(eq(instagramAccounts.id, instagramAccountId), accountOwnershipCondition))
+      .limit(1);
+
+    return accountCheck.length > 0;
+  }
+
+  /**
+   * List policies, with the built-in default rules and the vocabulary rules are written in
+   */
+  async getPolicies(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const owner = getOwner(req);
+      if (!owner.userId && !owner.clientId) {
+        res.status(401).json({ success: false, error: 'Unauthorized' });
+        return;
+      }
+
+      const policies = await db
+        .select()
+        .from(autoBlockPolicies)
+        .where(this.ownershipCondition(owner))
+        .orderBy(asc(autoBlockPolicies.createdAt));
+
+      res.json({
+        success: true,
+        data: {
+          policies,
+          defaultRules: DEFAULT_AUTO_BLOCK_RULES,
+          metrics: POLICY_METRICS,
+          operators: POLICY_OPERATORS,
+          outcomes: POLICY_OUTCOMES
+        }
+      });
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      console.error('Error fetching auto-block policies:', errorMessage);
+      res.status(500).json({ success: false, error: 'Internal server error' });
+    }
+  }
+
+  /**
+   * Create a policy. Body: { name, description?, instagramAccountId? (omit for the default
+   * for all accounts), rules, isEnabled? }. One policy per scope.
+   */
+  async createPolicy(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const owner = getOwner(req);
+      if (!owner.userId && !owner.clientId) {
+        res.status(401).json({ success: false, error: 'Unauthorized' });
+        return;
+      }
+
+      const { name, description, instagramAccountId, rules, isEnabled } = req.body;
+
+      if (!name || typeof name !== 'string' || name.length > MAX_NAME_LENGTH) {
+        res.status(400).json({ success: false, error: `name is required (max ${MAX_NAME_LENGTH} characters)` });
+        return;
+      }
+
+      const rulesError = autoBlockPolicyService.validateRules(rules);
+      if (rulesError) {
+        res.status(400).json({ success: false, error: rulesError });
+        return;
+      }
+
+      if (instagramAccountId && !(await this.ownsInstagramAccount(instagramAccountId, owner))) {
+        res.status(403).json({ success: false, error: 'Instagram account not found or not authorized' });
+        return;
+      }
+
+      const [existing] = await db
+        .select({ id: autoBlockPolicies.id })
+        .from(autoBlockPolicies)
+        .where(and(
+          this.ownershipCondition(owner),
+          instagramAccountId
+            ? eq(autoBlockPolicies.instagramAccountId, instagramAccountId)
+            : isNull(autoBlockPolicies.instagramAccountId)
+        ))
+        .limit(1);
+      if (existing) {
+        res.status(409).json({
+          success: false,
+          error: instagramAccountId
+            ? 'This Instagram account already has a policy'
+            : 'A default policy already exists'
+        });
+        return;
+      }
+
+      const [policy] = await db.insert(autoBlockPolicies).values({
+        userId: owner.clientId ? null : owner.userId,
+        clientId: owner.clientId || null,
+        instagramAccountId: instagramAccountId || null,
+        name,
+        description: description || null,
+        rules,
+        isEnabled: isEnabled !== false
+      }).returning();
+
+      res.status(201).json({ success: true, data: policy });
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      console.error('Error creating auto-block policy:', errorMessage);
+      res.status(500).json({ success: false, error: 'Internal server error' });
+    }
+  }
+
+  /**
+   * Update a policy's name, description, rules or isEnabled (its scope is fixed)
+   */
+  async updatePolicy(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const owner = getOwner(req);
+      if (!owner.userId && !owner.clientId) {
+        res.status(401).json({ success: false, error: 'Unauthorized' });
+        return;
+      }
+
+      const existing = await this.findOwnedPolicy(req.params.id, owner);
+      if (!existing) {
+        res.status(404).json({ success: false, error: 'Auto-block policy not found' });
+        return;
+      }
+
+      const { name, description, rules, isEnabled } = req.body;
+      const updates: Partial<AutoBlockPolicy> = {};
+
+      if (name !== undefined) {
+        if (!name || typeof name !== 'string' || name.length > MAX_NAME_LENGTH) {
+          res.status(400).json({ success: false, error: `name is required (max ${MAX_NAME_LENGTH} characters)` });
+          return;
+        }
+        updates.name = name;
+      }
+      if (description !== undefined) updates.description = description || null;
+      if (rules !== undefined) {
+        const rulesError = autoBlockPolicyService.validateRules(rules);
+        if (rulesError) {
+          res.status(400).json({ success: false, error: rulesError });
+          return;
+        }
+        updates.rules = rules;
+      }
+      if (isEnabled !== undefined) updates.isEnabled = isEnabled === true;
+
+      const [policy] = await db
+        .update(autoBlockPolicies)
+        .set({ ...updates, updatedAt: new Date() })
+        .where(eq(autoBlockPolicies.id, existing.id))
+        .returning();
+
+      res.json({ success: true, data: policy });
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      console.error('Error updating auto-block policy:', errorMessage);
+      res.status(500).json({ success: false, error: 'Internal server error' });
+    }
+  }
+
+  /**
+   * Delete a policy (its events are kept)
+   */
+  async deletePolicy(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const owner = getOwner(req);
+      if (!owner.userId && !owner.clientId) {
+        res.status(401).json({ success: false, error: 'Unauthorized' });
+        return;
+      }
+
+      const existing = await this.findOwnedPolicy(req.params.id, owner);
+      if (!existing) {
+        res.status(404).json({ success: false, error: 'Auto-block policy not found' });
+        return;
+      }
+
+      await db.delete(autoBlockPolicies).where(eq(autoBlockPolicies.id, existing.id));
+
+      res.json({ success: true, message: 'Auto-block policy deleted' });
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      console.error('Error deleting auto-block policy:', errorMessage);
+      res.status(500).json({ success: false, error: 'Internal server error' });
+    }
+  }
+
+  /**
+   * Preview draft rules against existing suspicious accounts.
+   * Body: { rules, instagramAccountId? (omit for all the owner's accounts) }
+   */
+  async previewRules(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const owner = getOwner(req);
+      if (!owner.userId && !owner.clientId) {
+        res.status(401).json({ success: false, error: 'Unauthorized' });
+        return;
+      }
+
+      const { rules, instagramAccountId } = req.body;
+      const rulesError = autoBlockPolicyService.validateRules(rules);
+      if (rulesError) {
+        res.status(400).json({ success: false, error: rulesError });
+        return;
+      }
+
+      if (instagramAccountId && !(await this.ownsInstagramAccount(instagramAccountId, owner))) {
+        res.status(403).json({ success: false, error: 'Instagram account not found or not authorized' });
+        return;
+      }
+
+      const preview = await autoBlockPolicyService.preview(owner, rules as AutoBlockRule[], instagramAccountId || null);
+
+      res.json({ success: true, data: preview });
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      console.error('Error previewing auto-block rules:', errorMessage);
+      res.status(500).json({ success: false, error: 'Internal server error' });
+    }
+  }
+
+  /**
+   * Preview a saved policy against the existing suspicious accounts in its scope
+   */
+  async previewPolicy(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const owner = getOwner(req);
+      if (!owner.userId && !owner.clientId) {
+        res.status(401).json({ success: false, error: 'Unauthorized' });
+        return;
+      }
+
+      const policy = await this.findOwnedPolicy(req.params.id, owner);
+      if (!policy) {
+        res.status(404).json({ success: false, error: 'Auto-block policy not found' });
+        return;
+      }
+
+      const preview = await autoBlockPolicyService.preview(
+        owner,
+        policy.rules as AutoBlockRule[],
+        policy.instagramAccountId
+      );
+
+      res.json({ success: true, data: { policyId: policy.id, ...preview } });
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      console.error('Error previewing auto-block policy:', errorMessage);
+      res.status(500).json({ success: false, error: 'Internal server error' });
+    }
+  }
+
+  /**
+   * Outcomes policies applied, newest first.
+   * Query: suspiciousAccountId, policyId, outcome, limit, offset
+   */
+  async getEvents(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const owner = getOwner(req);
+      if (!owner.userId && !owner.clientId) {
+        res.status(401).json({ success: false, error: 'Unauthorized' });
+        return;
+      }
+
+      const limit = Math.min(Math.max(parseInt(req.query.limit as string) || 50, 1), MAX_PAGE_SIZE);
+      const offset = Math.max(parseInt(req.query.offset as string) || 0, 0);
+
+      // Events on accounts seen on the owner's Instagram accounts or Facebook Pages
+      const conditions: SQL[] = [
+        owner.clientId
+          ? or(eq(instagramAccounts.clientId, owner.clientId), eq(facebookPages.clientId, owner.clientId))!
+          : or(eq(instagramAccounts.userId, owner.userId!), eq(facebookPages.userId, owner.userId!))!
+      ];
+      if (typeof req.query.suspiciousAccountId === 'string') {
+        conditions.push(eq(autoBlockPolicyEvents.suspiciousAccountId, req.query.suspiciousAccountId));
+      }
+      if (typeof req.query.policyId === 'string') {
+        conditions.push(eq(autoBlockPolicyEvents.policyId, req.query.policyId));
+      }
+      if (typeof req.query.outcome === 'string' && (POLICY_OUTCOMES as readonly string[]).includes(req.query.outcome)) {
+        conditions.push(eq(autoBlockPolicyEvents.outcome, req.query.outcome));
+      }
+      const where = and(...conditions);
+
+      const [rows, [{ count }]] = await Promise.all([
+        db
+          .select({
+            event: autoBlockPolicyEvents,
+            commenterUsername: suspiciousAccounts.commenterUsername,
+            instagramAccountId: suspiciousAccounts.instagramAccountId,
+            facebookPageId: suspiciousAccounts.facebookPageId
+          })
+          .from(autoBlockPolicyEvents)
+          .innerJoin(suspiciousAccounts, eq(autoBlockPolicyEvents.suspiciousAccountId, suspiciousAccounts.id))
+          .leftJoin(instagramAccounts, eq(suspiciousAccounts.instagramAccountId, instagramAccounts.id))
+          .leftJoin(facebookPages, eq(suspiciousAccounts.facebookPageId, facebookPages.id))
+          .where(where)
+          .orderBy(desc(autoBlockPolicyEvents.createdAt))
+          .limit(limit)
+          .offset(offset),
+        db
+          .select({ count: sql<number>`count(*)::int` })
+          .from(autoBlockPolicyEvents)
+          .innerJoin(suspiciousAccounts, eq(autoBlockPolicyEvents.suspiciousAccountId, suspiciousAccounts.id))
+          .leftJoin(instagramAccounts, eq(suspiciousAccounts.instagramAccountId, instagramAccounts.id))
+          .leftJoin(facebookPages, eq(suspiciousAccounts.facebookPageId, facebookPages.id))
+          .where(where)
+      ]);
+
+      res.json({
+        success: true,
+        data: {
+          events: rows.map(row => ({
+            ...row.event,
+            commenterUsername: row.commenterUsername,
+            instagramAccountId: row.instagramAccountId,
+            facebookPageId: row.facebookPageId
+          })),
+          pagination: { total: count, limit, offset, hasMore: offset + rows.length < count }
+        }
+      });
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      console.error('Error fetching auto-block policy events:', errorMessage);
+      res.status(500).json({ success: false, error: 'Internal server error' });
+    }
+  }
+}
+
+export const autoBlockPoliciesController = new AutoBlockPoliciesController();
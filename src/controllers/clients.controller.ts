@@ -32,7 +32,11 @@ import {
   followerHistory,
   accountCommentMap,
   evidenceRecords,
-  pageInstagramConnections
+  pageInstagramConnections,
+  autoBlockPolicies,
+  abuserProfiles,
+  incidents,
+  moderationProfiles
 } from '../db/schema';
 import { AuthRequest } from '../middleware/auth.middleware';
 import { storageService } from '../services/storage.service';
@@ -690,6 +694,7 @@ export async function deleteClient(
         await tx.delete(moderationSettings).where(inArray(moderationSettings.instagramAccountId, igAccountIds));
         await tx.delete(customFilterAccounts).where(inArray(customFilterAccounts.instagramAccountId, igAccountIds));
         await tx.delete(customFilters).where(inArray(customFilters.instagramAccountId, igAccountIds));
+        await tx.delete(keywordFilters).where(inArray(keywordFilters.instagramAccountId, igAccountIds));
         await tx.delete(whitelistedIdentifiers).where(inArray(whitelistedIdentifiers.instagramAccountId, igAccountIds));
 
         // Delete suspicious accounts for these Instagram accounts
@@ -772,6 +777,30 @@ export async function deleteClient(
           await tx.delete(posts).where(inArray(posts.id, fbPostIds));
         }
 
+        // Delete suspicious accounts seen on these Facebook pages
+        const fbSuspiciousAccounts = await tx.select({ id: suspiciousAccounts.id })
+          .from(suspiciousAccounts)
+          .where(inArray(suspiciousAccounts.facebookPageId, fbPageIds));
+
+        if (fbSuspiciousAccounts.length > 0) {
+          const fbSuspAccIds: string[] = fbSuspiciousAccounts.map((sa: { id: string }) => sa.id);
+
+          await tx.delete(extractedIdentifiers).where(inArray(extractedIdentifiers.suspiciousAccountId, fbSuspAccIds));
+
+          const fbBotConnections = await tx.query.botNetworkConnections.findMany({
+            where: inArray(botNetworkConnections.suspiciousAccountId, fbSuspAccIds),
+            columns: { id: true }
+          });
+          const fbBotConnectionIds: string[] = fbBotConnections.map((bc: { id: string }) => bc.id);
+
+          if (fbBotConnectionIds.length > 0) {
+            await tx.delete(mastermindMentions).where(inArray(mastermindMentions.botConnectionId, fbBotConnectionIds));
+            await tx.delete(botNetworkConnections).where(inArray(botNetworkConnections.id, fbBotConnectionIds));
+          }
+
+          await tx.delete(suspiciousAccounts).where(inArray(suspiciousAccounts.id, fbSuspAccIds));
+        }
+
         // Delete page-Instagram connections for these Facebook pages
         await tx.delete(pageInstagramConnections).where(
           inArray(pageInstagramConnections.facebookPageId, fbPageIds)
@@ -792,6 +821,11 @@ export async function deleteClient(
       await tx.delete(keywordFilters).where(eq(keywordFilters.clientId, clientId));
       await tx.delete(customFilters).where(eq(customFilters.clientId, clientId));
       await tx.delete(whitelistedIdentifiers).where(eq(whitelistedIdentifiers.clientId, clientId));
+      await tx.delete(autoBlockPolicies).where(eq(autoBlockPolicies.clientId, clientId));
+      await tx.delete(abuserProfiles).where(eq(abuserProfiles.clientId, clientId));
+      await tx.delete(moderationProfiles).where(eq(moderationProfiles.clientId, clientId));
+      // Account incidents went with the accounts; owner-wide (content) ones remain. Timelines cascade.
+      await tx.delete(incidents).where(eq(incidents.clientId, clientId));
 
       // Get and delete legal cases and their evidence maps
       const clientLegalCases = await tx.query.legalCases.findMany({
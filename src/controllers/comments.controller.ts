@@ -1,13 +1,14 @@
 import { Response } from 'express';
 import { db } from '../db';
-import { comments, posts, instagramAccounts, moderationLogs, suspiciousAccounts, knownThreatsWatchlist, globalThreatNetwork, facebookPages } from '../db/schema';
+import { comments, posts, instagramAccounts, moderationLogs, suspiciousAccounts, knownThreatsWatchlist, globalThreatNetwork, facebookPages, CommentRevision } from '../db/schema';
 import { AuthRequest } from '../middleware/auth.middleware';
 import { DelegationRequest, getEffectiveOwner } from '../middleware/delegation.middleware';
-import { ApiResponse } from '../types';
+import { ApiResponse, DecisionTraceStep } from '../types';
 import { eq, and, desc, inArray, sql, or } from 'drizzle-orm';
 import { instagramService } from '../services/instagram.service';
 import { facebookService } from '../services/facebook.service';
 import { checkFeatureAllowed } from '../services/autumn.service';
+import { commentRevisionService } from '../services/commentRevision.service';
 
 /** Normalize username for comparison (lowercase, strip @). */
 function normalizeUsername(s: string | null | undefined): string {
@@ -70,6 +71,8 @@ interface CommentDataRow {
   reviewedAt: Date | null;
   reviewAction: string | null;
   isAllowed: boolean | null;
+  lastEditedAt: Date | null;
+  revisionCount: number | null;
   postSource: 'instagram' | 'facebook';
   postIgPostId: string | null;
   postFbPostId: string | null;
@@ -110,6 +113,20 @@ interface ModerationLogRow {
   createdAt: Date;
 }
 
+interface DecisionTraceEntry {
+  moderationLogId: string;
+  category: string;
+  actionTaken: string;
+  riskScore: number;
+  rationale: string;
+  isShadowMode: boolean | null;
+  isClassificationCacheHit: boolean | null;
+  classificationCacheSourceCommentId: string | null;
+  settingsVersionId: string | null;
+  decisionTrace: DecisionTraceStep[] | null;
+  createdAt: Date | null;
+}
+
 interface WatchlistEntryRow {
   id: string;
   clientId: string | null;
@@ -228,6 +245,8 @@ interface CommentWithDetails {
   reviewedAt: string | null;
   reviewAction: string | null;
   isAllowed: boolean;
+  lastEditedAt: string | null; // Set once the commenter has edited the text (history: /revisions)
+  revisionCount: number;
   // Post information
   post: {
     id: string;
@@ -411,6 +430,8 @@ export async function getComments(
         reviewedAt: comments.reviewedAt,
         reviewAction: comments.reviewAction,
         isAllowed: comments.isAllowed,
+        lastEditedAt: comments.lastEditedAt,
+        revisionCount: comments.revisionCount,
         // Post information
         postSource: posts.source,
         postIgPostId: posts.igPostId,
@@ -572,6 +593,8 @@ export async function getComments(
         reviewedAt: comment.reviewedAt?.toISOString() ?? null,
         reviewAction: comment.reviewAction ?? null,
         isAllowed: comment.isAllowed ?? false,
+        lastEditedAt: comment.lastEditedAt?.toISOString() ?? null,
+        revisionCount: comment.revisionCount ?? 0,
         post: {
           id: comment.postId,
           igPostId: comment.postIgPostId,
@@ -1668,3 +1691,161 @@ export async function reportComment(
     });
   }
 }
+
+/**
+ * Check that the effective owner (user or delegated client) owns the comment's account/page
+ */
+async function ownsCommentSource(
+  post: { instagramAccountId: string | null; facebookPageId: string | null },
+  ownerUserId: string,
+  clientId: string | undefined
+): Promise<boolean> {
+  if (post.instagramAccountId) {
+    const account = await db.query.instagramAccounts.findFirst({
+      where: and(
+        eq(instagramAccounts.id, post.instagramAccountId),
+        clientId ? eq(instagramAccounts.clientId, clientId) : eq(instagramAccounts.userId, ownerUserId)
+      )
+    });
+    return !!account;
+  }
+  if (post.facebookPageId) {
+    const page = await db.query.facebookPages.findFirst({
+      where: and(
+        eq(facebookPages.id, post.facebookPageId),
+        clientId ? eq(facebookPages.clientId, clientId) : eq(facebookPages.userId, ownerUserId)
+      )
+    });
+    return !!page;
+  }
+  return false;
+}
+
+/**
+ * Get the structured decision trace for every moderation run on a comment (newest first)
+ */
+export async function getDecisionTrace(
+  req: AuthRequest,
+  res: Response<ApiResponse<DecisionTraceEntry[]>>
+): Promise<void> {
+  try {
+    if (!req.userId) {
+      res.status(401).json({
+        success: false,
+        error: 'Unauthorized'
+      });
+      return;
+    }
+
+    const { userId: effectiveUserId, clientId: effectiveClientId } = getEffectiveOwner(req as DelegationRequest);
+    const { commentId } = req.params;
+
+    const comment = await db.query.comments.findFirst({
+      where: eq(comments.id, commentId),
+      with: { post: true }
+    });
+
+    if (!comment) {
+      res.status(404).json({
+        success: false,
+        error: 'Comment not found'
+      });
+      return;
+    }
+
+    if (!(await ownsCommentSource(comment.post, effectiveUserId ?? req.userId, effectiveClientId))) {
+      res.status(403).json({
+        success: false,
+        error: 'Forbidden'
+      });
+      return;
+    }
+
+    const logs = await db
+      .select({
+        moderationLogId: moderationLogs.id,
+        category: moderationLogs.category,
+        actionTaken: moderationLogs.actionTaken,
+        riskScore: moderationLogs.riskScore,
+        rationale: moderationLogs.rationale,
+        isShadowMode: moderationLogs.isShadowMode,
+        isClassificationCacheHit: moderationLogs.isClassificationCacheHit,
+        classificationCacheSourceCommentId: moderationLogs.classificationCacheSourceCommentId,
+        settingsVersionId: moderationLogs.settingsVersionId,
+        decisionTrace: moderationLogs.decisionTrace,
+        createdAt: moderationLogs.createdAt
+      })
+      .from(moderationLogs)
+      .where(eq(moderationLogs.commentId, commentId))
+      .orderBy(desc(moderationLogs.createdAt));
+
+    res.json({
+      success: true,
+      data: logs.map(log => ({
+        ...log,
+        decisionTrace: (log.decisionTrace as DecisionTraceStep[] | null) ?? null
+      }))
+    });
+  } catch (error) {
+    console.error('Get decision trace error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to get decision trace'
+    });
+  }
+}
+
+/**
+ * Get the revision history of a comment (original text, commenter edits, deletion), oldest first
+ */
+export async function getCommentRevisions(
+  req: AuthRequest,
+  res: Response<ApiResponse<CommentRevision[]>>
+): Promise<void> {
+  try {
+    if (!req.userId) {
+      res.status(401).json({
+        success: false,
+        error: 'Unauthorized'
+      });
+      return;
+    }
+
+    const { userId: effectiveUserId, clientId: effectiveClientId } = getEffectiveOwner(req as DelegationRequest);
+    const { commentId } = req.params;
+
+    const comment = await db.query.comments.findFirst({
+      where: eq(comments.id, commentId),
+      with: { post: true }
+    });
+
+    if (!comment) {
+      res.status(404).json({
+        success: false,
+        error: 'Comment not found'
+      });
+      return;
+    }
+
+    if (!(await ownsCommentSource(comment.post, effectiveUserId ?? req.userId, effectiveClientId))) {
+      res.status(403).json({
+        success: false,
+        error: 'Forbidden'
+      });
+      return;
+    }
+
+    const revisions = await commentRevisionService.getRevisions(commentId);
+
+    res.json({
+      success: true,
+      data: revisions
+    });
+  } catch (error) {
+    console.error('Get comment revisions error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to get comment revisions'
+    });
+  }
+}
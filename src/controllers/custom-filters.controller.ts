@@ -4,6 +4,8 @@ import { db } from '../db';
 import { customFilters, customFilterAccounts, instagramAccounts, comments, posts } from '../db/schema';
 import { NewCustomFilter } from '../db/schema';
 import { llmService } from '../services/llm.service';
+import { aiUsageService } from '../services/aiUsage.service';
+import { invalidateClassificationCache } from '../services/cache.service';
 
 interface AuthenticatedRequest extends Request {
   userId?: string;
@@ -204,10 +206,8 @@ export class CustomFiltersController {
       }
 
       // Generate custom filter prompt using LLM
-      const filterPrompt = await llmService.generateCustomFilterPrompt(
-        comment.text,
-        'unknown',
-        action
+      const filterPrompt = await aiUsageService.runWithOwner({ userId, clientId }, () =>
+        llmService.generateCustomFilterPrompt(comment.text, 'unknown', action)
       );
 
       const filterName = `Auto-filter: ${comment.text.substring(0, 50)}${comment.text.length > 50 ? '...' : ''}`;
@@ -226,6 +226,8 @@ export class CustomFiltersController {
         description: filterDescription
       }).returning();
 
+      invalidateClassificationCache({ userId, clientId });
+
       res.json({
         success: true,
         data: {
@@ -329,6 +331,8 @@ export class CustomFiltersController {
         autoFlag
       }).returning();
 
+      invalidateClassificationCache({ userId, clientId });
+
       res.status(201).json({
         success: true,
         data: createdFilter
@@ -449,6 +453,8 @@ export class CustomFiltersController {
         .where(eq(customFilters.id, id))
         .returning();
 
+      invalidateClassificationCache({ userId, clientId });
+
       res.json({
         success: true,
         data: updatedFilter
@@ -506,6 +512,8 @@ export class CustomFiltersController {
       // Delete the filter
       await db.delete(customFilters).where(eq(customFilters.id, id));
 
+      invalidateClassificationCache({ userId, clientId });
+
       res.json({ success: true });
     } catch (error: unknown) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
@@ -628,10 +636,8 @@ export class CustomFiltersController {
 
         try {
           // Run LLM filter check
-          const filterResult = await llmService.evaluateCustomFilter(
-            comment.text,
-            filter.prompt,
-            filter.category
+          const filterResult = await aiUsageService.runWithOwner({ userId, clientId }, () =>
+            llmService.evaluateCustomFilter(comment.text, filter.prompt, filter.category)
           );
 
           if (filterResult.matches) {
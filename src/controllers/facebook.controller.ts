@@ -617,6 +617,12 @@ export async function connectSelectedAccounts(
           deepSyncFacebookPage(pageId).catch((err) => {
             console.error(`❌ [AUTO-SYNC] Error for FB page ${discoveredPage.pageName}:`, err);
           });
+          // Real-time comments via feed webhooks (polling remains the fallback)
+          facebookService.subscribePageToFeed(discoveredPage.pageId, pageAccessToken).then((subscribed) => {
+            if (!subscribed) {
+              console.warn(`⚠️  Feed webhook subscription failed for FB page ${discoveredPage.pageName}, relying on polling`);
+            }
+          });
           connectedAccounts.push(`${discoveredPage.pageName} (Facebook Page)`);
         }
       } catch (error: unknown) {
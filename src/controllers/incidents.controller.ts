@@ -0,0 +1,257 @@
+import { Response } from 'express';
+import { AuthRequest } from '../middleware/auth.middleware';
+import { getActor, getOwner } from '../middleware/delegation.middleware';
+import { incidentService, IncidentStatus } from '../services/incident.service';
+import { getPageAccessToken } from './instagram.controller';
+import { Incident } from '../db/schema';
+import { ReEvaluateCommentJob } from '../types';
+
+const VALID_STATUSES: IncidentStatus[] = ['ACTIVE', 'STOOD_DOWN'];
+const MAX_PAGE_SIZE = 100;
+const MAX_NOTE_LENGTH = 5000;
+
+export class IncidentsController {
+  /**
+   * Queue the comments an incident's lockdown hid unclassified for re-evaluation,
+   * so the benign ones are unhidden. Returns how many were queued.
+   */
+  private async requeueLockdownHiddenComments(incident: Incident): Promise<number> {
+    const hidden = await incidentService.getLockdownHiddenComments(incident);
+    if (hidden.length === 0) return 0;
+
+    const accessToken = await getPageAccessToken(hidden[0].instagramAccountId);
+    if (!accessToken) {
+      console.warn(`⚠️  No access token for account ${hidden[0].instagramAccountId}: ${hidden.length} lockdown-hidden comment(s) of incident ${incident.id} left hidden`);
+      return 0;
+    }
+
+    const { commentQueue } = await import('../queue/commentQueue');
+    return commentQueue.enqueueBatch<ReEvaluateCommentJob>(hidden.map(comment => ({
+      type: 'REEVALUATE_COMMENT',
+      data: {
+        commentId: comment.commentId,
+        commentText: comment.commentText,
+        commenterId: comment.commenterId,
+        commenterUsername: comment.commenterUsername,
+        postId: comment.postId,
+        instagramAccountId: comment.instagramAccountId,
+        igCommentId: comment.igCommentId ?? undefined,
+        accessToken,
+        reason: 'LOCKDOWN'
+      }
+    })));
+  }
+
+  /**
+   * List incidents (newest first). Query: status, instagramAccountId, limit, offset
+   */
+  async listIncidents(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const owner = getOwner(req);
+      if (!owner.userId && !owner.clientId) {
+        res.status(401).json({ success: false, error: 'Unauthorized' });
+        return;
+      }
+
+      const status = typeof req.query.status === 'string'
+        ? req.query.status.toUpperCase() as IncidentStatus
+        : undefined;
+      if (status && !VALID_STATUSES.includes(status)) {
+        res.status(400).json({ success: false, error: `Invalid status. Must be one of: ${VALID_STATUSES.join(', ')}` });
+        return;
+      }
+
+      const instagramAccountId = typeof req.query.instagramAccountId === 'string' ? req.query.instagramAccountId : undefined;
+      const limit = Math.min(Math.max(parseInt(req.query.limit as string) || 50, 1), MAX_PAGE_SIZE);
+      const offset = Math.max(parseInt(req.query.offset as string) || 0, 0);
+
+      const { incidents, total } = await incidentService.listIncidents(owner, { status, instagramAccountId, limit, offset });
+
+      res.json({
+        success: true,
+        data: {
+          incidents,
+          pagination: { total, limit, offset, hasMore: offset + incidents.length < total }
+        }
+      });
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      console.error('Error listing incidents:', errorMessage);
+      res.status(500).json({ success: false, error: 'Internal server error' });
+    }
+  }
+
+  /**
+   * Stand down an active incident: lifts the lockdown, so the account's own settings apply again.
+   * Comments the lockdown hid without classifying them are re-queued for classification.
+   */
+  async standDown(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const owner = getOwner(req);
+      if (!owner.userId && !owner.clientId) {
+        res.status(401).json({ success: false, error: 'Unauthorized' });
+        return;
+      }
+
+      const existing = await incidentService.getIncident(req.params.id, owner);
+      if (!existing) {
+        res.status(404).json({ success: false, error: 'Incident not found' });
+        return;
+      }
+      if (existing.status !== 'ACTIVE') {
+        res.status(409).json({ success: false, error: 'Incident is not active' });
+        return;
+      }
+
+      const incident = await incidentService.standDown(existing.id, getActor(req));
+      if (!incident) {
+        res.status(409).json({ success: false, error: 'Incident is not active' });
+        return;
+      }
+
+      const requeued = await this.requeueLockdownHiddenComments(incident);
+      if (requeued > 0) {
+        console.log(`🔁 Incident ${incident.id} stood down: ${requeued} lockdown-hidden comment(s) queued for classification`);
+      }
+
+      res.json({ success: true, data: incident });
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      console.error('Error standing down incident:', errorMessage);
+      res.status(500).json({ success: false, error: 'Internal server error' });
+    }
+  }
+
+  /**
+   * Get an incident with its timeline
+   */
+  async getIncident(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const owner = getOwner(req);
+      if (!owner.userId && !owner.clientId) {
+        res.status(401).json({ success: false, error: 'Unauthorized' });
+        return;
+      }
+
+      const incident = await incidentService.getIncident(req.params.id, owner);
+      if (!incident) {
+        res.status(404).json({ success: false, error: 'Incident not found' });
+        return;
+      }
+
+      const timeline = await incidentService.getTimeline(incident.id);
+      res.json({ success: true, data: { ...incident, timeline } });
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      console.error('Error fetching incident:', errorMessage);
+      res.status(500).json({ success: false, error: 'Internal server error' });
+    }
+  }
+
+  /**
+   * Summary report: final once the incident is stood down, otherwise as of now
+   */
+  async getSummary(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const owner = getOwner(req);
+      if (!owner.userId && !owner.clientId) {
+        res.status(401).json({ success: false, error: 'Unauthorized' });
+        return;
+      }
+
+      const incident = await incidentService.getIncident(req.params.id, owner);
+      if (!incident) {
+        res.status(404).json({ success: false, error: 'Incident not found' });
+        return;
+      }
+
+      const summary = await incidentService.getSummary(incident);
+      res.json({ success: true, data: { ...summary, isFinal: incident.status === 'STOOD_DOWN' } });
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      console.error('Error building incident summary:', errorMessage);
+      res.status(500).json({ success: false, error: 'Internal server error' });
+    }
+  }
+
+  /**
+   * Add an operator note to the timeline. Body: { note }
+   */
+  async addNote(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const owner = getOwner(req);
+      if (!owner.userId && !owner.clientId) {
+        res.status(401).json({ success: false, error: 'Unauthorized' });
+        return;
+      }
+
+      const note = typeof req.body?.note === 'string' ? req.body.note.trim() : '';
+      if (!note) {
+        res.status(400).json({ success: false, error: 'note is required' });
+        return;
+      }
+      if (note.length > MAX_NOTE_LENGTH) {
+        res.status(400).json({ success: false, error: `note must be at most ${MAX_NOTE_LENGTH} characters` });
+        return;
+      }
+
+      const incident = await incidentService.getIncident(req.params.id, owner);
+      if (!incident) {
+        res.status(404).json({ success: false, error: 'Incident not found' });
+        return;
+      }
+
+      const actor = getActor(req);
+      const event = await incidentService.addEvent(incident.id, {
+        eventType: 'NOTE',
+        actorUserId: actor.userId,
+        actorClientId: actor.clientId,
+        details: { note }
+      });
+      res.status(201).json({ success: true, data: event });
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      console.error('Error adding incident note:', errorMessage);
+      res.status(500).json({ success: false, error: 'Internal server error' });
+    }
+  }
+
+  /**
+   * Link the incident to a legal case. Body: { legalCaseId } (null to unlink)
+   */
+  async linkLegalCase(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const owner = getOwner(req);
+      if (!owner.userId && !owner.clientId) {
+        res.status(401).json({ success: false, error: 'Unauthorized' });
+        return;
+      }
+
+      const legalCaseId = req.body?.legalCaseId;
+      if (legalCaseId !== null && typeof legalCaseId !== 'string') {
+        res.status(400).json({ success: false, error: 'legalCaseId must be a string or null' });
+        return;
+      }
+
+      const incident = await incidentService.getIncident(req.params.id, owner);
+      if (!incident) {
+        res.status(404).json({ success: false, error: 'Incident not found' });
+        return;
+      }
+
+      const updated = await incidentService.linkLegalCase(incident, legalCaseId, owner, getActor(req));
+      if (!updated) {
+        res.status(404).json({ success: false, error: 'Legal case not found' });
+        return;
+      }
+
+      res.json({ success: true, data: updated });
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      console.error('Error linking incident to legal case:', errorMessage);
+      res.status(500).json({ success: false, error: 'Internal server error' });
+    }
+  }
+}
+
+export const incidentsController = new IncidentsController();
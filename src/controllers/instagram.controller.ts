@@ -1302,7 +1302,7 @@ export async function syncAccountData(
                 instagramAccountId: accountId,
                 igCommentId: comment.id,
                 accessToken: accessToken
-              });
+              }, { priority: 'BACKFILL' });
               
               console.log(isRefreshRun ? `    🔄 Enqueued comment ${comment.id} for re-moderation (refresh)` : `    🔄 Enqueued comment ${comment.id} for moderation`);
               } catch (commentError: unknown) {
@@ -1375,7 +1375,7 @@ export async function syncAccountData(
                   instagramAccountId: accountId,
                   igCommentId: reply.id,
                   accessToken: accessToken
-                });
+                }, { priority: 'BACKFILL' });
                 if (isRefreshRun) console.log(`    🔄 Enqueued reply ${reply.id} for re-moderation (refresh)`);
               } else {
                 console.warn(`    ⚠️  Parent comment ${reply.parentCommentId} not found for reply ${reply.id}, storing as top-level`);
@@ -1439,7 +1439,7 @@ export async function syncAccountData(
                   instagramAccountId: accountId,
                   igCommentId: reply.id,
                   accessToken: accessToken
-                });
+                }, { priority: 'BACKFILL' });
                 if (isRefreshRun) console.log(`    🔄 Enqueued reply ${reply.id} for re-moderation (refresh)`);
               }
             } catch (replyError: unknown) {
@@ -0,0 +1,351 @@
+import { Response } from 'express';
+import { eq, and, isNull, sql } from 'drizzle-orm';
+import { db } from '../db';
+import { keywordFilters, instagramAccounts, NewKeywordFilter } from '../db/schema';
+import { AuthRequest } from '../middleware/auth.middleware';
+import { getOwner } from '../middleware/delegation.middleware';
+import { keywordFilterService } from '../services/keywordFilter.service';
+import { invalidateClassificationCache } from '../services/cache.service';
+
+const VALID_CATEGORIES = ['blackmail', 'threat', 'defamation', 'harassment', 'spam', 'benign'];
+const VALID_PATTERN_TYPES = ['KEYWORD', 'REGEX'];
+
+export class KeywordFiltersController {
+  /**
+   * Check that an Instagram account belongs to the effective owner
+   */
+  private async ownsInstagramAccount(
+    instagramAccountId: string,
+    owner: { userId: string | undefined; clientId: string | undefined }
+  ): Promise<boolean> {
+    const accountOwnershipCondition = owner.clientId
+      ? eq(instagramAccounts.clientId, owner.clientId)
+      : eq(instagramAccounts.userId, owner.userId!);
+
+    const accountCheck = await db
+      .select({ id: instagramAccounts.id })
+      .from(instagramAccounts)
+      .where(and(eq(instagramAccounts.id, instagramAccountId), accountOwnershipCondition))
+      .limit(1);
+
+    return accountCheck.length > 0;
+  }
+
+  /**
+   * Get all keyword filters for the authenticated user (global + account-specific)
+   * Global filters apply to all accounts; account-specific filters apply on top of them
+   */
+  async getKeywordFilters(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const owner = getOwner(req);
+      if (!owner.userId && !owner.clientId) {
+        res.status(401).json({ success: false, error: 'Unauthorized' });
+        return;
+      }
+
+      const ownershipCondition = owner.clientId
+        ? eq(keywordFilters.clientId, owner.clientId)
+        : eq(keywordFilters.userId, owner.userId!);
+
+      // Return ALL filters (enabled and disabled) so UI can show toggle state
+      const globalFilters = await db
+        .select()
+        .from(keywordFilters)
+        .where(and(isNull(keywordFilters.instagramAccountId), ownershipCondition))
+        .orderBy(keywordFilters.createdAt);
+
+      const accountSpecificFilters = await db
+        .select({
+          id: keywordFilters.id,
+          clientId: keywordFilters.clientId,
+          userId: keywordFilters.userId,
+          instagramAccountId: keywordFilters.instagramAccountId,
+          pattern: keywordFilters.pattern,
+          patternType: keywordFilters.patternType,
+          category: keywordFilters.category,
+          isWhitelist: keywordFilters.isWhitelist,
+          isEnabled: keywordFilters.isEnabled,
+          description: keywordFilters.description,
+          createdAt: keywordFilters.createdAt,
+          updatedAt: keywordFilters.updatedAt,
+          instagramAccount: {
+            id: instagramAccounts.id,
+            username: instagramAccounts.username,
+            name: instagramAccounts.name
+          }
+        })
+        .from(keywordFilters)
+        .innerJoin(instagramAccounts, eq(keywordFilters.instagramAccountId, instagramAccounts.id))
+        .where(and(sql`${keywordFilters.instagramAccountId} IS NOT NULL`, ownershipCondition))
+        .orderBy(keywordFilters.createdAt);
+
+      res.json({
+        success: true,
+        data: {
+          global: globalFilters,
+          accountSpecific: accountSpecificFilters
+        }
+      });
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      console.error('Error fetching keyword filters:', errorMessage);
+      res.status(500).json({ success: false, error: 'Internal server error' });
+    }
+  }
+
+  /**
+   * Create a keyword filter
+   * If instagramAccountId is provided, creates an account-specific filter
+   * Whitelist filters short-circuit matching comments to benign; blacklist filters feed their category
+   */
+  async createKeywordFilter(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const owner = getOwner(req);
+      if (!owner.userId && !owner.clientId) {
+        res.status(401).json({ success: false, error: 'Unauthorized' });
+        return;
+      }
+
+      const {
+        pattern,
+        patternType = 'KEYWORD',
+        category,
+        isWhitelist = false,
+        isEnabled = true,
+        description,
+        instagramAccountId
+      } = req.body;
+
+      if (!pattern || !category) {
+        res.status(400).json({ success: false, error: 'pattern and category are required' });
+        return;
+      }
+
+      if (!VALID_PATTERN_TYPES.includes(patternType)) {
+        res.status(400).json({ success: false, error: 'Invalid patternType. Must be KEYWORD or REGEX' });
+        return;
+      }
+
+      if (!VALID_CATEGORIES.includes(category)) {
+        res.status(400).json({ success: false, error: 'Invalid category' });
+        return;
+      }
+
+      const patternError = keywordFilterService.validatePattern(pattern, patternType);
+      if (patternError) {
+        res.status(400).json({ success: false, error: patternError });
+        return;
+      }
+
+      if (instagramAccountId && !(await this.ownsInstagramAccount(instagramAccountId, owner))) {
+        res.status(400).json({ success: false, error: 'Instagram account not found or not authorized' });
+        return;
+      }
+
+      const [createdFilter] = await db.insert(keywordFilters).values({
+        userId: owner.clientId ? null : owner.userId,
+        clientId: owner.clientId || null,
+        instagramAccountId: instagramAccountId || null,
+        pattern,
+        patternType,
+        category,
+        isWhitelist,
+        isEnabled,
+        description: description || null
+      }).returning();
+
+      invalidateClassificationCache(owner);
+
+      res.status(201).json({
+        success: true,
+        data: createdFilter
+      });
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      console.error('Error creating keyword filter:', errorMessage);
+      res.status(500).json({ success: false, error: 'Internal server error' });
+    }
+  }
+
+  /**
+   * Update a keyword filter
+   * Can change between global and account-specific by setting/clearing instagramAccountId
+   */
+  async updateKeywordFilter(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const owner = getOwner(req);
+      if (!owner.userId && !owner.clientId) {
+        res.status(401).json({ success: false, error: 'Unauthorized' });
+        return;
+      }
+
+      const ownershipCondition = owner.clientId
+        ? eq(keywordFilters.clientId, owner.clientId)
+        : eq(keywordFilters.userId, owner.userId!);
+
+      const [existingFilter] = await db
+        .select()
+        .from(keywordFilters)
+        .where(and(eq(keywordFilters.id, id), ownershipCondition))
+        .limit(1);
+
+      if (!existingFilter) {
+        res.status(404).json({ success: false, error: 'Keyword filter not found' });
+        return;
+      }
+
+      const { pattern, patternType, category, isWhitelist, isEnabled, description, instagramAccountId } = req.body;
+
+      const updateData: Partial<NewKeywordFilter> = { updatedAt: new Date() };
+
+      if (patternType !== undefined) {
+        if (!VALID_PATTERN_TYPES.includes(patternType)) {
+          res.status(400).json({ success: false, error: 'Invalid patternType. Must be KEYWORD or REGEX' });
+          return;
+        }
+        updateData.patternType = patternType;
+      }
+      if (pattern !== undefined) updateData.pattern = pattern;
+
+      // Re-validate whenever the pattern or its type changes
+      if (pattern !== undefined || patternType !== undefined) {
+        const patternError = keywordFilterService.validatePattern(
+          updateData.pattern ?? existingFilter.pattern,
+          updateData.patternType ?? existingFilter.patternType
+        );
+        if (patternError) {
+          res.status(400).json({ success: false, error: patternError });
+          return;
+        }
+      }
+
+      if (category !== undefined) {
+        if (!VALID_CATEGORIES.includes(category)) {
+          res.status(400).json({ success: false, error: 'Invalid category' });
+          return;
+        }
+        updateData.category = category;
+      }
+      if (isWhitelist !== undefined) updateData.isWhitelist = isWhitelist;
+      if (isEnabled !== undefined) updateData.isEnabled = isEnabled;
+      if (description !== undefined) updateData.description = description;
+
+      if (instagramAccountId !== undefined) {
+        if (instagramAccountId === null) {
+          updateData.instagramAccountId = null;
+        } else if (!(await this.ownsInstagramAccount(instagramAccountId, owner))) {
+          res.status(400).json({ success: false, error: 'Instagram account not found or not authorized' });
+          return;
+        } else {
+          updateData.instagramAccountId = instagramAccountId;
+        }
+      }
+
+      const [updatedFilter] = await db
+        .update(keywordFilters)
+        .set(updateData)
+        .where(eq(keywordFilters.id, id))
+        .returning();
+
+      invalidateClassificationCache(owner);
+
+      res.json({
+        success: true,
+        data: updatedFilter
+      });
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      console.error('Error updating keyword filter:', errorMessage);
+      res.status(500).json({ success: false, error: 'Internal server error' });
+    }
+  }
+
+  /**
+   * Delete a keyword filter
+   */
+  async deleteKeywordFilter(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const owner = getOwner(req);
+      if (!owner.userId && !owner.clientId) {
+        res.status(401).json({ success: false, error: 'Unauthorized' });
+        return;
+      }
+
+      const ownershipCondition = owner.clientId
+        ? eq(keywordFilters.clientId, owner.clientId)
+        : eq(keywordFilters.userId, owner.userId!);
+
+      const deleted = await db
+        .delete(keywordFilters)
+        .where(and(eq(keywordFilters.id, id), ownershipCondition))
+        .returning({ id: keywordFilters.id });
+
+      if (deleted.length === 0) {
+        res.status(404).json({ success: false, error: 'Keyword filter not found' });
+        return;
+      }
+
+      invalidateClassificationCache(owner);
+
+      res.json({ success: true });
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      console.error('Error deleting keyword filter:', errorMessage);
+      res.status(500).json({ success: false, error: 'Internal server error' });
+    }
+  }
+
+  /**
+   * Test a pattern against sample text without saving it
+   */
+  async testKeywordFilter(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const { pattern, patternType = 'KEYWORD', text } = req.body;
+
+      if (!pattern || typeof text !== 'string') {
+        res.status(400).json({ success: false, error: 'pattern and text are required' });
+        return;
+      }
+
+      if (!VALID_PATTERN_TYPES.includes(patternType)) {
+        res.status(400).json({ success: false, error: 'Invalid patternType. Must be KEYWORD or REGEX' });
+        return;
+      }
+
+      const patternError = keywordFilterService.validatePattern(pattern, patternType);
+      if (patternError) {
+        res.status(400).json({ success: false, error: patternError });
+        return;
+      }
+
+      const now = new Date();
+      const { blacklist } = keywordFilterService.match(text, [{
+        id: 'test',
+        clientId: null,
+        userId: null,
+        instagramAccountId: null,
+        pattern,
+        patternType,
+        category: 'benign',
+        isWhitelist: false,
+        isEnabled: true,
+        description: null,
+        createdAt: now,
+        updatedAt: now
+      }]);
+
+      res.json({
+        success: true,
+        data: { matches: blacklist.length > 0 }
+      });
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      console.error('Error testing keyword filter:', errorMessage);
+      res.status(500).json({ success: false, error: 'Internal server error' });
+    }
+  }
+}
+
+export const keywordFiltersController = new KeywordFiltersController();
@@ -0,0 +1,664 @@
+import { Response } from 'express';
+import { eq, and, or, desc, inArray, SQL } from 'drizzle-orm';
+import { db } from '../db';
+import {
+  legalCases,
+  caseEvidenceMap,
+  evidenceAttachments,
+  comments,
+  posts,
+  instagramAccounts,
+  facebookPages,
+  suspiciousAccounts,
+  NewLegalCase
+} from '../db/schema';
+import { AuthRequest } from '../middleware/auth.middleware';
+import { getOwner } from '../middleware/delegation.middleware';
+import { legalCaseService, CaseStatus, CASE_STATUSES } from '../services/legalCase.service';
+import { exportService } from '../services/export.service';
+import { IdParamSchema, LegalCaseEvidenceIdsSchema, LegalCaseReportDatesSchema } from '../validation/schemas';
+import { validationError } from '../utils/validation.utils';
+
+const VALID_CASE_TYPES = ['BLACKMAIL', 'THREAT', 'HARASSMENT', 'DEFAMATION', 'SPAM_BOT'];
+const VALID_SEVERITIES = ['LOW', 'MEDIUM', 'HIGH', 'CRITICAL'];
+
+interface CaseOwner {
+  userId: string | undefined;
+  clientId: string | undefined;
+}
+
+export class LegalCasesController {
+  private ownershipCondition(owner: CaseOwner): SQL {
+    return owner.clientId
+      ? eq(legalCases.clientId, owner.clientId)
+      : eq(legalCases.userId, owner.userId!);
+  }
+
+  /**
+   * Load a case owned by the effective owner, or null
+   */
+  private async findOwnedCase(id: string, owner: CaseOwner): Promise<typeof legalCases.$inferSelect | null> {
+    if (!IdParamSchema.safeParse(id).success) return null;
+    const [legalCase] = await db
+      .select()
+      .from(legalCases)
+      .where(and(eq(legalCases.id, id), this.ownershipCondition(owner)))
+      .limit(1);
+    return legalCase ?? null;
+  }
+
+  /**
+   * Instagram account and Facebook Page ids owned by the effective owner
+   */
+  private async getOwnedSourceIds(owner: CaseOwner): Promise<{ accountIds: string[]; pageIds: string[] }> {
+    const [accounts, pages] = await Promise.all([
+      db.select({ id: instagramAccounts.id }).from(instagramAccounts).where(
+        owner.clientId ? eq(instagramAccounts.clientId, owner.clientId) : eq(instagramAccounts.userId, owner.userId!)
+      ),
+      db.select({ id: facebookPages.id }).from(facebookPages).where(
+        owner.clientId ? eq(facebookPages.clientId, owner.clientId) : eq(facebookPages.userId, owner.userId!)
+      )
+    ]);
+    return { accountIds: accounts.map(a => a.id), pageIds: pages.map(p => p.id) };
+  }
+
+  /**
+   * Filter comment ids down to the ones on the owner's accounts/pages
+   */
+  private async filterOwnedCommentIds(commentIds: string[], owner: CaseOwner): Promise<string[]> {
+    if (commentIds.length === 0) return [];
+    const { accountIds, pageIds } = await this.getOwnedSourceIds(owner);
+    const sourceConditions: SQL[] = [];
+    if (accountIds.length > 0) sourceConditions.push(inArray(posts.instagramAccountId, accountIds));
+    if (pageIds.length > 0) sourceConditions.push(inArray(posts.facebookPageId, pageIds));
+    if (sourceConditions.length === 0) return [];
+
+    const owned = await db
+      .select({ id: comments.id })
+      .from(comments)
+      .innerJoin(posts, eq(comments.postId, posts.id))
+      .where(and(inArray(comments.id, commentIds), or(...sourceConditions)));
+    return owned.map(c => c.id);
+  }
+
+  /**
+   * Attach comments and evidence attachments to a case (skipping ones already attached),
+   * then recalculate the case totals and date range
+   */
+  private async attachEvidence(
+    legalCaseId: string,
+    owner: CaseOwner,
+    commentIds: string[],
+    evidenceAttachmentIds: string[],
+    notes: string | null
+  ): Promise<{ attachedComments: number; attachedAttachments: number; rejected: string[] }> {
+    const ownedCommentIds = await this.filterOwnedCommentIds(commentIds, owner);
+
+    // Attachments are owned through the comment they were uploaded against
+    let ownedAttachmentIds: string[] = [];
+    if (evidenceAttachmentIds.length > 0) {
+      const attachments = await db
+        .select({ id: evidenceAttachments.id, commentId: evidenceAttachments.commentId })
+        .from(evidenceAttachments)
+        .where(inArray(evidenceAttachments.id, evidenceAttachmentIds));
+      const ownedAttachmentCommentIds = new Set(
+        await this.filterOwnedCommentIds([...new Set(attachments.map(a => a.commentId))], owner)
+      );
+      ownedAttachmentIds = attachments.filter(a => ownedAttachmentCommentIds.has(a.commentId)).map(a => a.id);
+    }
+
+    const existing = await db
+      .select({ commentId: caseEvidenceMap.commentId, evidenceAttachmentId: caseEvidenceMap.evidenceAttachmentId })
+      .from(caseEvidenceMap)
+      .where(eq(caseEvidenceMap.legalCaseId, legalCaseId));
+    const existingCommentIds = new Set(existing.map(e => e.commentId));
+    const existingAttachmentIds = new Set(existing.map(e => e.evidenceAttachmentId));
+
+    const newComments = ownedCommentIds.filter(id => !existingCommentIds.has(id));
+    const newAttachments = ownedAttachmentIds.filter(id => !existingAttachmentIds.has(id));
+
+    const rows = [
+      ...newComments.map(commentId => ({ legalCaseId, commentId, notes })),
+      ...newAttachments.map(evidenceAttachmentId => ({ legalCaseId, evidenceAttachmentId, notes }))
+    ];
+    if (rows.length > 0) {
+      await db.insert(caseEvidenceMap).values(rows);
+    }
+    await legalCaseService.recalculateCaseTotals(legalCaseId);
+
+    const accepted = new Set([...ownedCommentIds, ...ownedAttachmentIds]);
+    return {
+      attachedComments: newComments.length,
+      attachedAttachments: newAttachments.length,
+      rejected: [...commentIds, ...evidenceAttachmentIds].filter(id => !accepted.has(id))
+    };
+  }
+
+  /**
+   * List cases (optionally filtered by status or caseType), newest first
+   */
+  async listCases(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const owner = getOwner(req);
+      if (!owner.userId && !owner.clientId) {
+        res.status(401).json({ success: false, error: 'Unauthorized' });
+        return;
+      }
+
+      const { status, caseType } = req.query;
+      const conditions: SQL[] = [this.ownershipCondition(owner)];
+      if (typeof status === 'string' && CASE_STATUSES.includes(status as CaseStatus)) {
+        conditions.push(eq(legalCases.status, status as CaseStatus));
+      }
+      if (typeof caseType === 'string' && VALID_CASE_TYPES.includes(caseType)) {
+        conditions.push(eq(legalCases.caseType, caseType as NonNullable<NewLegalCase['caseType']>));
+      }
+
+      const cases = await db
+        .select({
+          legalCase: legalCases,
+          suspiciousAccount: {
+            id: suspiciousAccounts.id,
+            commenterUsername: suspiciousAccounts.commenterUsername,
+            commenterId: suspiciousAccounts.commenterId
+          }
+        })
+        .from(legalCases)
+        .innerJoin(suspiciousAccounts, eq(legalCases.suspiciousAccountId, suspiciousAccounts.id))
+        .where(and(...conditions))
+        .orderBy(desc(legalCases.createdAt));
+
+      res.json({
+        success: true,
+        data: cases.map(row => ({ ...row.legalCase, suspiciousAccount: row.suspiciousAccount }))
+      });
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      console.error('Error listing legal cases:', errorMessage);
+      res.status(500).json({ success: false, error: 'Internal server error' });
+    }
+  }
+
+  /**
+   * Get a case with its attached comments and evidence attachments
+   */
+  async getCase(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const owner = getOwner(req);
+      if (!owner.userId && !owner.clientId) {
+        res.status(401).json({ success: false, error: 'Unauthorized' });
+        return;
+      }
+
+      const legalCase = await this.findOwnedCase(req.params.id, owner);
+      if (!legalCase) {
+        res.status(404).json({ success: false, error: 'Case not found' });
+        return;
+      }
+
+      const [suspiciousAccount, evidence] = await Promise.all([
+        db.query.suspiciousAccounts.findFirst({
+          where: eq(suspiciousAccounts.id, legalCase.suspiciousAccountId)
+        }),
+        db
+          .select({
+            id: caseEvidenceMap.id,
+            notes: caseEvidenceMap.notes,
+            attachedAt: caseEvidenceMap.createdAt,
+            comment: {
+              id: comments.id,
+              text: comments.text,
+              commenterUsername: comments.commenterUsername,
+              commenterId: comments.commenterId,
+              commentedAt: comments.commentedAt,
+              isDeleted: comments.isDeleted,
+              isHidden: comments.isHidden
+            },
+            attachment: {
+              id: evidenceAttachments.id,
+              fileType: evidenceAttachments.fileType,
+              fileUrl: evidenceAttachments.fileUrl,
+              mimeType: evidenceAttachments.mimeType,
+              uploadNotes: evidenceAttachments.uploadNotes,
+              createdAt: evidenceAttachments.createdAt
+            }
+          })
+          .from(caseEvidenceMap)
+          .leftJoin(comments, eq(caseEvidenceMap.commentId, comments.id))
+          .leftJoin(evidenceAttachments, eq(caseEvidenceMap.evidenceAttachmentId, evidenceAttachments.id))
+          .where(eq(caseEvidenceMap.legalCaseId, legalCase.id))
+          .orderBy(caseEvidenceMap.createdAt)
+      ]);
+
+      res.json({
+        success: true,
+        data: {
+          ...legalCase,
+          allowedTransitions: legalCaseService.getAllowedTransitions(legalCase.status),
+          suspiciousAccount: suspiciousAccount ?? null,
+          comments: evidence.filter(e => e.comment).map(e => ({
+            evidenceId: e.id,
+            notes: e.notes,
+            attachedAt: e.attachedAt,
+            ...e.comment
+          })),
+          attachments: evidence.filter(e => e.attachment).map(e => ({
+            evidenceId: e.id,
+            notes: e.notes,
+            attachedAt: e.attachedAt,
+            ...e.attachment
+          }))
+        }
+      });
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      console.error('Error fetching legal case:', errorMessage);
+      res.status(500).json({ success: false, error: 'Internal server error' });
+    }
+  }
+
+  /**
+   * Create a case (status DRAFT) against a suspicious account, optionally attaching comments
+   */
+  async createCase(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const owner = getOwner(req);
+      if (!owner.userId && !owner.clientId) {
+        res.status(401).json({ success: false, error: 'Unauthorized' });
+        return;
+      }
+
+      const {
+        suspiciousAccountId,
+        caseTitle,
+        caseType,
+        severity,
+        description,
+        impactStatement,
+        lawyerContact
+      } = req.body;
+
+      if (!suspiciousAccountId || !caseTitle || !caseType || !severity || !description) {
+        res.status(400).json({
+          success: false,
+          error: 'suspiciousAccountId, caseTitle, caseType, severity and description are required'
+        });
+        return;
+      }
+      if (!VALID_CASE_TYPES.includes(caseType)) {
+        res.status(400).json({ success: false, error: `Invalid caseType. Must be one of: ${VALID_CASE_TYPES.join(', ')}` });
+        return;
+      }
+      if (!VALID_SEVERITIES.includes(severity)) {
+        res.status(400).json({ success: false, error: `Invalid severity. Must be one of: ${VALID_SEVERITIES.join(', ')}` });
+        return;
+      }
+      const evidenceIds = LegalCaseEvidenceIdsSchema.safeParse(req.body);
+      if (!evidenceIds.success) {
+        res.status(400).json({ success: false, error: 'commentIds and evidenceAttachmentIds must be arrays of ids' });
+        return;
+      }
+      const { commentIds, evidenceAttachmentIds } = evidenceIds.data;
+
+      // Suspicious account must belong to one of the owner's Instagram accounts or Facebook Pages
+      const { accountIds, pageIds } = await this.getOwnedSourceIds(owner);
+      const sourceConditions: SQL[] = [];
+      if (accountIds.length > 0) sourceConditions.push(inArray(suspiciousAccounts.instagramAccountId, accountIds));
+      if (pageIds.length > 0) sourceConditions.push(inArray(suspiciousAccounts.facebookPageId, pageIds));
+      const suspiciousAccount = sourceConditions.length > 0 && IdParamSchema.safeParse(suspiciousAccountId).success
+        ? await db.query.suspiciousAccounts.findFirst({
+            where: and(eq(suspiciousAccounts.id, suspiciousAccountId), or(...sourceConditions))
+          })
+        : undefined;
+
+      if (!suspiciousAccount) {
+        res.status(400).json({ success: false, error: 'Suspicious account not found or not authorized' });
+        return;
+      }
+
+      const [createdCase] = await db.insert(legalCases).values({
+        clientId: owner.clientId || null,
+        userId: owner.clientId ? null : owner.userId,
+        suspiciousAccountId,
+        caseTitle,
+        caseType,
+        severity,
+        description,
+        impactStatement: impactStatement || null,
+        lawyerContact: lawyerContact || null,
+        status: 'DRAFT'
+      }).returning();
+
+      const evidenceResult = await this.attachEvidence(createdCase.id, owner, commentIds, evidenceAttachmentIds, null);
+      const legalCase = await this.findOwnedCase(createdCase.id, owner);
+
+      res.status(201).json({
+        success: true,
+        data: { ...legalCase, rejectedEvidence: evidenceResult.rejected }
+      });
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      console.error('Error creating legal case:', errorMessage);
+      res.status(500).json({ success: false, error: 'Internal server error' });
+    }
+  }
+
+  /**
+   * Update case details (narrative, report references). Status changes go through /status.
+   */
+  async updateCase(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const owner = getOwner(req);
+      if (!owner.userId && !owner.clientId) {
+        res.status(401).json({ success: false, error: 'Unauthorized' });
+        return;
+      }
+
+      const legalCase = await this.findOwnedCase(req.params.id, owner);
+      if (!legalCase) {
+        res.status(404).json({ success: false, error: 'Case not found' });
+        return;
+      }
+
+      const {
+        caseTitle,
+        caseType,
+        severity,
+        description,
+        impactStatement,
+        lawyerContact,
+        instagramReportId,
+        policeReportNumber
+      } = req.body;
+
+      const reportDates = LegalCaseReportDatesSchema.safeParse(req.body);
+      if (!reportDates.success) {
+        res.status(400).json({ success: false, error: validationError(reportDates.error) });
+        return;
+      }
+      const { instagramReportDate, policeReportDate } = reportDates.data;
+
+      const updateData: Partial<NewLegalCase> = { updatedAt: new Date() };
+      if (caseTitle !== undefined) updateData.caseTitle = caseTitle;
+      if (caseType !== undefined) {
+        if (!VALID_CASE_TYPES.includes(caseType)) {
+          res.status(400).json({ success: false, error: 'Invalid caseType' });
+          return;
+        }
+        updateData.caseType = caseType;
+      }
+      if (severity !== undefined) {
+        if (!VALID_SEVERITIES.includes(severity)) {
+          res.status(400).json({ success: false, error: 'Invalid severity' });
+          return;
+        }
+        updateData.severity = severity;
+      }
+      if (description !== undefined) updateData.description = description;
+      if (impactStatement !== undefined) updateData.impactStatement = impactStatement;
+      if (lawyerContact !== undefined) updateData.lawyerContact = lawyerContact;
+      if (instagramReportId !== undefined) updateData.instagramReportId = instagramReportId;
+      if (instagramReportDate !== undefined) updateData.instagramReportDate = instagramReportDate ? new Date(instagramReportDate) : null;
+      if (policeReportNumber !== undefined) updateData.policeReportNumber = policeReportNumber;
+      if (policeReportDate !== undefined) updateData.policeReportDate = policeReportDate ? new Date(policeReportDate) : null;
+
+      const [updatedCase] = await db
+        .update(legalCases)
+        .set(updateData)
+        .where(eq(legalCases.id, legalCase.id))
+        .returning();
+
+      res.json({ success: true, data: updatedCase });
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      console.error('Error updating legal case:', errorMessage);
+      res.status(500).json({ success: false, error: 'Internal server error' });
+    }
+  }
+
+  /**
+   * Move a case to a new status (validated against the allowed transitions).
+   * Report references supplied with the transition are stored on the case; report
+   * dates default to now when entering SUBMITTED_TO_INSTAGRAM / POLICE_REPORT.
+   */
+  async updateCaseStatus(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const owner = getOwner(req);
+      if (!owner.userId && !owner.clientId) {
+        res.status(401).json({ success: false, error: 'Unauthorized' });
+        return;
+      }
+
+      const legalCase = await this.findOwnedCase(req.params.id, owner);
+      if (!legalCase) {
+        res.status(404).json({ success: false, error: 'Case not found' });
+        return;
+      }
+
+      const { status, instagramReportId, policeReportNumber, lawyerContact } = req.body;
+
+      if (!CASE_STATUSES.includes(status)) {
+        res.status(400).json({ success: false, error: `Invalid status. Must be one of: ${CASE_STATUSES.join(', ')}` });
+        return;
+      }
+
+      const reportDates = LegalCaseReportDatesSchema.safeParse(req.body);
+      if (!reportDates.success) {
+        res.status(400).json({ success: false, error: validationError(reportDates.error) });
+        return;
+      }
+      const { instagramReportDate, policeReportDate } = reportDates.data;
+
+      const transitionError = legalCaseService.validateTransition(legalCase, status, policeReportNumber);
+      if (transitionError) {
+        res.status(400).json({ success: false, error: transitionError });
+        return;
+      }
+
+      const updateData: Partial<NewLegalCase> = { status, updatedAt: new Date() };
+      if (instagramReportId !== undefined) updateData.instagramReportId = instagramReportId;
+      if (policeReportNumber !== undefined) updateData.policeReportNumber = policeReportNumber;
+      if (lawyerContact !== undefined) updateData.lawyerContact = lawyerContact;
+
+      if (instagramReportDate) {
+        updateData.instagramReportDate = new Date(instagramReportDate);
+      } else if (status === 'SUBMITTED_TO_INSTAGRAM' && !legalCase.instagramReportDate) {
+        updateData.instagramReportDate = new Date();
+      }
+      if (policeReportDate) {
+        updateData.policeReportDate = new Date(policeReportDate);
+      } else if (status === 'POLICE_REPORT' && !legalCase.policeReportDate) {
+        updateData.policeReportDate = new Date();
+      }
+
+      const [updatedCase] = await db
+        .update(legalCases)
+        .set(updateData)
+        .where(eq(legalCases.id, legalCase.id))
+        .returning();
+
+      console.log(`⚖️  Case ${legalCase.id} moved ${legalCase.status} → ${status}`);
+
+      res.json({
+        success: true,
+        data: {
+          ...updatedCase,
+          allowedTransitions: legalCaseService.getAllowedTransitions(updatedCase.status)
+        }
+      });
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      console.error('Error updating legal case status:', errorMessage);
+      res.status(500).json({ success: false, error: 'Internal server error' });
+    }
+  }
+
+  /**
+   * Attach comments and/or evidence attachments to a case
+   */
+  async addEvidence(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const owner = getOwner(req);
+      if (!owner.userId && !owner.clientId) {
+        res.status(401).json({ success: false, error: 'Unauthorized' });
+        return;
+      }
+
+      const legalCase = await this.findOwnedCase(req.params.id, owner);
+      if (!legalCase) {
+        res.status(404).json({ success: false, error: 'Case not found' });
+        return;
+      }
+      if (legalCase.status === 'CLOSED') {
+        res.status(400).json({ success: false, error: 'Cannot change evidence on a closed case' });
+        return;
+      }
+
+      const evidenceIds = LegalCaseEvidenceIdsSchema.safeParse(req.body);
+      if (!evidenceIds.success) {
+        res.status(400).json({ success: false, error: 'commentIds and evidenceAttachmentIds must be arrays of ids' });
+        return;
+      }
+      const { commentIds, evidenceAttachmentIds } = evidenceIds.data;
+      const { notes } = req.body;
+      if (commentIds.length === 0 && evidenceAttachmentIds.length === 0) {
+        res.status(400).json({ success: false, error: 'Provide commentIds or evidenceAttachmentIds' });
+        return;
+      }
+
+      const result = await this.attachEvidence(legalCase.id, owner, commentIds, evidenceAttachmentIds, notes || null);
+      const updatedCase = await this.findOwnedCase(legalCase.id, owner);
+
+      res.json({
+        success: true,
+        data: { case: updatedCase, ...result }
+      });
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      console.error('Error attaching case evidence:', errorMessage);
+      res.status(500).json({ success: false, error: 'Internal server error' });
+    }
+  }
+
+  /**
+   * Remove one evidence entry (comment or attachment) from a case
+   */
+  async removeEvidence(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const owner = getOwner(req);
+      if (!owner.userId && !owner.clientId) {
+        res.status(401).json({ success: false, error: 'Unauthorized' });
+        return;
+      }
+
+      const legalCase = await this.findOwnedCase(req.params.id, owner);
+      if (!legalCase) {
+        res.status(404).json({ success: false, error: 'Case not found' });
+        return;
+      }
+      if (legalCase.status === 'CLOSED') {
+        res.status(400).json({ success: false, error: 'Cannot change evidence on a closed case' });
+        return;
+      }
+
+      if (!IdParamSchema.safeParse(req.params.evidenceId).success) {
+        res.status(404).json({ success: false, error: 'Evidence not found on this case' });
+        return;
+      }
+
+      const deleted = await db
+        .delete(caseEvidenceMap)
+        .where(and(
+          eq(caseEvidenceMap.id, req.params.evidenceId),
+          eq(caseEvidenceMap.legalCaseId, legalCase.id)
+        ))
+        .returning({ id: caseEvidenceMap.id });
+
+      if (deleted.length === 0) {
+        res.status(404).json({ success: false, error: 'Evidence not found on this case' });
+        return;
+      }
+
+      const updatedCase = await legalCaseService.recalculateCaseTotals(legalCase.id);
+      res.json({ success: true, data: updatedCase });
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      console.error('Error removing case evidence:', errorMessage);
+      res.status(500).json({ success: false, error: 'Internal server error' });
+    }
+  }
+
+  /**
+   * Delete a case. Only DRAFT cases can be deleted; anything already reported must be CLOSED instead.
+   */
+  async deleteCase(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const owner = getOwner(req);
+      if (!owner.userId && !owner.clientId) {
+        res.status(401).json({ success: false, error: 'Unauthorized' });
+        return;
+      }
+
+      const legalCase = await this.findOwnedCase(req.params.id, owner);
+      if (!legalCase) {
+        res.status(404).json({ success: false, error: 'Case not found' });
+        return;
+      }
+      if (legalCase.status !== 'DRAFT') {
+        res.status(400).json({ success: false, error: 'Only DRAFT cases can be deleted. Close the case instead.' });
+        return;
+      }
+
+      await db.delete(caseEvidenceMap).where(eq(caseEvidenceMap.legalCaseId, legalCase.id));
+      await db.delete(legalCases).where(eq(legalCases.id, legalCase.id));
+
+      res.json({ success: true });
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      console.error('Error deleting legal case:', errorMessage);
+      res.status(500).json({ success: false, error: 'Internal server error' });
+    }
+  }
+
+  /**
+   * Export a case as a court-ready ZIP bundle with a signed chain-of-custody manifest
+   */
+  async exportCase(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const owner = getOwner(req);
+      if (!owner.userId && !owner.clientId) {
+        res.status(401).json({ success: false, error: 'Unauthorized' });
+        return;
+      }
+
+      const legalCase = await this.findOwnedCase(req.params.id, owner);
+      if (!legalCase) {
+        res.status(404).json({ success: false, error: 'Case not found' });
+        return;
+      }
+
+      if (!exportService.isCaseExportSigningConfigured()) {
+        res.status(503).json({ success: false, error: 'Case export signing key is not configured' });
+        return;
+      }
+
+      // Record the acting user (agency member when delegating), not the effective owner
+      const zipBuffer = await exportService.exportLegalCase(legalCase.id, req.userId ?? owner.userId ?? owner.clientId!);
+
+      const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+      const filename = `case_${legalCase.id}_${timestamp}.zip`;
+
+      res.setHeader('Content-Type', 'application/zip');
+      res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+      res.setHeader('Content-Length', zipBuffer.length);
+
+      res.send(zipBuffer);
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      console.error('Error exporting legal case:', errorMessage);
+      res.status(500).json({ success: false, error: 'Failed to export case' });
+    }
+  }
+}
+
+export const legalCasesController = new LegalCasesController();
@@ -0,0 +1,442 @@
+import { Response } from 'express';
+import { eq, and, asc, inArray } from 'drizzle-orm';
+import { db } from '../db';
+import {
+  moderationProfiles,
+  moderationProfileSchedules,
+  instagramAccounts,
+  ModerationProfile,
+  ModerationProfileSchedule,
+  NewModerationProfile,
+  NewModerationProfileSchedule
+} from '../db/schema';
+import { AuthRequest } from '../middleware/auth.middleware';
+import { getOwner } from '../middleware/delegation.middleware';
+import { moderationProfileService, ProfileScheduleInput } from '../services/moderationProfile.service';
+
+type ProfileOwner = { userId: string | undefined; clientId: string | undefined };
+
+const MAX_NAME_LENGTH = 100;
+
+const parseDate = (value: unknown): Date | null =>
+  value === null ? null : new Date(value as string);
+
+export class ModerationProfilesController {
+  private async findOwnedProfile(id: string, owner: ProfileOwner): Promise<ModerationProfile | null> {
+    const ownershipCondition = owner.clientId
+      ? eq(moderationProfiles.clientId, owner.clientId)
+      : eq(moderationProfiles.userId, owner.userId!);
+
+    const [profile] = await db
+      .select()
+      .from(moderationProfiles)
+      .where(and(eq(moderationProfiles.id, id), ownershipCondition))
+      .limit(1);
+    return profile ?? null;
+  }
+
+  /**
+   * Check that an Instagram account belongs to the effective owner
+   */
+  private async ownsInstagramAccount(instagramAccountId: string, owner: ProfileOwner): Promise<boolean> {
+    const accountOwnershipCondition = owner.clientId
+      ? eq(instagramAccounts.clientId, owner.clientId)
+      : eq(instagramAccounts.userId, owner.userId!);
+
+    const accountCheck = await db
+      .select({ id: instagramAccounts.id })
+      .from(instagramAccounts)
+      .where(and(eq(instagramAccounts.id, instagramAccountId), accountOwnershipCondition))
+      .limit(1);
+
+    return accountCheck.length > 0;
+  }
+
+  /**
+   * List moderation profiles with their schedules
+   */
+  async getProfiles(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const owner = getOwner(req);
+      if (!owner.userId && !owner.clientId) {
+        res.status(401).json({ success: false, error: 'Unauthorized' });
+        return;
+      }
+
+      const ownershipCondition = owner.clientId
+        ? eq(moderationProfiles.clientId, owner.clientId)
+        : eq(moderationProfiles.userId, owner.userId!);
+
+      const profiles = await db
+        .select()
+        .from(moderationProfiles)
+        .where(ownershipCondition)
+        .orderBy(asc(moderationProfiles.createdAt));
+
+      const schedules = profiles.length > 0
+        ? await db
+          .select()
+          .from(moderationProfileSchedules)
+          .where(inArray(moderationProfileSchedules.profileId, profiles.map(p => p.id)))
+          .orderBy(asc(moderationProfileSchedules.createdAt))
+        : [];
+
+      const now = new Date();
+      res.json({
+        success: true,
+        data: profiles.map(profile => ({
+          ...profile,
+          schedules: schedules
+            .filter(schedule => schedule.profileId === profile.id)
+            .map(schedule => ({ ...schedule, isActiveNow: moderationProfileService.isScheduleActive(schedule, now) }))
+        }))
+      });
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      console.error('Error fetching moderation profiles:', errorMessage);
+      res.status(500).json({ success: false, error: 'Internal server error' });
+    }
+  }
+
+  /**
+   * Create a moderation profile. Body: { name, description?, overrides }
+   */
+  async createProfile(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const owner = getOwner(req);
+      if (!owner.userId && !owner.clientId) {
+        res.status(401).json({ success: false, error: 'Unauthorized' });
+        return;
+      }
+
+      const { name, description, overrides } = req.body;
+
+      if (!name || typeof name !== 'string' || name.length > MAX_NAME_LENGTH) {
+        res.status(400).json({ success: false, error: `name is required (max ${MAX_NAME_LENGTH} characters)` });
+        return;
+      }
+
+      const overridesError = moderationProfileService.validateOverrides(overrides);
+      if (overridesError) {
+        res.status(400).json({ success: false, error: overridesError });
+        return;
+      }
+
+      const [profile] = await db.insert(moderationProfiles).values({
+        userId: owner.clientId ? null : owner.userId,
+        clientId: owner.clientId || null,
+        name,
+        description: description || null,
+        overrides
+      }).returning();
+
+      res.status(201).json({ success: true, data: profile });
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      console.error('Error creating moderation profile:', errorMessage);
+      res.status(500).json({ success: false, error: 'Internal server error' });
+    }
+  }
+
+  /**
+   * Update a moderation profile. overrides replaces the whole set.
+   */
+  async updateProfile(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const owner = getOwner(req);
+      if (!owner.userId && !owner.clientId) {
+        res.status(401).json({ success: false, error: 'Unauthorized' });
+        return;
+      }
+
+      const existing = await this.findOwnedProfile(req.params.id, owner);
+      if (!existing) {
+        res.status(404).json({ success: false, error: 'Moderation profile not found' });
+        return;
+      }
+
+      const { name, description, overrides } = req.body;
+      const updateData: Partial<NewModerationProfile> = { updatedAt: new Date() };
+
+      if (name !== undefined) {
+        if (!name || typeof name !== 'string' || name.length > MAX_NAME_LENGTH) {
+          res.status(400).json({ success: false, error: `name is required (max ${MAX_NAME_LENGTH} characters)` });
+          return;
+        }
+        updateData.name = name;
+      }
+      if (description !== undefined) updateData.description = description || null;
+      if (overrides !== undefined) {
+        const overridesError = moderationProfileService.validateOverrides(overrides);
+        if (overridesError) {
+          res.status(400).json({ success: false, error: overridesError });
+          return;
+        }
+        updateData.overrides = overrides;
+      }
+
+      const [profile] = await db
+        .update(moderationProfiles)
+        .set(updateData)
+        .where(eq(moderationProfiles.id, existing.id))
+        .returning();
+
+      res.json({ success: true, data: profile });
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      console.error('Error updating moderation profile:', errorMessage);
+      res.status(500).json({ success: false, error: 'Internal server error' });
+    }
+  }
+
+  /**
+   * Delete a moderation profile and its schedules
+   */
+  async deleteProfile(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const owner = getOwner(req);
+      if (!owner.userId && !owner.clientId) {
+        res.status(401).json({ success: false, error: 'Unauthorized' });
+        return;
+      }
+
+      const existing = await this.findOwnedProfile(req.params.id, owner);
+      if (!existing) {
+        res.status(404).json({ success: false, error: 'Moderation profile not found' });
+        return;
+      }
+
+      await db.delete(moderationProfiles).where(eq(moderationProfiles.id, existing.id));
+
+      res.json({ success: true });
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      console.error('Error deleting moderation profile:', errorMessage);
+      res.status(500).json({ success: false, error: 'Internal server error' });
+    }
+  }
+
+  /**
+   * Schedule a profile on an Instagram account.
+   * Body: { instagramAccountId, scheduleType: 'ONE_TIME', startsAt, endsAt }
+   *    or { instagramAccountId, scheduleType: 'RECURRING', daysOfWeek, startTime, endTime, timezone? }
+   * plus optional priority and isEnabled
+   */
+  async createSchedule(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const owner = getOwner(req);
+      if (!owner.userId && !owner.clientId) {
+        res.status(401).json({ success: false, error: 'Unauthorized' });
+        return;
+      }
+
+      const profile = await this.findOwnedProfile(req.params.id, owner);
+      if (!profile) {
+        res.status(404).json({ success: false, error: 'Moderation profile not found' });
+        return;
+      }
+
+      const { instagramAccountId, priority = 0, isEnabled = true } = req.body;
+      if (!instagramAccountId || typeof instagramAccountId !== 'string') {
+        res.status(400).json({ success: false, error: 'instagramAccountId is required' });
+        return;
+      }
+      if (!(await this.ownsInstagramAccount(instagramAccountId, owner))) {
+        res.status(400).json({ success: false, error: 'Instagram account not found or not authorized' });
+        return;
+      }
+      if (!Number.isInteger(priority)) {
+        res.status(400).json({ success: false, error: 'priority must be an integer' });
+        return;
+      }
+
+      const schedule = this.scheduleFromBody(req.body);
+      const scheduleError = moderationProfileService.validateSchedule(schedule);
+      if (scheduleError) {
+        res.status(400).json({ success: false, error: scheduleError });
+        return;
+      }
+
+      const [created] = await db.insert(moderationProfileSchedules).values({
+        ...this.scheduleColumns(schedule),
+        profileId: profile.id,
+        instagramAccountId,
+        priority,
+        isEnabled: Boolean(isEnabled)
+      }).returning();
+
+      res.status(201).json({ success: true, data: created });
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      console.error('Error creating moderation profile schedule:', errorMessage);
+      res.status(500).json({ success: false, error: 'Internal server error' });
+    }
+  }
+
+  /**
+   * Update a schedule. Timing fields not sent keep their current values.
+   */
+  async updateSchedule(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const owner = getOwner(req);
+      if (!owner.userId && !owner.clientId) {
+        res.status(401).json({ success: false, error: 'Unauthorized' });
+        return;
+      }
+
+      const profile = await this.findOwnedProfile(req.params.id, owner);
+      if (!profile) {
+        res.status(404).json({ success: false, error: 'Moderation profile not found' });
+        return;
+      }
+
+      const [existing] = await db
+        .select()
+        .from(moderationProfileSchedules)
+        .where(and(
+          eq(moderationProfileSchedules.id, req.params.scheduleId),
+          eq(moderationProfileSchedules.profileId, profile.id)
+        ))
+        .limit(1);
+      if (!existing) {
+        res.status(404).json({ success: false, error: 'Schedule not found' });
+        return;
+      }
+
+      const { priority, isEnabled } = req.body;
+      if (priority !== undefined && !Number.isInteger(priority)) {
+        res.status(400).json({ success: false, error: 'priority must be an integer' });
+        return;
+      }
+
+      const schedule = this.scheduleFromBody(req.body, existing);
+      const scheduleError = moderationProfileService.validateSchedule(schedule);
+      if (scheduleError) {
+        res.status(400).json({ success: false, error: scheduleError });
+        return;
+      }
+
+      const updateData: Partial<NewModerationProfileSchedule> = {
+        ...this.scheduleColumns(schedule),
+        updatedAt: new Date()
+      };
+      if (priority !== undefined) updateData.priority = priority;
+      if (isEnabled !== undefined) updateData.isEnabled = Boolean(isEnabled);
+
+      const [updated] = await db
+        .update(moderationProfileSchedules)
+        .set(updateData)
+        .where(eq(moderationProfileSchedules.id, existing.id))
+        .returning();
+
+      res.json({ success: true, data: updated });
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      console.error('Error updating moderation profile schedule:', errorMessage);
+      res.status(500).json({ success: false, error: 'Internal server error' });
+    }
+  }
+
+  /**
+   * Delete a schedule
+   */
+  async deleteSchedule(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const owner = getOwner(req);
+      if (!owner.userId && !owner.clientId) {
+        res.status(401).json({ success: false, error: 'Unauthorized' });
+        return;
+      }
+
+      const profile = await this.findOwnedProfile(req.params.id, owner);
+      if (!profile) {
+        res.status(404).json({ success: false, error: 'Moderation profile not found' });
+        return;
+      }
+
+      const deleted = await db
+        .delete(moderationProfileSchedules)
+        .where(and(
+          eq(moderationProfileSchedules.id, req.params.scheduleId),
+          eq(moderationProfileSchedules.profileId, profile.id)
+        ))
+        .returning({ id: moderationProfileSchedules.id });
+
+      if (deleted.length === 0) {
+        res.status(404).json({ success: false, error: 'Schedule not found' });
+        return;
+      }
+
+      res.json({ success: true });
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      console.error('Error deleting moderation profile schedule:', errorMessage);
+      res.status(500).json({ success: false, error: 'Internal server error' });
+    }
+  }
+
+  /**
+   * Profile in effect for an account right now (null when its own settings apply).
+   * Query: instagramAccountId
+   */
+  async getActiveProfile(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const owner = getOwner(req);
+      if (!owner.userId && !owner.clientId) {
+        res.status(401).json({ success: false, error: 'Unauthorized' });
+        return;
+      }
+
+      const instagramAccountId = typeof req.query.instagramAccountId === 'string' ? req.query.instagramAccountId : '';
+      if (!instagramAccountId) {
+        res.status(400).json({ success: false, error: 'instagramAccountId is required' });
+        return;
+      }
+      if (!(await this.ownsInstagramAccount(instagramAccountId, owner))) {
+        res.status(403).json({ success: false, error: 'Instagram account not found or not authorized' });
+        return;
+      }
+
+      const match = await moderationProfileService.getActiveProfile(instagramAccountId);
+      res.json({ success: true, data: match });
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      console.error('Error resolving active moderation profile:', errorMessage);
+      res.status(500).json({ success: false, error: 'Internal server error' });
+    }
+  }
+
+  /**
+   * Timing fields from a request body, falling back to an existing schedule's values
+   */
+  private scheduleFromBody(body: Record<string, unknown>, existing?: ModerationProfileSchedule): ProfileScheduleInput {
+    const pick = <T>(key: string, fallback: T): T => (body[key] !== undefined ? body[key] as T : fallback);
+    return {
+      scheduleType: pick('scheduleType', existing?.scheduleType as ProfileScheduleInput['scheduleType']),
+      startsAt: body.startsAt !== undefined ? parseDate(body.startsAt) : existing?.startsAt ?? null,
+      endsAt: body.endsAt !== undefined ? parseDate(body.endsAt) : existing?.endsAt ?? null,
+      daysOfWeek: pick('daysOfWeek', existing?.daysOfWeek ?? null),
+      startTime: pick('startTime', existing?.startTime ?? null),
+      endTime: pick('endTime', existing?.endTime ?? null),
+      timezone: pick('timezone', existing?.timezone ?? 'UTC')
+    };
+  }
+
+  /**
+   * Columns for a validated schedule; the fields of the other schedule type are cleared
+   */
+  private scheduleColumns(schedule: ProfileScheduleInput): Omit<NewModerationProfileSchedule, 'profileId' | 'instagramAccountId'> {
+    const oneTime = schedule.scheduleType === 'ONE_TIME';
+    return {
+      scheduleType: schedule.scheduleType,
+      startsAt: oneTime ? schedule.startsAt : null,
+      endsAt: oneTime ? schedule.endsAt : null,
+      daysOfWeek: oneTime ? null : schedule.daysOfWeek,
+      startTime: oneTime ? null : schedule.startTime,
+      endTime: oneTime ? null : schedule.endTime,
+      timezone: schedule.timezone
+    };
+  }
+}
+
+export const moderationProfilesController = new ModerationProfilesController();
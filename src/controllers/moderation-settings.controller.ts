@@ -1,10 +1,16 @@
 import { Request, Response } from 'express';
-import { eq, and, isNull, sql } from 'drizzle-orm';
+import { eq, and, isNull, sql, gte, desc } from 'drizzle-orm';
 import { db } from '../db';
-import { moderationSettings, instagramAccounts, clients, users } from '../db/schema';
-import { ApiResponse } from '../types';
-import { getEffectiveOwner, DelegationRequest } from '../middleware/delegation.middleware';
+import { moderationSettings, instagramAccounts, clients, users, moderationLogs, comments, posts } from '../db/schema';
+import { ApiResponse, ModerationProfileOverrides } from '../types';
+import { getEffectiveOwner, getActor, DelegationRequest } from '../middleware/delegation.middleware';
 import { isAgency } from '../utils/account-type.utils';
+import { settingsVersionService } from '../services/settingsVersion.service';
+import { moderationService } from '../services/moderation.service';
+import { moderationProfileService } from '../services/moderationProfile.service';
+import { thresholdSimulationService, SimulationReport } from '../services/thresholdSimulation.service';
+
+const MAX_VERSIONS_PAGE_SIZE = 100;
 
 interface AuthenticatedRequest extends Request {
   userId?: string;
@@ -50,6 +56,10 @@ interface AccountSpecificSetting {
   flagDeleteSpamThreshold: number | null;
   enableKeywordFilter: boolean | null;
   enableLlmFilter: boolean | null;
+  shadowModeEnabled: boolean | null;
+  threadContextLevel: 'NONE' | 'PARENT' | 'THREAD' | null;
+  attackResponse: 'NONE' | 'TIGHTEN' | 'HIDE_NON_WHITELISTED' | null;
+  currentVersionId: string | null;
   createdAt: Date | null;
   updatedAt: Date | null;
   instagramAccount?: {
@@ -63,6 +73,32 @@ interface ClientSpecificSetting extends AccountSpecificSetting {
   client?: { id: string; businessName: string } | null;
 }
 
+interface ShadowModeDecision {
+  moderationLogId: string;
+  commentId: string;
+  commentText: string;
+  commenterUsername: string;
+  category: string;
+  confidence: string;
+  riskScore: number;
+  actionTaken: 'DELETED' | 'FLAGGED' | 'BENIGN';
+  rationale: string;
+  createdAt: Date | null;
+}
+
+interface ShadowModeReportResponse {
+  instagramAccountId: string;
+  days: number;
+  totals: {
+    evaluated: number;
+    wouldDelete: number;
+    wouldFlag: number;
+    benign: number;
+  };
+  byCategory: Record<string, number>;
+  decisions: ShadowModeDecision[];
+}
+
 interface ModerationSettingsResponse {
   global: AccountSpecificSetting | null;
   accountSpecific: AccountSpecificSetting[];
@@ -270,6 +306,8 @@ export class ModerationSettingsController {
         client: _client,
         ...updateableFields
       } = settingsData as any;
+      // Versioning bookkeeping, set only by the version history
+      delete updateableFields.currentVersionId;
 
       // Find existing global settings (no account, no managed client)
       const existingSettings = await db
@@ -285,30 +323,46 @@ export class ModerationSettingsController {
         .limit(1);
 
       if (existingSettings.length > 0) {
-        const [updatedSettings] = await db
-          .update(moderationSettings)
-          .set({
-            ...updateableFields,
-            updatedAt: new Date()
-          })
-          .where(eq(moderationSettings.id, existingSettings[0].id))
-          .returning();
+        const updatedSettings = await db.transaction(async (tx) => {
+          const [updated] = await tx
+            .update(moderationSettings)
+            .set({
+              ...updateableFields,
+              updatedAt: new Date()
+            })
+            .where(eq(moderationSettings.id, existingSettings[0].id))
+            .returning();
+          return settingsVersionService.recordChange(tx, {
+            before: existingSettings[0],
+            after: updated,
+            changeType: 'UPDATED',
+            actor: getActor(req)
+          });
+        });
 
         res.json({
           success: true,
           data: updatedSettings as AccountSpecificSetting
         });
       } else {
-        const [newSettings] = await db
-          .insert(moderationSettings)
-          .values({
-            ...updateableFields,
-            clientId: clientId || null,
-            userId: userId || null,
-            managedClientId: null,
-            instagramAccountId: null
-          })
-          .returning();
+        const newSettings = await db.transaction(async (tx) => {
+          const [inserted] = await tx
+            .insert(moderationSettings)
+            .values({
+              ...updateableFields,
+              clientId: clientId || null,
+              userId: userId || null,
+              managedClientId: null,
+              instagramAccountId: null
+            })
+            .returning();
+          return settingsVersionService.recordChange(tx, {
+            before: null,
+            after: inserted,
+            changeType: 'CREATED',
+            actor: getActor(req)
+          });
+        });
 
         res.json({
           success: true,
@@ -355,6 +409,8 @@ export class ModerationSettingsController {
         client: _client2,
         ...settingsData
       } = rawSettingsData as any;
+      // Versioning bookkeeping, set only by the version history
+      delete settingsData.currentVersionId;
 
       if (!userId && !clientId) {
         res.status(401).json({ success: false, error: 'Unauthorized' });
@@ -421,30 +477,46 @@ export class ModerationSettingsController {
         .limit(1);
 
       if (existingSettings.length > 0) {
-        const [updatedSettings] = await db
-          .update(moderationSettings)
-          .set({
-            ...settingsData,
-            updatedAt: new Date()
-          })
-          .where(eq(moderationSettings.id, existingSettings[0].id))
-          .returning();
+        const updatedSettings = await db.transaction(async (tx) => {
+          const [updated] = await tx
+            .update(moderationSettings)
+            .set({
+              ...settingsData,
+              updatedAt: new Date()
+            })
+            .where(eq(moderationSettings.id, existingSettings[0].id))
+            .returning();
+          return settingsVersionService.recordChange(tx, {
+            before: existingSettings[0],
+            after: updated,
+            changeType: 'UPDATED',
+            actor: getActor(req)
+          });
+        });
 
         res.json({
           success: true,
           data: updatedSettings as AccountSpecificSetting
         });
       } else {
-        const [newSettings] = await db
-          .insert(moderationSettings)
-          .values({
-            ...settingsData,
-            clientId: clientId || null,
-            userId: userId || null,
-            managedClientId: null,
-            instagramAccountId
-          })
-          .returning();
+        const newSettings = await db.transaction(async (tx) => {
+          const [inserted] = await tx
+            .insert(moderationSettings)
+            .values({
+              ...settingsData,
+              clientId: clientId || null,
+              userId: userId || null,
+              managedClientId: null,
+              instagramAccountId
+            })
+            .returning();
+          return settingsVersionService.recordChange(tx, {
+            before: null,
+            after: inserted,
+            changeType: 'CREATED',
+            actor: getActor(req)
+          });
+        });
 
         res.json({
           success: true,
@@ -500,15 +572,26 @@ export class ModerationSettingsController {
         return;
       }
 
-      await db
-        .delete(moderationSettings)
-        .where(
-          and(
-            eq(moderationSettings.instagramAccountId, instagramAccountId),
-            isNull(moderationSettings.managedClientId),
-            ownershipCondition
+      await db.transaction(async (tx) => {
+        const deleted = await tx
+          .delete(moderationSettings)
+          .where(
+            and(
+              eq(moderationSettings.instagramAccountId, instagramAccountId),
+              isNull(moderationSettings.managedClientId),
+              ownershipCondition
+            )
           )
-        );
+          .returning();
+        for (const row of deleted) {
+          await settingsVersionService.recordChange(tx, {
+            before: row,
+            after: null,
+            changeType: 'DELETED',
+            actor: getActor(req)
+          });
+        }
+      });
 
       res.json({
         success: true,
@@ -570,6 +653,8 @@ export class ModerationSettingsController {
         client: _client3,
         ...settingsData
       } = rawSettingsData as any;
+      // Versioning bookkeeping, set only by the version history
+      delete settingsData.currentVersionId;
 
       const existing = await db
         .select()
@@ -584,23 +669,39 @@ export class ModerationSettingsController {
         .limit(1);
 
       if (existing.length > 0) {
-        const [updated] = await db
-          .update(moderationSettings)
-          .set({ ...settingsData, updatedAt: new Date() })
-          .where(eq(moderationSettings.id, existing[0].id))
-          .returning();
+        const updated = await db.transaction(async (tx) => {
+          const [row] = await tx
+            .update(moderationSettings)
+            .set({ ...settingsData, updatedAt: new Date() })
+            .where(eq(moderationSettings.id, existing[0].id))
+            .returning();
+          return settingsVersionService.recordChange(tx, {
+            before: existing[0],
+            after: row,
+            changeType: 'UPDATED',
+            actor: getActor(req)
+          });
+        });
         res.json({ success: true, data: updated as AccountSpecificSetting });
       } else {
-        const [inserted] = await db
-          .insert(moderationSettings)
-          .values({
-            ...settingsData,
-            userId,
-            clientId: null,
-            managedClientId,
-            instagramAccountId: null
-          })
-          .returning();
+        const inserted = await db.transaction(async (tx) => {
+          const [row] = await tx
+            .insert(moderationSettings)
+            .values({
+              ...settingsData,
+              userId,
+              clientId: null,
+              managedClientId,
+              instagramAccountId: null
+            })
+            .returning();
+          return settingsVersionService.recordChange(tx, {
+            before: null,
+            after: row,
+            changeType: 'CREATED',
+            actor: getActor(req)
+          });
+        });
         res.json({ success: true, data: inserted as AccountSpecificSetting });
       }
     } catch (error: unknown) {
@@ -610,6 +711,100 @@ export class ModerationSettingsController {
     }
   }
 
+  /**
+   * Get shadow mode results for an Instagram account
+   * Summarises what moderation would have done (without acting) over the last N days
+   */
+  async getShadowModeReport(
+    req: AuthenticatedRequest,
+    res: Response<ApiResponse<ShadowModeReportResponse>>
+  ): Promise<void> {
+    try {
+      const delegationReq = req as DelegationRequest;
+      const { userId: effectiveUserId, clientId: effectiveClientId } = getEffectiveOwner(delegationReq);
+      const userId = effectiveUserId ?? req.userId;
+      const clientId = effectiveClientId ?? req.clientId;
+      const instagramAccountId = req.query.instagramAccountId as string | undefined;
+      const days = Math.min(Math.max(parseInt(req.query.days as string, 10) || 7, 1), 90);
+
+      if (!userId && !clientId) {
+        res.status(401).json({ success: false, error: 'Unauthorized' });
+        return;
+      }
+
+      if (!instagramAccountId) {
+        res.status(400).json({ success: false, error: 'instagramAccountId is required' });
+        return;
+      }
+
+      const account = await db.query.instagramAccounts.findFirst({
+        where: and(
+          eq(instagramAccounts.id, instagramAccountId),
+          clientId ? eq(instagramAccounts.clientId, clientId) : eq(instagramAccounts.userId, userId!)
+        ),
+        columns: { id: true }
+      });
+
+      if (!account) {
+        res.status(403).json({ success: false, error: 'Instagram account not found or not authorized' });
+        return;
+      }
+
+      const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+      const rows = await db
+        .select({
+          moderationLogId: moderationLogs.id,
+          commentId: comments.id,
+          commentText: comments.text,
+          commenterUsername: comments.commenterUsername,
+          category: moderationLogs.category,
+          confidence: moderationLogs.confidence,
+          riskScore: moderationLogs.riskScore,
+          actionTaken: moderationLogs.actionTaken,
+          rationale: moderationLogs.rationale,
+          createdAt: moderationLogs.createdAt
+        })
+        .from(moderationLogs)
+        .innerJoin(comments, eq(moderationLogs.commentId, comments.id))
+        .innerJoin(posts, eq(comments.postId, posts.id))
+        .where(
+          and(
+            eq(posts.instagramAccountId, instagramAccountId),
+            eq(moderationLogs.isShadowMode, true),
+            gte(moderationLogs.createdAt, since)
+          )
+        )
+        .orderBy(desc(moderationLogs.createdAt));
+
+      const byCategory: Record<string, number> = {};
+      for (const row of rows) {
+        if (row.actionTaken !== 'BENIGN') {
+          byCategory[row.category] = (byCategory[row.category] ?? 0) + 1;
+        }
+      }
+
+      res.json({
+        success: true,
+        data: {
+          instagramAccountId,
+          days,
+          totals: {
+            evaluated: rows.length,
+            wouldDelete: rows.filter(r => r.actionTaken === 'DELETED').length,
+            wouldFlag: rows.filter(r => r.actionTaken === 'FLAGGED').length,
+            benign: rows.filter(r => r.actionTaken === 'BENIGN').length
+          },
+          byCategory,
+          decisions: rows.filter(r => r.actionTaken !== 'BENIGN').slice(0, 200)
+        }
+      });
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      console.error('Error fetching shadow mode report:', errorMessage);
+      res.status(500).json({ success: false, error: 'Internal server error' });
+    }
+  }
+
   /**
    * Delete client-specific moderation settings (agency only)
    */
@@ -639,15 +834,26 @@ export class ModerationSettingsController {
         return;
       }
 
-      await db
-        .delete(moderationSettings)
-        .where(
-          and(
-            eq(moderationSettings.userId, userId),
-            eq(moderationSettings.managedClientId, managedClientId),
-            isNull(moderationSettings.instagramAccountId)
+      await db.transaction(async (tx) => {
+        const deleted = await tx
+          .delete(moderationSettings)
+          .where(
+            and(
+              eq(moderationSettings.userId, userId),
+              eq(moderationSettings.managedClientId, managedClientId),
+              isNull(moderationSettings.instagramAccountId)
+            )
           )
-        );
+          .returning();
+        for (const row of deleted) {
+          await settingsVersionService.recordChange(tx, {
+            before: row,
+            after: null,
+            changeType: 'DELETED',
+            actor: getActor(req)
+          });
+        }
+      });
 
       res.json({
         success: true,
@@ -659,6 +865,151 @@ export class ModerationSettingsController {
       res.status(500).json({ success: false, error: 'Internal server error' });
     }
   }
+
+  /**
+   * List versions of a settings row, newest first.
+   * Query: instagramAccountId (account settings) or managedClientId (agency client rule),
+   * neither for global settings; limit, offset
+   */
+  async listSettingsVersions(
+    req: AuthenticatedRequest,
+    res: Response
+  ): Promise<void> {
+    try {
+      const { userId: effectiveUserId, clientId: effectiveClientId } = getEffectiveOwner(req as DelegationRequest);
+      const userId = effectiveUserId ?? req.userId;
+      const clientId = effectiveClientId ?? req.clientId;
+
+      if (!userId && !clientId) {
+        res.status(401).json({ success: false, error: 'Unauthorized' });
+        return;
+      }
+
+      const instagramAccountId = typeof req.query.instagramAccountId === 'string' ? req.query.instagramAccountId : null;
+      const managedClientId = typeof req.query.managedClientId === 'string' ? req.query.managedClientId : null;
+      if (instagramAccountId && managedClientId) {
+        res.status(400).json({ success: false, error: 'Use either instagramAccountId or managedClientId, not both' });
+        return;
+      }
+
+      const limit = Math.min(Math.max(parseInt(req.query.limit as string) || 50, 1), MAX_VERSIONS_PAGE_SIZE);
+      const offset = Math.max(parseInt(req.query.offset as string) || 0, 0);
+
+      const { versions, total } = await settingsVersionService.listVersions(
+        clientId ? { clientId } : { userId },
+        { instagramAccountId, managedClientId },
+        { limit, offset }
+      );
+
+      res.json({
+        success: true,
+        data: {
+          versions,
+          pagination: { total, limit, offset, hasMore: offset + versions.length < total }
+        }
+      });
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      console.error('Error listing moderation settings versions:', errorMessage);
+      res.status(500).json({ success: false, error: 'Internal server error' });
+    }
+  }
+
+  /**
+   * Roll settings back to a version: its snapshot becomes the current settings for that scope
+   */
+  async rollbackSettingsVersion(
+    req: AuthenticatedRequest,
+    res: Response<ApiResponse<AccountSpecificSetting>>
+  ): Promise<void> {
+    try {
+      const { userId: effectiveUserId, clientId: effectiveClientId } = getEffectiveOwner(req as DelegationRequest);
+      const userId = effectiveUserId ?? req.userId;
+      const clientId = effectiveClientId ?? req.clientId;
+
+      if (!userId && !clientId) {
+        res.status(401).json({ success: false, error: 'Unauthorized' });
+        return;
+      }
+
+      const version = await settingsVersionService.getVersion(req.params.versionId, clientId ? { clientId } : { userId });
+      if (!version) {
+        res.status(404).json({ success: false, error: 'Settings version not found' });
+        return;
+      }
+      if (!version.snapshot) {
+        res.status(400).json({ success: false, error: 'Cannot roll back to a deletion; delete the settings instead' });
+        return;
+      }
+
+      const restored = await settingsVersionService.rollback(version, getActor(req));
+
+      res.json({ success: true, data: restored as AccountSpecificSetting });
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      console.error('Error rolling back moderation settings:', errorMessage);
+      res.status(500).json({ success: false, error: 'Internal server error' });
+    }
+  }
+
+  /**
+   * Replay an account's moderation decisions from the last N days against proposed settings
+   * (merged over the account's current settings) and report which outcomes would change.
+   * Body: instagramAccountId, settings (thresholds to try), days (default 30, max 90)
+   */
+  async simulateSettings(
+    req: AuthenticatedRequest,
+    res: Response<ApiResponse<SimulationReport>>
+  ): Promise<void> {
+    try {
+      const { userId: effectiveUserId, clientId: effectiveClientId } = getEffectiveOwner(req as DelegationRequest);
+      const userId = effectiveUserId ?? req.userId;
+      const clientId = effectiveClientId ?? req.clientId;
+
+      if (!userId && !clientId) {
+        res.status(401).json({ success: false, error: 'Unauthorized' });
+        return;
+      }
+
+      const { instagramAccountId, settings: proposed } = req.body ?? {};
+      if (typeof instagramAccountId !== 'string' || !instagramAccountId) {
+        res.status(400).json({ success: false, error: 'instagramAccountId is required' });
+        return;
+      }
+      const settingsError = moderationProfileService.validateOverrides(proposed, 'settings');
+      if (settingsError) {
+        res.status(400).json({ success: false, error: settingsError });
+        return;
+      }
+      const days = Math.min(Math.max(parseInt(req.body.days, 10) || 30, 1), 90);
+
+      const account = await db.query.instagramAccounts.findFirst({
+        where: and(
+          eq(instagramAccounts.id, instagramAccountId),
+          clientId ? eq(instagramAccounts.clientId, clientId) : eq(instagramAccounts.userId, userId!)
+        ),
+        columns: { id: true }
+      });
+
+      if (!account) {
+        res.status(403).json({ success: false, error: 'Instagram account not found or not authorized' });
+        return;
+      }
+
+      const current = await moderationService.resolveModerationSettings(clientId, userId, instagramAccountId);
+      const report = await thresholdSimulationService.simulate(
+        instagramAccountId,
+        { ...current, ...(proposed as ModerationProfileOverrides) },
+        days
+      );
+
+      res.json({ success: true, data: report });
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      console.error('Error simulating moderation settings:', errorMessage);
+      res.status(500).json({ success: false, error: 'Internal server error' });
+    }
+  }
 }
 
 export const moderationSettingsController = new ModerationSettingsController();
\ No newline at end of file
@@ -0,0 +1,120 @@
+import { Response } from 'express';
+import { AuthRequest } from '../middleware/auth.middleware';
+import { commentQueue } from '../queue/commentQueue';
+import { QueueJob } from '../db/schema';
+
+const VALID_STATUSES: Array<QueueJob['status']> = ['PENDING', 'RUNNING', 'DEAD'];
+const MAX_PAGE_SIZE = 100;
+
+export class QueueController {
+  /**
+   * Strip credentials (page/account access tokens) from job payloads before returning them
+   */
+  private redact(job: QueueJob): QueueJob {
+    if (!job.data || typeof job.data !== 'object') return job;
+    const data = { ...(job.data as Record<string, unknown>) };
+    if ('accessToken' in data) data.accessToken = '[REDACTED]';
+    return { ...job, data };
+  }
+
+  /**
+   * Queue depth (by status, type, priority and tenant) plus this worker's throughput and failure counters
+   */
+  async getStats(_req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const stats = await commentQueue.getStats();
+      res.json({ success: true, data: stats });
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      console.error('Error fetching queue stats:', errorMessage);
+      res.status(500).json({ success: false, error: 'Internal server error' });
+    }
+  }
+
+  /**
+   * List queue jobs by status (defaults to DEAD)
+   */
+  async listJobs(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const status = ((req.query.status as string) || 'DEAD').toUpperCase() as QueueJob['status'];
+      if (!VALID_STATUSES.includes(status)) {
+        res.status(400).json({ success: false, error: 'Invalid status. Must be PENDING, RUNNING or DEAD' });
+        return;
+      }
+
+      const type = typeof req.query.type === 'string' ? req.query.type : undefined;
+      const limit = Math.min(Math.max(parseInt(req.query.limit as string) || 50, 1), MAX_PAGE_SIZE);
+      const offset = Math.max(parseInt(req.query.offset as string) || 0, 0);
+
+      const { jobs, total } = await commentQueue.listJobs({ status, type, limit, offset });
+
+      res.json({
+        success: true,
+        data: {
+          jobs: jobs.map(job => this.redact(job)),
+          pagination: { total, limit, offset, hasMore: offset + jobs.length < total }
+        }
+      });
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      console.error('Error listing queue jobs:', errorMessage);
+      res.status(500).json({ success: false, error: 'Internal server error' });
+    }
+  }
+
+  /**
+   * Get a single queue job
+   */
+  async getJob(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const job = await commentQueue.getJob(req.params.id);
+      if (!job) {
+        res.status(404).json({ success: false, error: 'Job not found' });
+        return;
+      }
+
+      res.json({ success: true, data: this.redact(job) });
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      console.error('Error fetching queue job:', errorMessage);
+      res.status(500).json({ success: false, error: 'Internal server error' });
+    }
+  }
+
+  /**
+   * Replay a dead job
+   */
+  async replayJob(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const job = await commentQueue.replayJob(req.params.id);
+      if (!job) {
+        res.status(404).json({ success: false, error: 'Dead job not found' });
+        return;
+      }
+
+      res.json({ success: true, data: this.redact(job) });
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      console.error('Error replaying queue job:', errorMessage);
+      res.status(500).json({ success: false, error: 'Internal server error' });
+    }
+  }
+
+  /**
+   * Replay all dead jobs, optionally limited to one job type
+   */
+  async replayDeadJobs(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const type = typeof req.body?.type === 'string' ? req.body.type : undefined;
+      const replayed = await commentQueue.replayDeadJobs(type);
+
+      res.json({ success: true, data: { replayed } });
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      console.error('Error replaying dead jobs:', errorMessage);
+      res.status(500).json({ success: false, error: 'Internal server error' });
+    }
+  }
+}
+
+export const queueController = new QueueController();
@@ -17,6 +17,7 @@ import { isAgency } from '../utils/account-type.utils';
 import { DelegationRequest, getEffectiveOwner } from '../middleware/delegation.middleware';
 import { ApiResponse, IdentifierType, CommentCategory, ThreatLevel } from '../types';
 import { llmService } from '../services/llm.service';
+import { aiUsageService } from '../services/aiUsage.service';
 import { embeddingsService } from '../services/embeddings.service';
 import { storageService } from '../services/storage.service';
 import { exportService } from '../services/export.service';
@@ -321,7 +322,7 @@ export class SuspiciousAccountsController {
         id: acc.id,
         commenterUsername: acc.commenterUsername,
         commenterId: acc.commenterId,
-        instagramAccountId: acc.instagramAccountId,
+        instagramAccountId: acc.instagramAccountId!,
         totalComments: acc.totalComments,
         isBlocked: acc.isBlocked ?? false,
         createdAt: acc.createdAt
@@ -420,7 +421,8 @@ export class SuspiciousAccountsController {
         .orderBy(sortBy === 'lastSeenAt' ? desc(suspiciousAccounts.lastSeenAt) : desc(suspiciousAccounts.totalComments));
 
       // Exclude account owners (never show the Instagram account owner as a suspicious account)
-      const igAccountIds = [...new Set(accountsRaw.map((a: { instagramAccountId: string }) => a.instagramAccountId))];
+      const igAccountIds = [...new Set(accountsRaw.map((a: { instagramAccountId: string | null }) => a.instagramAccountId))]
+        .filter((id): id is string => !!id);
       const igAccountsList = igAccountIds.length > 0
         ? await db.query.instagramAccounts.findMany({
             where: inArray(instagramAccounts.id, igAccountIds),
@@ -430,7 +432,8 @@ export class SuspiciousAccountsController {
       const igByAccountId = new Map(igAccountsList.map(ig => [ig.id, ig]));
       const normalizeUsername = (s: string | null | undefined): string =>
         (s ?? '').toString().toLowerCase().trim().replace(/^@/, '');
-      const isOwnerRecord = (sa: { instagramAccountId: string; commenterUsername: string; commenterId: string }) => {
+      const isOwnerRecord = (sa: { instagramAccountId: string | null; commenterUsername: string; commenterId: string }): boolean => {
+        if (!sa.instagramAccountId) return false;
         const ig = igByAccountId.get(sa.instagramAccountId);
         if (!ig) return false;
         const commenterNorm = normalizeUsername(sa.commenterUsername);
@@ -439,9 +442,9 @@ export class SuspiciousAccountsController {
         if (sa.commenterId && ig.instagramId && sa.commenterId === ig.instagramId) return true;
         return false;
       };
-      const accounts = accountsRaw.filter((sa: { instagramAccountId: string; commenterUsername: string; commenterId: string }) => !isOwnerRecord(sa));
+      const accounts = accountsRaw.filter((sa: { instagramAccountId: string | null; commenterUsername: string; commenterId: string }) => !isOwnerRecord(sa));
       // Hide existing owner records in DB so they stop counting on dashboard and never reappear
-      const ownerRecordIds = accountsRaw.filter((sa: { instagramAccountId: string; commenterUsername: string; commenterId: string }) => isOwnerRecord(sa)).map((sa: { id: string }) => sa.id);
+      const ownerRecordIds = accountsRaw.filter((sa: { instagramAccountId: string | null; commenterUsername: string; commenterId: string }) => isOwnerRecord(sa)).map((sa: { id: string }) => sa.id);
       if (ownerRecordIds.length > 0) {
         await db.update(suspiciousAccounts).set({ isHidden: true }).where(inArray(suspiciousAccounts.id, ownerRecordIds));
       }
@@ -531,7 +534,7 @@ export class SuspiciousAccountsController {
         .where(eq(suspiciousAccounts.id, id))
         .limit(1);
 
-      if (account.length === 0) {
+      if (account.length === 0 || !account[0].instagramAccountId) {
         res.status(404).json({ success: false, error: 'Account not found' });
         return;
       }
@@ -599,7 +602,7 @@ export class SuspiciousAccountsController {
         .where(eq(suspiciousAccounts.id, id))
         .limit(1);
 
-      if (account.length === 0) {
+      if (account.length === 0 || !account[0].instagramAccountId) {
         res.status(404).json({ success: false, error: 'Account not found' });
         return;
       }
@@ -665,7 +668,7 @@ export class SuspiciousAccountsController {
         .where(eq(suspiciousAccounts.id, id))
         .limit(1);
 
-      if (account.length === 0) {
+      if (account.length === 0 || !account[0].instagramAccountId) {
         res.status(404).json({ success: false, error: 'Account not found' });
         return;
       }
@@ -762,7 +765,7 @@ export class SuspiciousAccountsController {
         .where(eq(suspiciousAccounts.id, id))
         .limit(1);
 
-      if (account.length === 0) {
+      if (account.length === 0 || !account[0].instagramAccountId) {
         res.status(404).json({ success: false, error: 'Account not found' });
         return;
       }
@@ -869,7 +872,7 @@ export class SuspiciousAccountsController {
         .where(eq(suspiciousAccounts.id, id))
         .limit(1);
 
-      if (account.length === 0) {
+      if (account.length === 0 || !account[0].instagramAccountId) {
         res.status(404).json({ success: false, error: 'Account not found' });
         return;
       }
@@ -1018,7 +1021,7 @@ export class SuspiciousAccountsController {
 
       console.log(`🔍 [DEBUG] Found ${account.length} accounts with ID ${id}`);
 
-      if (account.length === 0) {
+      if (account.length === 0 || !account[0].instagramAccountId) {
         console.log(`❌ [DEBUG] Account ${id} not found in database`);
         res.status(404).json({ success: false, error: 'Account not found' });
         return;
@@ -1037,7 +1040,7 @@ export class SuspiciousAccountsController {
         .from(instagramAccounts)
         .where(
           and(
-            eq(instagramAccounts.id, accountData.instagramAccountId),
+            eq(instagramAccounts.id, account[0].instagramAccountId),
             sql`${instagramAccounts.userId} = ${userId} OR EXISTS (
               SELECT 1 FROM ${clients} WHERE ${clients.id} = ${instagramAccounts.clientId} AND ${clients.userId} = ${userId}
             )`
@@ -1184,7 +1187,7 @@ export class SuspiciousAccountsController {
       
       for (const urlItem of urls) {
         try {
-          const analysis = await llmService.analyzeUrl(urlItem.url);
+          const analysis = await aiUsageService.runWithOwner({ userId }, () => llmService.analyzeUrl(urlItem.url));
           
           // Only include suspicious links or links with payment solicitation
           if (analysis.isSuspicious || analysis.containsPaymentSolicitation) {
@@ -1684,6 +1687,11 @@ export class SuspiciousAccountsController {
 
       // Verify user has permission (either uploaded by them or they own the account)
       if (evidenceRecord.uploadedBy !== userId) {
+        if (!account.instagramAccountId) {
+          res.status(403).json({ success: false, error: 'Permission denied' });
+          return;
+        }
+
         // Check if user owns the Instagram account
         const [instagramAccount] = await db
           .select()
@@ -0,0 +1,201 @@
+import { Response } from 'express';
+import { eq, desc, sql } from 'drizzle-orm';
+import { db } from '../db';
+import {
+  agencyNetworkSettings,
+  globalThreatNetwork,
+  threatNetworkReports,
+  threatNetworkAlerts,
+  instagramAccounts,
+  facebookPages
+} from '../db/schema';
+import { AuthRequest } from '../middleware/auth.middleware';
+import { isAgency } from '../utils/account-type.utils';
+import { threatNetworkService, GLOBAL_THREAT_MIN_REPORTS } from '../services/threatNetwork.service';
+import { UpdateThreatNetworkSettingsSchema } from '../validation/schemas';
+import { validationError } from '../utils/validation.utils';
+
+const MAX_PAGE_SIZE = 100;
+
+export class ThreatNetworkController {
+  /**
+   * The requesting agency, or null after responding 401/403
+   */
+  private requireAgency(req: AuthRequest, res: Response): string | null {
+    if (!req.userId) {
+      res.status(401).json({ success: false, error: 'Unauthorized' });
+      return null;
+    }
+    if (!isAgency(req.accountType)) {
+      res.status(403).json({ success: false, error: 'Only agencies can use the threat network' });
+      return null;
+    }
+    return req.userId;
+  }
+
+  /**
+   * Get the agency's threat sharing preferences
+   */
+  async getSettings(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const agencyId = this.requireAgency(req, res);
+      if (!agencyId) return;
+
+      const settings = await threatNetworkService.getSettings(agencyId);
+      res.json({ success: true, data: { ...settings, verificationThreshold: GLOBAL_THREAT_MIN_REPORTS } });
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      console.error('Error fetching threat network settings:', errorMessage);
+      res.status(500).json({ success: false, error: 'Internal server error' });
+    }
+  }
+
+  /**
+   * Opt in or out of sharing threat data and receiving threat alerts
+   */
+  async updateSettings(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const agencyId = this.requireAgency(req, res);
+      if (!agencyId) return;
+
+      const parsed = UpdateThreatNetworkSettingsSchema.safeParse(req.body);
+      if (!parsed.success) {
+        res.status(400).json({ success: false, error: validationError(parsed.error) });
+        return;
+      }
+
+      const [settings] = await db
+        .insert(agencyNetworkSettings)
+        .values({ userId: agencyId, ...parsed.data })
+        .onConflictDoUpdate({
+          target: agencyNetworkSettings.userId,
+          set: { ...parsed.data, updatedAt: new Date() }
+        })
+        .returning({
+          shareThreatData: agencyNetworkSettings.shareThreatData,
+          receiveThreatAlerts: agencyNetworkSettings.receiveThreatAlerts
+        });
+
+      res.json({
+        success: true,
+        data: {
+          shareThreatData: settings.shareThreatData ?? false,
+          receiveThreatAlerts: settings.receiveThreatAlerts ?? true,
+          verificationThreshold: GLOBAL_THREAT_MIN_REPORTS
+        }
+      });
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      console.error('Error updating threat network settings:', errorMessage);
+      res.status(500).json({ success: false, error: 'Internal server error' });
+    }
+  }
+
+  /**
+   * List the reports the agency contributed and whether each offender has been verified
+   */
+  async getReports(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const agencyId = this.requireAgency(req, res);
+      if (!agencyId) return;
+
+      const limit = Math.min(Math.max(parseInt(req.query.limit as string) || 50, 1), MAX_PAGE_SIZE);
+      const offset = Math.max(parseInt(req.query.offset as string) || 0, 0);
+      const where = eq(threatNetworkReports.reportingAgencyId, agencyId);
+
+      const [reports, [{ count }]] = await Promise.all([
+        db
+          .select({
+            id: threatNetworkReports.id,
+            globalThreatId: threatNetworkReports.globalThreatId,
+            violationCategory: threatNetworkReports.violationCategory,
+            severity: threatNetworkReports.severity,
+            anonymizedDescription: threatNetworkReports.anonymizedDescription,
+            reportingAgencies: globalThreatNetwork.totalAgenciesTargeted,
+            isGlobalThreat: globalThreatNetwork.isGlobalThreat,
+            verifiedAt: globalThreatNetwork.verifiedAt,
+            createdAt: threatNetworkReports.createdAt,
+            updatedAt: threatNetworkReports.updatedAt
+          })
+          .from(threatNetworkReports)
+          .innerJoin(globalThreatNetwork, eq(threatNetworkReports.globalThreatId, globalThreatNetwork.id))
+          .where(where)
+          .orderBy(desc(threatNetworkReports.updatedAt))
+          .limit(limit)
+          .offset(offset),
+        db.select({ count: sql<number>`count(*)::int` }).from(threatNetworkReports).where(where)
+      ]);
+
+      res.json({
+        success: true,
+        data: {
+          reports,
+          pagination: { total: count, limit, offset, hasMore: offset + reports.length < count }
+        }
+      });
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      console.error('Error fetching threat network reports:', errorMessage);
+      res.status(500).json({ success: false, error: 'Internal server error' });
+    }
+  }
+
+  /**
+   * List global threats first seen on the agency's accounts
+   */
+  async getAlerts(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const agencyId = this.requireAgency(req, res);
+      if (!agencyId) return;
+
+      const limit = Math.min(Math.max(parseInt(req.query.limit as string) || 50, 1), MAX_PAGE_SIZE);
+      const offset = Math.max(parseInt(req.query.offset as string) || 0, 0);
+      const where = eq(threatNetworkAlerts.agencyId, agencyId);
+
+      const [rows, [{ count }]] = await Promise.all([
+        db
+          .select({
+            alert: threatNetworkAlerts,
+            reportingAgencies: globalThreatNetwork.totalAgenciesTargeted,
+            blackmailCount: globalThreatNetwork.blackmailCount,
+            threatCount: globalThreatNetwork.threatCount,
+            highestRiskScore: globalThreatNetwork.highestRiskScore,
+            instagramUsername: instagramAccounts.username,
+            pageName: facebookPages.pageName
+          })
+          .from(threatNetworkAlerts)
+          .innerJoin(globalThreatNetwork, eq(threatNetworkAlerts.globalThreatId, globalThreatNetwork.id))
+          .leftJoin(instagramAccounts, eq(threatNetworkAlerts.instagramAccountId, instagramAccounts.id))
+          .leftJoin(facebookPages, eq(threatNetworkAlerts.facebookPageId, facebookPages.id))
+          .where(where)
+          .orderBy(desc(threatNetworkAlerts.createdAt))
+          .limit(limit)
+          .offset(offset),
+        db.select({ count: sql<number>`count(*)::int` }).from(threatNetworkAlerts).where(where)
+      ]);
+
+      const alerts = rows.map(row => ({
+        ...row.alert,
+        seenOn: row.instagramUsername ? `@${row.instagramUsername}` : row.pageName,
+        reportingAgencies: row.reportingAgencies ?? 0,
+        blackmailCount: row.blackmailCount ?? 0,
+        threatCount: row.threatCount ?? 0,
+        highestRiskScore: row.highestRiskScore
+      }));
+
+      res.json({
+        success: true,
+        data: {
+          alerts,
+          pagination: { total: count, limit, offset, hasMore: offset + alerts.length < count }
+        }
+      });
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      console.error('Error fetching threat network alerts:', errorMessage);
+      res.status(500).json({ success: false, error: 'Internal server error' });
+    }
+  }
+}
+
+export const threatNetworkController = new ThreatNetworkController();
@@ -10,7 +10,9 @@ import {
 } from '../db/schema';
 import { eq, and, sql } from 'drizzle-orm';
 import { instagramService } from '../services/instagram.service';
-import { DelegationRequest } from '../middleware/delegation.middleware';
+import { invalidateClassificationCache } from '../services/cache.service';
+import { incidentService, IncidentEventInput, OpenManualIncidentParams } from '../services/incident.service';
+import { DelegationRequest, getActor } from '../middleware/delegation.middleware';
 
 interface UnderAttackRequest {
   attackType: 'account' | 'content';
@@ -28,6 +30,7 @@ interface UnderAttackResponse {
     postsScanned?: number;
     filterId?: string;
     suspiciousAccountId?: string;
+    incidentId?: string;
   };
   error?: string;
 }
@@ -102,13 +105,15 @@ export class UnderAttackController {
    * Instagram API does not support programmatic blocking.
    */
   private async handleAccountAttack(
-    _req: DelegationRequest,
+    req: DelegationRequest,
     res: Response<UnderAttackResponse>,
     username: string,
     instagramAccountId: string,
     userId: string | undefined,
     clientId: string | undefined
   ): Promise<void> {
+    const actor = getActor(req);
+
     // Validate required fields
     if (!username || !instagramAccountId) {
       res.status(400).json({
@@ -157,7 +162,9 @@ export class UnderAttackController {
       .select({
         id: instagramAccounts.id,
         accessToken: instagramAccounts.accessToken,
-        username: instagramAccounts.username
+        username: instagramAccounts.username,
+        userId: instagramAccounts.userId,
+        clientId: instagramAccounts.clientId
       })
       .from(instagramAccounts)
       .where(and(eq(instagramAccounts.id, instagramAccountId), ownershipCondition))
@@ -226,9 +233,31 @@ export class UnderAttackController {
       })
       .where(eq(suspiciousAccounts.id, suspiciousAccount.id));
 
+    // Joins the account's active incident if one is already open
+    const incidentId = await this.recordIncident(
+      {
+        userId: account.userId,
+        clientId: account.clientId,
+        instagramAccountId,
+        type: 'ACCOUNT_ATTACK',
+        actor,
+        details: { username: normalizedUsername }
+      },
+      [{
+        eventType: 'ACCOUNT_BLOCKED',
+        actorUserId: actor.userId,
+        actorClientId: actor.clientId,
+        instagramAccountId,
+        commenterId: suspiciousAccount.commenterId.startsWith('manual_') ? null : suspiciousAccount.commenterId,
+        commenterUsername: normalizedUsername,
+        details: { suspiciousAccountId: suspiciousAccount.id, reason: 'Under Attack - Emergency block' }
+      }]
+    );
+
     // Delete all existing comments from this user
     let deletedCount = 0;
     let postsScanned = 0;
+    const deletedComments: IncidentEventInput[] = [];
 
     if (account.accessToken) {
       // Find all comments from this commenter by joining with posts
@@ -236,7 +265,8 @@ export class UnderAttackController {
         .select({
           id: comments.id,
           igCommentId: comments.igCommentId,
-          postId: comments.postId
+          postId: comments.postId,
+          commenterId: comments.commenterId
         })
         .from(comments)
         .innerJoin(posts, eq(comments.postId, posts.id))
@@ -275,6 +305,17 @@ export class UnderAttackController {
           .where(eq(comments.id, comment.id));
 
         deletedCount++;
+        deletedComments.push({
+          eventType: 'COMMENT_ACTIONED',
+          actorUserId: actor.userId,
+          actorClientId: actor.clientId,
+          instagramAccountId,
+          postId: comment.postId,
+          commentId: comment.id,
+          commenterId: comment.commenterId,
+          commenterUsername: normalizedUsername,
+          details: { action: 'DELETED', reason: 'UNDER_ATTACK' }
+        });
       }
 
       if (deletedCount > 0) {
@@ -284,13 +325,21 @@ export class UnderAttackController {
       }
     }
 
+    if (incidentId) {
+      await incidentService.addEvents(incidentId, deletedComments).catch((error: unknown) => {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        console.error('[Under Attack] Failed to record deleted comments on incident:', errorMessage);
+      });
+    }
+
     res.json({
       success: true,
       action: 'account_blocked',
       details: {
         deletedCount,
         postsScanned,
-        suspiciousAccountId: suspiciousAccount.id
+        suspiciousAccountId: suspiciousAccount.id,
+        incidentId
       }
     });
   }
@@ -299,13 +348,15 @@ export class UnderAttackController {
    * Handle content-based attacks (create auto-delete filter)
    */
   private async handleContentAttack(
-    _req: DelegationRequest,
+    req: DelegationRequest,
     res: Response<UnderAttackResponse>,
     contentDescription: string,
     category: 'blackmail' | 'threat' | 'defamation' | 'harassment' | 'spam',
     userId: string | undefined,
     clientId: string | undefined
   ): Promise<void> {
+    const actor = getActor(req);
+
     // Validate required fields
     if (!contentDescription) {
       res.status(400).json({
@@ -365,14 +416,54 @@ export class UnderAttackController {
       })
       .returning();
 
+    invalidateClassificationCache({ userId, clientId });
+
+    // Content attacks aren't tied to one account: the filter applies to all of the owner's accounts
+    const incidentId = await this.recordIncident(
+      {
+        userId: userId ?? null,
+        clientId: clientId ?? null,
+        instagramAccountId: null,
+        type: 'CONTENT_ATTACK',
+        actor,
+        details: { contentDescription, category: finalCategory }
+      },
+      [{
+        eventType: 'FILTER_CREATED',
+        actorUserId: actor.userId,
+        actorClientId: actor.clientId,
+        details: { filterId: createdFilter.id, category: finalCategory, autoDelete: true }
+      }]
+    );
+
     res.json({
       success: true,
       action: 'filter_created',
       details: {
-        filterId: createdFilter.id
+        filterId: createdFilter.id,
+        incidentId
       }
     });
   }
+
+  /**
+   * Open (or join) the incident for an emergency response and record its actions.
+   * The response itself has already been carried out, so a failure here is logged, not returned.
+   */
+  private async recordIncident(
+    params: OpenManualIncidentParams,
+    events: IncidentEventInput[]
+  ): Promise<string | undefined> {
+    try {
+      const incident = await incidentService.openManualIncident(params);
+      await incidentService.addEvents(incident.id, events);
+      return incident.id;
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      console.error('[Under Attack] Failed to record incident:', errorMessage);
+      return undefined;
+    }
+  }
 }
 
 export const underAttackController = new UnderAttackController();
@@ -0,0 +1,52 @@
+import { Response } from 'express';
+import { AuthRequest } from '../middleware/auth.middleware';
+import { DelegationRequest, getEffectiveOwner } from '../middleware/delegation.middleware';
+import { aiUsageService } from '../services/aiUsage.service';
+
+const DEFAULT_RANGE_DAYS = 30;
+const MAX_RANGE_DAYS = 366;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const toDateString = (date: Date): string => date.toISOString().substring(0, 10);
+
+export class UsageController {
+  /**
+   * Daily LLM and embedding usage (calls, tokens, latency, cost) for the effective owner,
+   * with totals by day, purpose and model. Query: from, to (YYYY-MM-DD, inclusive;
+   * defaults to the last 30 days).
+   */
+  async getUsage(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const { userId, clientId } = getEffectiveOwner(req as DelegationRequest);
+      const ownerUserId = clientId ? undefined : (userId ?? req.userId);
+      if (!ownerUserId && !clientId) {
+        res.status(401).json({ success: false, error: 'Unauthorized' });
+        return;
+      }
+
+      const to = typeof req.query.to === 'string' ? req.query.to : toDateString(new Date());
+      const from = typeof req.query.from === 'string'
+        ? req.query.from
+        : toDateString(new Date(Date.now() - (DEFAULT_RANGE_DAYS - 1) * 24 * 60 * 60 * 1000));
+
+      if (!DATE_PATTERN.test(from) || !DATE_PATTERN.test(to) || isNaN(Date.parse(from)) || isNaN(Date.parse(to))) {
+        res.status(400).json({ success: false, error: 'from and to must be dates in YYYY-MM-DD format' });
+        return;
+      }
+      const rangeDays = (Date.parse(to) - Date.parse(from)) / (24 * 60 * 60 * 1000) + 1;
+      if (rangeDays < 1 || rangeDays > MAX_RANGE_DAYS) {
+        res.status(400).json({ success: false, error: `from must be on or before to, and the range at most ${MAX_RANGE_DAYS} days` });
+        return;
+      }
+
+      const usage = await aiUsageService.getUsage({ userId: ownerUserId, clientId }, from, to);
+      res.json({ success: true, data: usage });
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      console.error('Error fetching AI usage:', errorMessage);
+      res.status(500).json({ success: false, error: 'Internal server error' });
+    }
+  }
+}
+
+export const usageController = new UsageController();
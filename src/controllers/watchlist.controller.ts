@@ -0,0 +1,317 @@
+import { Response } from 'express';
+import { eq, and, or, desc, ilike, sql, SQL } from 'drizzle-orm';
+import { db } from '../db';
+import { knownThreatsWatchlist, watchlistDetections, KnownThreatsWatchlist } from '../db/schema';
+import { AuthRequest } from '../middleware/auth.middleware';
+import { getOwner } from '../middleware/delegation.middleware';
+import { AddWatchlistThreatSchema, UpdateWatchlistThreatSchema } from '../validation/schemas';
+import { validationError } from '../utils/validation.utils';
+
+type WatchlistOwner = { userId: string | undefined; clientId: string | undefined };
+
+const MAX_PAGE_SIZE = 100;
+
+const THREAT_TYPES = ['blackmail', 'threat', 'harassment', 'defamation', 'spam_bot', 'coordinated_attack'] as const;
+const THREAT_LEVELS = ['LOW', 'MEDIUM', 'HIGH', 'CRITICAL'] as const;
+const DETECTION_TYPES = ['DIRECT_COMMENT', 'USERNAME_MENTION', 'KEYWORD_MATCH', 'COORDINATED_PATTERN'] as const;
+
+// Usernames are matched exactly against commenters, so store them without a leading @
+const normalizeUsername = (username: string | undefined): string | null | undefined =>
+  username === undefined ? undefined : username.trim().replace(/^@/, '') || null;
+
+const normalizeKeywords = (keywords: string[] | undefined): string[] | undefined =>
+  keywords === undefined ? undefined : [...new Set(keywords.map(k => k.trim()).filter(Boolean))];
+
+const queryValue = <T extends string>(value: unknown, allowed: readonly T[]): T | undefined =>
+  typeof value === 'string' && (allowed as readonly string[]).includes(value) ? value as T : undefined;
+
+const queryBoolean = (value: unknown): boolean | undefined =>
+  value === 'true' ? true : value === 'false' ? false : undefined;
+
+export class WatchlistController {
+  private ownershipCondition(owner: WatchlistOwner): SQL {
+    return owner.clientId
+      ? eq(knownThreatsWatchlist.clientId, owner.clientId)
+      : eq(knownThreatsWatchlist.userId, owner.userId!);
+  }
+
+  private async findOwnedEntry(id: string, owner: WatchlistOwner): Promise<KnownThreatsWatchlist | null> {
+    const [entry] = await db
+      .select()
+      .from(knownThreatsWatchlist)
+      .where(and(eq(knownThreatsWatchlist.id, id), this.ownershipCondition(owner)))
+      .limit(1);
+    return entry ?? null;
+  }
+
+  /**
+   * List watchlist entries, newest first.
+   * Query: threatType, threatLevel, isActive, resolved, search (username, ID or description), limit, offset
+   */
+  async getEntries(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const owner = getOwner(req);
+      if (!owner.userId && !owner.clientId) {
+        res.status(401).json({ success: false, error: 'Unauthorized' });
+        return;
+      }
+
+      const limit = Math.min(Math.max(parseInt(req.query.limit as string) || 50, 1), MAX_PAGE_SIZE);
+      const offset = Math.max(parseInt(req.query.offset as string) || 0, 0);
+
+      const conditions: SQL[] = [this.ownershipCondition(owner)];
+      const threatType = queryValue(req.query.threatType, THREAT_TYPES);
+      const threatLevel = queryValue(req.query.threatLevel, THREAT_LEVELS);
+      const isActive = queryBoolean(req.query.isActive);
+      const resolved = queryBoolean(req.query.resolved);
+      if (threatType) conditions.push(eq(knownThreatsWatchlist.threatType, threatType));
+      if (threatLevel) conditions.push(eq(knownThreatsWatchlist.threatLevel, threatLevel));
+      if (isActive !== undefined) conditions.push(eq(knownThreatsWatchlist.isActive, isActive));
+      if (resolved !== undefined) conditions.push(eq(knownThreatsWatchlist.resolved, resolved));
+      if (typeof req.query.search === 'string' && req.query.search.trim()) {
+        const pattern = `%${req.query.search.trim()}%`;
+        conditions.push(or(
+          ilike(knownThreatsWatchlist.instagramUsername, pattern),
+          ilike(knownThreatsWatchlist.instagramId, pattern),
+          ilike(knownThreatsWatchlist.description, pattern)
+        )!);
+      }
+      const where = and(...conditions);
+
+      const [entries, [{ count }]] = await Promise.all([
+        db
+          .select()
+          .from(knownThreatsWatchlist)
+          .where(where)
+          .orderBy(desc(knownThreatsWatchlist.createdAt))
+          .limit(limit)
+          .offset(offset),
+        db.select({ count: sql<number>`count(*)::int` }).from(knownThreatsWatchlist).where(where)
+      ]);
+
+      res.json({
+        success: true,
+        data: {
+          entries,
+          pagination: { total: count, limit, offset, hasMore: offset + entries.length < count }
+        }
+      });
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      console.error('Error fetching watchlist:', errorMessage);
+      res.status(500).json({ success: false, error: 'Internal server error' });
+    }
+  }
+
+  /**
+   * Get a watchlist entry
+   */
+  async getEntry(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const owner = getOwner(req);
+      if (!owner.userId && !owner.clientId) {
+        res.status(401).json({ success: false, error: 'Unauthorized' });
+        return;
+      }
+
+      const entry = await this.findOwnedEntry(req.params.id, owner);
+      if (!entry) {
+        res.status(404).json({ success: false, error: 'Watchlist entry not found' });
+        return;
+      }
+
+      res.json({ success: true, data: entry });
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      console.error('Error fetching watchlist entry:', errorMessage);
+      res.status(500).json({ success: false, error: 'Internal server error' });
+    }
+  }
+
+  /**
+   * Add a known threat to the watchlist
+   */
+  async createEntry(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const owner = getOwner(req);
+      if (!owner.userId && !owner.clientId) {
+        res.status(401).json({ success: false, error: 'Unauthorized' });
+        return;
+      }
+
+      const parsed = AddWatchlistThreatSchema.safeParse(req.body);
+      if (!parsed.success) {
+        res.status(400).json({ success: false, error: validationError(parsed.error) });
+        return;
+      }
+      const input = parsed.data;
+
+      const [entry] = await db.insert(knownThreatsWatchlist).values({
+        ...input,
+        userId: owner.clientId ? null : owner.userId,
+        clientId: owner.clientId || null,
+        instagramUsername: normalizeUsername(input.instagramUsername) ?? null,
+        instagramId: input.instagramId?.trim() || null,
+        monitorKeywords: normalizeKeywords(input.monitorKeywords) ?? [],
+        addedBy: req.userId ?? null
+      }).returning();
+
+      res.status(201).json({ success: true, data: entry });
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      console.error('Error creating watchlist entry:', errorMessage);
+      res.status(500).json({ success: false, error: 'Internal server error' });
+    }
+  }
+
+  /**
+   * Update a watchlist entry, including resolving it (resolved + resolvedNote).
+   * Resolved entries stay listed but no longer match comments.
+   */
+  async updateEntry(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const owner = getOwner(req);
+      if (!owner.userId && !owner.clientId) {
+        res.status(401).json({ success: false, error: 'Unauthorized' });
+        return;
+      }
+
+      const parsed = UpdateWatchlistThreatSchema.safeParse(req.body);
+      if (!parsed.success) {
+        res.status(400).json({ success: false, error: validationError(parsed.error) });
+        return;
+      }
+      const input = parsed.data;
+
+      const existing = await this.findOwnedEntry(req.params.id, owner);
+      if (!existing) {
+        res.status(404).json({ success: false, error: 'Watchlist entry not found' });
+        return;
+      }
+
+      const updates: Partial<KnownThreatsWatchlist> = { ...input };
+      if (input.instagramUsername !== undefined) updates.instagramUsername = normalizeUsername(input.instagramUsername) ?? null;
+      if (input.instagramId !== undefined) updates.instagramId = input.instagramId.trim() || null;
+      if (input.monitorKeywords !== undefined) updates.monitorKeywords = normalizeKeywords(input.monitorKeywords);
+
+      const instagramUsername = updates.instagramUsername !== undefined ? updates.instagramUsername : existing.instagramUsername;
+      const instagramId = updates.instagramId !== undefined ? updates.instagramId : existing.instagramId;
+      const monitorKeywords = (updates.monitorKeywords ?? existing.monitorKeywords) as string[] | null;
+      if (!instagramUsername && !instagramId && !monitorKeywords?.length) {
+        res.status(400).json({ success: false, error: 'instagramUsername, instagramId or monitorKeywords is required' });
+        return;
+      }
+
+      const [entry] = await db
+        .update(knownThreatsWatchlist)
+        .set({ ...updates, updatedAt: new Date() })
+        .where(eq(knownThreatsWatchlist.id, existing.id))
+        .returning();
+
+      res.json({ success: true, data: entry });
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      console.error('Error updating watchlist entry:', errorMessage);
+      res.status(500).json({ success: false, error: 'Internal server error' });
+    }
+  }
+
+  /**
+   * Delete a watchlist entry and its detections
+   */
+  async deleteEntry(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const owner = getOwner(req);
+      if (!owner.userId && !owner.clientId) {
+        res.status(401).json({ success: false, error: 'Unauthorized' });
+        return;
+      }
+
+      const existing = await this.findOwnedEntry(req.params.id, owner);
+      if (!existing) {
+        res.status(404).json({ success: false, error: 'Watchlist entry not found' });
+        return;
+      }
+
+      await db.transaction(async (tx) => {
+        await tx.delete(watchlistDetections).where(eq(watchlistDetections.knownThreatId, existing.id));
+        await tx.delete(knownThreatsWatchlist).where(eq(knownThreatsWatchlist.id, existing.id));
+      });
+
+      res.json({ success: true, message: 'Watchlist entry deleted' });
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      console.error('Error deleting watchlist entry:', errorMessage);
+      res.status(500).json({ success: false, error: 'Internal server error' });
+    }
+  }
+
+  /**
+   * Detections feed across the owner's watchlist, newest first.
+   * Query: knownThreatId, threatType, threatLevel, detectionType, limit, offset
+   */
+  async getDetections(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const owner = getOwner(req);
+      if (!owner.userId && !owner.clientId) {
+        res.status(401).json({ success: false, error: 'Unauthorized' });
+        return;
+      }
+
+      const limit = Math.min(Math.max(parseInt(req.query.limit as string) || 50, 1), MAX_PAGE_SIZE);
+      const offset = Math.max(parseInt(req.query.offset as string) || 0, 0);
+
+      const conditions: SQL[] = [this.ownershipCondition(owner)];
+      const threatType = queryValue(req.query.threatType, THREAT_TYPES);
+      const threatLevel = queryValue(req.query.threatLevel, THREAT_LEVELS);
+      const detectionType = queryValue(req.query.detectionType, DETECTION_TYPES);
+      if (typeof req.query.knownThreatId === 'string') {
+        conditions.push(eq(watchlistDetections.knownThreatId, req.query.knownThreatId));
+      }
+      if (threatType) conditions.push(eq(knownThreatsWatchlist.threatType, threatType));
+      if (threatLevel) conditions.push(eq(knownThreatsWatchlist.threatLevel, threatLevel));
+      if (detectionType) conditions.push(eq(watchlistDetections.detectionType, detectionType));
+      const where = and(...conditions);
+
+      const [rows, [{ count }]] = await Promise.all([
+        db
+          .select({
+            detection: watchlistDetections,
+            threat: {
+              id: knownThreatsWatchlist.id,
+              instagramUsername: knownThreatsWatchlist.instagramUsername,
+              instagramId: knownThreatsWatchlist.instagramId,
+              threatType: knownThreatsWatchlist.threatType,
+              threatLevel: knownThreatsWatchlist.threatLevel,
+              escalateImmediately: knownThreatsWatchlist.escalateImmediately
+            }
+          })
+          .from(watchlistDetections)
+          .innerJoin(knownThreatsWatchlist, eq(watchlistDetections.knownThreatId, knownThreatsWatchlist.id))
+          .where(where)
+          .orderBy(desc(watchlistDetections.createdAt))
+          .limit(limit)
+          .offset(offset),
+        db
+          .select({ count: sql<number>`count(*)::int` })
+          .from(watchlistDetections)
+          .innerJoin(knownThreatsWatchlist, eq(watchlistDetections.knownThreatId, knownThreatsWatchlist.id))
+          .where(where)
+      ]);
+
+      res.json({
+        success: true,
+        data: {
+          detections: rows.map(row => ({ ...row.detection, threat: row.threat })),
+          pagination: { total: count, limit, offset, hasMore: offset + rows.length < count }
+        }
+      });
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      console.error('Error fetching watchlist detections:', errorMessage);
+      res.status(500).json({ success: false, error: 'Internal server error' });
+    }
+  }
+}
+
+export const watchlistController = new WatchlistController();
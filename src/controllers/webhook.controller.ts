@@ -1,14 +1,25 @@
 import { Request, Response } from 'express';
 import { instagramService } from '../services/instagram.service';
+import { facebookService } from '../services/facebook.service';
+import { webhookEventService } from '../services/webhookEvent.service';
+import { commentRevisionService } from '../services/commentRevision.service';
 import { commentQueue } from '../queue/commentQueue';
 import { db } from '../db';
-import { comments } from '../db/schema';
-import { eq } from 'drizzle-orm';
+import { comments, posts } from '../db/schema';
+import { eq, and } from 'drizzle-orm';
+import { FacebookWebhookEntry, FacebookFeedChangeValue } from '../types';
+
+/**
+ * Request with the unparsed body captured by express.json (signatures are computed over the raw bytes)
+ */
+export interface RawBodyRequest extends Request {
+  rawBody?: Buffer;
+}
 
 interface WebhookEntry {
   id: string;
   time: number;
-  changes: Array<{
+  changes?: Array<{
     value: {
       id: string;
       text?: string;
@@ -24,10 +35,36 @@ interface WebhookEntry {
   }>;
 }
 
+type WebhookSource = 'instagram' | 'facebook';
+
+/**
+ * One change from a webhook payload, ready to be deduped and processed
+ */
+interface WebhookChangeTask {
+  field: string;
+  objectId: string;
+  time: number;
+  run: () => Promise<void>;
+}
+
 /**
  * Handle Instagram webhook events
  */
-export async function handleWebhook(req: Request, res: Response): Promise<void> {
+export async function handleWebhook(req: RawBodyRequest, res: Response): Promise<void> {
+  await receiveWebhook(req, res, 'instagram');
+}
+
+/**
+ * Handle Facebook Page webhook events (feed: comment add/edit/remove)
+ */
+export async function handleFacebookWebhook(req: RawBodyRequest, res: Response): Promise<void> {
+  await receiveWebhook(req, res, 'facebook');
+}
+
+/**
+ * Verify, store, and process a webhook delivery
+ */
+async function receiveWebhook(req: RawBodyRequest, res: Response, source: WebhookSource): Promise<void> {
   try {
     // Verify webhook signature
     const signature = req.headers['x-hub-signature-256'] as string;
@@ -37,23 +74,41 @@ export async function handleWebhook(req: Request, res: Response): Promise<void>
       return;
     }
 
-    const body = JSON.stringify(req.body);
-    const isValid = instagramService.verifyWebhookSignature(signature, body);
+    const body = req.rawBody ? req.rawBody.toString('utf8') : JSON.stringify(req.body);
+    const isValid = source === 'facebook'
+      ? facebookService.verifyWebhookSignature(signature, body)
+      : instagramService.verifyWebhookSignature(signature, body);
 
     if (!isValid) {
       res.status(401).json({ error: 'Invalid signature' });
       return;
     }
 
+    const payloadId = await webhookEventService.storePayload(source, body, signature);
+
     // Parse webhook payload
-    const entries = req.body.entry as WebhookEntry[];
+    const entries = (req.body.entry ?? []) as Array<{ time: number }>;
 
-    for (const entry of entries) {
-      for (const change of entry.changes) {
-        if (change.field === 'comments') {
-          await handleCommentEvent(change.value);
-        }
-      }
+    // The signature has no timestamp of its own; drop entries whose signed time is outside the allowed skew.
+    // A delivery with only stale entries is acknowledged with a 200 so Meta stops redelivering it
+    // (only a bad signature gets a 401); the fresh entries of a mixed delivery are still processed.
+    const freshEntries = entries.filter(entry => webhookEventService.isWithinSkew(entry.time));
+    const staleCount = entries.length - freshEntries.length;
+    if (staleCount > 0) {
+      console.warn(`⚠️  Dropped ${staleCount} stale ${source} webhook entr${staleCount === 1 ? 'y' : 'ies'} from payload ${payloadId}`);
+    }
+    if (entries.length > 0 && freshEntries.length === 0) {
+      await webhookEventService.markPayload(payloadId, 'REJECTED', { error: 'All entry times outside allowed skew' });
+      res.status(200).json({ success: true, ignored: 'stale' });
+      return;
+    }
+
+    const result = await processWebhookChanges(source, getChangeTasks(source, { entry: freshEntries }), payloadId);
+
+    // Failed changes were released from the dedupe store; a 5xx makes Meta redeliver them
+    if (result.failed > 0) {
+      res.status(500).json({ error: 'Failed to process some changes' });
+      return;
     }
 
     // Return 200 immediately (non-blocking)
@@ -64,6 +119,160 @@ export async function handleWebhook(req: Request, res: Response): Promise<void>
   }
 }
 
+/**
+ * Extract the changes we handle from a webhook body:
+ * Instagram `comments` changes, and Facebook Page `feed` changes for comments
+ */
+function getChangeTasks(source: WebhookSource, body: { entry?: unknown[] }): WebhookChangeTask[] {
+  if (source === 'facebook') {
+    return ((body.entry ?? []) as FacebookWebhookEntry[]).flatMap(entry => (entry.changes ?? [])
+      .filter(change => change.field === 'feed' && change.value?.item === 'comment' && change.value.comment_id)
+      .map(change => ({
+        field: change.field,
+        // An add and a hide of the same comment can share a timestamp
+        objectId: `${change.value.comment_id}:${change.value.verb}`,
+        time: entry.time,
+        run: () => handleFacebookCommentEvent(entry.id, change.value)
+      })));
+  }
+
+  return ((body.entry ?? []) as WebhookEntry[]).flatMap(entry => (entry.changes ?? [])
+    .filter(change => change.field === 'comments')
+    .map(change => ({
+      field: change.field,
+      objectId: change.value.id,
+      time: entry.time,
+      run: () => handleCommentEvent(change.value)
+    })));
+}
+
+/**
+ * Process the changes in a webhook payload. Each change is claimed in the dedupe store first
+ * (comment id + change timestamp), so Meta's retried deliveries don't enqueue a comment twice.
+ * With force, the dedupe store is bypassed (admin replay).
+ */
+async function processWebhookChanges(
+  source: WebhookSource,
+  tasks: WebhookChangeTask[],
+  payloadId: string,
+  options: { force?: boolean } = {}
+): Promise<{ total: number; duplicates: number; failed: number }> {
+  let duplicates = 0;
+  let failed = 0;
+
+  for (const task of tasks) {
+    const dedupeKey = webhookEventService.buildDedupeKey(source, task.field, task.objectId, task.time);
+    if (!options.force && !(await webhookEventService.claimChange(source, dedupeKey, payloadId))) {
+      console.log(`Duplicate webhook change ${dedupeKey}, skipping`);
+      duplicates++;
+      continue;
+    }
+
+    try {
+      await task.run();
+    } catch {
+      failed++;
+      // Let a retried delivery process this change again
+      if (!options.force) {
+        await webhookEventService.releaseChange(dedupeKey);
+      }
+    }
+  }
+
+  const total = tasks.length;
+  const status = failed > 0 ? 'FAILED' : total > 0 && duplicates === total ? 'DUPLICATE' : 'PROCESSED';
+  await webhookEventService.markPayload(payloadId, status, {
+    changesTotal: total,
+    changesDuplicate: duplicates,
+    error: failed > 0 ? `${failed} change(s) failed` : undefined
+  });
+
+  return { total, duplicates, failed };
+}
+
+/**
+ * List stored webhook payloads (admin)
+ */
+export async function listWebhookPayloads(req: Request, res: Response): Promise<void> {
+  try {
+    const limit = Math.min(Math.max(parseInt(req.query.limit as string) || 50, 1), 100);
+    const offset = Math.max(parseInt(req.query.offset as string) || 0, 0);
+    const source = typeof req.query.source === 'string' ? req.query.source : undefined;
+    const status = typeof req.query.status === 'string' ? req.query.status.toUpperCase() : undefined;
+
+    const { payloads, total } = await webhookEventService.listPayloads({ source, status, limit, offset });
+
+    res.json({
+      success: true,
+      data: {
+        payloads,
+        pagination: { total, limit, offset, hasMore: offset + payloads.length < total }
+      }
+    });
+  } catch (error) {
+    console.error('Error listing webhook payloads:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+}
+
+/**
+ * Get a stored webhook payload with its raw body (admin)
+ */
+export async function getWebhookPayload(req: Request, res: Response): Promise<void> {
+  try {
+    const payload = await webhookEventService.getPayload(req.params.id);
+    if (!payload) {
+      res.status(404).json({ success: false, error: 'Webhook payload not found' });
+      return;
+    }
+
+    res.json({ success: true, data: payload });
+  } catch (error) {
+    console.error('Error fetching webhook payload:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+}
+
+/**
+ * Replay a stored raw webhook payload through the processing pipeline (admin, for debugging).
+ * Signature and skew checks are skipped; changes already in the dedupe store are skipped unless force=true.
+ */
+export async function replayWebhookPayload(req: Request, res: Response): Promise<void> {
+  try {
+    const payload = await webhookEventService.getPayload(req.params.id);
+    if (!payload) {
+      res.status(404).json({ success: false, error: 'Webhook payload not found' });
+      return;
+    }
+
+    if (payload.source !== 'instagram' && payload.source !== 'facebook') {
+      res.status(400).json({ success: false, error: `Replay is not supported for ${payload.source} payloads` });
+      return;
+    }
+
+    let body: { entry?: unknown[] };
+    try {
+      body = JSON.parse(payload.rawBody);
+    } catch {
+      res.status(400).json({ success: false, error: 'Stored payload is not valid JSON' });
+      return;
+    }
+
+    await webhookEventService.incrementReplayCount(payload.id);
+    const result = await processWebhookChanges(
+      payload.source,
+      getChangeTasks(payload.source, body),
+      payload.id,
+      { force: req.body?.force === true }
+    );
+
+    res.json({ success: true, data: result });
+  } catch (error) {
+    console.error('Error replaying webhook payload:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+}
+
 /**
  * Handle verification challenge from Instagram
  */
@@ -79,6 +288,21 @@ export async function verifyWebhook(req: Request, res: Response): Promise<void>
   }
 }
 
+/**
+ * Verify Facebook Page webhook subscription
+ */
+export async function verifyFacebookWebhook(req: Request, res: Response): Promise<void> {
+  const mode = req.query['hub.mode'];
+  const token = req.query['hub.verify_token'];
+  const challenge = req.query['hub.challenge'];
+
+  if (mode === 'subscribe' && token === process.env.FACEBOOK_WEBHOOK_VERIFY_TOKEN) {
+    res.status(200).send(challenge);
+  } else {
+    res.status(403).json({ error: 'Forbidden' });
+  }
+}
+
 /**
  * Handle comment event
  * 
@@ -147,6 +371,31 @@ async function handleCommentEvent(value: {
           continue;
         }
 
+        // Already stored: a changed text is an edit, which is recorded and re-moderated
+        const existingComment = await db.query.comments.findFirst({
+          where: and(eq(comments.igCommentId, value.id), eq(comments.postId, post.id))
+        });
+        if (existingComment) {
+          if (!(await commentRevisionService.recordEdit(existingComment.id, value.text, 'WEBHOOK'))) {
+            console.log(`Comment ${value.id} already stored for post ${post.id}, skipping`);
+            continue;
+          }
+          await commentQueue.enqueue('CLASSIFY_COMMENT', {
+            commentId: existingComment.id,
+            commentText: value.text,
+            commenterId: value.from.id,
+            commenterUsername: value.from.username,
+            postId: post.id,
+            instagramAccountId: instagramAccount.id,
+            igCommentId: value.id,
+            accessToken: accessToken,
+            userId: instagramAccount.userId || undefined,
+            clientId: instagramAccount.clientId || undefined
+          }, { priority: 'REALTIME' });
+          console.log(`✏️  Comment ${existingComment.id} edited, re-enqueued for LLM moderation`);
+          continue;
+        }
+
         // Check if this is a reply (webhook may include parent_id)
         let initialParentCommentId: string | null = null;
         if (value.parent_id) {
@@ -231,12 +480,146 @@ async function handleCommentEvent(value: {
           accessToken: accessToken,
           userId: instagramAccount.userId || undefined,
           clientId: instagramAccount.clientId || undefined
-        });
+        }, { priority: 'REALTIME' });
 
         const isReply = initialParentCommentId !== null || value.parent_id !== undefined;
         console.log(`${isReply ? '💬 Reply' : '💬 Comment'} ${comment.id} stored and enqueued for LLM moderation${isReply ? ` (reply to ${initialParentCommentId || value.parent_id})` : ''}`);
     }
   } catch (error) {
     console.error('Error handling comment event:', error);
+    throw error;
+  }
+}
+
+/**
+ * Handle a Facebook Page feed change for a comment (add / edited / remove / hide / unhide).
+ *
+ * Feed webhooks carry the comment text, author and parent, so new comments are stored and
+ * enqueued without an extra Graph API call. The same Page can be connected by more than one
+ * owner, so every matching facebook_pages row is updated.
+ */
+async function handleFacebookCommentEvent(pageGraphId: string, value: FacebookFeedChangeValue): Promise<void> {
+  if (!value.comment_id || !value.post_id) {
+    console.log('Incomplete Facebook comment data, skipping');
+    return;
+  }
+
+  try {
+    const pages = await db.query.facebookPages.findMany({
+      where: (facebookPages, { and, eq }) => and(
+        eq(facebookPages.facebookPageId, pageGraphId),
+        eq(facebookPages.isActive, true)
+      )
+    });
+
+    if (pages.length === 0) {
+      console.log(`Facebook Page not found for page ID: ${pageGraphId}`);
+      return;
+    }
+
+    for (const page of pages) {
+      const existingPost = await db.query.posts.findFirst({
+        where: and(eq(posts.fbPostId, value.post_id), eq(posts.facebookPageId, page.id))
+      });
+
+      const existingComment = existingPost
+        ? await db.query.comments.findFirst({
+            where: and(eq(comments.fbCommentId, value.comment_id), eq(comments.postId, existingPost.id))
+          })
+        : undefined;
+
+      if (value.verb === 'remove') {
+        // Deletions made by moderation are already marked, so only commenter deletions are recorded
+        if (existingComment && await commentRevisionService.recordDeletion(existingComment.id, 'WEBHOOK')) {
+          console.log(`🗑️  Facebook comment ${value.comment_id} removed on Page ${page.pageName}`);
+        }
+        continue;
+      }
+
+      if (value.verb === 'hide' || value.verb === 'unhide') {
+        if (existingComment) {
+          const isHidden = value.verb === 'hide';
+          await db.update(comments)
+            .set({ isHidden, hiddenAt: isHidden ? new Date() : null })
+            .where(eq(comments.id, existingComment.id));
+        }
+        continue;
+      }
+
+      if (value.verb !== 'add' && value.verb !== 'edited') {
+        continue;
+      }
+
+      if (!value.message || !value.from) {
+        console.log(`Facebook comment ${value.comment_id} has no text or author, skipping`);
+        continue;
+      }
+
+      if (existingComment) {
+        // Edits are recorded and re-run moderation; a redelivered add for a stored comment is a no-op
+        if (value.verb !== 'edited' || !(await commentRevisionService.recordEdit(existingComment.id, value.message, 'WEBHOOK'))) {
+          continue;
+        }
+      }
+
+      let postId = existingPost?.id;
+      if (!postId) {
+        const [newPost] = await db.insert(posts).values({
+          source: 'facebook',
+          facebookPageId: page.id,
+          fbPostId: value.post_id,
+          permalink: value.post?.permalink_url ?? null,
+          postedAt: new Date() // Feed webhooks don't include the post timestamp; the next sync corrects it
+        }).returning();
+        postId = newPost.id;
+      }
+
+      let commentId = existingComment?.id;
+      if (!commentId) {
+        // Top-level comments have the post as their parent
+        let parentCommentId: string | null = null;
+        if (value.parent_id && value.parent_id !== value.post_id) {
+          const parentComment = await db.query.comments.findFirst({
+            where: and(eq(comments.fbCommentId, value.parent_id), eq(comments.postId, postId))
+          });
+          if (parentComment) {
+            parentCommentId = parentComment.id;
+          } else {
+            console.warn(`⚠️  Parent comment ${value.parent_id} not found for Facebook reply ${value.comment_id} on post ${postId}`);
+          }
+        }
+
+        const [comment] = await db.insert(comments).values({
+          source: 'facebook',
+          postId,
+          fbCommentId: value.comment_id,
+          text: value.message,
+          commenterUsername: value.from.name,
+          commenterId: value.from.id,
+          commentedAt: value.created_time ? new Date(value.created_time * 1000) : new Date(),
+          parentCommentId,
+          isHidden: value.is_hidden === true
+        }).returning();
+        commentId = comment.id;
+      }
+
+      await commentQueue.enqueue('CLASSIFY_COMMENT', {
+        commentId,
+        commentText: value.message,
+        commenterId: value.from.id,
+        commenterUsername: value.from.name,
+        postId,
+        facebookPageId: page.id,
+        fbCommentId: value.comment_id,
+        accessToken: page.pageAccessToken,
+        userId: page.userId || undefined,
+        clientId: page.clientId || undefined
+      }, { priority: 'REALTIME' });
+
+      console.log(`💬 Facebook comment ${commentId} ${existingComment ? 'edited and re-enqueued' : 'stored and enqueued'} for LLM moderation`);
+    }
+  } catch (error) {
+    console.error('Error handling Facebook comment event:', error);
+    throw error;
   }
 }
@@ -0,0 +1,164 @@
+/**
+ * Degraded Re-Evaluation Cron: once the LLM provider is healthy again, re-queue
+ * every comment that was classified by the heuristic fallback (isDegradedMode)
+ * so it gets a proper LLM decision. The new run writes its own moderation log,
+ * unhides comments the heuristic hid that the LLM finds benign, and does not bill
+ * or track the commenter a second time.
+ */
+
+import { db } from '../db';
+import { moderationLogs, comments, posts, instagramAccounts, facebookPages } from '../db/schema';
+import { eq, and, isNull, inArray, asc } from 'drizzle-orm';
+import { llmService } from '../services/llm.service';
+import { commentQueue } from '../queue/commentQueue';
+import { ReEvaluateCommentJob } from '../types';
+
+const DEFAULT_INTERVAL_MS = 2 * 60_000; // 2 minutes
+const BATCH_SIZE = 100;
+
+function getIntervalMs(): number {
+  const env = process.env.DEGRADED_REEVAL_INTERVAL_MS;
+  if (env === undefined || env === '') return DEFAULT_INTERVAL_MS;
+  const n = parseInt(env, 10);
+  return Number.isFinite(n) && n >= 10_000 ? n : DEFAULT_INTERVAL_MS;
+}
+
+function isCronEnabled(): boolean {
+  return process.env.DEGRADED_REEVAL_CRON_ENABLED !== 'false';
+}
+
+let intervalId: ReturnType<typeof setInterval> | null = null;
+let running = false;
+
+async function getAccessToken(post: { instagramAccountId: string | null; facebookPageId: string | null }): Promise<string | null> {
+  if (post.instagramAccountId) {
+    const account = await db.query.instagramAccounts.findFirst({
+      where: eq(instagramAccounts.id, post.instagramAccountId)
+    });
+    if (account?.facebookPageId) {
+      const page = await db.query.facebookPages.findFirst({
+        where: eq(facebookPages.id, account.facebookPageId)
+      });
+      if (page?.pageAccessToken) return page.pageAccessToken;
+    }
+    return account?.accessToken ?? null;
+  }
+  if (post.facebookPageId) {
+    const page = await db.query.facebookPages.findFirst({
+      where: eq(facebookPages.id, post.facebookPageId)
+    });
+    return page?.pageAccessToken ?? null;
+  }
+  return null;
+}
+
+async function tick(): Promise<void> {
+  if (running) return;
+  running = true;
+
+  try {
+    const pending = await db
+      .select({
+        logId: moderationLogs.id,
+        commentId: comments.id,
+        commentText: comments.text,
+        commenterId: comments.commenterId,
+        commenterUsername: comments.commenterUsername,
+        igCommentId: comments.igCommentId,
+        fbCommentId: comments.fbCommentId,
+        isDeleted: comments.isDeleted,
+        postId: posts.id,
+        instagramAccountId: posts.instagramAccountId,
+        facebookPageId: posts.facebookPageId
+      })
+      .from(moderationLogs)
+      .innerJoin(comments, eq(moderationLogs.commentId, comments.id))
+      .innerJoin(posts, eq(comments.postId, posts.id))
+      .where(and(
+        eq(moderationLogs.isDegradedMode, true),
+        isNull(moderationLogs.llmReEvaluationQueuedAt)
+      ))
+      .orderBy(asc(moderationLogs.createdAt))
+      .limit(BATCH_SIZE);
+
+    if (pending.length === 0) return;
+
+    // Only drain the backlog once the provider is back
+    if (!(await llmService.isAvailable())) {
+      console.log(`[DEGRADED RE-EVAL] LLM still unavailable - ${pending.length}+ degraded decision(s) waiting`);
+      return;
+    }
+
+    const tokenCache = new Map<string, string | null>();
+    // Rows without a resolvable access token stay unstamped and are retried next tick
+    const handledLogIds: string[] = [];
+    let queued = 0;
+
+    for (const row of pending) {
+      // Deleted comments can't be acted on again; just close them out
+      if (row.isDeleted) {
+        handledLogIds.push(row.logId);
+        continue;
+      }
+
+      const cacheKey = row.instagramAccountId ? `ig:${row.instagramAccountId}` : `fb:${row.facebookPageId}`;
+      if (!tokenCache.has(cacheKey)) {
+        tokenCache.set(cacheKey, await getAccessToken(row));
+      }
+      const accessToken = tokenCache.get(cacheKey);
+      if (!accessToken) continue;
+
+      const job: ReEvaluateCommentJob = {
+        commentId: row.commentId,
+        commentText: row.commentText,
+        commenterId: row.commenterId,
+        commenterUsername: row.commenterUsername,
+        postId: row.postId,
+        instagramAccountId: row.instagramAccountId ?? undefined,
+        facebookPageId: row.facebookPageId ?? undefined,
+        igCommentId: row.igCommentId ?? undefined,
+        fbCommentId: row.fbCommentId ?? undefined,
+        accessToken,
+        reason: 'DEGRADED'
+      };
+      await commentQueue.enqueue('REEVALUATE_COMMENT', job, { priority: 'BACKFILL' });
+      handledLogIds.push(row.logId);
+      queued++;
+    }
+
+    if (handledLogIds.length > 0) {
+      await db
+        .update(moderationLogs)
+        .set({ llmReEvaluationQueuedAt: new Date() })
+        .where(inArray(moderationLogs.id, handledLogIds));
+    }
+
+    const skipped = pending.length - handledLogIds.length;
+    console.log(
+      `[DEGRADED RE-EVAL] Re-queued ${queued}/${pending.length} degraded decision(s) for LLM classification` +
+      (skipped > 0 ? ` (${skipped} without an access token, retried next tick)` : '')
+    );
+  } catch (err) {
+    console.error('[DEGRADED RE-EVAL] Tick error:', err);
+  } finally {
+    running = false;
+  }
+}
+
+export function startDegradedReEvalCron(): void {
+  if (!isCronEnabled()) {
+    console.log('[DEGRADED RE-EVAL] Disabled (DEGRADED_REEVAL_CRON_ENABLED=false)');
+    return;
+  }
+  const ms = getIntervalMs();
+  intervalId = setInterval(() => void tick(), ms);
+  console.log(`[DEGRADED RE-EVAL] Started: interval=${ms}ms, batch=${BATCH_SIZE}`);
+}
+
+export function stopDegradedReEvalCron(): void {
+  if (intervalId !== null) {
+    clearInterval(intervalId);
+    intervalId = null;
+    console.log('[DEGRADED RE-EVAL] Stopped');
+  }
+}
@@ -0,0 +1,59 @@
+/**
+ * Usage Rollup Cron: roll raw AI usage events up into per-tenant daily totals,
+ * purge events past AI_USAGE_EVENT_RETENTION_DAYS and, when AUTUMN_AI_USAGE_FEATURE_ID
+ * is set, report completed days to Autumn.
+ */
+
+import { aiUsageService } from '../services/aiUsage.service';
+
+const DEFAULT_INTERVAL_MS = 60 * 60_000; // 1 hour
+
+function getIntervalMs(): number {
+  const env = process.env.USAGE_ROLLUP_INTERVAL_MS;
+  if (env === undefined || env === '') return DEFAULT_INTERVAL_MS;
+  const n = parseInt(env, 10);
+  return Number.isFinite(n) && n >= 60_000 ? n : DEFAULT_INTERVAL_MS;
+}
+
+function isCronEnabled(): boolean {
+  return process.env.USAGE_ROLLUP_CRON_ENABLED !== 'false';
+}
+
+let intervalId: ReturnType<typeof setInterval> | null = null;
+let running = false;
+
+async function tick(): Promise<void> {
+  if (running) return;
+  running = true;
+
+  try {
+    const rolledUp = await aiUsageService.rollupRecent();
+    const purged = await aiUsageService.purgeExpiredEvents();
+    const reported = await aiUsageService.reportToBilling();
+    if (purged > 0 || reported > 0) {
+      console.log(`[USAGE ROLLUP] ${rolledUp} rollup row(s) updated, ${purged} event(s) purged, ${reported} row(s) reported to billing`);
+    }
+  } catch (err) {
+    console.error('[USAGE ROLLUP] Tick error:', err);
+  } finally {
+    running = false;
+  }
+}
+
+export function startUsageRollupCron(): void {
+  if (!isCronEnabled()) {
+    console.log('[USAGE ROLLUP] Disabled (USAGE_ROLLUP_CRON_ENABLED=false)');
+    return;
+  }
+  const ms = getIntervalMs();
+  intervalId = setInterval(() => void tick(), ms);
+  console.log(`[USAGE ROLLUP] Started: interval=${ms}ms`);
+}
+
+export function stopUsageRollupCron(): void {
+  if (intervalId !== null) {
+    clearInterval(intervalId);
+    intervalId = null;
+    console.log('[USAGE ROLLUP] Stopped');
+  }
+}
@@ -0,0 +1,57 @@
+/**
+ * Webhook Retention Cron: purge webhook dedupe keys and stored raw payloads
+ * once they fall outside their retention windows
+ * (WEBHOOK_DEDUPE_RETENTION_HOURS, WEBHOOK_PAYLOAD_RETENTION_DAYS).
+ */
+
+import { webhookEventService } from '../services/webhookEvent.service';
+
+const DEFAULT_INTERVAL_MS = 60 * 60_000; // 1 hour
+
+function getIntervalMs(): number {
+  const env = process.env.WEBHOOK_RETENTION_INTERVAL_MS;
+  if (env === undefined || env === '') return DEFAULT_INTERVAL_MS;
+  const n = parseInt(env, 10);
+  return Number.isFinite(n) && n >= 60_000 ? n : DEFAULT_INTERVAL_MS;
+}
+
+function isCronEnabled(): boolean {
+  return process.env.WEBHOOK_RETENTION_CRON_ENABLED !== 'false';
+}
+
+let intervalId: ReturnType<typeof setInterval> | null = null;
+let running = false;
+
+async function tick(): Promise<void> {
+  if (running) return;
+  running = true;
+
+  try {
+    const { keysDeleted, payloadsDeleted } = await webhookEventService.purgeExpired();
+    if (keysDeleted > 0 || payloadsDeleted > 0) {
+      console.log(`[WEBHOOK RETENTION] Purged ${keysDeleted} dedupe key(s), ${payloadsDeleted} payload(s)`);
+    }
+  } catch (err) {
+    console.error('[WEBHOOK RETENTION] Tick error:', err);
+  } finally {
+    running = false;
+  }
+}
+
+export function startWebhookRetentionCron(): void {
+  if (!isCronEnabled()) {
+    console.log('[WEBHOOK RETENTION] Disabled (WEBHOOK_RETENTION_CRON_ENABLED=false)');
+    return;
+  }
+  const ms = getIntervalMs();
+  intervalId = setInterval(() => void tick(), ms);
+  console.log(`[WEBHOOK RETENTION] Started: interval=${ms}ms`);
+}
+
+export function stopWebhookRetentionCron(): void {
+  if (intervalId !== null) {
+    clearInterval(intervalId);
+    intervalId = null;
+    console.log('[WEBHOOK RETENTION] Stopped');
+  }
+}
@@ -8,6 +8,7 @@ import {
   followerHistory,
   posts,
   comments,
+  commentRevisions,
   moderationLogs,
   evidenceRecords,
   keywordFilters,
@@ -27,6 +28,17 @@ import {
   botNetworkMasterminds,
   botNetworkConnections,
   mastermindMentions,
+  incidents,
+  incidentEvents,
+  moderationProfiles,
+  moderationProfileSchedules,
+  moderationSettingsVersions,
+  autoBlockPolicies,
+  autoBlockPolicyEvents,
+  abuserProfiles,
+  abuserProfileLinks,
+  threatNetworkAlerts,
+  agencyContactRequests,
 } from './schema';
 
 // Users relations
@@ -132,6 +144,15 @@ export const commentsRelations = relations(comments, ({ one, many }) => ({
   watchlistDetections: many(watchlistDetections),
   mastermindMentions: many(mastermindMentions),
   caseEvidenceMap: many(caseEvidenceMap),
+  revisions: many(commentRevisions),
+}));
+
+// Comment revisions relations
+export const commentRevisionsRelations = relations(commentRevisions, ({ one }) => ({
+  comment: one(comments, {
+    fields: [commentRevisions.commentId],
+    references: [comments.id],
+  }),
 }));
 
 // Moderation logs relations
@@ -157,6 +178,10 @@ export const keywordFiltersRelations = relations(keywordFilters, ({ one }) => ({
     fields: [keywordFilters.clientId],
     references: [clients.id],
   }),
+  user: one(users, {
+    fields: [keywordFilters.userId],
+    references: [users.id],
+  }),
 }));
 
 // Custom filters relations
@@ -177,6 +202,10 @@ export const suspiciousAccountsRelations = relations(suspiciousAccounts, ({ one,
     fields: [suspiciousAccounts.instagramAccountId],
     references: [instagramAccounts.id],
   }),
+  facebookPage: one(facebookPages, {
+    fields: [suspiciousAccounts.facebookPageId],
+    references: [facebookPages.id],
+  }),
   accountCommentMap: many(accountCommentMap),
   legalCases: many(legalCases),
   botNetworkConnections: many(botNetworkConnections),
@@ -209,6 +238,10 @@ export const legalCasesRelations = relations(legalCases, ({ one, many }) => ({
     fields: [legalCases.clientId],
     references: [clients.id],
   }),
+  user: one(users, {
+    fields: [legalCases.userId],
+    references: [users.id],
+  }),
   suspiciousAccount: one(suspiciousAccounts, {
     fields: [legalCases.suspiciousAccountId],
     references: [suspiciousAccounts.id],
@@ -235,6 +268,7 @@ export const caseEvidenceMapRelations = relations(caseEvidenceMap, ({ one }) =>
 // Global threat network relations
 export const globalThreatNetworkRelations = relations(globalThreatNetwork, ({ many }) => ({
   threatNetworkReports: many(threatNetworkReports),
+  threatNetworkAlerts: many(threatNetworkAlerts),
 }));
 
 // Agency network settings relations
@@ -343,4 +377,127 @@ export const mastermindMentionsRelations = relations(mastermindMentions, ({ one
     fields: [mastermindMentions.botConnectionId],
     references: [botNetworkConnections.id],
   }),
+}));
+
+// Incidents relations
+export const incidentsRelations = relations(incidents, ({ one, many }) => ({
+  instagramAccount: one(instagramAccounts, {
+    fields: [incidents.instagramAccountId],
+    references: [instagramAccounts.id],
+  }),
+  post: one(posts, {
+    fields: [incidents.postId],
+    references: [posts.id],
+  }),
+  legalCase: one(legalCases, {
+    fields: [incidents.legalCaseId],
+    references: [legalCases.id],
+  }),
+  events: many(incidentEvents),
+}));
+
+// Incident events relations
+export const incidentEventsRelations = relations(incidentEvents, ({ one }) => ({
+  incident: one(incidents, {
+    fields: [incidentEvents.incidentId],
+    references: [incidents.id],
+  }),
+  comment: one(comments, {
+    fields: [incidentEvents.commentId],
+    references: [comments.id],
+  }),
+}));
+
+// Moderation profiles relations
+export const moderationProfilesRelations = relations(moderationProfiles, ({ many }) => ({
+  schedules: many(moderationProfileSchedules),
+}));
+
+// Moderation profile schedules relations
+export const moderationProfileSchedulesRelations = relations(moderationProfileSchedules, ({ one }) => ({
+  profile: one(moderationProfiles, {
+    fields: [moderationProfileSchedules.profileId],
+    references: [moderationProfiles.id],
+  }),
+  instagramAccount: one(instagramAccounts, {
+    fields: [moderationProfileSchedules.instagramAccountId],
+    references: [instagramAccounts.id],
+  }),
+}));
+
+// Moderation settings versions relations
+export const moderationSettingsVersionsRelations = relations(moderationSettingsVersions, ({ one }) => ({
+  actor: one(users, {
+    fields: [moderationSettingsVersions.actorUserId],
+    references: [users.id],
+  }),
+}));
+
+// Auto-block policies relations
+export const autoBlockPoliciesRelations = relations(autoBlockPolicies, ({ one, many }) => ({
+  instagramAccount: one(instagramAccounts, {
+    fields: [autoBlockPolicies.instagramAccountId],
+    references: [instagramAccounts.id],
+  }),
+  events: many(autoBlockPolicyEvents),
+}));
+
+// Auto-block policy events relations
+export const autoBlockPolicyEventsRelations = relations(autoBlockPolicyEvents, ({ one }) => ({
+  policy: one(autoBlockPolicies, {
+    fields: [autoBlockPolicyEvents.policyId],
+    references: [autoBlockPolicies.id],
+  }),
+  suspiciousAccount: one(suspiciousAccounts, {
+    fields: [autoBlockPolicyEvents.suspiciousAccountId],
+    references: [suspiciousAccounts.id],
+  }),
+}));
+
+// Abuser profiles relations
+export const abuserProfilesRelations = relations(abuserProfiles, ({ many }) => ({
+  links: many(abuserProfileLinks),
+}));
+
+// Abuser profile links relations
+export const abuserProfileLinksRelations = relations(abuserProfileLinks, ({ one }) => ({
+  profile: one(abuserProfiles, {
+    fields: [abuserProfileLinks.profileId],
+    references: [abuserProfiles.id],
+  }),
+  suspiciousAccount: one(suspiciousAccounts, {
+    fields: [abuserProfileLinks.suspiciousAccountId],
+    references: [suspiciousAccounts.id],
+  }),
+}));
+
+// Threat network alerts relations
+export const threatNetworkAlertsRelations = relations(threatNetworkAlerts, ({ one }) => ({
+  globalThreat: one(globalThreatNetwork, {
+    fields: [threatNetworkAlerts.globalThreatId],
+    references: [globalThreatNetwork.id],
+  }),
+  agency: one(users, {
+    fields: [threatNetworkAlerts.agencyId],
+    references: [users.id],
+  }),
+  comment: one(comments, {
+    fields: [threatNetworkAlerts.commentId],
+    references: [comments.id],
+  }),
+}));
+
+export const agencyContactRequestsRelations = relations(agencyContactRequests, ({ one }) => ({
+  fromAgency: one(users, {
+    fields: [agencyContactRequests.fromAgencyId],
+    references: [users.id],
+  }),
+  toAgency: one(users, {
+    fields: [agencyContactRequests.toAgencyId],
+    references: [users.id],
+  }),
+  globalThreat: one(globalThreatNetwork, {
+    fields: [agencyContactRequests.globalThreatId],
+    references: [globalThreatNetwork.id],
+  }),
 }));
\ No newline at end of file
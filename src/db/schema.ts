@@ -1,4 +1,4 @@
-import { pgTable, uuid, varchar, text, timestamp, boolean, integer, decimal, jsonb, pgEnum, vector } from 'drizzle-orm/pg-core';
+import { pgTable, uuid, varchar, text, timestamp, boolean, integer, decimal, jsonb, pgEnum, vector, date } from 'drizzle-orm/pg-core';
 
 // Enums
 export const accountTypeEnum = pgEnum('account_type', ['BASIC_AGENCY', 'MAX_AGENCY', 'CREATOR']);
@@ -25,6 +25,12 @@ export const caseSeverityEnum = pgEnum('case_severity', ['LOW', 'MEDIUM', 'HIGH'
 export const caseStatusEnum = pgEnum('case_status', ['DRAFT', 'SUBMITTED_TO_INSTAGRAM', 'POLICE_REPORT', 'LEGAL_ACTION', 'RESOLVED', 'CLOSED']);
 export const reviewActionEnum = pgEnum('review_action', ['ALLOW_THIS', 'ALLOW_SIMILAR', 'HIDE_THIS', 'AUTO_HIDE_SIMILAR', 'DELETE_THIS', 'AUTO_DELETE_SIMILAR']);
 export const sourceEnum = pgEnum('source', ['instagram', 'facebook']);
+export const queueJobStatusEnum = pgEnum('queue_job_status', ['PENDING', 'RUNNING', 'DEAD']);
+export const commentRevisionTypeEnum = pgEnum('comment_revision_type', ['ORIGINAL', 'EDITED', 'DELETED']);
+export const threadContextLevelEnum = pgEnum('thread_context_level', ['NONE', 'PARENT', 'THREAD']);
+export const attackResponseEnum = pgEnum('attack_response', ['NONE', 'TIGHTEN', 'HIDE_NON_WHITELISTED']);
+export const incidentStatusEnum = pgEnum('incident_status', ['ACTIVE', 'STOOD_DOWN']);
+export const profileScheduleTypeEnum = pgEnum('profile_schedule_type', ['ONE_TIME', 'RECURRING']);
 
 // Users table (agencies AND direct clients)
 export const users = pgTable('users', {
@@ -163,6 +169,19 @@ export const moderationSettings = pgTable('moderation_settings', {
   // Similarity threshold for auto-action (0-100, default 85 = 0.85 cosine)
   similarityThreshold: integer('similarity_threshold').default(85),
 
+  // Shadow mode: run the full pipeline and log decisions, but never hide/delete on the platform
+  shadowModeEnabled: boolean('shadow_mode_enabled').default(false),
+
+  // Thread context sent to the LLM: NONE (comment only), PARENT (caption + parent chain), THREAD (+ sibling replies)
+  threadContextLevel: threadContextLevelEnum('thread_context_level').default('THREAD'),
+
+  // What happens when a coordinated attack is detected on the account: NONE (open an incident only),
+  // TIGHTEN (stricter thresholds) or HIDE_NON_WHITELISTED (hide every non-whitelisted comment), until stood down
+  attackResponse: attackResponseEnum('attack_response').default('TIGHTEN'),
+
+  // Latest entry in moderation_settings_versions for this row (null until the first tracked change)
+  currentVersionId: uuid('current_version_id'), // references moderation_settings_versions.id
+
   createdAt: timestamp('created_at').defaultNow(),
   updatedAt: timestamp('updated_at').defaultNow()
 });
@@ -332,6 +351,10 @@ export const comments = pgTable('comments', {
   reviewAction: reviewActionEnum('review_action'),
   isAllowed: boolean('is_allowed').default(false), // Marks comments manually allowed by reviewer
 
+  // Edit tracking (full history in comment_revisions)
+  lastEditedAt: timestamp('last_edited_at'),
+  revisionCount: integer('revision_count').default(0),
+
   // Timestamps
   commentedAt: timestamp('commented_at').notNull(),
   createdAt: timestamp('created_at').defaultNow()
@@ -360,8 +383,23 @@ export const moderationLogs = pgTable('moderation_logs', {
   actionTaken: actionTakenEnum('action_taken').notNull(),
   actionTimestamp: timestamp('action_timestamp').notNull(),
   
-  // Fallback mode
+  // Fallback mode (heuristic classifier while the LLM was unavailable)
   isDegradedMode: boolean('is_degraded_mode').default(false),
+  // Set when a degraded decision has been re-queued for LLM classification after recovery
+  llmReEvaluationQueuedAt: timestamp('llm_re_evaluation_queued_at'),
+
+  // Shadow mode (decision recorded, no platform action executed)
+  isShadowMode: boolean('is_shadow_mode').default(false),
+
+  // Classification reused from the classification cache (identical text, case and whitespace aside) instead of a new LLM call
+  isClassificationCacheHit: boolean('is_classification_cache_hit').default(false),
+  // Comment whose LLM classification was reused
+  classificationCacheSourceCommentId: uuid('classification_cache_source_comment_id').references(() => comments.id, { onDelete: 'set null' }),
+  // Version of the moderation settings the decision was made with (null = untracked or default settings)
+  settingsVersionId: uuid('settings_version_id').references(() => moderationSettingsVersions.id, { onDelete: 'set null' }),
+
+  // Structured decision trace (DecisionTraceStep[]) - every phase evaluated and whether it fired
+  decisionTrace: jsonb('decision_trace'),
   
   createdAt: timestamp('created_at').defaultNow()
 });
@@ -395,6 +433,10 @@ export const evidenceRecords = pgTable('evidence_records', {
 export const keywordFilters = pgTable('keyword_filters', {
   id: uuid('id').primaryKey().defaultRandom(),
   clientId: uuid('client_id').references(() => clients.id),
+  userId: uuid('user_id').references(() => users.id),
+
+  // Instagram account (null = global filter, not null = account-specific)
+  instagramAccountId: uuid('instagram_account_id').references(() => instagramAccounts.id),
 
   pattern: varchar('pattern', { length: 500 }).notNull(),
   patternType: patternTypeEnum('pattern_type').notNull(),
@@ -471,7 +513,10 @@ export const commentReviewActions = pgTable('comment_review_actions', {
 // Suspicious accounts table
 export const suspiciousAccounts = pgTable('suspicious_accounts', {
   id: uuid('id').primaryKey().defaultRandom(),
-  instagramAccountId: uuid('instagram_account_id').references(() => instagramAccounts.id).notNull(),
+  // Monitored surface the commenter was seen on (exactly one is set)
+  source: sourceEnum('source').default('instagram').notNull(),
+  instagramAccountId: uuid('instagram_account_id').references(() => instagramAccounts.id),
+  facebookPageId: uuid('facebook_page_id').references(() => facebookPages.id),
   
   // Commenter identity
   commenterId: varchar('commenter_id', { length: 255 }).notNull(),
@@ -559,6 +604,7 @@ export const evidenceAttachments = pgTable('evidence_attachments', {
 export const legalCases = pgTable('legal_cases', {
   id: uuid('id').primaryKey().defaultRandom(),
   clientId: uuid('client_id').references(() => clients.id),
+  userId: uuid('user_id').references(() => users.id), // Creator-owned cases (no client)
   suspiciousAccountId: uuid('suspicious_account_id').references(() => suspiciousAccounts.id).notNull(),
   
   // Case details
@@ -628,6 +674,7 @@ export const globalThreatNetwork = pgTable('global_threat_network', {
   
   // Status
   isGlobalThreat: boolean('is_global_threat').default(false),
+  verifiedAt: timestamp('verified_at'), // When enough independent agencies reported it
   
   createdAt: timestamp('created_at').defaultNow(),
   updatedAt: timestamp('updated_at').defaultNow()
@@ -671,9 +718,10 @@ export const threatNetworkReports = pgTable('threat_network_reports', {
   
   // Verification
   isVerified: boolean('is_verified').default(false),
-  verificationCount: integer('verification_count').default(1),
+  verificationCount: integer('verification_count').default(1), // Independent agencies that reported the offender
   
-  createdAt: timestamp('created_at').defaultNow()
+  createdAt: timestamp('created_at').defaultNow(),
+  updatedAt: timestamp('updated_at').defaultNow() // One report per agency; repeat deletions update it
 });
 
 // Known threats watchlist table
@@ -885,6 +933,315 @@ export const mastermindMentions = pgTable('mastermind_mentions', {
   createdAt: timestamp('created_at').defaultNow()
 });
 
+// Durable background job queue (comment classification). Completed jobs are deleted.
+export const queueJobs = pgTable('queue_jobs', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  type: varchar('type', { length: 100 }).notNull(),
+  data: jsonb('data').notNull(),
+  status: queueJobStatusEnum('status').default('PENDING').notNull(),
+
+  // Scheduling: lower priority runs first (0 = webhook, 1 = polling, 2 = deep-sync backfill);
+  // jobs of the same priority are round-robined across tenants (client:<id> / user:<id>)
+  priority: integer('priority').default(1).notNull(),
+  tenantKey: varchar('tenant_key', { length: 100 }),
+
+  // Retry tracking (attempts is incremented each time the job is leased)
+  attempts: integer('attempts').default(0).notNull(),
+  maxAttempts: integer('max_attempts').notNull(),
+  runAt: timestamp('run_at').defaultNow().notNull(), // Earliest time the job may be leased (backoff)
+  lastError: text('last_error'),
+
+  // Lease held by the worker processing the job; expired leases are picked up again
+  leasedBy: varchar('leased_by', { length: 255 }),
+  leasedUntil: timestamp('leased_until'),
+
+  deadAt: timestamp('dead_at'),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull()
+});
+
+// Raw webhook deliveries (signature-verified), kept for debugging and admin replay
+export const webhookPayloads = pgTable('webhook_payloads', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  source: varchar('source', { length: 50 }).notNull(), // 'instagram' | 'facebook'
+  rawBody: text('raw_body').notNull(),
+  signature: varchar('signature', { length: 255 }),
+
+  // RECEIVED -> PROCESSED | DUPLICATE (every change already seen) | REJECTED (stale) | FAILED
+  status: varchar('status', { length: 20 }).default('RECEIVED').notNull(),
+  error: text('error'),
+  changesTotal: integer('changes_total').default(0),
+  changesDuplicate: integer('changes_duplicate').default(0),
+  replayCount: integer('replay_count').default(0),
+
+  receivedAt: timestamp('received_at').defaultNow().notNull(),
+  processedAt: timestamp('processed_at')
+});
+
+// Webhook change dedupe store: one row per (source, field, object id, change time) already processed
+export const webhookEventKeys = pgTable('webhook_event_keys', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  source: varchar('source', { length: 50 }).notNull(),
+  dedupeKey: varchar('dedupe_key', { length: 255 }).notNull().unique(),
+  payloadId: uuid('payload_id').references(() => webhookPayloads.id, { onDelete: 'set null' }),
+  createdAt: timestamp('created_at').defaultNow().notNull()
+});
+
+// Comment revision history: text changes and deletions made by the commenter, as observed by webhooks and syncs.
+// Revision 1 is the original text, captured when the first change is seen.
+export const commentRevisions = pgTable('comment_revisions', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  commentId: uuid('comment_id').references(() => comments.id, { onDelete: 'cascade' }).notNull(),
+  revisionNumber: integer('revision_number').notNull(),
+  changeType: commentRevisionTypeEnum('change_type').notNull(),
+  text: text('text').notNull(), // Text as of this revision (last known text for DELETED)
+  source: varchar('source', { length: 20 }).notNull(), // 'WEBHOOK' | 'POLL' | 'DEEP_SYNC'
+  observedAt: timestamp('observed_at').defaultNow().notNull(),
+  createdAt: timestamp('created_at').defaultNow().notNull()
+});
+
+// One row per billable AI call (LLM completion or embedding request), attributed to the tenant it ran for
+export const aiUsageEvents = pgTable('ai_usage_events', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  userId: uuid('user_id').references(() => users.id, { onDelete: 'cascade' }),
+  clientId: uuid('client_id').references(() => clients.id, { onDelete: 'cascade' }),
+  kind: varchar('kind', { length: 20 }).notNull(), // 'LLM' | 'EMBEDDING'
+  purpose: varchar('purpose', { length: 50 }).notNull(), // 'CLASSIFY' | 'RE_EVALUATE' | 'CUSTOM_FILTER' | 'URL_ANALYSIS' | ...
+  provider: varchar('provider', { length: 255 }).notNull(),
+  model: varchar('model', { length: 255 }).notNull(),
+  inputTokens: integer('input_tokens').default(0).notNull(),
+  outputTokens: integer('output_tokens').default(0).notNull(),
+  latencyMs: integer('latency_ms').notNull(),
+  success: boolean('success').default(true).notNull(),
+  costUsd: decimal('cost_usd', { precision: 12, scale: 6 }), // Null when the model has no configured price
+  createdAt: timestamp('created_at').defaultNow().notNull()
+});
+
+// Daily rollup of ai_usage_events per tenant, kind, model and purpose (kept after raw events are purged)
+export const aiUsageDaily = pgTable('ai_usage_daily', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  usageDate: date('usage_date', { mode: 'string' }).notNull(), // UTC day
+  ownerKey: varchar('owner_key', { length: 100 }).notNull(), // 'client:<id>' | 'user:<id>' | 'system'
+  userId: uuid('user_id').references(() => users.id, { onDelete: 'cascade' }),
+  clientId: uuid('client_id').references(() => clients.id, { onDelete: 'cascade' }),
+  kind: varchar('kind', { length: 20 }).notNull(),
+  purpose: varchar('purpose', { length: 50 }).notNull(),
+  model: varchar('model', { length: 255 }).notNull(),
+  calls: integer('calls').default(0).notNull(),
+  errors: integer('errors').default(0).notNull(),
+  inputTokens: integer('input_tokens').default(0).notNull(),
+  outputTokens: integer('output_tokens').default(0).notNull(),
+  totalLatencyMs: integer('total_latency_ms').default(0).notNull(),
+  costUsd: decimal('cost_usd', { precision: 14, scale: 6 }).default('0').notNull(),
+  billingReportedAt: timestamp('billing_reported_at'), // Set once the day's tokens were reported to Autumn
+  updatedAt: timestamp('updated_at').defaultNow().notNull()
+});
+
+// Attack incidents: opened by the attack detector or by the under-attack flow.
+// While ACTIVE, the lockdown mode overlays the account's moderation settings.
+export const incidents = pgTable('incidents', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  userId: uuid('user_id').references(() => users.id),
+  clientId: uuid('client_id').references(() => clients.id),
+  instagramAccountId: uuid('instagram_account_id').references(() => instagramAccounts.id, { onDelete: 'cascade' }), // Null for owner-wide (content) attacks
+  postId: uuid('post_id').references(() => posts.id, { onDelete: 'set null' }), // Post the burst was detected on (null = account-wide)
+  legalCaseId: uuid('legal_case_id').references(() => legalCases.id, { onDelete: 'set null' }),
+
+  type: varchar('type', { length: 50 }).notNull(), // 'COORDINATED_ATTACK' | 'ACCOUNT_ATTACK' | 'CONTENT_ATTACK'
+  source: varchar('source', { length: 20 }).notNull(), // 'AUTO_DETECTED' | 'MANUAL'
+  status: incidentStatusEnum('status').default('ACTIVE').notNull(),
+  lockdownMode: attackResponseEnum('lockdown_mode').notNull(),
+
+  // Detector metrics at the time of detection (window, new commenters, similarity, shared identifiers)
+  detection: jsonb('detection'),
+
+  startedAt: timestamp('started_at').notNull(), // First comment of the burst
+  detectedAt: timestamp('detected_at').defaultNow().notNull(),
+  stoodDownAt: timestamp('stood_down_at'),
+  stoodDownBy: uuid('stood_down_by').references(() => users.id),
+  stoodDownByClientId: uuid('stood_down_by_client_id').references(() => clients.id),
+
+  // Final report (IncidentSummary), frozen when the incident is stood down
+  summary: jsonb('summary'),
+
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull()
+});
+
+// Incident timeline: detection, automatic actions taken under lockdown and operator actions
+export const incidentEvents = pgTable('incident_events', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  incidentId: uuid('incident_id').references(() => incidents.id, { onDelete: 'cascade' }).notNull(),
+  eventType: varchar('event_type', { length: 50 }).notNull(), // IncidentEventType
+  isAutomatic: boolean('is_automatic').default(false).notNull(),
+  actorUserId: uuid('actor_user_id').references(() => users.id), // Null for automatic events
+  actorClientId: uuid('actor_client_id').references(() => clients.id), // Set instead of actorUserId for client sessions
+
+  // What the event involved (any may be null)
+  instagramAccountId: uuid('instagram_account_id').references(() => instagramAccounts.id, { onDelete: 'set null' }),
+  postId: uuid('post_id').references(() => posts.id, { onDelete: 'set null' }),
+  commentId: uuid('comment_id').references(() => comments.id, { onDelete: 'set null' }),
+  commenterId: varchar('commenter_id', { length: 255 }),
+  commenterUsername: varchar('commenter_username', { length: 255 }),
+
+  details: jsonb('details'),
+  occurredAt: timestamp('occurred_at').defaultNow().notNull()
+});
+
+// Moderation profiles: named sets of settings (ModerationProfileOverrides) that overlay
+// moderation_settings while one of their schedules is active, e.g. during a live stream
+export const moderationProfiles = pgTable('moderation_profiles', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  userId: uuid('user_id').references(() => users.id),
+  clientId: uuid('client_id').references(() => clients.id),
+
+  name: varchar('name', { length: 100 }).notNull(),
+  description: text('description'),
+  overrides: jsonb('overrides').notNull(), // Only the settings the profile changes
+
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull()
+});
+
+// When a profile applies to an Instagram account: a fixed time range or a weekly recurring window
+export const moderationProfileSchedules = pgTable('moderation_profile_schedules', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  profileId: uuid('profile_id').references(() => moderationProfiles.id, { onDelete: 'cascade' }).notNull(),
+  instagramAccountId: uuid('instagram_account_id').references(() => instagramAccounts.id, { onDelete: 'cascade' }).notNull(),
+  scheduleType: profileScheduleTypeEnum('schedule_type').notNull(),
+
+  // ONE_TIME
+  startsAt: timestamp('starts_at'),
+  endsAt: timestamp('ends_at'),
+
+  // RECURRING: local wall-clock window on the given weekdays (0 = Sunday); endTime <= startTime wraps past midnight
+  daysOfWeek: jsonb('days_of_week'), // number[]
+  startTime: varchar('start_time', { length: 5 }), // 'HH:MM'
+  endTime: varchar('end_time', { length: 5 }), // 'HH:MM'
+  timezone: varchar('timezone', { length: 64 }).default('UTC').notNull(),
+
+  priority: integer('priority').default(0).notNull(), // Higher wins when schedules overlap
+  isEnabled: boolean('is_enabled').default(true).notNull(),
+
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull()
+});
+
+// Moderation settings history: one row per change to a moderation_settings row, with a full
+// snapshot of the settings (for rollback) and the field-level diff against the previous version.
+// Versions are numbered per scope (owner + account / managed client), so they outlive a deleted row.
+export const moderationSettingsVersions = pgTable('moderation_settings_versions', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  settingsId: uuid('settings_id'), // moderation_settings.id at the time of the change
+
+  // Scope (same columns as moderation_settings)
+  clientId: uuid('client_id').references(() => clients.id, { onDelete: 'cascade' }),
+  userId: uuid('user_id').references(() => users.id),
+  managedClientId: uuid('managed_client_id').references(() => clients.id, { onDelete: 'cascade' }),
+  instagramAccountId: uuid('instagram_account_id').references(() => instagramAccounts.id, { onDelete: 'cascade' }),
+
+  versionNumber: integer('version_number').notNull(),
+  changeType: varchar('change_type', { length: 20 }).notNull(), // 'ORIGINAL' | 'CREATED' | 'UPDATED' | 'DELETED' | 'ROLLED_BACK'
+  actorUserId: uuid('actor_user_id').references(() => users.id), // Null for ORIGINAL (state before tracking began) and client sessions
+  actorClientId: uuid('actor_client_id').references(() => clients.id, { onDelete: 'cascade' }), // Set for changes by client sessions
+  snapshot: jsonb('snapshot'), // Settings after the change (null when deleted)
+  diff: jsonb('diff').notNull(), // { field: { from, to } }
+  rolledBackToVersionId: uuid('rolled_back_to_version_id'), // references moderation_settings_versions.id
+
+  createdAt: timestamp('created_at').defaultNow().notNull()
+});
+
+// Auto-block policies: rules over suspicious_accounts counters, each with an outcome.
+// A policy with instagramAccountId applies to that account; without one, it is the tenant's
+// default for all their accounts. Tenants without a policy get the built-in default rules.
+export const autoBlockPolicies = pgTable('auto_block_policies', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  userId: uuid('user_id').references(() => users.id),
+  clientId: uuid('client_id').references(() => clients.id),
+  instagramAccountId: uuid('instagram_account_id').references(() => instagramAccounts.id, { onDelete: 'cascade' }),
+
+  name: varchar('name', { length: 100 }).notNull(),
+  description: text('description'),
+  rules: jsonb('rules').notNull(), // AutoBlockRule[]
+  isEnabled: boolean('is_enabled').default(true).notNull(),
+
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull()
+});
+
+// Outcomes applied to suspicious accounts by auto-block policies
+export const autoBlockPolicyEvents = pgTable('auto_block_policy_events', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  policyId: uuid('policy_id').references(() => autoBlockPolicies.id, { onDelete: 'set null' }), // Null for the built-in default rules
+  suspiciousAccountId: uuid('suspicious_account_id').references(() => suspiciousAccounts.id, { onDelete: 'cascade' }).notNull(),
+  ruleName: varchar('rule_name', { length: 100 }).notNull(),
+  outcome: varchar('outcome', { length: 20 }).notNull(), // 'AUTO_HIDE' | 'AUTO_DELETE' | 'WATCHLIST' | 'NOTIFY'
+  reason: text('reason').notNull(),
+  metrics: jsonb('metrics').notNull(), // Counter values the rule matched on
+
+  createdAt: timestamp('created_at').defaultNow().notNull()
+});
+
+// Alerts sent to agencies when a global threat first comments on one of their accounts
+// (at most one per threat and agency)
+export const threatNetworkAlerts = pgTable('threat_network_alerts', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  globalThreatId: uuid('global_threat_id').references(() => globalThreatNetwork.id, { onDelete: 'cascade' }).notNull(),
+  agencyId: uuid('agency_id').references(() => users.id).notNull(),
+  instagramAccountId: uuid('instagram_account_id').references(() => instagramAccounts.id, { onDelete: 'set null' }),
+  facebookPageId: uuid('facebook_page_id').references(() => facebookPages.id, { onDelete: 'set null' }),
+  commentId: uuid('comment_id').references(() => comments.id, { onDelete: 'set null' }),
+  commenterUsername: varchar('commenter_username', { length: 255 }).notNull(),
+  emailSent: boolean('email_sent').default(false).notNull(),
+
+  createdAt: timestamp('created_at').defaultNow().notNull()
+});
+
+// Contact requests between agencies in the network directory. Contact emails are only
+// shown to the other agency once the request is accepted.
+export const agencyContactRequests = pgTable('agency_contact_requests', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  fromAgencyId: uuid('from_agency_id').references(() => users.id).notNull(),
+  toAgencyId: uuid('to_agency_id').references(() => users.id).notNull(),
+  // Offender both agencies are dealing with, when the request is about one
+  globalThreatId: uuid('global_threat_id').references(() => globalThreatNetwork.id, { onDelete: 'set null' }),
+  message: text('message').notNull(),
+  fromContactEmail: varchar('from_contact_email', { length: 255 }).notNull(),
+  toContactEmail: varchar('to_contact_email', { length: 255 }),
+  status: varchar('status', { length: 20 }).default('PENDING').notNull(), // 'PENDING' | 'ACCEPTED' | 'DECLINED' | 'WITHDRAWN'
+  responseMessage: text('response_message'),
+  respondedAt: timestamp('responded_at'),
+
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull()
+});
+
+// Abuser profiles: one person behind suspicious accounts on several of a tenant's Instagram
+// accounts and Facebook Pages. Counters are aggregated from the linked accounts on read.
+export const abuserProfiles = pgTable('abuser_profiles', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  userId: uuid('user_id').references(() => users.id),
+  clientId: uuid('client_id').references(() => clients.id),
+
+  name: varchar('name', { length: 255 }).notNull(),
+  notes: text('notes'),
+
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull()
+});
+
+// Suspicious accounts linked to an abuser profile (an account belongs to at most one profile)
+export const abuserProfileLinks = pgTable('abuser_profile_links', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  profileId: uuid('profile_id').references(() => abuserProfiles.id, { onDelete: 'cascade' }).notNull(),
+  suspiciousAccountId: uuid('suspicious_account_id').references(() => suspiciousAccounts.id, { onDelete: 'cascade' }).notNull(),
+  linkSource: varchar('link_source', { length: 20 }).notNull(), // 'MANUAL' | 'SHARED_IDENTIFIER'
+  sharedIdentifier: varchar('shared_identifier', { length: 500 }), // normalizedIdentifier that linked it
+  linkedBy: uuid('linked_by').references(() => users.id), // Null when linked automatically
+
+  createdAt: timestamp('created_at').defaultNow().notNull()
+});
+
 // Export types
 export type User = typeof users.$inferSelect;
 export type NewUser = typeof users.$inferInsert;
@@ -945,4 +1302,36 @@ export type NewMastermindMention = typeof mastermindMentions.$inferInsert;
 export type CommentReviewAction = typeof commentReviewActions.$inferSelect;
 export type NewCommentReviewAction = typeof commentReviewActions.$inferInsert;
 export type FollowerHistory = typeof followerHistory.$inferSelect;
-export type NewFollowerHistory = typeof followerHistory.$inferInsert;
\ No newline at end of file
+export type NewFollowerHistory = typeof followerHistory.$inferInsert;
+export type QueueJob = typeof queueJobs.$inferSelect;
+export type NewQueueJob = typeof queueJobs.$inferInsert;
+export type WebhookPayload = typeof webhookPayloads.$inferSelect;
+export type NewWebhookPayload = typeof webhookPayloads.$inferInsert;
+export type WebhookEventKey = typeof webhookEventKeys.$inferSelect;
+export type CommentRevision = typeof commentRevisions.$inferSelect;
+export type NewCommentRevision = typeof commentRevisions.$inferInsert;
+export type AIUsageEvent = typeof aiUsageEvents.$inferSelect;
+export type NewAIUsageEvent = typeof aiUsageEvents.$inferInsert;
+export type AIUsageDaily = typeof aiUsageDaily.$inferSelect;
+export type Incident = typeof incidents.$inferSelect;
+export type NewIncident = typeof incidents.$inferInsert;
+export type IncidentEvent = typeof incidentEvents.$inferSelect;
+export type NewIncidentEvent = typeof incidentEvents.$inferInsert;
+export type ModerationProfile = typeof moderationProfiles.$inferSelect;
+export type NewModerationProfile = typeof moderationProfiles.$inferInsert;
+export type ModerationProfileSchedule = typeof moderationProfileSchedules.$inferSelect;
+export type NewModerationProfileSchedule = typeof moderationProfileSchedules.$inferInsert;
+export type ModerationSettingsVersion = typeof moderationSettingsVersions.$inferSelect;
+export type NewModerationSettingsVersion = typeof moderationSettingsVersions.$inferInsert;
+export type AutoBlockPolicy = typeof autoBlockPolicies.$inferSelect;
+export type NewAutoBlockPolicy = typeof autoBlockPolicies.$inferInsert;
+export type AutoBlockPolicyEvent = typeof autoBlockPolicyEvents.$inferSelect;
+export type NewAutoBlockPolicyEvent = typeof autoBlockPolicyEvents.$inferInsert;
+export type AbuserProfile = typeof abuserProfiles.$inferSelect;
+export type NewAbuserProfile = typeof abuserProfiles.$inferInsert;
+export type AbuserProfileLink = typeof abuserProfileLinks.$inferSelect;
+export type NewAbuserProfileLink = typeof abuserProfileLinks.$inferInsert;
+export type ThreatNetworkAlert = typeof threatNetworkAlerts.$inferSelect;
+export type NewThreatNetworkAlert = typeof threatNetworkAlerts.$inferInsert;
+export type AgencyContactRequest = typeof agencyContactRequests.$inferSelect;
+export type NewAgencyContactRequest = typeof agencyContactRequests.$inferInsert;
\ No newline at end of file
@@ -0,0 +1,187 @@
+import * as React from 'react';
+import {
+  Html,
+  Head,
+  Preview,
+  Body,
+  Container,
+  Section,
+  Text,
+  Heading,
+  Button,
+  Hr,
+} from '@react-email/components';
+
+interface AgencyContactRequestEmailProps {
+  kind: 'REQUEST' | 'ACCEPTED'; // A new request for the recipient, or an accepted one for the sender
+  recipientName: string;
+  agencyName: string; // The other agency's public name
+  message: string; // The request message, or the response when accepted
+  contactEmail?: string; // Shared once the request is accepted
+  aboutSharedThreat: boolean;
+  requestsUrl: string;
+}
+
+export const AgencyContactRequestEmail = ({
+  kind,
+  recipientName,
+  agencyName,
+  message,
+  contactEmail,
+  aboutSharedThreat,
+  requestsUrl,
+}: AgencyContactRequestEmailProps): React.ReactElement => {
+  const accepted = kind === 'ACCEPTED';
+  const previewText = accepted
+    ? `${agencyName} accepted your contact request`
+    : `${agencyName} wants to coordinate with you on the Safe Replies network`;
+
+  return (
+    <Html>
+      <Head />
+      <Preview>{previewText}</Preview>
+      <Body style={main}>
+        <Container style={container}>
+          {/* Header - Always use Safe Replies branding */}
+          <Section style={header}>
+            <Heading style={logoText}>Safe Replies</Heading>
+          </Section>
+
+          {/* Main Content */}
+          <Section style={content}>
+            <Heading style={h1}>{accepted ? 'Contact request accepted' : 'New contact request'}</Heading>
+
+            <Text style={text}>
+              Hi <strong>{recipientName}</strong>,
+            </Text>
+
+            <Text style={text}>
+              {accepted ? (
+                <><strong>{agencyName}</strong> accepted your contact request. You can now reach them directly at <strong>{contactEmail}</strong>.</>
+              ) : (
+                <><strong>{agencyName}</strong> found you in the agency directory and would like to get in touch{aboutSharedThreat ? ' about an offender in the threat network targeting you both' : ''}.</>
+              )}
+            </Text>
+
+            {message && (
+              <Section style={infoBox}>
+                <Text style={smallText}>{message}</Text>
+              </Section>
+            )}
+
+            {/* CTA Button */}
+            <Section style={buttonContainer}>
+              <Button style={button} href={requestsUrl}>
+                {accepted ? 'View Contact Requests' : 'Review Request'}
+              </Button>
+            </Section>
+
+            <Hr style={divider} />
+
+            {/* Footer */}
+            <Text style={footer}>
+              {accepted
+                ? 'Your contact email is now visible to this agency as well.'
+                : "Your contact email is only shared if you accept. You're receiving this because direct contact is turned on in your agency network settings."}
+            </Text>
+          </Section>
+        </Container>
+      </Body>
+    </Html>
+  );
+};
+
+export default AgencyContactRequestEmail;
+
+// Styles
+const main: React.CSSProperties = {
+  backgroundColor: '#fafafa',
+  fontFamily: '-apple-system,BlinkMacSystemFont,"Segoe UI",Roboto,"Helvetica Neue",Ubuntu,sans-serif',
+};
+
+const container: React.CSSProperties = {
+  backgroundColor: '#ffffff',
+  margin: '40px auto',
+  padding: '0',
+  maxWidth: '600px',
+  border: '1px solid #e5e5e5',
+};
+
+const header: React.CSSProperties = {
+  backgroundColor: '#000000',
+  padding: '32px 24px',
+  textAlign: 'center' as const,
+  borderBottom: '1px solid #e5e5e5',
+};
+
+const logoText: React.CSSProperties = {
+  color: '#ffffff',
+  fontSize: '24px',
+  fontWeight: '600',
+  margin: '0',
+  letterSpacing: '-0.02em',
+};
+
+const content: React.CSSProperties = {
+  padding: '40px 32px',
+};
+
+const h1: React.CSSProperties = {
+  color: '#0a0a0a',
+  fontSize: '28px',
+  fontWeight: '600',
+  margin: '0 0 24px',
+  lineHeight: '1.3',
+  letterSpacing: '-0.02em',
+};
+
+const text: React.CSSProperties = {
+  color: '#525252',
+  fontSize: '16px',
+  lineHeight: '1.6',
+  margin: '0 0 16px',
+};
+
+const infoBox: React.CSSProperties = {
+  backgroundColor: '#fafafa',
+  borderLeft: '2px solid #000000',
+  padding: '20px 24px',
+  margin: '32px 0',
+};
+
+const smallText: React.CSSProperties = {
+  color: '#525252',
+  fontSize: '14px',
+  lineHeight: '1.6',
+  margin: '0',
+};
+
+const buttonContainer: React.CSSProperties = {
+  textAlign: 'center' as const,
+  margin: '40px 0',
+};
+
+const button: React.CSSProperties = {
+  backgroundColor: '#000000',
+  color: '#ffffff',
+  fontSize: '16px',
+  fontWeight: '600',
+  textDecoration: 'none',
+  textAlign: 'center' as const,
+  display: 'inline-block',
+  padding: '14px 32px',
+  border: '1px solid #000000',
+  letterSpacing: '-0.01em',
+};
+
+const divider: React.CSSProperties = {
+  borderColor: '#e5e5e5',
+  margin: '40px 0',
+};
+
+const footer: React.CSSProperties = {
+  color: '#737373',
+  fontSize: '14px',
+  lineHeight: '1.6',
+  margin: '24px 0',
+};
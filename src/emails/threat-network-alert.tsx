@@ -0,0 +1,178 @@
+import * as React from 'react';
+import {
+  Html,
+  Head,
+  Preview,
+  Body,
+  Container,
+  Section,
+  Text,
+  Heading,
+  Button,
+  Hr,
+} from '@react-email/components';
+
+interface ThreatNetworkAlertEmailProps {
+  recipientName: string;
+  commenterUsername: string;
+  accountName: string;
+  reportingAgencies: number;
+  blackmailCount: number;
+  threatCount: number;
+  alertsUrl: string;
+}
+
+export const ThreatNetworkAlertEmail = ({
+  recipientName,
+  commenterUsername,
+  accountName,
+  reportingAgencies,
+  blackmailCount,
+  threatCount,
+  alertsUrl,
+}: ThreatNetworkAlertEmailProps): React.ReactElement => {
+  const previewText = `A known offender in the threat network, @${commenterUsername}, commented on ${accountName}`;
+
+  return (
+    <Html>
+      <Head />
+      <Preview>{previewText}</Preview>
+      <Body style={main}>
+        <Container style={container}>
+          {/* Header - Always use Safe Replies branding */}
+          <Section style={header}>
+            <Heading style={logoText}>Safe Replies</Heading>
+          </Section>
+
+          {/* Main Content */}
+          <Section style={content}>
+            <Heading style={h1}>Threat network alert</Heading>
+
+            <Text style={text}>
+              Hi <strong>{recipientName}</strong>,
+            </Text>
+
+            <Text style={text}>
+              <strong>@{commenterUsername}</strong> just commented on <strong>{accountName}</strong> for the first time. This commenter has been verified as a global threat by the Safe Replies threat network.
+            </Text>
+
+            <Section style={infoBox}>
+              <Text style={smallText}>
+                Reported by {reportingAgencies} independent agencies for {blackmailCount} blackmail and {threatCount} threat comments. Their comments are deleted automatically.
+              </Text>
+            </Section>
+
+            {/* CTA Button */}
+            <Section style={buttonContainer}>
+              <Button style={button} href={alertsUrl}>
+                View Alerts
+              </Button>
+            </Section>
+
+            <Hr style={divider} />
+
+            {/* Footer */}
+            <Text style={footer}>
+              You're receiving this because threat alerts are turned on in your threat network settings.
+            </Text>
+          </Section>
+        </Container>
+      </Body>
+    </Html>
+  );
+};
+
+export default ThreatNetworkAlertEmail;
+
+// Styles
+const main: React.CSSProperties = {
+  backgroundColor: '#fafafa',
+  fontFamily: '-apple-system,BlinkMacSystemFont,"Segoe UI",Roboto,"Helvetica Neue",Ubuntu,sans-serif',
+};
+
+const container: React.CSSProperties = {
+  backgroundColor: '#ffffff',
+  margin: '40px auto',
+  padding: '0',
+  maxWidth: '600px',
+  border: '1px solid #e5e5e5',
+};
+
+const header: React.CSSProperties = {
+  backgroundColor: '#000000',
+  padding: '32px 24px',
+  textAlign: 'center' as const,
+  borderBottom: '1px solid #e5e5e5',
+};
+
+const logoText: React.CSSProperties = {
+  color: '#ffffff',
+  fontSize: '24px',
+  fontWeight: '600',
+  margin: '0',
+  letterSpacing: '-0.02em',
+};
+
+const content: React.CSSProperties = {
+  padding: '40px 32px',
+};
+
+const h1: React.CSSProperties = {
+  color: '#0a0a0a',
+  fontSize: '28px',
+  fontWeight: '600',
+  margin: '0 0 24px',
+  lineHeight: '1.3',
+  letterSpacing: '-0.02em',
+};
+
+const text: React.CSSProperties = {
+  color: '#525252',
+  fontSize: '16px',
+  lineHeight: '1.6',
+  margin: '0 0 16px',
+};
+
+const infoBox: React.CSSProperties = {
+  backgroundColor: '#fafafa',
+  borderLeft: '2px solid #000000',
+  padding: '20px 24px',
+  margin: '32px 0',
+};
+
+const smallText: React.CSSProperties = {
+  color: '#525252',
+  fontSize: '14px',
+  lineHeight: '1.6',
+  margin: '0',
+};
+
+const buttonContainer: React.CSSProperties = {
+  textAlign: 'center' as const,
+  margin: '40px 0',
+};
+
+const button: React.CSSProperties = {
+  backgroundColor: '#000000',
+  color: '#ffffff',
+  fontSize: '16px',
+  fontWeight: '600',
+  textDecoration: 'none',
+  textAlign: 'center' as const,
+  display: 'inline-block',
+  padding: '14px 32px',
+  border: '1px solid #000000',
+  letterSpacing: '-0.01em',
+};
+
+const divider: React.CSSProperties = {
+  borderColor: '#e5e5e5',
+  margin: '40px 0',
+};
+
+const footer: React.CSSProperties = {
+  color: '#737373',
+  fontSize: '14px',
+  lineHeight: '1.6',
+  margin: '24px 0',
+};
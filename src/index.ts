@@ -21,6 +21,10 @@ dotenv.config({ path: envPath });
 import { startPollCron } from "./cron/pollCron";
 import { startDeepSyncCron } from "./cron/deepSyncCron";
 import { startFollowerTrackingCron } from "./cron/followerTrackingCron";
+import { startDegradedReEvalCron } from "./cron/degradedReEvalCron";
+import { startWebhookRetentionCron } from "./cron/webhookRetentionCron";
+import { startUsageRollupCron } from "./cron/usageRollupCron";
+import { commentQueue } from "./queue/commentQueue";
 import express from "express";
 import https from "https";
 import fs from "fs";
@@ -29,7 +33,7 @@ import cookieParser from "cookie-parser";
 import multer from "multer";
 import { auth } from "./config/auth.config";
 import { toNodeHandler } from "better-auth/node";
-import { betterAuthMiddleware as authMiddleware, BetterAuthRequest } from "./middleware/better-auth.middleware";
+import { betterAuthMiddleware as authMiddleware, BetterAuthRequest, requireAdmin } from "./middleware/better-auth.middleware";
 import { delegationMiddleware, DelegationRequest } from "./middleware/delegation.middleware";
 import { authRateLimiter, apiRateLimiter, webhookRateLimiter, syncStatusRateLimiter } from "./middleware/rate-limit.middleware";
 import * as authController from "./controllers/auth.controller.better-auth";
@@ -41,8 +45,18 @@ import * as facebookController from "./controllers/facebook.controller";
 import * as dashboardController from "./controllers/dashboard.controller";
 import * as commentsController from "./controllers/comments.controller";
 import { customFiltersController } from "./controllers/custom-filters.controller";
+import { keywordFiltersController } from "./controllers/keyword-filters.controller";
 import { moderationSettingsController } from "./controllers/moderation-settings.controller";
 import { suspiciousAccountsController } from "./controllers/suspicious-accounts.controller";
+import { legalCasesController } from "./controllers/legal-cases.controller";
+import { queueController } from "./controllers/queue.controller";
+import { usageController } from "./controllers/usage.controller";
+import { incidentsController } from "./controllers/incidents.controller";
+import { moderationProfilesController } from "./controllers/moderation-profiles.controller";
+import { autoBlockPoliciesController } from "./controllers/auto-block-policies.controller";
+import { abuserProfilesController } from "./controllers/abuser-profiles.controller";
+import { threatNetworkController } from "./controllers/threat-network.controller";
+import { agencyNetworkController } from "./controllers/agency-network.controller";
 import { commentReviewController } from "./controllers/commentReview.controller";
 import * as billingController from "./controllers/billing.controller";
 import * as imageProxyController from "./controllers/image-proxy.controller";
@@ -96,7 +110,16 @@ app.use(
     methods: ['GET', 'POST', 'PUT', 'DELETE', 'PATCH']
   })
 );
-app.use(express.json());
+app.use(
+  express.json({
+    // Keep the raw bytes of webhook deliveries for signature verification and replay
+    verify: (req, _res, buf) => {
+      if (req.url?.startsWith("/api/webhook")) {
+        (req as webhookController.RawBodyRequest).rawBody = buf;
+      }
+    },
+  }),
+);
 app.use(express.urlencoded({ extended: true }));
 app.use(cookieParser()); // Parse cookies for session validation
 
@@ -223,6 +246,8 @@ app.post(
 // Webhook routes (with rate limiting to prevent spam)
 app.get("/api/webhook/instagram", webhookRateLimiter, webhookController.verifyWebhook);
 app.post("/api/webhook/instagram", webhookRateLimiter, webhookController.handleWebhook);
+app.get("/api/webhook/facebook", webhookRateLimiter, webhookController.verifyFacebookWebhook);
+app.post("/api/webhook/facebook", webhookRateLimiter, webhookController.handleFacebookWebhook);
 
 // Invitation routes (public - uses token auth)
 app.get(
@@ -431,6 +456,8 @@ app.post(
 app.post("/api/comments/:commentId/block", authMiddleware, delegationMiddleware, commentsController.blockUser);
 app.post("/api/comments/:commentId/restrict", authMiddleware, delegationMiddleware, commentsController.restrictUser);
 app.post("/api/comments/:commentId/report", authMiddleware, delegationMiddleware, commentsController.reportComment);
+app.get("/api/comments/:commentId/decision-trace", authMiddleware, delegationMiddleware, commentsController.getDecisionTrace);
+app.get("/api/comments/:commentId/revisions", authMiddleware, delegationMiddleware, commentsController.getCommentRevisions);
 
 // Comment review routes (protected + delegation)
 app.get(
@@ -478,6 +505,23 @@ app.get("/api/custom-filters/accounts/available", authMiddleware, delegationMidd
   customFiltersController.getAvailableAccounts(req, res),
 );
 
+// Keyword filters routes (protected + delegation)
+app.get("/api/keyword-filters", authMiddleware, delegationMiddleware, (req, res) =>
+  keywordFiltersController.getKeywordFilters(req, res),
+);
+app.post("/api/keyword-filters", authMiddleware, delegationMiddleware, (req, res) =>
+  keywordFiltersController.createKeywordFilter(req, res),
+);
+app.post("/api/keyword-filters/test", authMiddleware, delegationMiddleware, (req, res) =>
+  keywordFiltersController.testKeywordFilter(req, res),
+);
+app.put("/api/keyword-filters/:id", authMiddleware, delegationMiddleware, (req, res) =>
+  keywordFiltersController.updateKeywordFilter(req, res),
+);
+app.delete("/api/keyword-filters/:id", authMiddleware, delegationMiddleware, (req, res) =>
+  keywordFiltersController.deleteKeywordFilter(req, res),
+);
+
 // Moderation settings routes (protected + delegation)
 app.get(
   "/api/moderation-settings",
@@ -485,6 +529,30 @@ app.get(
   delegationMiddleware,
   (req, res) => moderationSettingsController.getModerationSettings(req, res),
 );
+app.get(
+  "/api/moderation-settings/shadow-report",
+  authMiddleware,
+  delegationMiddleware,
+  (req, res) => moderationSettingsController.getShadowModeReport(req, res),
+);
+app.get(
+  "/api/moderation-settings/versions",
+  authMiddleware,
+  delegationMiddleware,
+  (req, res) => moderationSettingsController.listSettingsVersions(req, res),
+);
+app.post(
+  "/api/moderation-settings/simulate",
+  authMiddleware,
+  delegationMiddleware,
+  (req, res) => moderationSettingsController.simulateSettings(req, res),
+);
+app.post(
+  "/api/moderation-settings/versions/:versionId/rollback",
+  authMiddleware,
+  delegationMiddleware,
+  (req, res) => moderationSettingsController.rollbackSettingsVersion(req, res),
+);
 app.put("/api/moderation-settings/global", authMiddleware, (req, res) =>
   moderationSettingsController.updateGlobalSettings(req, res),
 );
@@ -626,6 +694,166 @@ app.get(
   (req, res) => suspiciousAccountsController.getMentionsByConnected(req as DelegationRequest, res),
 );
 
+// Legal case routes (protected + delegation)
+app.get("/api/cases", authMiddleware, delegationMiddleware, (req, res) =>
+  legalCasesController.listCases(req, res),
+);
+app.post("/api/cases", authMiddleware, delegationMiddleware, (req, res) =>
+  legalCasesController.createCase(req, res),
+);
+app.get("/api/cases/:id", authMiddleware, delegationMiddleware, (req, res) =>
+  legalCasesController.getCase(req, res),
+);
+app.put("/api/cases/:id", authMiddleware, delegationMiddleware, (req, res) =>
+  legalCasesController.updateCase(req, res),
+);
+app.delete("/api/cases/:id", authMiddleware, delegationMiddleware, (req, res) =>
+  legalCasesController.deleteCase(req, res),
+);
+app.post("/api/cases/:id/status", authMiddleware, delegationMiddleware, (req, res) =>
+  legalCasesController.updateCaseStatus(req, res),
+);
+app.post("/api/cases/:id/evidence", authMiddleware, delegationMiddleware, (req, res) =>
+  legalCasesController.addEvidence(req, res),
+);
+app.delete("/api/cases/:id/evidence/:evidenceId", authMiddleware, delegationMiddleware, (req, res) =>
+  legalCasesController.removeEvidence(req, res),
+);
+app.get("/api/cases/:id/export", authMiddleware, delegationMiddleware, (req, res) =>
+  legalCasesController.exportCase(req, res),
+);
+
+// Moderation profiles (protected + delegation)
+app.get("/api/moderation-profiles", authMiddleware, delegationMiddleware, (req, res) =>
+  moderationProfilesController.getProfiles(req, res),
+);
+app.get("/api/moderation-profiles/active", authMiddleware, delegationMiddleware, (req, res) =>
+  moderationProfilesController.getActiveProfile(req, res),
+);
+app.post("/api/moderation-profiles", authMiddleware, delegationMiddleware, (req, res) =>
+  moderationProfilesController.createProfile(req, res),
+);
+app.put("/api/moderation-profiles/:id", authMiddleware, delegationMiddleware, (req, res) =>
+  moderationProfilesController.updateProfile(req, res),
+);
+app.delete("/api/moderation-profiles/:id", authMiddleware, delegationMiddleware, (req, res) =>
+  moderationProfilesController.deleteProfile(req, res),
+);
+app.post("/api/moderation-profiles/:id/schedules", authMiddleware, delegationMiddleware, (req, res) =>
+  moderationProfilesController.createSchedule(req, res),
+);
+app.put("/api/moderation-profiles/:id/schedules/:scheduleId", authMiddleware, delegationMiddleware, (req, res) =>
+  moderationProfilesController.updateSchedule(req, res),
+);
+app.delete("/api/moderation-profiles/:id/schedules/:scheduleId", authMiddleware, delegationMiddleware, (req, res) =>
+  moderationProfilesController.deleteSchedule(req, res),
+);
+
+// Auto-block policies (protected + delegation)
+app.get("/api/auto-block-policies", authMiddleware, delegationMiddleware, (req, res) =>
+  autoBlockPoliciesController.getPolicies(req, res),
+);
+app.get("/api/auto-block-policies/events", authMiddleware, delegationMiddleware, (req, res) =>
+  autoBlockPoliciesController.getEvents(req, res),
+);
+app.post("/api/auto-block-policies/preview", authMiddleware, delegationMiddleware, (req, res) =>
+  autoBlockPoliciesController.previewRules(req, res),
+);
+app.post("/api/auto-block-policies", authMiddleware, delegationMiddleware, (req, res) =>
+  autoBlockPoliciesController.createPolicy(req, res),
+);
+app.put("/api/auto-block-policies/:id", authMiddleware, delegationMiddleware, (req, res) =>
+  autoBlockPoliciesController.updatePolicy(req, res),
+);
+app.delete("/api/auto-block-policies/:id", authMiddleware, delegationMiddleware, (req, res) =>
+  autoBlockPoliciesController.deletePolicy(req, res),
+);
+app.get("/api/auto-block-policies/:id/preview", authMiddleware, delegationMiddleware, (req, res) =>
+  autoBlockPoliciesController.previewPolicy(req, res),
+);
+
+// Abuser profiles: suspicious accounts linked across Instagram accounts and Facebook Pages (protected + delegation)
+app.get("/api/abuser-profiles", authMiddleware, delegationMiddleware, (req, res) =>
+  abuserProfilesController.getProfiles(req, res),
+);
+app.post("/api/abuser-profiles", authMiddleware, delegationMiddleware, (req, res) =>
+  abuserProfilesController.createProfile(req, res),
+);
+app.get("/api/abuser-profiles/:id", authMiddleware, delegationMiddleware, (req, res) =>
+  abuserProfilesController.getProfile(req, res),
+);
+app.put("/api/abuser-profiles/:id", authMiddleware, delegationMiddleware, (req, res) =>
+  abuserProfilesController.updateProfile(req, res),
+);
+app.delete("/api/abuser-profiles/:id", authMiddleware, delegationMiddleware, (req, res) =>
+  abuserProfilesController.deleteProfile(req, res),
+);
+app.post("/api/abuser-profiles/:id/accounts", authMiddleware, delegationMiddleware, (req, res) =>
+  abuserProfilesController.linkAccounts(req, res),
+);
+app.delete("/api/abuser-profiles/:id/accounts/:suspiciousAccountId", authMiddleware, delegationMiddleware, (req, res) =>
+  abuserProfilesController.unlinkAccount(req, res),
+);
+
+// Global threat network: opt-in sharing, own reports and first-sighting alerts (protected, agency only)
+app.get("/api/threat-network/settings", authMiddleware, (req, res) =>
+  threatNetworkController.getSettings(req, res),
+);
+app.put("/api/threat-network/settings", authMiddleware, (req, res) =>
+  threatNetworkController.updateSettings(req, res),
+);
+app.get("/api/threat-network/reports", authMiddleware, (req, res) =>
+  threatNetworkController.getReports(req, res),
+);
+app.get("/api/threat-network/alerts", authMiddleware, (req, res) =>
+  threatNetworkController.getAlerts(req, res),
+);
+
+// Attack incidents (protected + delegation)
+app.get("/api/incidents", authMiddleware, delegationMiddleware, (req, res) =>
+  incidentsController.listIncidents(req, res),
+);
+app.get("/api/incidents/:id", authMiddleware, delegationMiddleware, (req, res) =>
+  incidentsController.getIncident(req, res),
+);
+app.get("/api/incidents/:id/summary", authMiddleware, delegationMiddleware, (req, res) =>
+  incidentsController.getSummary(req, res),
+);
+app.post("/api/incidents/:id/stand-down", authMiddleware, delegationMiddleware, (req, res) =>
+  incidentsController.standDown(req, res),
+);
+app.post("/api/incidents/:id/notes", authMiddleware, delegationMiddleware, (req, res) =>
+  incidentsController.addNote(req, res),
+);
+app.put("/api/incidents/:id/legal-case", authMiddleware, delegationMiddleware, (req, res) =>
+  incidentsController.linkLegalCase(req, res),
+);
+
+// AI usage accounting (protected + delegation)
+app.get("/api/usage", authMiddleware, delegationMiddleware, (req, res) =>
+  usageController.getUsage(req, res),
+);
+
+// Queue and webhook admin routes (platform operators only)
+app.get("/api/admin/queue", authMiddleware, requireAdmin, (req, res) =>
+  queueController.getStats(req, res),
+);
+app.get("/api/admin/queue/jobs", authMiddleware, requireAdmin, (req, res) =>
+  queueController.listJobs(req, res),
+);
+app.get("/api/admin/queue/jobs/:id", authMiddleware, requireAdmin, (req, res) =>
+  queueController.getJob(req, res),
+);
+app.post("/api/admin/queue/jobs/:id/replay", authMiddleware, requireAdmin, (req, res) =>
+  queueController.replayJob(req, res),
+);
+app.post("/api/admin/queue/dead/replay", authMiddleware, requireAdmin, (req, res) =>
+  queueController.replayDeadJobs(req, res),
+);
+app.get("/api/admin/webhooks/payloads", authMiddleware, requireAdmin, webhookController.listWebhookPayloads);
+app.get("/api/admin/webhooks/payloads/:id", authMiddleware, requireAdmin, webhookController.getWebhookPayload);
+app.post("/api/admin/webhooks/payloads/:id/replay", authMiddleware, requireAdmin, webhookController.replayWebhookPayload);
+
 // Agency management routes (protected)
 app.get(
   "/api/agency/profile",
@@ -645,6 +873,32 @@ app.post(
 );
 app.get("/api/agency/branding/:agencyId", agencyController.getAgencyBranding);
 
+// Agency network: profile and visibility settings, directory of public agencies and contact requests (protected, agency only)
+app.get("/api/agency/network-settings", authMiddleware, (req, res) =>
+  agencyNetworkController.getSettings(req, res),
+);
+app.put("/api/agency/network-settings", authMiddleware, (req, res) =>
+  agencyNetworkController.updateSettings(req, res),
+);
+app.get("/api/agency/directory", authMiddleware, (req, res) =>
+  agencyNetworkController.getDirectory(req, res),
+);
+app.get("/api/agency/directory/:agencyId", authMiddleware, (req, res) =>
+  agencyNetworkController.getDirectoryAgency(req, res),
+);
+app.get("/api/agency/contact-requests", authMiddleware, (req, res) =>
+  agencyNetworkController.getContactRequests(req, res),
+);
+app.post("/api/agency/contact-requests", authMiddleware, (req, res) =>
+  agencyNetworkController.createContactRequest(req, res),
+);
+app.put("/api/agency/contact-requests/:id", authMiddleware, (req, res) =>
+  agencyNetworkController.respondToContactRequest(req, res),
+);
+app.delete("/api/agency/contact-requests/:id", authMiddleware, (req, res) =>
+  agencyNetworkController.withdrawContactRequest(req, res),
+);
+
 // Client management routes (agency only - all require auth)
 app.get("/api/clients", authMiddleware, clientsController.getClients);
 app.post("/api/clients", authMiddleware, clientsController.createClient);
@@ -657,9 +911,29 @@ app.post("/api/clients/:clientId/refresh-comments", authMiddleware, clientsContr
 // - /api/comments/* (list, export)
 // - /api/moderation/* (logs, settings)
 // - /api/suspicious-accounts/* (tracking)
-// - /api/legal-cases/* (CRUD)
 // - /api/evidence/* (upload)
-// - /api/watchlist/* (CRUD)
+
+// Watchlist routes (known threats + detections feed)
+import { watchlistController } from "./controllers/watchlist.controller";
+app.get("/api/watchlist", authMiddleware, delegationMiddleware, (req, res) =>
+  watchlistController.getEntries(req, res),
+);
+app.get("/api/watchlist/detections", authMiddleware, delegationMiddleware, (req, res) =>
+  watchlistController.getDetections(req, res),
+);
+app.get("/api/watchlist/:id", authMiddleware, delegationMiddleware, (req, res) =>
+  watchlistController.getEntry(req, res),
+);
+app.post("/api/watchlist", authMiddleware, delegationMiddleware, (req, res) =>
+  watchlistController.createEntry(req, res),
+);
+app.put("/api/watchlist/:id", authMiddleware, delegationMiddleware, (req, res) =>
+  watchlistController.updateEntry(req, res),
+);
+app.delete("/api/watchlist/:id", authMiddleware, delegationMiddleware, (req, res) =>
+  watchlistController.deleteEntry(req, res),
+);
+
 // Whitelist routes
 import { whitelistController } from "./controllers/whitelist.controller";
 app.get("/api/whitelist", authMiddleware, delegationMiddleware, (req, res) =>
@@ -722,6 +996,10 @@ if (useHttps) {
       startPollCron();
       startDeepSyncCron();
       startFollowerTrackingCron();
+      startDegradedReEvalCron();
+      startWebhookRetentionCron();
+      startUsageRollupCron();
+      commentQueue.start();
     });
   } else {
     console.error("❌ SSL certificates not found!");
@@ -734,6 +1012,10 @@ if (useHttps) {
       startPollCron();
       startDeepSyncCron();
       startFollowerTrackingCron();
+      startDegradedReEvalCron();
+      startWebhookRetentionCron();
+      startUsageRollupCron();
+      commentQueue.start();
     });
   }
 } else {
@@ -743,6 +1025,10 @@ if (useHttps) {
     startPollCron();
     startDeepSyncCron();
     startFollowerTrackingCron();
+    startDegradedReEvalCron();
+    startWebhookRetentionCron();
+    startUsageRollupCron();
+    commentQueue.start();
   });
 }
 
@@ -171,3 +171,17 @@ export function requireAccountType(...types: Array<'BASIC_AGENCY' | 'MAX_AGENCY'
     next();
   };
 }
+
+/**
+ * Require a platform operator (user id listed in ADMIN_USER_IDS, comma-separated) - works with better-auth middleware
+ */
+export async function requireAdmin(req: BetterAuthRequest, res: Response, next: NextFunction): Promise<void> {
+  const adminIds = (process.env.ADMIN_USER_IDS || '').split(',').map(id => id.trim()).filter(Boolean);
+
+  if (!req.user?.id || !adminIds.includes(req.user.id)) {
+    res.status(403).json({ success: false, error: 'Forbidden' });
+    return;
+  }
+
+  next();
+}
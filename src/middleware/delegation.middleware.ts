@@ -117,3 +117,28 @@ export function getEffectiveOwner(req: DelegationRequest): {
     clientId: undefined
   };
 }
+
+/**
+ * Resolve the effective owner (agency delegation aware), falling back to the
+ * signed-in user when there is no delegation. Exactly one of the two is set.
+ */
+export function getOwner(req: AuthRequest): {
+  userId: string | undefined;
+  clientId: string | undefined;
+} {
+  const { userId, clientId } = getEffectiveOwner(req as DelegationRequest);
+  return { userId: clientId ? undefined : (userId ?? req.userId), clientId };
+}
+
+/**
+ * The signed-in session as a user/client pair, for recording who took an action.
+ * For CLIENTs, req.userId is their client ID; an agency delegating to a client acts as itself.
+ */
+export function getActor(req: AuthRequest): {
+  userId: string | null;
+  clientId: string | null;
+} {
+  return req.accountType === 'CLIENT'
+    ? { userId: null, clientId: req.userId ?? null }
+    : { userId: req.userId ?? null, clientId: null };
+}
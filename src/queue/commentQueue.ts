@@ -1,10 +1,39 @@
-import { QueueJob, ClassifyCommentJob } from '../types';
+import { hostname } from 'os';
+import { ClassifyCommentJob, ReEvaluateCommentJob } from '../types';
 import { moderationService } from '../services/moderation.service';
 import { db } from '../db';
-import { instagramAccounts, facebookPages } from '../db/schema';
-import { eq } from 'drizzle-orm';
+import { instagramAccounts, facebookPages, queueJobs, QueueJob, NewQueueJob } from '../db/schema';
+import { eq, and, desc, sql } from 'drizzle-orm';
 
 type JobHandler<T> = (data: T) => Promise<void>;
+type QueueJobStatus = QueueJob['status'];
+
+/**
+ * REALTIME: webhook-originated comments, NORMAL: incremental polling, BACKFILL: deep sync / re-evaluation
+ */
+export type JobPriority = 'REALTIME' | 'NORMAL' | 'BACKFILL';
+
+export interface EnqueueOptions {
+  priority?: JobPriority;
+}
+
+// Stored as an integer so leasing can ORDER BY it (lower runs first)
+const JOB_PRIORITY: Record<JobPriority, number> = {
+  REALTIME: 0,
+  NORMAL: 1,
+  BACKFILL: 2
+};
+
+interface JobTypeMetrics {
+  completed: number;
+  failed: number;
+  deadLettered: number;
+  totalDurationMs: number;
+  recentCompletions: number[]; // completion timestamps within THROUGHPUT_WINDOW_MS
+}
+
+const THROUGHPUT_WINDOW_MS = 15 * 60_000; // 15 minutes
+const MAX_STATS_TENANTS = 25;
 
 const DEFAULT_CONCURRENCY = 15;
 const MAX_CONCURRENCY = 100;
@@ -15,16 +44,50 @@ const getConcurrency = (): number => {
   return Number.isFinite(n) && n >= 1 ? Math.min(n, MAX_CONCURRENCY) : DEFAULT_CONCURRENCY;
 };
 
+const DEFAULT_MAX_ATTEMPTS = 4; // First run + 3 retries
+const DEFAULT_VISIBILITY_TIMEOUT_MS = 5 * 60_000; // 5 minutes
+const DEFAULT_BACKOFF_BASE_MS = 5_000;
+const MAX_BACKOFF_MS = 15 * 60_000;
+const DEFAULT_POLL_INTERVAL_MS = 2_000;
+
+const getEnvNumber = (name: string, fallback: number, min: number): number => {
+  const env = process.env[name];
+  if (env === undefined || env === '') return fallback;
+  const n = parseInt(env, 10);
+  return Number.isFinite(n) && n >= min ? n : fallback;
+};
+
+/**
+ * Postgres-backed job queue. Jobs are persisted in queue_jobs and leased with a
+ * visibility timeout (FOR UPDATE SKIP LOCKED), so in-flight work survives restarts
+ * and is safe across multiple instances. Failed jobs retry with exponential backoff
+ * and move to DEAD after maxAttempts, where they can be inspected and replayed.
+ *
+ * Leasing is fair: higher-priority jobs first, then round-robin across tenants
+ * (a tenant's Nth due job, plus its currently running jobs, ranks behind every
+ * other tenant's earlier jobs), so one agency's backfill can't starve live comments.
+ */
 export class CommentQueue {
-  private queue: QueueJob[] = [];
-  private processing = false;
-  private activeCount = 0;
   private handlers: Map<string, JobHandler<unknown>> = new Map();
-  private maxRetries = 3;
+  private activeCount = 0;
+  private polling = false;
+  private pollRequested = false;
+  private intervalId: ReturnType<typeof setInterval> | null = null;
   private concurrency = getConcurrency();
+  private maxAttempts = getEnvNumber('COMMENT_QUEUE_MAX_ATTEMPTS', DEFAULT_MAX_ATTEMPTS, 1);
+  private visibilityTimeoutMs = getEnvNumber('COMMENT_QUEUE_VISIBILITY_TIMEOUT_MS', DEFAULT_VISIBILITY_TIMEOUT_MS, 10_000);
+  private backoffBaseMs = getEnvNumber('COMMENT_QUEUE_BACKOFF_BASE_MS', DEFAULT_BACKOFF_BASE_MS, 100);
+  private pollIntervalMs = getEnvNumber('COMMENT_QUEUE_POLL_INTERVAL_MS', DEFAULT_POLL_INTERVAL_MS, 100);
+  private workerId = `${hostname()}-${process.pid}-${Math.random().toString(36).substring(2, 8)}`;
+  private startedAt = new Date();
+  // Per-type counters for this worker since startup (completed jobs are deleted from queue_jobs)
+  private metrics: Map<string, JobTypeMetrics> = new Map();
+  // Instagram account / Facebook Page id -> owning tenant
+  private ownerCache: Map<string, { userId?: string; clientId?: string }> = new Map();
 
   constructor() {
     this.registerHandler('CLASSIFY_COMMENT', this.handleClassifyComment.bind(this));
+    this.registerHandler('REEVALUATE_COMMENT', this.handleReEvaluateComment.bind(this));
   }
 
   /**
@@ -35,92 +98,203 @@ export class CommentQueue {
   }
 
   /**
-   * Add a single job to queue
+   * Start polling for due jobs (retries whose backoff elapsed, jobs left behind by
+   * a restart, expired leases from crashed workers)
    */
-  async enqueue<T>(type: string, data: T): Promise<void> {
-    const job: QueueJob<T> = {
-      id: this.generateId(),
-      type,
-      data,
-      attempts: 0,
-      maxAttempts: this.maxRetries,
-      createdAt: new Date()
-    };
-
-    this.queue.push(job as QueueJob);
+  start(): void {
+    if (this.intervalId !== null) return;
+    this.intervalId = setInterval(() => void this.poll(), this.pollIntervalMs);
+    console.log(`[QUEUE] Started: worker=${this.workerId}, concurrency=${this.concurrency}, poll=${this.pollIntervalMs}ms`);
+    void this.poll();
+  }
 
-    // Start processing if not already running
-    if (!this.processing) {
-      this.processing = true;
-      void this.drain();
+  /**
+   * Stop polling. Jobs already running finish; anything unfinished is re-leased after its visibility timeout.
+   */
+  stop(): void {
+    if (this.intervalId !== null) {
+      clearInterval(this.intervalId);
+      this.intervalId = null;
+      console.log('[QUEUE] Stopped');
     }
   }
 
   /**
-   * Add multiple jobs at once (avoids repeated drain checks per item).
+   * Add a single job to queue
+   */
+  async enqueue<T>(type: string, data: T, options: EnqueueOptions = {}): Promise<void> {
+    await db.insert(queueJobs).values(await this.buildJob(type, data, options));
+
+    void this.poll();
+  }
+
+  /**
+   * Add multiple jobs at once (single insert).
    * Accepts an array of {type, data} pairs.
    */
-  async enqueueBatch<T>(jobs: Array<{ type: string; data: T }>): Promise<number> {
-    const enqueued: QueueJob[] = jobs.map(j => ({
-      id: this.generateId(),
-      type: j.type,
-      data: j.data,
-      attempts: 0,
-      maxAttempts: this.maxRetries,
-      createdAt: new Date()
-    }));
-
-    this.queue.push(...enqueued);
-
-    if (!this.processing) {
-      this.processing = true;
-      void this.drain();
-    }
+  async enqueueBatch<T>(jobs: Array<{ type: string; data: T }>, options: EnqueueOptions = {}): Promise<number> {
+    if (jobs.length === 0) return 0;
+
+    const rows = await Promise.all(jobs.map(j => this.buildJob(j.type, j.data, options)));
+    await db.insert(queueJobs).values(rows);
+
+    void this.poll();
 
-    return enqueued.length;
+    return jobs.length;
   }
 
   /**
-   * Drain queue: start up to concurrency jobs; when each finishes, start the next.
+   * Build a queue_jobs row. Comment jobs get their owner resolved up front so
+   * the tenant is known for fair scheduling (and the handler doesn't need to look it up again).
    */
-  private drain(): void {
-    while (this.queue.length > 0 && this.activeCount < this.concurrency) {
-      const job = this.queue.shift();
-      if (!job) continue;
+  private async buildJob<T>(type: string, data: T, options: EnqueueOptions): Promise<NewQueueJob> {
+    let payload: unknown = data;
+    let tenantKey: string | null = null;
 
-      this.activeCount++;
-      this.runOne(job);
+    if (type === 'CLASSIFY_COMMENT' || type === 'REEVALUATE_COMMENT') {
+      const jobData = data as ClassifyCommentJob;
+      const owner = await this.resolveOwner(jobData);
+      payload = { ...jobData, userId: owner.userId, clientId: owner.clientId };
+      tenantKey = owner.clientId ? `client:${owner.clientId}` : owner.userId ? `user:${owner.userId}` : null;
     }
 
-    if (this.activeCount === 0 && this.queue.length === 0) {
-      this.processing = false;
+    return {
+      type,
+      data: payload,
+      priority: JOB_PRIORITY[options.priority ?? 'NORMAL'],
+      tenantKey,
+      maxAttempts: this.maxAttempts
+    };
+  }
+
+  /**
+   * Lease as many due jobs as there is free capacity and start them.
+   * Concurrent calls collapse into one follow-up poll.
+   */
+  private async poll(): Promise<void> {
+    if (this.polling) {
+      this.pollRequested = true;
+      return;
+    }
+    this.polling = true;
+
+    try {
+      do {
+        this.pollRequested = false;
+        const capacity = this.concurrency - this.activeCount;
+        if (capacity <= 0) break;
+
+        const jobs = await this.lease(capacity);
+        for (const job of jobs) {
+          this.activeCount++;
+          this.runOne(job);
+        }
+      } while (this.pollRequested);
+    } catch (error) {
+      console.error('[QUEUE] Poll failed:', error);
+    } finally {
+      this.polling = false;
     }
   }
 
   /**
-   * Run a single job; on completion (or failure) decrement active count and drain again.
+   * Atomically lease due jobs: PENDING jobs whose runAt has passed, and RUNNING jobs whose lease expired.
+   * Ordered by priority, then by each job's position within its tenant's due jobs plus the
+   * tenant's in-flight count (round-robin across tenants), then by runAt.
    */
-  private runOne(job: QueueJob): void {
-    this.processJob(job)
-      .then(() => {
-        // success – no retry
+  private async lease(limit: number): Promise<QueueJob[]> {
+    return db
+      .update(queueJobs)
+      .set({
+        status: 'RUNNING',
+        attempts: sql`${queueJobs.attempts} + 1`,
+        leasedBy: this.workerId,
+        leasedUntil: sql`now() + ${this.visibilityTimeoutMs}::integer * interval '1 millisecond'`,
+        updatedAt: new Date()
       })
+      .where(sql`${queueJobs.id} IN (
+        WITH running AS (
+          SELECT tenant_key, count(*)::int AS n FROM queue_jobs
+          WHERE status = 'RUNNING' AND leased_until >= now()
+          GROUP BY tenant_key
+        ), ranked AS (
+          SELECT id, priority, run_at,
+            row_number() OVER (PARTITION BY tenant_key, priority ORDER BY run_at) AS tenant_rank
+          FROM queue_jobs
+          WHERE (status = 'PENDING' AND run_at <= now())
+             OR (status = 'RUNNING' AND leased_until < now())
+        )
+        SELECT q.id FROM queue_jobs q
+        JOIN ranked r ON r.id = q.id
+        LEFT JOIN running ON running.tenant_key IS NOT DISTINCT FROM q.tenant_key
+        WHERE (q.status = 'PENDING' AND q.run_at <= now())
+           OR (q.status = 'RUNNING' AND q.leased_until < now())
+        ORDER BY r.priority, r.tenant_rank + coalesce(running.n, 0), r.run_at
+        LIMIT ${limit}
+        FOR UPDATE OF q SKIP LOCKED
+      )`)
+      .returning();
+  }
+
+  /**
+   * Run a single leased job; on completion (or failure) decrement active count and poll again.
+   */
+  private runOne(job: QueueJob): void {
+    // Keep the lease alive while a slow job (LLM retries, API calls) is still running
+    const heartbeat = setInterval(() => void this.extendLease(job.id), Math.floor(this.visibilityTimeoutMs / 2));
+
+    this.runJob(job)
       .catch((error) => {
-        console.error(`Job ${job.id} failed:`, error);
-        if (job.attempts < job.maxAttempts) {
-          job.attempts++;
-          this.queue.push(job);
-          console.log(`Re-queuing job ${job.id}, attempt ${job.attempts}/${job.maxAttempts}`);
-        } else {
-          console.error(`Job ${job.id} failed after ${job.maxAttempts} attempts`);
-        }
+        console.error(`[QUEUE] Failed to record result for job ${job.id}:`, error);
       })
       .finally(() => {
+        clearInterval(heartbeat);
         this.activeCount--;
-        this.drain();
+        void this.poll();
       });
   }
 
+  private async runJob(job: QueueJob): Promise<void> {
+    // Leased more times than allowed: previous workers died mid-job
+    if (job.attempts > job.maxAttempts) {
+      await this.deadLetter(job, job.lastError ?? 'Lease expired before the job completed');
+      return;
+    }
+
+    const startedAt = Date.now();
+    try {
+      await this.processJob(job);
+    } catch (error) {
+      await this.fail(job, error);
+      return;
+    }
+
+    await db.delete(queueJobs).where(eq(queueJobs.id, job.id));
+
+    const metrics = this.getMetrics(job.type);
+    const now = Date.now();
+    metrics.completed++;
+    metrics.totalDurationMs += now - startedAt;
+    metrics.recentCompletions.push(now);
+    this.pruneRecent(metrics, now);
+  }
+
+  private getMetrics(type: string): JobTypeMetrics {
+    let metrics = this.metrics.get(type);
+    if (!metrics) {
+      metrics = { completed: 0, failed: 0, deadLettered: 0, totalDurationMs: 0, recentCompletions: [] };
+      this.metrics.set(type, metrics);
+    }
+    return metrics;
+  }
+
+  private pruneRecent(metrics: JobTypeMetrics, now: number): void {
+    const cutoff = now - THROUGHPUT_WINDOW_MS;
+    let i = 0;
+    while (i < metrics.recentCompletions.length && metrics.recentCompletions[i] < cutoff) i++;
+    if (i > 0) metrics.recentCompletions.splice(0, i);
+  }
+
   /**
    * Process a single job
    */
@@ -134,6 +308,75 @@ export class CommentQueue {
     await handler(job.data);
   }
 
+  /**
+   * Record a failed attempt: retry with exponential backoff, or dead-letter once attempts are exhausted
+   */
+  private async fail(job: QueueJob, error: unknown): Promise<void> {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`Job ${job.id} failed:`, error);
+    this.getMetrics(job.type).failed++;
+
+    if (job.attempts >= job.maxAttempts) {
+      await this.deadLetter(job, message);
+      return;
+    }
+
+    const delayMs = this.getBackoffMs(job.attempts);
+    await db
+      .update(queueJobs)
+      .set({
+        status: 'PENDING',
+        runAt: new Date(Date.now() + delayMs),
+        lastError: message,
+        leasedBy: null,
+        leasedUntil: null,
+        updatedAt: new Date()
+      })
+      .where(and(eq(queueJobs.id, job.id), eq(queueJobs.leasedBy, this.workerId)));
+
+    console.log(`Re-queuing job ${job.id} in ${Math.round(delayMs / 1000)}s, attempt ${job.attempts}/${job.maxAttempts}`);
+  }
+
+  private async deadLetter(job: QueueJob, message: string): Promise<void> {
+    await db
+      .update(queueJobs)
+      .set({
+        status: 'DEAD',
+        lastError: message,
+        leasedBy: null,
+        leasedUntil: null,
+        deadAt: new Date(),
+        updatedAt: new Date()
+      })
+      .where(eq(queueJobs.id, job.id));
+
+    this.getMetrics(job.type).deadLettered++;
+    console.error(`Job ${job.id} failed after ${job.maxAttempts} attempts - moved to dead-letter`);
+  }
+
+  /**
+   * Exponential backoff with up to 20% jitter: base, 2x base, 4x base... capped at MAX_BACKOFF_MS
+   */
+  private getBackoffMs(attempts: number): number {
+    const delay = Math.min(this.backoffBaseMs * 2 ** Math.max(attempts - 1, 0), MAX_BACKOFF_MS);
+    return Math.round(delay * (1 + Math.random() * 0.2));
+  }
+
+  private async extendLease(jobId: string): Promise<void> {
+    try {
+      await db
+        .update(queueJobs)
+        .set({ leasedUntil: sql`now() + ${this.visibilityTimeoutMs}::integer * interval '1 millisecond'` })
+        .where(and(
+          eq(queueJobs.id, jobId),
+          eq(queueJobs.status, 'RUNNING'),
+          eq(queueJobs.leasedBy, this.workerId)
+        ));
+    } catch (error) {
+      console.error(`[QUEUE] Failed to extend lease for job ${jobId}:`, error);
+    }
+  }
+
   /**
    * Handler for classifying comments
    */
@@ -142,36 +385,9 @@ export class CommentQueue {
     
     console.log(`🔍 Processing comment ${jobData.commentId} for moderation...`);
     
-    // Get userId/clientId if not provided in job data
-    let userId = jobData.userId;
-    let clientId = jobData.clientId;
-    
-    if (!userId && !clientId) {
-      // Try to find via Instagram Account
-      if (jobData.instagramAccountId) {
-        const instagramAccount = await db.query.instagramAccounts.findFirst({
-          where: eq(instagramAccounts.id, jobData.instagramAccountId)
-        });
-        
-        if (instagramAccount) {
-          userId = instagramAccount.userId || undefined;
-          clientId = instagramAccount.clientId || undefined;
-        }
-      } 
-      
-      // If not found, try via Facebook Page
-      if ((!userId && !clientId) && jobData.facebookPageId) {
-        const facebookPage = await db.query.facebookPages.findFirst({
-          where: eq(facebookPages.id, jobData.facebookPageId)
-        });
-        
-        if (facebookPage) {
-          userId = facebookPage.userId || undefined;
-          clientId = facebookPage.clientId || undefined;
-        }
-      }
-    }
-    
+    // Owner is normally resolved at enqueue time (buildJob); looked up here for older jobs
+    const { userId, clientId } = await this.resolveOwner(jobData);
+
     await moderationService.moderateComment({
       commentId: jobData.commentId,
       commentText: jobData.commentText,
@@ -191,27 +407,249 @@ export class CommentQueue {
   }
 
   /**
-   * Get queue stats
+   * Handler for re-running a provisional (degraded or lockdown) decision
    */
-  getStats(): {
-    queueLength: number;
-    activeCount: number;
-    concurrency: number;
-    processing: boolean;
-  } {
-    return {
-      queueLength: this.queue.length,
-      activeCount: this.activeCount,
-      concurrency: this.concurrency,
-      processing: this.processing
-    };
+  private async handleReEvaluateComment(data: unknown): Promise<void> {
+    const jobData = data as ReEvaluateCommentJob;
+
+    console.log(`🔁 Re-evaluating comment ${jobData.commentId} (${jobData.reason})...`);
+
+    const { userId, clientId } = await this.resolveOwner(jobData);
+
+    await moderationService.reEvaluateComment({
+      commentId: jobData.commentId,
+      commentText: jobData.commentText,
+      commenterId: jobData.commenterId,
+      commenterUsername: jobData.commenterUsername,
+      instagramAccountId: jobData.instagramAccountId,
+      facebookPageId: jobData.facebookPageId,
+      postId: jobData.postId,
+      igCommentId: jobData.igCommentId,
+      fbCommentId: jobData.fbCommentId,
+      accessToken: jobData.accessToken,
+      userId,
+      clientId
+    }, jobData.reason);
+
+    console.log(`✅ Comment ${jobData.commentId} re-evaluation complete`);
+  }
+
+  /**
+   * Resolve the owning user/client of a comment job (given directly, or via its Instagram account / Facebook Page)
+   */
+  private async resolveOwner(jobData: ClassifyCommentJob): Promise<{ userId?: string; clientId?: string }> {
+    if (jobData.userId || jobData.clientId) {
+      return { userId: jobData.userId, clientId: jobData.clientId };
+    }
+
+    // Try to find via Instagram Account
+    if (jobData.instagramAccountId) {
+      const cacheKey = `ig:${jobData.instagramAccountId}`;
+      const cached = this.ownerCache.get(cacheKey);
+      if (cached) return cached;
+
+      const instagramAccount = await db.query.instagramAccounts.findFirst({
+        where: eq(instagramAccounts.id, jobData.instagramAccountId)
+      });
+
+      if (instagramAccount && (instagramAccount.userId || instagramAccount.clientId)) {
+        const owner = {
+          userId: instagramAccount.userId || undefined,
+          clientId: instagramAccount.clientId || undefined
+        };
+        this.ownerCache.set(cacheKey, owner);
+        return owner;
+      }
+    }
+
+    // If not found, try via Facebook Page
+    if (jobData.facebookPageId) {
+      const cacheKey = `fb:${jobData.facebookPageId}`;
+      const cached = this.ownerCache.get(cacheKey);
+      if (cached) return cached;
+
+      const facebookPage = await db.query.facebookPages.findFirst({
+        where: eq(facebookPages.id, jobData.facebookPageId)
+      });
+
+      if (facebookPage && (facebookPage.userId || facebookPage.clientId)) {
+        const owner = {
+          userId: facebookPage.userId || undefined,
+          clientId: facebookPage.clientId || undefined
+        };
+        this.ownerCache.set(cacheKey, owner);
+        return owner;
+      }
+    }
+
+    return {};
+  }
+
+  /**
+   * List jobs by status (newest first)
+   */
+  async listJobs(options: {
+    status: QueueJobStatus;
+    type?: string;
+    limit: number;
+    offset: number;
+  }): Promise<{ jobs: QueueJob[]; total: number }> {
+    const conditions = [eq(queueJobs.status, options.status)];
+    if (options.type) conditions.push(eq(queueJobs.type, options.type));
+    const where = and(...conditions);
+
+    const [jobs, [{ count }]] = await Promise.all([
+      db
+        .select()
+        .from(queueJobs)
+        .where(where)
+        .orderBy(desc(options.status === 'DEAD' ? queueJobs.deadAt : queueJobs.createdAt))
+        .limit(options.limit)
+        .offset(options.offset),
+      db.select({ count: sql<number>`count(*)::int` }).from(queueJobs).where(where)
+    ]);
+
+    return { jobs, total: count };
+  }
+
+  /**
+   * Get a single job
+   */
+  async getJob(id: string): Promise<QueueJob | null> {
+    const [job] = await db.select().from(queueJobs).where(eq(queueJobs.id, id)).limit(1);
+    return job ?? null;
   }
 
   /**
-   * Generate unique ID
+   * Move a dead job back to PENDING with a fresh attempt budget. Returns null if the job is not dead.
    */
-  private generateId(): string {
-    return `${Date.now()}-${Math.random().toString(36).substring(7)}`;
+  async replayJob(id: string): Promise<QueueJob | null> {
+    const [job] = await db
+      .update(queueJobs)
+      .set({ status: 'PENDING', attempts: 0, runAt: new Date(), deadAt: null, updatedAt: new Date() })
+      .where(and(eq(queueJobs.id, id), eq(queueJobs.status, 'DEAD')))
+      .returning();
+
+    if (job) void this.poll();
+    return job ?? null;
+  }
+
+  /**
+   * Replay every dead job (optionally only one job type). Returns the number replayed.
+   */
+  async replayDeadJobs(type?: string): Promise<number> {
+    const conditions = [eq(queueJobs.status, 'DEAD')];
+    if (type) conditions.push(eq(queueJobs.type, type));
+
+    const replayed = await db
+      .update(queueJobs)
+      .set({ status: 'PENDING', attempts: 0, runAt: new Date(), deadAt: null, updatedAt: new Date() })
+      .where(and(...conditions))
+      .returning({ id: queueJobs.id });
+
+    if (replayed.length > 0) void this.poll();
+    return replayed.length;
+  }
+
+  /**
+   * Get queue stats: depth by status, type, priority and tenant (from queue_jobs, across all
+   * workers) plus this worker's per-type throughput and failure counters since startup
+   */
+  async getStats(): Promise<{
+    worker: { workerId: string; startedAt: Date; activeCount: number; concurrency: number };
+    pending: number;
+    running: number;
+    dead: number;
+    oldestPendingAgeSeconds: number | null;
+    byType: Array<{
+      type: string;
+      pending: number;
+      running: number;
+      dead: number;
+      completed: number;
+      failed: number;
+      deadLettered: number;
+      avgDurationMs: number | null;
+      completedPerMinute: number;
+    }>;
+    byPriority: Record<JobPriority, { pending: number; running: number }>;
+    tenants: Array<{ tenantKey: string | null; pending: number; running: number; dead: number }>;
+  }> {
+    const [typeRows, priorityRows, tenantRows, [oldest]] = await Promise.all([
+      db
+        .select({ type: queueJobs.type, status: queueJobs.status, count: sql<number>`count(*)::int` })
+        .from(queueJobs)
+        .groupBy(queueJobs.type, queueJobs.status),
+      db
+        .select({ priority: queueJobs.priority, status: queueJobs.status, count: sql<number>`count(*)::int` })
+        .from(queueJobs)
+        .where(sql`${queueJobs.status} IN ('PENDING', 'RUNNING')`)
+        .groupBy(queueJobs.priority, queueJobs.status),
+      db
+        .select({
+          tenantKey: queueJobs.tenantKey,
+          pending: sql<number>`count(*) FILTER (WHERE ${queueJobs.status} = 'PENDING')::int`,
+          running: sql<number>`count(*) FILTER (WHERE ${queueJobs.status} = 'RUNNING')::int`,
+          dead: sql<number>`count(*) FILTER (WHERE ${queueJobs.status} = 'DEAD')::int`
+        })
+        .from(queueJobs)
+        .groupBy(queueJobs.tenantKey)
+        .orderBy(desc(sql`count(*) FILTER (WHERE ${queueJobs.status} = 'PENDING')`))
+        .limit(MAX_STATS_TENANTS),
+      db
+        .select({ createdAt: sql<Date | null>`min(${queueJobs.createdAt})` })
+        .from(queueJobs)
+        .where(eq(queueJobs.status, 'PENDING'))
+    ]);
+
+    const countFor = (status: QueueJobStatus, type?: string): number => typeRows
+      .filter(r => r.status === status && (type === undefined || r.type === type))
+      .reduce((sum, r) => sum + r.count, 0);
+
+    const now = Date.now();
+    const types = new Set([...typeRows.map(r => r.type), ...this.metrics.keys()]);
+    const byType = [...types].sort().map(type => {
+      const metrics = this.getMetrics(type);
+      this.pruneRecent(metrics, now);
+      return {
+        type,
+        pending: countFor('PENDING', type),
+        running: countFor('RUNNING', type),
+        dead: countFor('DEAD', type),
+        completed: metrics.completed,
+        failed: metrics.failed,
+        deadLettered: metrics.deadLettered,
+        avgDurationMs: metrics.completed > 0 ? Math.round(metrics.totalDurationMs / metrics.completed) : null,
+        completedPerMinute: Math.round((metrics.recentCompletions.length / (THROUGHPUT_WINDOW_MS / 60_000)) * 10) / 10
+      };
+    });
+
+    const byPriority = {} as Record<JobPriority, { pending: number; running: number }>;
+    for (const [name, value] of Object.entries(JOB_PRIORITY) as Array<[JobPriority, number]>) {
+      const rows = priorityRows.filter(r => r.priority === value);
+      byPriority[name] = {
+        pending: rows.find(r => r.status === 'PENDING')?.count ?? 0,
+        running: rows.find(r => r.status === 'RUNNING')?.count ?? 0
+      };
+    }
+
+    return {
+      worker: {
+        workerId: this.workerId,
+        startedAt: this.startedAt,
+        activeCount: this.activeCount,
+        concurrency: this.concurrency
+      },
+      pending: countFor('PENDING'),
+      running: countFor('RUNNING'),
+      dead: countFor('DEAD'),
+      oldestPendingAgeSeconds: oldest?.createdAt
+        ? Math.round((now - new Date(oldest.createdAt).getTime()) / 1000)
+        : null,
+      byType,
+      byPriority,
+      tenants: tenantRows
+    };
   }
 }
 
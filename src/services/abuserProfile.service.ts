@@ -0,0 +1,361 @@
+import { db } from '../db';
+import {
+  abuserProfiles,
+  abuserProfileLinks,
+  suspiciousAccounts,
+  extractedIdentifiers,
+  instagramAccounts,
+  facebookPages,
+  NewExtractedIdentifier,
+  SuspiciousAccount
+} from '../db/schema';
+import { eq, and, or, ne, inArray, asc, isNull } from 'drizzle-orm';
+import { IdentifierType } from '../types';
+import { whitelistService } from './whitelist.service';
+
+export type AbuserLinkSource = 'MANUAL' | 'SHARED_IDENTIFIER';
+
+// Identifiers specific enough to tie two handles to one person. Usernames and domains are
+// excluded: unrelated commenters routinely mention the same account or link the same site.
+export const LINKABLE_IDENTIFIER_TYPES: NewExtractedIdentifier['identifierType'][] = [
+  'VENMO', 'CASHAPP', 'PAYPAL', 'ZELLE', 'BITCOIN', 'ETHEREUM', 'CRYPTO', 'EMAIL', 'PHONE'
+];
+
+export interface AbuserProfileOwner {
+  userId?: string;
+  clientId?: string;
+}
+
+/**
+ * Owner and display name of the Instagram account or Facebook Page a suspicious account is on
+ */
+export interface AccountSurfaceOwner {
+  userId: string | null;
+  clientId: string | null;
+  accountName: string; // '@username' for Instagram accounts, the page name for Facebook Pages
+}
+
+/**
+ * Counters summed (risk scores averaged, weighted by comments) across linked accounts
+ */
+export interface AbuserCounters {
+  totalComments: number;
+  flaggedComments: number;
+  deletedComments: number;
+  blackmailCount: number;
+  threatCount: number;
+  harassmentCount: number;
+  spamCount: number;
+  defamationCount: number;
+  averageRiskScore: number;
+  highestRiskScore: number;
+  firstSeenAt: Date;
+  lastSeenAt: Date;
+}
+
+export type StoredIdentifier = Pick<NewExtractedIdentifier, 'identifier' | 'identifierType' | 'normalizedIdentifier'>;
+
+interface LinkOptions {
+  linkSource: AbuserLinkSource;
+  sharedIdentifier?: string | null;
+  linkedBy?: string | null;
+}
+
+/**
+ * Abuser Profile Service
+ * Groups a tenant's suspicious accounts (across their Instagram accounts and Facebook Pages)
+ * that belong to one person, either confirmed manually or linked automatically when they
+ * share an extracted payment or contact identifier. Profiles never span tenants.
+ */
+export class AbuserProfileService {
+  /**
+   * Aggregate counters across a profile's accounts
+   */
+  aggregateCounters(accounts: SuspiciousAccount[]): AbuserCounters {
+    const sum = (pick: (account: SuspiciousAccount) => number | null): number =>
+      accounts.reduce((total, account) => total + (pick(account) ?? 0), 0);
+
+    const totalComments = sum(a => a.totalComments);
+    const weightedRisk = sum(a => parseFloat(a.averageRiskScore ?? '0') * (a.totalComments ?? 0));
+
+    return {
+      totalComments,
+      flaggedComments: sum(a => a.flaggedComments),
+      deletedComments: sum(a => a.deletedComments),
+      blackmailCount: sum(a => a.blackmailCount),
+      threatCount: sum(a => a.threatCount),
+      harassmentCount: sum(a => a.harassmentCount),
+      spamCount: sum(a => a.spamCount),
+      defamationCount: sum(a => a.defamationCount),
+      averageRiskScore: totalComments > 0 ? Math.round((weightedRisk / totalComments) * 100) / 100 : 0,
+      highestRiskScore: Math.max(0, ...accounts.map(a => a.highestRiskScore ?? 0)),
+      firstSeenAt: new Date(Math.min(...accounts.map(a => a.firstSeenAt.getTime()))),
+      lastSeenAt: new Date(Math.max(...accounts.map(a => a.lastSeenAt.getTime())))
+    };
+  }
+
+  /**
+   * Every account linked to each given account through its profile, including the account
+   * itself. Accounts without a profile map to just themselves.
+   */
+  async getLinkedAccounts(accounts: SuspiciousAccount[]): Promise<Map<string, SuspiciousAccount[]>> {
+    const linked = new Map(accounts.map(account => [account.id, [account]]));
+    if (accounts.length === 0) return linked;
+
+    const links = await db
+      .select({ profileId: abuserProfileLinks.profileId, suspiciousAccountId: abuserProfileLinks.suspiciousAccountId })
+      .from(abuserProfileLinks)
+      .where(inArray(abuserProfileLinks.suspiciousAccountId, accounts.map(account => account.id)));
+    if (links.length === 0) return linked;
+
+    const members = await db
+      .select({ profileId: abuserProfileLinks.profileId, account: suspiciousAccounts })
+      .from(abuserProfileLinks)
+      .innerJoin(suspiciousAccounts, eq(abuserProfileLinks.suspiciousAccountId, suspiciousAccounts.id))
+      .where(inArray(abuserProfileLinks.profileId, [...new Set(links.map(link => link.profileId))]));
+
+    const byProfile = new Map<string, SuspiciousAccount[]>();
+    for (const member of members) {
+      const group = byProfile.get(member.profileId) ?? [];
+      group.push(member.account);
+      byProfile.set(member.profileId, group);
+    }
+    for (const link of links) {
+      linked.set(link.suspiciousAccountId, byProfile.get(link.profileId) ?? linked.get(link.suspiciousAccountId)!);
+    }
+    return linked;
+  }
+
+  /**
+   * Profile the account is linked to, if any
+   */
+  async getProfileIdForAccount(suspiciousAccountId: string): Promise<string | null> {
+    const link = await db.query.abuserProfileLinks.findFirst({
+      where: eq(abuserProfileLinks.suspiciousAccountId, suspiciousAccountId),
+      columns: { profileId: true }
+    });
+    return link?.profileId ?? null;
+  }
+
+  /**
+   * Owner and display name of the surface the account was seen on
+   */
+  async getSurfaceOwner(
+    account: Pick<SuspiciousAccount, 'instagramAccountId' | 'facebookPageId'>
+  ): Promise<AccountSurfaceOwner | null> {
+    if (account.instagramAccountId) {
+      const igAccount = await db.query.instagramAccounts.findFirst({
+        where: eq(instagramAccounts.id, account.instagramAccountId),
+        columns: { username: true, userId: true, clientId: true }
+      });
+      return igAccount
+        ? { userId: igAccount.userId, clientId: igAccount.clientId, accountName: `@${igAccount.username}` }
+        : null;
+    }
+    if (account.facebookPageId) {
+      const page = await db.query.facebookPages.findFirst({
+        where: eq(facebookPages.id, account.facebookPageId),
+        columns: { pageName: true, userId: true, clientId: true }
+      });
+      return page ? { userId: page.userId, clientId: page.clientId, accountName: page.pageName } : null;
+    }
+    return null;
+  }
+
+  /**
+   * Instagram account and Facebook Page ids the owner monitors
+   */
+  async getOwnerSurfaces(owner: AbuserProfileOwner): Promise<{ instagramAccountIds: string[]; facebookPageIds: string[] }> {
+    const [igRows, pageRows] = await Promise.all([
+      db
+        .select({ id: instagramAccounts.id })
+        .from(instagramAccounts)
+        .where(owner.clientId ? eq(instagramAccounts.clientId, owner.clientId) : eq(instagramAccounts.userId, owner.userId!)),
+      db
+        .select({ id: facebookPages.id })
+        .from(facebookPages)
+        .where(owner.clientId ? eq(facebookPages.clientId, owner.clientId) : eq(facebookPages.userId, owner.userId!))
+    ]);
+    return { instagramAccountIds: igRows.map(row => row.id), facebookPageIds: pageRows.map(row => row.id) };
+  }
+
+  /**
+   * Suspicious accounts among the given ids that are on one of the owner's surfaces
+   */
+  async getOwnedAccounts(owner: AbuserProfileOwner, suspiciousAccountIds: string[]): Promise<SuspiciousAccount[]> {
+    if (suspiciousAccountIds.length === 0) return [];
+    const { instagramAccountIds, facebookPageIds } = await this.getOwnerSurfaces(owner);
+    const surfaceConditions = [
+      ...(instagramAccountIds.length > 0 ? [inArray(suspiciousAccounts.instagramAccountId, instagramAccountIds)] : []),
+      ...(facebookPageIds.length > 0 ? [inArray(suspiciousAccounts.facebookPageId, facebookPageIds)] : [])
+    ];
+    if (surfaceConditions.length === 0) return [];
+
+    return db
+      .select()
+      .from(suspiciousAccounts)
+      .where(and(inArray(suspiciousAccounts.id, suspiciousAccountIds), or(...surfaceConditions)));
+  }
+
+  /**
+   * Link accounts to a profile. Accounts already on another profile are moved to this one.
+   */
+  async linkAccounts(profileId: string, suspiciousAccountIds: string[], options: LinkOptions): Promise<void> {
+    if (suspiciousAccountIds.length === 0) return;
+    const now = new Date();
+
+    const previousLinks = await db
+      .select({ profileId: abuserProfileLinks.profileId })
+      .from(abuserProfileLinks)
+      .where(inArray(abuserProfileLinks.suspiciousAccountId, suspiciousAccountIds));
+    const previousProfileIds = [...new Set(previousLinks.map(link => link.profileId))].filter(id => id !== profileId);
+
+    await db.transaction(async (tx) => {
+      await tx
+        .insert(abuserProfileLinks)
+        .values(suspiciousAccountIds.map(suspiciousAccountId => ({
+          profileId,
+          suspiciousAccountId,
+          linkSource: options.linkSource,
+          sharedIdentifier: options.sharedIdentifier ?? null,
+          linkedBy: options.linkedBy ?? null
+        })))
+        .onConflictDoUpdate({
+          target: abuserProfileLinks.suspiciousAccountId,
+          set: {
+            profileId,
+            linkSource: options.linkSource,
+            sharedIdentifier: options.sharedIdentifier ?? null,
+            linkedBy: options.linkedBy ?? null,
+            createdAt: now
+          }
+        });
+      await tx.update(abuserProfiles).set({ updatedAt: now }).where(eq(abuserProfiles.id, profileId));
+    });
+
+    await this.deleteEmptyProfiles(previousProfileIds);
+  }
+
+  /**
+   * Link the account to other accounts of the same tenant that share one of the given
+   * identifiers. Profiles that end up sharing an identifier are merged into the oldest.
+   * Returns the profile the account ends up on, or null when nothing matched.
+   */
+  async linkBySharedIdentifiers(suspiciousAccountId: string, identifiers: StoredIdentifier[]): Promise<string | null> {
+    const account = await db.query.suspiciousAccounts.findFirst({
+      where: eq(suspiciousAccounts.id, suspiciousAccountId)
+    });
+    if (!account) return null;
+
+    const owner = await this.getSurfaceOwner(account);
+    if (!owner || (!owner.clientId && !owner.userId)) return null;
+    const tenant: AbuserProfileOwner = owner.clientId ? { clientId: owner.clientId } : { userId: owner.userId! };
+
+    // Whitelisted identifiers (the tenant's own payment handles, say) never link anyone
+    const candidates = new Map<string, NewExtractedIdentifier['identifierType']>();
+    for (const identifier of identifiers) {
+      if (!identifier.normalizedIdentifier || !LINKABLE_IDENTIFIER_TYPES.includes(identifier.identifierType)) continue;
+      const whitelisted = await whitelistService.check(
+        [{ type: identifier.identifierType as IdentifierType, value: identifier.identifier }], tenant.clientId, tenant.userId
+      );
+      if (!whitelisted) candidates.set(identifier.normalizedIdentifier, identifier.identifierType);
+    }
+    if (candidates.size === 0) return null;
+
+    const matches = await db
+      .selectDistinct({
+        suspiciousAccountId: extractedIdentifiers.suspiciousAccountId,
+        normalizedIdentifier: extractedIdentifiers.normalizedIdentifier
+      })
+      .from(extractedIdentifiers)
+      .where(and(
+        inArray(extractedIdentifiers.normalizedIdentifier, [...candidates.keys()]),
+        inArray(extractedIdentifiers.identifierType, [...new Set(candidates.values())]),
+        eq(extractedIdentifiers.isActive, true),
+        ne(extractedIdentifiers.suspiciousAccountId, account.id)
+      ));
+    if (matches.length === 0) return null;
+
+    // Only accounts on the same tenant's surfaces
+    const owned = await this.getOwnedAccounts(tenant, [...new Set(matches.map(match => match.suspiciousAccountId))]);
+    if (owned.length === 0) return null;
+    const ownedIds = new Set(owned.map(other => other.id));
+    const sharedBy = new Map<string, string>();
+    for (const match of matches) {
+      if (ownedIds.has(match.suspiciousAccountId) && !sharedBy.has(match.suspiciousAccountId)) {
+        sharedBy.set(match.suspiciousAccountId, match.normalizedIdentifier);
+      }
+    }
+
+    const involvedIds = [account.id, ...sharedBy.keys()];
+    const existingLinks = await db
+      .select({ suspiciousAccountId: abuserProfileLinks.suspiciousAccountId, profileId: abuserProfileLinks.profileId })
+      .from(abuserProfileLinks)
+      .where(inArray(abuserProfileLinks.suspiciousAccountId, involvedIds));
+    const profileIds = [...new Set(existingLinks.map(link => link.profileId))];
+
+    let profileId: string;
+    if (profileIds.length === 0) {
+      const [profile] = await db
+        .insert(abuserProfiles)
+        .values({ ...tenant, name: `@${account.commenterUsername.replace(/^@/, '')}` })
+        .returning();
+      profileId = profile.id;
+    } else {
+      const [oldest] = await db
+        .select({ id: abuserProfiles.id })
+        .from(abuserProfiles)
+        .where(inArray(abuserProfiles.id, profileIds))
+        .orderBy(asc(abuserProfiles.createdAt))
+        .limit(1);
+      profileId = oldest.id;
+      const others = profileIds.filter(id => id !== profileId);
+      if (others.length > 0) await this.mergeProfiles(profileId, others);
+    }
+
+    const alreadyLinked = new Set(existingLinks.map(link => link.suspiciousAccountId));
+    const firstShared = sharedBy.values().next().value ?? null;
+    if (!alreadyLinked.has(account.id)) {
+      await this.linkAccounts(profileId, [account.id], { linkSource: 'SHARED_IDENTIFIER', sharedIdentifier: firstShared });
+    }
+    for (const [otherId, sharedIdentifier] of sharedBy) {
+      if (alreadyLinked.has(otherId)) continue;
+      await this.linkAccounts(profileId, [otherId], { linkSource: 'SHARED_IDENTIFIER', sharedIdentifier });
+    }
+
+    console.log(`🔗 Linked ${account.commenterUsername} to abuser profile ${profileId} via shared identifiers`);
+    return profileId;
+  }
+
+  /**
+   * Move every account of the source profiles onto the target and delete the sources
+   */
+  async mergeProfiles(targetProfileId: string, sourceProfileIds: string[]): Promise<void> {
+    if (sourceProfileIds.length === 0) return;
+    await db.transaction(async (tx) => {
+      await tx
+        .update(abuserProfileLinks)
+        .set({ profileId: targetProfileId })
+        .where(inArray(abuserProfileLinks.profileId, sourceProfileIds));
+      await tx.delete(abuserProfiles).where(inArray(abuserProfiles.id, sourceProfileIds));
+      await tx.update(abuserProfiles).set({ updatedAt: new Date() }).where(eq(abuserProfiles.id, targetProfileId));
+    });
+  }
+
+  /**
+   * Delete those of the given profiles that no longer have any accounts
+   */
+  async deleteEmptyProfiles(profileIds: string[]): Promise<void> {
+    if (profileIds.length === 0) return;
+    const empty = await db
+      .select({ id: abuserProfiles.id })
+      .from(abuserProfiles)
+      .leftJoin(abuserProfileLinks, eq(abuserProfileLinks.profileId, abuserProfiles.id))
+      .where(and(inArray(abuserProfiles.id, profileIds), isNull(abuserProfileLinks.id)));
+    if (empty.length > 0) {
+      await db.delete(abuserProfiles).where(inArray(abuserProfiles.id, empty.map(profile => profile.id)));
+    }
+  }
+}
+
+export const abuserProfileService = new AbuserProfileService();
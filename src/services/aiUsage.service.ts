@@ -0,0 +1,320 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { db } from '../db';
+import { aiUsageEvents, aiUsageDaily, AIUsageDaily } from '../db/schema';
+import { eq, and, gte, lte, lt, isNull, ne, asc, sql } from 'drizzle-orm';
+import { autumn, resolveBillingCustomerId } from './autumn.service';
+
+const DEFAULT_EVENT_RETENTION_DAYS = 30;
+// The rollup recomputes today and yesterday, so raw events must outlive that window
+const MIN_EVENT_RETENTION_DAYS = 2;
+
+export type AIUsageKind = 'LLM' | 'EMBEDDING';
+
+export type AIUsagePurpose =
+  | 'CLASSIFY'
+  | 'RE_EVALUATE'
+  | 'CUSTOM_FILTER'
+  | 'URL_ANALYSIS'
+  | 'HEALTH_CHECK'
+  | 'EMBEDDING';
+
+export interface AIUsageOwner {
+  userId?: string | null;
+  clientId?: string | null;
+}
+
+export interface AIUsageCall {
+  kind: AIUsageKind;
+  purpose: AIUsagePurpose;
+  provider: string;
+  model: string;
+  inputTokens?: number;
+  outputTokens?: number;
+  latencyMs: number;
+  success: boolean;
+}
+
+interface ModelPrice {
+  input: number; // USD per 1M input tokens
+  output: number; // USD per 1M output tokens
+}
+
+export interface AIUsageTotals {
+  calls: number;
+  errors: number;
+  inputTokens: number;
+  outputTokens: number;
+  totalLatencyMs: number;
+  costUsd: number;
+}
+
+export interface AIUsageReport {
+  from: string;
+  to: string;
+  days: AIUsageDaily[];
+  totals: AIUsageTotals;
+  byDay: Array<{ date: string } & AIUsageTotals>;
+  byPurpose: Array<{ purpose: string } & AIUsageTotals>;
+  byModel: Array<{ model: string } & AIUsageTotals>;
+}
+
+const ownerStorage = new AsyncLocalStorage<AIUsageOwner>();
+
+const getRetentionDays = (): number => {
+  const n = parseInt(process.env.AI_USAGE_EVENT_RETENTION_DAYS || '', 10);
+  if (!Number.isFinite(n) || n <= 0) return DEFAULT_EVENT_RETENTION_DAYS;
+  return Math.max(n, MIN_EVENT_RETENTION_DAYS);
+};
+
+/**
+ * AI_MODEL_PRICING='{"openai/gpt-oss-120b":{"input":0.15,"output":0.75}}' (USD per 1M tokens).
+ * Models without a price are still counted, just without a cost.
+ */
+const loadPricing = (): Record<string, ModelPrice> => {
+  const raw = process.env.AI_MODEL_PRICING;
+  if (!raw) return {};
+  try {
+    return JSON.parse(raw) as Record<string, ModelPrice>;
+  } catch {
+    console.warn('⚠️  AI_MODEL_PRICING is not valid JSON - usage costs will not be computed');
+    return {};
+  }
+};
+
+const emptyTotals = (): AIUsageTotals => ({
+  calls: 0, errors: 0, inputTokens: 0, outputTokens: 0, totalLatencyMs: 0, costUsd: 0
+});
+
+/**
+ * AI Usage Service
+ * Records every LLM completion and embedding request against the tenant it ran for,
+ * rolls the events up per day and reports token usage to Autumn.
+ *
+ * Providers don't know the tenant, so callers set it for the duration of a unit of work
+ * with runWithOwner(); calls made outside one are recorded as system usage.
+ */
+export class AIUsageService {
+  private pricing: Record<string, ModelPrice> | null = null;
+
+  /**
+   * Attribute every AI call made inside fn (including awaited async work) to owner
+   */
+  runWithOwner<T>(owner: AIUsageOwner, fn: () => Promise<T>): Promise<T> {
+    return ownerStorage.run(owner, fn);
+  }
+
+  /**
+   * Record one provider call. Never throws and never blocks the caller:
+   * accounting must not fail or slow down moderation.
+   */
+  record(call: AIUsageCall): void {
+    const owner = ownerStorage.getStore();
+    const inputTokens = call.inputTokens ?? 0;
+    const outputTokens = call.outputTokens ?? 0;
+    // Loaded lazily so the env is read after dotenv has run
+    this.pricing ??= loadPricing();
+    const price = this.pricing[call.model];
+    const costUsd = price
+      ? ((inputTokens * price.input + outputTokens * price.output) / 1_000_000).toFixed(6)
+      : null;
+
+    db.insert(aiUsageEvents)
+      .values({
+        userId: owner?.userId ?? null,
+        clientId: owner?.clientId ?? null,
+        kind: call.kind,
+        purpose: call.purpose,
+        provider: call.provider,
+        model: call.model,
+        inputTokens,
+        outputTokens,
+        latencyMs: Math.round(call.latencyMs),
+        success: call.success,
+        costUsd
+      })
+      .catch((error: unknown) => {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        console.error('Failed to record AI usage:', errorMessage);
+      });
+  }
+
+  /**
+   * Recompute the daily rollups for today and yesterday from the raw events.
+   * Idempotent: each run overwrites the counters for those days.
+   * The owner is the client when there is one, else the user, else 'system'.
+   */
+  async rollupRecent(): Promise<number> {
+    const result = await db.execute(sql`
+      INSERT INTO ai_usage_daily (
+        usage_date, owner_key, user_id, client_id, kind, purpose, model,
+        calls, errors, input_tokens, output_tokens, total_latency_ms, cost_usd, updated_at
+      )
+      SELECT
+        e.created_at::date,
+        CASE
+          WHEN e.client_id IS NOT NULL THEN 'client:' || e.client_id
+          WHEN e.user_id IS NOT NULL THEN 'user:' || e.user_id
+          ELSE 'system'
+        END,
+        CASE WHEN e.client_id IS NULL THEN e.user_id END,
+        e.client_id,
+        e.kind,
+        e.purpose,
+        e.model,
+        count(*)::int,
+        count(*) FILTER (WHERE NOT e.success)::int,
+        coalesce(sum(e.input_tokens), 0)::int,
+        coalesce(sum(e.output_tokens), 0)::int,
+        coalesce(sum(e.latency_ms), 0)::int,
+        coalesce(sum(e.cost_usd), 0),
+        now()
+      FROM ai_usage_events e
+      WHERE e.created_at >= current_date - 1
+      GROUP BY 1, 2, 3, 4, 5, 6, 7
+      ON CONFLICT (usage_date, owner_key, kind, purpose, model) DO UPDATE SET
+        calls = EXCLUDED.calls,
+        errors = EXCLUDED.errors,
+        input_tokens = EXCLUDED.input_tokens,
+        output_tokens = EXCLUDED.output_tokens,
+        total_latency_ms = EXCLUDED.total_latency_ms,
+        cost_usd = EXCLUDED.cost_usd,
+        updated_at = now()
+    `);
+    return result.rowCount ?? 0;
+  }
+
+  /**
+   * Delete raw events past AI_USAGE_EVENT_RETENTION_DAYS (rollups are kept)
+   */
+  async purgeExpiredEvents(): Promise<number> {
+    const cutoff = new Date(Date.now() - getRetentionDays() * 24 * 60 * 60 * 1000);
+    const deleted = await db
+      .delete(aiUsageEvents)
+      .where(lt(aiUsageEvents.createdAt, cutoff))
+      .returning({ id: aiUsageEvents.id });
+    return deleted.length;
+  }
+
+  /**
+   * Report completed days to Autumn as a metered feature (value = input + output tokens).
+   * Only days the rollup no longer recomputes are reported, and each rollup row carries
+   * its own idempotency key, so a retried report is never double-counted.
+   * No-op unless AUTUMN_AI_USAGE_FEATURE_ID is set.
+   */
+  async reportToBilling(): Promise<number> {
+    const featureId = process.env.AUTUMN_AI_USAGE_FEATURE_ID;
+    if (!featureId) return 0;
+
+    const rows = await db
+      .select()
+      .from(aiUsageDaily)
+      .where(and(
+        isNull(aiUsageDaily.billingReportedAt),
+        ne(aiUsageDaily.ownerKey, 'system'),
+        lt(aiUsageDaily.usageDate, sql`current_date - 1`)
+      ))
+      .orderBy(asc(aiUsageDaily.usageDate))
+      .limit(500);
+
+    let reported = 0;
+    for (const row of rows) {
+      const tokens = row.inputTokens + row.outputTokens;
+      const billingCustomerId = tokens > 0
+        ? await resolveBillingCustomerId({ userId: row.userId ?? undefined, clientId: row.clientId ?? undefined })
+        : null;
+
+      if (billingCustomerId) {
+        try {
+          const { error } = await autumn.track({
+            customer_id: billingCustomerId,
+            feature_id: featureId,
+            value: tokens,
+            idempotency_key: `ai-usage:${row.id}`,
+            properties: {
+              usage_date: row.usageDate,
+              kind: row.kind,
+              purpose: row.purpose,
+              model: row.model,
+              calls: row.calls,
+              ...(row.clientId && { client_id: row.clientId })
+            }
+          });
+          if (error) {
+            console.error(`Autumn track (${featureId}) failed for rollup ${row.id}:`, error.message);
+            continue;
+          }
+        } catch (err: unknown) {
+          console.error(`Autumn track (${featureId}) failed for rollup ${row.id}:`, err);
+          continue;
+        }
+      }
+
+      // Rows with no tokens or no billing customer are marked too, so they aren't retried forever
+      await db
+        .update(aiUsageDaily)
+        .set({ billingReportedAt: new Date() })
+        .where(eq(aiUsageDaily.id, row.id));
+      reported++;
+    }
+    return reported;
+  }
+
+  /**
+   * Daily usage for one owner between two dates (inclusive, YYYY-MM-DD), with totals.
+   * Rolled up hourly, so the current day can lag by up to one rollup interval.
+   */
+  async getUsage(owner: AIUsageOwner, from: string, to: string): Promise<AIUsageReport> {
+    const ownerKey = owner.clientId ? `client:${owner.clientId}` : `user:${owner.userId}`;
+
+    const days = await db
+      .select()
+      .from(aiUsageDaily)
+      .where(and(
+        eq(aiUsageDaily.ownerKey, ownerKey),
+        gte(aiUsageDaily.usageDate, from),
+        lte(aiUsageDaily.usageDate, to)
+      ))
+      .orderBy(asc(aiUsageDaily.usageDate), asc(aiUsageDaily.kind), asc(aiUsageDaily.purpose));
+
+    const totals = emptyTotals();
+    const byDay = new Map<string, AIUsageTotals>();
+    const byPurpose = new Map<string, AIUsageTotals>();
+    const byModel = new Map<string, AIUsageTotals>();
+
+    const add = (target: AIUsageTotals, row: AIUsageDaily): void => {
+      target.calls += row.calls;
+      target.errors += row.errors;
+      target.inputTokens += row.inputTokens;
+      target.outputTokens += row.outputTokens;
+      target.totalLatencyMs += row.totalLatencyMs;
+      target.costUsd += parseFloat(row.costUsd);
+    };
+    const bucket = (map: Map<string, AIUsageTotals>, key: string): AIUsageTotals => {
+      let entry = map.get(key);
+      if (!entry) {
+        entry = emptyTotals();
+        map.set(key, entry);
+      }
+      return entry;
+    };
+
+    for (const row of days) {
+      add(totals, row);
+      add(bucket(byDay, row.usageDate), row);
+      add(bucket(byPurpose, row.purpose), row);
+      add(bucket(byModel, row.model), row);
+    }
+
+    return {
+      from,
+      to,
+      days,
+      totals,
+      byDay: [...byDay].map(([date, t]) => ({ date, ...t })),
+      byPurpose: [...byPurpose].map(([purpose, t]) => ({ purpose, ...t })),
+      byModel: [...byModel].map(([model, t]) => ({ model, ...t }))
+    };
+  }
+}
+
+export const aiUsageService = new AIUsageService();
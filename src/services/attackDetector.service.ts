@@ -0,0 +1,249 @@
+import { db } from '../db';
+import { comments, posts } from '../db/schema';
+import { and, eq, inArray, lt } from 'drizzle-orm';
+import { embeddingsService } from './embeddings.service';
+import { incidentService } from './incident.service';
+
+const DEFAULT_WINDOW_MINUTES = 10;
+const DEFAULT_MIN_NEW_COMMENTERS = 8;
+const DEFAULT_MIN_SIMILARITY = 0.85;
+const DEFAULT_MIN_SHARED_IDENTIFIER_COMMENTERS = 3;
+// Bounds on per-window state and on the work done per evaluation
+const MAX_EVENTS_PER_WINDOW = 500;
+const MAX_SIMILARITY_SAMPLE = 30;
+const EVALUATION_COOLDOWN_MS = 30_000;
+const MAX_WINDOWS_BEFORE_SWEEP = 5_000;
+
+const getEnvNumber = (name: string, fallback: number): number => {
+  const env = process.env[name];
+  if (env === undefined || env === '') return fallback;
+  const n = parseFloat(env);
+  return Number.isFinite(n) && n > 0 ? n : fallback;
+};
+
+export interface CommentObservation {
+  instagramAccountId: string;
+  postId: string;
+  commentId: string;
+  commenterId: string;
+  identifiers: string[];
+}
+
+export interface AttackBurst {
+  instagramAccountId: string;
+  postId: string | null; // Null when the burst spans the account's posts
+  startedAt: Date;
+  detection: {
+    scope: 'POST' | 'ACCOUNT';
+    windowMinutes: number;
+    commentCount: number;
+    commenterCount: number;
+    newCommenterCount: number;
+    averageSimilarity: number | null;
+    sharedIdentifiers: Array<{ identifier: string; commenterCount: number }>;
+    commenterIds: string[];
+    commentIds: string[];
+  };
+}
+
+interface WindowEvent {
+  commentId: string;
+  commenterId: string;
+  identifiers: string[];
+  observedAt: number;
+}
+
+interface DetectionWindow {
+  events: WindowEvent[];
+  lastEvaluatedAt: number;
+}
+
+/**
+ * Attack Detector Service
+ * Streaming counterpart of PatternAnalysisService's coordinated-timing and similar-pattern
+ * analysis: keeps a sliding window of moderated comments per post and per Instagram account
+ * and reports a burst when many new commenters post within the window and their comments are
+ * near-duplicates (mutual embedding similarity) or push the same identifiers.
+ *
+ * Windows are in-process; a restart simply starts them empty.
+ */
+export class AttackDetectorService {
+  private readonly windows = new Map<string, DetectionWindow>();
+
+  isEnabled(): boolean {
+    return process.env.ATTACK_DETECTOR_ENABLED !== 'false';
+  }
+
+  /**
+   * Add a moderated comment to its post and account windows.
+   * Returns the burst if this comment tipped either window over the detection thresholds.
+   */
+  async observe(observation: CommentObservation): Promise<AttackBurst | null> {
+    if (!this.isEnabled()) return null;
+
+    const now = Date.now();
+    const windowMs = getEnvNumber('ATTACK_DETECTOR_WINDOW_MINUTES', DEFAULT_WINDOW_MINUTES) * 60_000;
+    const event: WindowEvent = {
+      commentId: observation.commentId,
+      commenterId: observation.commenterId,
+      identifiers: observation.identifiers.map(i => i.toLowerCase().trim()).filter(Boolean),
+      observedAt: now
+    };
+
+    if (this.windows.size > MAX_WINDOWS_BEFORE_SWEEP) {
+      this.sweep(now - windowMs);
+    }
+
+    const postKey = `post:${observation.postId}`;
+    const accountKey = `account:${observation.instagramAccountId}`;
+    this.addEvent(postKey, event, now - windowMs);
+    this.addEvent(accountKey, event, now - windowMs);
+
+    // A burst on one post is the sharper signal, so it is checked first
+    for (const [key, scope] of [[postKey, 'POST'], [accountKey, 'ACCOUNT']] as const) {
+      const window = this.windows.get(key);
+      if (!window || !this.shouldEvaluate(window, now)) continue;
+      window.lastEvaluatedAt = now;
+
+      if (await incidentService.blocksDetection(observation.instagramAccountId)) return null;
+
+      const burst = await this.evaluate(window, scope, observation, now - windowMs, windowMs);
+      if (burst) return burst;
+    }
+    return null;
+  }
+
+  private addEvent(key: string, event: WindowEvent, cutoff: number): void {
+    const window = this.windows.get(key) ?? { events: [], lastEvaluatedAt: 0 };
+    window.events = window.events.filter(e => e.observedAt >= cutoff && e.commentId !== event.commentId);
+    window.events.push(event);
+    if (window.events.length > MAX_EVENTS_PER_WINDOW) {
+      window.events.splice(0, window.events.length - MAX_EVENTS_PER_WINDOW);
+    }
+    this.windows.set(key, window);
+  }
+
+  private sweep(cutoff: number): void {
+    for (const [key, window] of this.windows) {
+      if (!window.events.some(e => e.observedAt >= cutoff)) this.windows.delete(key);
+    }
+  }
+
+  /**
+   * Only evaluate (DB + similarity work) once enough distinct commenters are in the window,
+   * and at most once per cooldown per window
+   */
+  private shouldEvaluate(window: DetectionWindow, now: number): boolean {
+    if (now - window.lastEvaluatedAt < EVALUATION_COOLDOWN_MS) return false;
+    const minNew = getEnvNumber('ATTACK_DETECTOR_MIN_NEW_COMMENTERS', DEFAULT_MIN_NEW_COMMENTERS);
+    return new Set(window.events.map(e => e.commenterId)).size >= minNew;
+  }
+
+  private async evaluate(
+    window: DetectionWindow,
+    scope: 'POST' | 'ACCOUNT',
+    observation: CommentObservation,
+    cutoff: number,
+    windowMs: number
+  ): Promise<AttackBurst | null> {
+    const minNew = getEnvNumber('ATTACK_DETECTOR_MIN_NEW_COMMENTERS', DEFAULT_MIN_NEW_COMMENTERS);
+    const minSimilarity = getEnvNumber('ATTACK_DETECTOR_MIN_SIMILARITY', DEFAULT_MIN_SIMILARITY);
+    const minShared = getEnvNumber('ATTACK_DETECTOR_MIN_SHARED_IDENTIFIER_COMMENTERS', DEFAULT_MIN_SHARED_IDENTIFIER_COMMENTERS);
+    const windowStart = new Date(cutoff);
+
+    // Comments moderated now but posted long ago (backfill, deep sync, replays) are not a burst
+    const rows = await db
+      .select({
+        id: comments.id,
+        commenterId: comments.commenterId,
+        commentedAt: comments.commentedAt,
+        embedding: comments.embedding
+      })
+      .from(comments)
+      .where(inArray(comments.id, window.events.map(e => e.commentId)));
+    const recent = rows.filter(row => row.commentedAt >= windowStart);
+
+    const commenterIds = [...new Set(recent.map(row => row.commenterId))];
+    if (commenterIds.length < minNew) return null;
+
+    // New = no comment on this account before the window opened
+    const previous = await db
+      .selectDistinct({ commenterId: comments.commenterId })
+      .from(comments)
+      .innerJoin(posts, eq(comments.postId, posts.id))
+      .where(and(
+        eq(posts.instagramAccountId, observation.instagramAccountId),
+        inArray(comments.commenterId, commenterIds),
+        lt(comments.commentedAt, windowStart)
+      ));
+    const previousIds = new Set(previous.map(row => row.commenterId));
+    const newCommenterIds = commenterIds.filter(id => !previousIds.has(id));
+    if (newCommenterIds.length < minNew) return null;
+
+    const averageSimilarity = this.averagePairwiseSimilarity(
+      recent
+        .filter(row => !previousIds.has(row.commenterId) && Array.isArray(row.embedding))
+        .slice(-MAX_SIMILARITY_SAMPLE)
+        .map(row => row.embedding as number[])
+    );
+
+    const recentIds = new Set(recent.map(row => row.id));
+    const commentersByIdentifier = new Map<string, Set<string>>();
+    for (const event of window.events) {
+      if (!recentIds.has(event.commentId) || previousIds.has(event.commenterId)) continue;
+      for (const identifier of event.identifiers) {
+        const commenters = commentersByIdentifier.get(identifier) ?? new Set<string>();
+        commenters.add(event.commenterId);
+        commentersByIdentifier.set(identifier, commenters);
+      }
+    }
+    const sharedIdentifiers = [...commentersByIdentifier]
+      .map(([identifier, commenters]) => ({ identifier, commenterCount: commenters.size }))
+      .filter(shared => shared.commenterCount >= minShared)
+      .sort((a, b) => b.commenterCount - a.commenterCount);
+
+    const similar = averageSimilarity !== null && averageSimilarity >= minSimilarity;
+    if (!similar && sharedIdentifiers.length === 0) return null;
+
+    const startedAt = recent.reduce(
+      (earliest, row) => (row.commentedAt < earliest ? row.commentedAt : earliest),
+      recent[0].commentedAt
+    );
+
+    return {
+      instagramAccountId: observation.instagramAccountId,
+      postId: scope === 'POST' ? observation.postId : null,
+      startedAt,
+      detection: {
+        scope,
+        windowMinutes: windowMs / 60_000,
+        commentCount: recent.length,
+        commenterCount: commenterIds.length,
+        newCommenterCount: newCommenterIds.length,
+        averageSimilarity: averageSimilarity !== null ? Math.round(averageSimilarity * 1000) / 1000 : null,
+        sharedIdentifiers,
+        commenterIds: newCommenterIds,
+        commentIds: recent.filter(row => !previousIds.has(row.commenterId)).map(row => row.id)
+      }
+    };
+  }
+
+  /**
+   * Mean cosine similarity over all pairs, or null with fewer than two embeddings
+   */
+  private averagePairwiseSimilarity(embeddings: number[][]): number | null {
+    if (embeddings.length < 2) return null;
+    let total = 0;
+    let pairs = 0;
+    for (let i = 0; i < embeddings.length; i++) {
+      for (let j = i + 1; j < embeddings.length; j++) {
+        if (embeddings[i].length !== embeddings[j].length) continue;
+        total += embeddingsService.calculateCosineSimilarity(embeddings[i], embeddings[j]);
+        pairs++;
+      }
+    }
+    return pairs > 0 ? total / pairs : null;
+  }
+}
+
+export const attackDetectorService = new AttackDetectorService();
@@ -0,0 +1,467 @@
+import { db } from '../db';
+import {
+  autoBlockPolicies,
+  autoBlockPolicyEvents,
+  suspiciousAccounts,
+  users,
+  clients,
+  AutoBlockPolicy,
+  SuspiciousAccount
+} from '../db/schema';
+import { eq, and, or, isNull, desc, inArray } from 'drizzle-orm';
+import { EmailService } from './email/email.service';
+import { abuserProfileService } from './abuserProfile.service';
+
+export const POLICY_METRICS = [
+  'totalComments', 'flaggedComments', 'deletedComments',
+  'blackmailCount', 'threatCount', 'harassmentCount', 'spamCount', 'defamationCount',
+  'averageRiskScore', 'highestRiskScore',
+  'commentsPerDay', 'accountAgeDays'
+] as const;
+
+export const POLICY_OPERATORS = ['gt', 'gte', 'lt', 'lte', 'eq'] as const;
+
+// Applied in this order: auto-delete wins over auto-hide when both match
+export const POLICY_OUTCOMES = ['AUTO_DELETE', 'AUTO_HIDE', 'WATCHLIST', 'NOTIFY'] as const;
+
+export type PolicyMetric = typeof POLICY_METRICS[number];
+export type PolicyOperator = typeof POLICY_OPERATORS[number];
+export type PolicyOutcome = typeof POLICY_OUTCOMES[number];
+
+export interface PolicyCondition {
+  metric: PolicyMetric;
+  operator: PolicyOperator;
+  value: number;
+}
+
+/**
+ * A rule matches when all its conditions hold
+ */
+export interface AutoBlockRule {
+  name: string;
+  conditions: PolicyCondition[];
+  outcome: PolicyOutcome;
+}
+
+export type PolicyMetrics = Record<PolicyMetric, number>;
+
+export interface PolicyOwner {
+  userId?: string;
+  clientId?: string;
+}
+
+export interface RuleMatch {
+  rule: AutoBlockRule;
+  reason: string;
+}
+
+export interface PolicyPreviewAccount {
+  suspiciousAccountId: string;
+  instagramAccountId: string | null;
+  facebookPageId: string | null;
+  commenterUsername: string;
+  metrics: PolicyMetrics;
+  matches: Array<{ ruleName: string; outcome: PolicyOutcome; reason: string; alreadyApplied: boolean }>;
+}
+
+export interface PolicyPreview {
+  scanned: number;
+  matched: number;
+  truncated: boolean;
+  byOutcome: Record<PolicyOutcome, { matched: number; newlyApplied: number }>;
+  accounts: PolicyPreviewAccount[];
+}
+
+const MAX_RULES = 20;
+const MAX_CONDITIONS = 10;
+const MAX_RULE_NAME_LENGTH = 100;
+const MAX_PREVIEW_SCAN = 10_000;
+const MAX_PREVIEW_ACCOUNTS = 100;
+
+const OPERATOR_SYMBOLS: Record<PolicyOperator, string> = { gt: '>', gte: '>=', lt: '<', lte: '<=', eq: '=' };
+
+/**
+ * Rules applied when neither the account nor its tenant has an enabled policy
+ * (the thresholds auto-blocking always used)
+ */
+export const DEFAULT_AUTO_BLOCK_RULES: AutoBlockRule[] = [
+  {
+    name: 'Spam bot',
+    conditions: [
+      { metric: 'spamCount', operator: 'gt', value: 5 },
+      { metric: 'commentsPerDay', operator: 'gt', value: 10 }
+    ],
+    outcome: 'AUTO_DELETE'
+  },
+  {
+    name: 'Serial blackmailer',
+    conditions: [{ metric: 'blackmailCount', operator: 'gte', value: 2 }],
+    outcome: 'AUTO_DELETE'
+  },
+  {
+    name: 'Repeat threats',
+    conditions: [{ metric: 'threatCount', operator: 'gte', value: 2 }],
+    outcome: 'AUTO_DELETE'
+  },
+  {
+    name: 'High-risk repeat offender',
+    conditions: [
+      { metric: 'deletedComments', operator: 'gte', value: 5 },
+      { metric: 'averageRiskScore', operator: 'gt', value: 80 }
+    ],
+    outcome: 'AUTO_DELETE'
+  }
+];
+
+const isOneOf = <T extends string>(value: unknown, allowed: readonly T[]): value is T =>
+  typeof value === 'string' && (allowed as readonly string[]).includes(value);
+
+/**
+ * Auto-Block Policy Service
+ * Evaluates a suspicious account's counters (its abuser profile's, when linked) against the
+ * auto-block policy that applies to it (the Instagram account's own policy, else the tenant's
+ * default, else the built-in rules) and applies the outcomes of the rules it matches to the
+ * account and every account linked to it. Every applied outcome is recorded as an event.
+ */
+export class AutoBlockPolicyService {
+  /**
+   * Validate policy rules. Returns an error message, or null if valid.
+   */
+  validateRules(rules: unknown): string | null {
+    if (!Array.isArray(rules)) return 'rules must be an array';
+    if (rules.length > MAX_RULES) return `A policy can have at most ${MAX_RULES} rules`;
+
+    const names = new Set<string>();
+    for (const [index, rule] of rules.entries()) {
+      const label = `rules[${index}]`;
+      if (!rule || typeof rule !== 'object') return `${label} must be an object`;
+      const { name, conditions, outcome } = rule as Record<string, unknown>;
+      if (typeof name !== 'string' || !name.trim() || name.length > MAX_RULE_NAME_LENGTH) {
+        return `${label}.name is required (max ${MAX_RULE_NAME_LENGTH} characters)`;
+      }
+      if (names.has(name)) return `${label}.name must be unique within the policy`;
+      names.add(name);
+      if (!isOneOf(outcome, POLICY_OUTCOMES)) {
+        return `${label}.outcome must be one of ${POLICY_OUTCOMES.join(', ')}`;
+      }
+      if (!Array.isArray(conditions) || conditions.length === 0 || conditions.length > MAX_CONDITIONS) {
+        return `${label}.conditions must have 1 to ${MAX_CONDITIONS} conditions`;
+      }
+      for (const condition of conditions as unknown[]) {
+        const { metric, operator, value } = (condition ?? {}) as Record<string, unknown>;
+        if (!isOneOf(metric, POLICY_METRICS)) {
+          return `${label}: metric must be one of ${POLICY_METRICS.join(', ')}`;
+        }
+        if (!isOneOf(operator, POLICY_OPERATORS)) {
+          return `${label}: operator must be one of ${POLICY_OPERATORS.join(', ')}`;
+        }
+        if (typeof value !== 'number' || !Number.isFinite(value) || value < 0) {
+          return `${label}: value must be a non-negative number`;
+        }
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Counter values rules are evaluated against, aggregated across the given accounts (a
+   * single account, or every account linked to it through an abuser profile). commentsPerDay
+   * is averaged over the days since the commenter was first seen (at least one).
+   */
+  metricsOf(accounts: SuspiciousAccount[], now: Date = new Date()): PolicyMetrics {
+    const counters = abuserProfileService.aggregateCounters(accounts);
+    const accountAgeDays = Math.max(1, Math.floor((now.getTime() - counters.firstSeenAt.getTime()) / (1000 * 60 * 60 * 24)));
+    return {
+      totalComments: counters.totalComments,
+      flaggedComments: counters.flaggedComments,
+      deletedComments: counters.deletedComments,
+      blackmailCount: counters.blackmailCount,
+      threatCount: counters.threatCount,
+      harassmentCount: counters.harassmentCount,
+      spamCount: counters.spamCount,
+      defamationCount: counters.defamationCount,
+      averageRiskScore: counters.averageRiskScore,
+      highestRiskScore: counters.highestRiskScore,
+      commentsPerDay: Math.round((counters.totalComments / accountAgeDays) * 10) / 10,
+      accountAgeDays
+    };
+  }
+
+  /**
+   * Rules whose conditions all hold for the given metrics
+   */
+  evaluate(rules: AutoBlockRule[], metrics: PolicyMetrics): RuleMatch[] {
+    const compare = (actual: number, operator: PolicyOperator, value: number): boolean => {
+      switch (operator) {
+        case 'gt': return actual > value;
+        case 'gte': return actual >= value;
+        case 'lt': return actual < value;
+        case 'lte': return actual <= value;
+        case 'eq': return actual === value;
+      }
+    };
+
+    return rules
+      .filter(rule => rule.conditions.every(c => compare(metrics[c.metric], c.operator, c.value)))
+      .map(rule => ({
+        rule,
+        reason: `${rule.name}: ${rule.conditions
+          .map(c => `${c.metric} ${metrics[c.metric]} ${OPERATOR_SYMBOLS[c.operator]} ${c.value}`)
+          .join(', ')}`
+      }));
+  }
+
+  /**
+   * Policy that applies to the surface an account is on: the Instagram account's own enabled
+   * policy, else its owner's enabled default (the only option for Facebook Pages). Null means
+   * the built-in default rules apply.
+   */
+  async resolvePolicy(
+    account: Pick<SuspiciousAccount, 'instagramAccountId' | 'facebookPageId'>
+  ): Promise<AutoBlockPolicy | null> {
+    if (account.instagramAccountId) {
+      const [accountPolicy] = await db
+        .select()
+        .from(autoBlockPolicies)
+        .where(and(
+          eq(autoBlockPolicies.instagramAccountId, account.instagramAccountId),
+          eq(autoBlockPolicies.isEnabled, true)
+        ))
+        .orderBy(desc(autoBlockPolicies.updatedAt))
+        .limit(1);
+      if (accountPolicy) return accountPolicy;
+    }
+
+    const owner = await abuserProfileService.getSurfaceOwner(account);
+    if (!owner || (!owner.clientId && !owner.userId)) return null;
+
+    const [defaultPolicy] = await db
+      .select()
+      .from(autoBlockPolicies)
+      .where(and(
+        owner.clientId
+          ? eq(autoBlockPolicies.clientId, owner.clientId)
+          : eq(autoBlockPolicies.userId, owner.userId!),
+        isNull(autoBlockPolicies.instagramAccountId),
+        eq(autoBlockPolicies.isEnabled, true)
+      ))
+      .orderBy(desc(autoBlockPolicies.updatedAt))
+      .limit(1);
+    return defaultPolicy ?? null;
+  }
+
+  /**
+   * Apply the account's policy after its counters changed. When the account is linked to an
+   * abuser profile, rules are evaluated against the profile's aggregated counters and state
+   * outcomes are applied to every linked account. State outcomes (auto-delete, auto-hide,
+   * watchlist) are applied to accounts not already in that state; NOTIFY fires once, only when
+   * a rule starts matching (it didn't match with `previous` counters).
+   */
+  async applyPolicy(accountId: string, previous: SuspiciousAccount | null): Promise<void> {
+    const account = await db.query.suspiciousAccounts.findFirst({
+      where: eq(suspiciousAccounts.id, accountId)
+    });
+    if (!account) return;
+
+    const linked = (await abuserProfileService.getLinkedAccounts([account])).get(account.id)!;
+    const profileId = linked.length > 1 ? await abuserProfileService.getProfileIdForAccount(account.id) : null;
+
+    const policy = await this.resolvePolicy(account);
+    const rules = policy ? policy.rules as AutoBlockRule[] : DEFAULT_AUTO_BLOCK_RULES;
+    const now = new Date();
+    const metrics = this.metricsOf(linked, now);
+    const matches = this.evaluate(rules, metrics);
+    if (matches.length === 0) return;
+
+    const previousLinked = linked
+      .map(other => (other.id === account.id ? previous : other))
+      .filter((other): other is SuspiciousAccount => other !== null);
+    const previouslyMatched = new Set(
+      previousLinked.length > 0
+        ? this.evaluate(rules, this.metricsOf(previousLinked, now)).map(m => m.rule.name)
+        : []
+    );
+    const ordered = [...matches].sort(
+      (a, b) => POLICY_OUTCOMES.indexOf(a.rule.outcome) - POLICY_OUTCOMES.indexOf(b.rule.outcome)
+    );
+
+    for (const target of linked) {
+      const state = {
+        deleting: target.isBlocked === true || target.autoDeleteEnabled === true,
+        hiding: target.autoHideEnabled === true,
+        watchlisted: target.isWatchlisted === true
+      };
+      const via = target.id === account.id ? '' : ` (linked to @${account.commenterUsername})`;
+
+      for (const match of ordered) {
+        const { outcome } = match.rule;
+        let applied = false;
+
+        if (outcome === 'AUTO_DELETE' && !state.deleting) {
+          // Only one of auto-hide or auto-delete at a time
+          await db
+            .update(suspiciousAccounts)
+            .set({
+              isBlocked: true,
+              autoDeleteEnabled: true,
+              autoHideEnabled: false,
+              blockReason: `Auto-blocked: ${match.reason}${via}`,
+              blockedAt: now,
+              updatedAt: now
+            })
+            .where(eq(suspiciousAccounts.id, target.id));
+          state.deleting = true;
+          applied = true;
+        } else if (outcome === 'AUTO_HIDE' && !state.deleting && !state.hiding) {
+          await db
+            .update(suspiciousAccounts)
+            .set({ autoHideEnabled: true, updatedAt: now })
+            .where(eq(suspiciousAccounts.id, target.id));
+          state.hiding = true;
+          applied = true;
+        } else if (outcome === 'WATCHLIST' && !state.watchlisted) {
+          await db
+            .update(suspiciousAccounts)
+            .set({
+              isWatchlisted: true,
+              watchlistedAt: now,
+              watchlistReason: `Auto-watchlisted: ${match.reason}${via}`,
+              isHidden: false,
+              updatedAt: now
+            })
+            .where(eq(suspiciousAccounts.id, target.id));
+          state.watchlisted = true;
+          applied = true;
+        } else if (outcome === 'NOTIFY' && target.id === account.id && !previouslyMatched.has(match.rule.name)) {
+          await this.notify(account, match, profileId);
+          applied = true;
+        }
+
+        if (applied) {
+          await db.insert(autoBlockPolicyEvents).values({
+            policyId: policy?.id ?? null,
+            suspiciousAccountId: target.id,
+            ruleName: match.rule.name,
+            outcome,
+            reason: `${match.reason}${via}`,
+            metrics
+          });
+        }
+      }
+    }
+  }
+
+  /**
+   * Email the owner of the Instagram account or Facebook Page the commenter is on
+   */
+  private async notify(account: SuspiciousAccount, match: RuleMatch, abuserProfileId: string | null): Promise<void> {
+    const owner = await abuserProfileService.getSurfaceOwner(account);
+    if (!owner) return;
+
+    let recipient: { email: string; name: string } | undefined;
+    if (owner.clientId) {
+      const client = await db.query.clients.findFirst({
+        where: eq(clients.id, owner.clientId),
+        columns: { email: true, businessName: true }
+      });
+      if (client) recipient = { email: client.email, name: client.businessName };
+    } else if (owner.userId) {
+      const user = await db.query.users.findFirst({
+        where: eq(users.id, owner.userId),
+        columns: { email: true, name: true, businessName: true }
+      });
+      if (user) recipient = { email: user.email, name: user.name ?? user.businessName ?? user.email };
+    }
+    if (!recipient) return;
+
+    const result = await EmailService.sendPolicyAlert({
+      to: recipient.email,
+      recipientName: recipient.name,
+      suspiciousAccountId: account.id,
+      commenterUsername: account.commenterUsername,
+      accountName: owner.accountName,
+      abuserProfileId: abuserProfileId ?? undefined,
+      ruleName: match.rule.name,
+      reason: match.reason
+    });
+    if (!result.success) {
+      console.warn(`⚠️ Auto-block policy alert for ${account.commenterUsername} not sent: ${result.error}`);
+    }
+  }
+
+  /**
+   * Which of the owner's existing suspicious accounts the rules would catch, and whether each
+   * outcome would be new (the account isn't already blocked, hidden or watchlisted)
+   */
+  async preview(
+    owner: PolicyOwner,
+    rules: AutoBlockRule[],
+    instagramAccountId: string | null
+  ): Promise<PolicyPreview> {
+    // A tenant default also covers the tenant's Facebook Pages
+    const surfaces = instagramAccountId
+      ? { instagramAccountIds: [instagramAccountId], facebookPageIds: [] }
+      : await abuserProfileService.getOwnerSurfaces(owner);
+    const surfaceConditions = [
+      ...(surfaces.instagramAccountIds.length > 0 ? [inArray(suspiciousAccounts.instagramAccountId, surfaces.instagramAccountIds)] : []),
+      ...(surfaces.facebookPageIds.length > 0 ? [inArray(suspiciousAccounts.facebookPageId, surfaces.facebookPageIds)] : [])
+    ];
+
+    const byOutcome = Object.fromEntries(
+      POLICY_OUTCOMES.map(outcome => [outcome, { matched: 0, newlyApplied: 0 }])
+    ) as PolicyPreview['byOutcome'];
+    const preview: PolicyPreview = { scanned: 0, matched: 0, truncated: false, byOutcome, accounts: [] };
+    if (surfaceConditions.length === 0) return preview;
+
+    const rows = await db
+      .select()
+      .from(suspiciousAccounts)
+      .where(or(...surfaceConditions))
+      .orderBy(desc(suspiciousAccounts.lastSeenAt))
+      .limit(MAX_PREVIEW_SCAN + 1);
+    preview.truncated = rows.length > MAX_PREVIEW_SCAN;
+    const accounts = rows.slice(0, MAX_PREVIEW_SCAN);
+    preview.scanned = accounts.length;
+
+    // Linked accounts are evaluated on their abuser profile's aggregated counters
+    const linked = await abuserProfileService.getLinkedAccounts(accounts);
+    const now = new Date();
+    for (const account of accounts) {
+      const metrics = this.metricsOf(linked.get(account.id)!, now);
+      const matches = this.evaluate(rules, metrics);
+      if (matches.length === 0) continue;
+      preview.matched++;
+
+      const deleting = account.isBlocked === true || account.autoDeleteEnabled === true;
+      const alreadyApplied: Record<PolicyOutcome, boolean> = {
+        AUTO_DELETE: deleting,
+        AUTO_HIDE: deleting || account.autoHideEnabled === true,
+        WATCHLIST: account.isWatchlisted === true,
+        NOTIFY: false
+      };
+      for (const match of matches) {
+        byOutcome[match.rule.outcome].matched++;
+        if (!alreadyApplied[match.rule.outcome]) byOutcome[match.rule.outcome].newlyApplied++;
+      }
+
+      if (preview.accounts.length < MAX_PREVIEW_ACCOUNTS) {
+        preview.accounts.push({
+          suspiciousAccountId: account.id,
+          instagramAccountId: account.instagramAccountId,
+          facebookPageId: account.facebookPageId,
+          commenterUsername: account.commenterUsername,
+          metrics,
+          matches: matches.map(match => ({
+            ruleName: match.rule.name,
+            outcome: match.rule.outcome,
+            reason: match.reason,
+            alreadyApplied: alreadyApplied[match.rule.outcome]
+          }))
+        });
+      }
+    }
+    return preview;
+  }
+}
+
+export const autoBlockPolicyService = new AutoBlockPolicyService();
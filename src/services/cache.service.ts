@@ -4,6 +4,9 @@
  */
 
 import NodeCache from 'node-cache';
+import { createHash } from 'crypto';
+import type { LLMClassificationResult } from '../types';
+import type { CustomFilter } from '../db/schema';
 
 // Cache instances with different TTLs
 const followerGrowthCache = new NodeCache({
@@ -24,6 +27,15 @@ const oauthTokenCache = new NodeCache({
   useClones: false
 });
 
+// TTL is passed per entry (CLASSIFICATION_CACHE_TTL_SECONDS); maxKeys bounds memory during spam waves
+const classificationCache = new NodeCache({
+  checkperiod: 120,
+  maxKeys: 10_000,
+  useClones: false
+});
+
+const DEFAULT_CLASSIFICATION_CACHE_TTL_SECONDS = 60 * 60; // 1 hour
+
 /**
  * Generate cache key for follower growth
  */
@@ -165,6 +177,110 @@ export function deleteOAuthTokenCache(userId: string, nonce: string): void {
 
 export type { DiscoveredAccount, OAuthTokenCacheEntry };
 
+// ---------- Classification cache helpers ----------
+
+interface ClassificationCacheOwner {
+  userId?: string;
+  clientId?: string;
+}
+
+interface ClassificationCacheEntry {
+  result: LLMClassificationResult;
+  // Comment whose LLM classification this is (recorded on moderation logs of cache hits)
+  sourceCommentId: string;
+  cachedAt: Date;
+}
+
+/**
+ * Whether classification results are cached (CLASSIFICATION_CACHE_ENABLED, default true)
+ */
+export function isClassificationCacheEnabled(): boolean {
+  return process.env.CLASSIFICATION_CACHE_ENABLED !== 'false';
+}
+
+function getClassificationCacheTtlSeconds(): number {
+  const n = parseInt(process.env.CLASSIFICATION_CACHE_TTL_SECONDS || '', 10);
+  return Number.isFinite(n) && n > 0 ? n : DEFAULT_CLASSIFICATION_CACHE_TTL_SECONDS;
+}
+
+function getClassificationOwnerPrefix(owner: ClassificationCacheOwner): string {
+  return owner.clientId ? `classification:client:${owner.clientId}:` : `classification:user:${owner.userId}:`;
+}
+
+/**
+ * Fingerprint of everything a classification depends on: the comment text, model, active
+ * custom filters, moderation settings and any other context the classifier sees (post
+ * caption, embedding similarity, pattern detection). Only case and whitespace are folded in
+ * the text; emoji, scripts and amounts are kept, since a cached verdict (and its extracted
+ * identifiers) is reused as-is. Null for blank text.
+ */
+export function getClassificationFingerprint(
+  commentText: string,
+  model: string,
+  filters: CustomFilter[],
+  settings: unknown,
+  context: unknown = null
+): string | null {
+  const text = commentText.toLowerCase().replace(/\s+/g, ' ').trim();
+  if (!text) return null;
+
+  const filterSet = filters
+    .map(f => [f.id, f.name, f.prompt, f.category, f.scope, f.description])
+    .sort((a, b) => String(a[0]).localeCompare(String(b[0])));
+
+  return createHash('sha256')
+    .update(JSON.stringify([text, model, filterSet, settings, context]))
+    .digest('hex');
+}
+
+/**
+ * Keys are prefixed with the owner (client, else user) so an owner's entries can be invalidated together.
+ */
+function getClassificationCacheKey(owner: ClassificationCacheOwner, fingerprint: string): string {
+  return `${getClassificationOwnerPrefix(owner)}${fingerprint}`;
+}
+
+/**
+ * Get a cached classification result
+ */
+export function getClassificationCache(
+  owner: ClassificationCacheOwner,
+  fingerprint: string
+): ClassificationCacheEntry | undefined {
+  return classificationCache.get<ClassificationCacheEntry>(getClassificationCacheKey(owner, fingerprint));
+}
+
+/**
+ * Cache a classification result. When the cache is full the result is simply not cached.
+ */
+export function setClassificationCache(
+  owner: ClassificationCacheOwner,
+  fingerprint: string,
+  entry: ClassificationCacheEntry
+): void {
+  try {
+    classificationCache.set(getClassificationCacheKey(owner, fingerprint), entry, getClassificationCacheTtlSeconds());
+  } catch {
+    // ECACHEFULL: entries expire on their own, so skip caching until there is room
+  }
+}
+
+/**
+ * Invalidate cached classifications after an owner's custom filters changed.
+ * Frees the memory early: stale entries can't be served anyway, since the key
+ * fingerprint includes the active filter set.
+ */
+export function invalidateClassificationCache(owner: ClassificationCacheOwner): void {
+  const prefixes: string[] = [];
+  if (owner.clientId) prefixes.push(getClassificationOwnerPrefix({ clientId: owner.clientId }));
+  if (owner.userId) prefixes.push(getClassificationOwnerPrefix({ userId: owner.userId }));
+  if (prefixes.length === 0) return;
+
+  classificationCache.del(classificationCache.keys().filter(key => prefixes.some(prefix => key.startsWith(prefix))));
+}
+
+export type { ClassificationCacheOwner, ClassificationCacheEntry };
+
 /**
  * Clear all caches (for testing/debugging)
  */
@@ -172,6 +288,7 @@ export function clearAllCaches(): void {
   followerGrowthCache.flushAll();
   clientDetailsCache.flushAll();
   oauthTokenCache.flushAll();
+  classificationCache.flushAll();
   console.log('[CACHE] All caches cleared');
 }
 
@@ -181,9 +298,11 @@ export function clearAllCaches(): void {
 export function getCacheStats(): {
   followerGrowth: NodeCache.Stats;
   clientDetails: NodeCache.Stats;
+  classification: NodeCache.Stats;
 } {
   return {
     followerGrowth: followerGrowthCache.getStats(),
-    clientDetails: clientDetailsCache.getStats()
+    clientDetails: clientDetailsCache.getStats(),
+    classification: classificationCache.getStats()
   };
 }
@@ -511,8 +511,8 @@ export async function getClientSuspiciousAccounts(
     violations: (acc.flaggedComments ?? 0) + (acc.deletedComments ?? 0),
     autoHideEnabled: acc.autoHideEnabled ?? false,
     autoDeleteEnabled: acc.autoDeleteEnabled ?? false,
-    onAccountUsername: accountMap.get(acc.instagramAccountId) ?? 'Unknown',
-    instagramAccountId: acc.instagramAccountId
+    onAccountUsername: accountMap.get(acc.instagramAccountId!) ?? 'Unknown',
+    instagramAccountId: acc.instagramAccountId!
   }));
 }
 
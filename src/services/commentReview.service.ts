@@ -2,6 +2,8 @@ import { db } from '../db';
 import { comments, commentReviewActions, customFilters, moderationLogs, posts, instagramAccounts } from '../db/schema';
 import { embeddingsService } from './embeddings.service';
 import { llmService } from './llm.service';
+import { aiUsageService } from './aiUsage.service';
+import { invalidateClassificationCache } from './cache.service';
 import { eq, and, or, desc, isNull, inArray } from 'drizzle-orm';
 
 interface ReviewFilter {
@@ -360,10 +362,8 @@ export class CommentReviewService {
     reviewedBy: { userId?: string; clientId?: string }
   ): Promise<string> {
     // Generate filter prompt using LLM
-    const filterPrompt = await llmService.generateCustomFilterPrompt(
-      commentText,
-      category,
-      actionType
+    const filterPrompt = await aiUsageService.runWithOwner(reviewedBy, () =>
+      llmService.generateCustomFilterPrompt(commentText, category, actionType)
     );
 
     // Create custom filter
@@ -384,6 +384,7 @@ export class CommentReviewService {
       })
       .returning();
 
+    invalidateClassificationCache(reviewedBy);
     return filter.id;
   }
 
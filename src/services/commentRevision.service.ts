@@ -0,0 +1,126 @@
+import { db } from '../db';
+import { comments, commentRevisions, CommentRevision, NewCommentRevision } from '../db/schema';
+import { eq, asc, inArray } from 'drizzle-orm';
+
+export type CommentRevisionSource = 'WEBHOOK' | 'POLL' | 'DEEP_SYNC';
+
+type RevisionChangeType = CommentRevision['changeType'];
+
+/**
+ * Comment Revision Service
+ * Keeps the history of commenter edits and deletions. The first change seen for a comment
+ * also records its original text as revision 1, so the whole chain survives the overwrite
+ * of comments.text.
+ */
+export class CommentRevisionService {
+  /**
+   * Record an edit and update comments.text. Returns false if the text is unchanged
+   * (e.g. the same edit already arrived via another path), so callers only re-moderate real changes.
+   */
+  async recordEdit(commentId: string, newText: string, source: CommentRevisionSource): Promise<boolean> {
+    return this.appendRevision(commentId, 'EDITED', source, newText);
+  }
+
+  /**
+   * Record that the commenter deleted a comment and mark it deleted.
+   * Returns false if it was already marked deleted (including deletions made by moderation).
+   */
+  async recordDeletion(commentId: string, source: CommentRevisionSource): Promise<boolean> {
+    return this.appendRevision(commentId, 'DELETED', source);
+  }
+
+  /**
+   * Revision chain for a comment, oldest first
+   */
+  async getRevisions(commentId: string): Promise<CommentRevision[]> {
+    return db
+      .select()
+      .from(commentRevisions)
+      .where(eq(commentRevisions.commentId, commentId))
+      .orderBy(asc(commentRevisions.revisionNumber));
+  }
+
+  /**
+   * Revision chains for several comments, keyed by comment ID (comments without revisions are omitted)
+   */
+  async getRevisionsForComments(commentIds: string[]): Promise<Map<string, CommentRevision[]>> {
+    const byComment = new Map<string, CommentRevision[]>();
+    if (commentIds.length === 0) return byComment;
+
+    const revisions = await db
+      .select()
+      .from(commentRevisions)
+      .where(inArray(commentRevisions.commentId, commentIds))
+      .orderBy(asc(commentRevisions.commentId), asc(commentRevisions.revisionNumber));
+
+    for (const revision of revisions) {
+      const chain = byComment.get(revision.commentId) ?? [];
+      chain.push(revision);
+      byComment.set(revision.commentId, chain);
+    }
+    return byComment;
+  }
+
+  /**
+   * Append a revision under a row lock on the comment, so concurrent webhook and sync
+   * updates can't record the same change twice or race on revision numbers
+   */
+  private async appendRevision(
+    commentId: string,
+    changeType: Exclude<RevisionChangeType, 'ORIGINAL'>,
+    source: CommentRevisionSource,
+    newText?: string
+  ): Promise<boolean> {
+    return db.transaction(async (tx) => {
+      const [comment] = await tx
+        .select({
+          text: comments.text,
+          commentedAt: comments.commentedAt,
+          isDeleted: comments.isDeleted,
+          revisionCount: comments.revisionCount
+        })
+        .from(comments)
+        .where(eq(comments.id, commentId))
+        .for('update');
+
+      if (!comment) return false;
+      if (changeType === 'EDITED' && (newText === undefined || comment.text === newText)) return false;
+      if (changeType === 'DELETED' && comment.isDeleted) return false;
+
+      const now = new Date();
+      let revisionNumber = comment.revisionCount ?? 0;
+      const rows: NewCommentRevision[] = [];
+
+      if (revisionNumber === 0) {
+        rows.push({
+          commentId,
+          revisionNumber: ++revisionNumber,
+          changeType: 'ORIGINAL',
+          text: comment.text,
+          source,
+          observedAt: comment.commentedAt
+        });
+      }
+      rows.push({
+        commentId,
+        revisionNumber: ++revisionNumber,
+        changeType,
+        text: newText ?? comment.text,
+        source,
+        observedAt: now
+      });
+
+      await tx.insert(commentRevisions).values(rows);
+      await tx
+        .update(comments)
+        .set(changeType === 'EDITED'
+          ? { text: newText, lastEditedAt: now, revisionCount: revisionNumber }
+          : { isDeleted: true, deletedAt: now, revisionCount: revisionNumber })
+        .where(eq(comments.id, commentId));
+
+      return true;
+    });
+  }
+}
+
+export const commentRevisionService = new CommentRevisionService();
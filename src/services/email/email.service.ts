@@ -1,6 +1,9 @@
 import { Resend } from 'resend';
 import { render } from '@react-email/components';
 import { ClientInvitationEmail } from '../../emails/client-invitation';
+import { PolicyAlertEmail } from '../../emails/policy-alert';
+import { ThreatNetworkAlertEmail } from '../../emails/threat-network-alert';
+import { AgencyContactRequestEmail } from '../../emails/agency-contact-request';
 
 // Initialize Resend lazily to ensure dotenv.config() has run
 const getResend = (): Resend => {
@@ -18,6 +21,37 @@ interface SendInvitationEmailParams {
   invitationToken: string;
 }
 
+interface SendPolicyAlertEmailParams {
+  to: string;
+  recipientName: string;
+  suspiciousAccountId: string;
+  commenterUsername: string;
+  accountName: string; // '@username' for Instagram accounts, the page name for Facebook Pages
+  abuserProfileId?: string; // Links the alert to the profile instead of the single account
+  ruleName: string;
+  reason: string;
+}
+
+interface SendThreatNetworkAlertEmailParams {
+  to: string;
+  recipientName: string;
+  commenterUsername: string;
+  accountName: string; // '@username' for Instagram accounts, the page name for Facebook Pages
+  reportingAgencies: number;
+  blackmailCount: number;
+  threatCount: number;
+}
+
+interface SendAgencyContactRequestEmailParams {
+  to: string;
+  kind: 'REQUEST' | 'ACCEPTED';
+  recipientName: string;
+  agencyName: string;
+  message: string;
+  contactEmail?: string;
+  aboutSharedThreat: boolean;
+}
+
 export class EmailService {
   /**
    * Send client invitation email with Instagram connection link using react-email
@@ -61,4 +95,142 @@ export class EmailService {
       };
     }
   }
+
+  /**
+   * Send an alert that a suspicious account matched an auto-block policy rule with a NOTIFY outcome
+   */
+  static async sendPolicyAlert(params: SendPolicyAlertEmailParams): Promise<{ success: boolean; error?: string }> {
+    const { to, recipientName, suspiciousAccountId, commenterUsername, accountName, abuserProfileId, ruleName, reason } = params;
+
+    const accountUrl = abuserProfileId
+      ? `${process.env.FRONTEND_URL || 'http://localhost:3000'}/abuser-profiles/${abuserProfileId}`
+      : `${process.env.FRONTEND_URL || 'http://localhost:3000'}/suspicious-accounts/${suspiciousAccountId}`;
+
+    try {
+      const resend = getResend();
+
+      const emailHtml = await render(
+        PolicyAlertEmail({
+          recipientName,
+          commenterUsername,
+          accountName,
+          ruleName,
+          reason,
+          accountUrl,
+        })
+      );
+
+      const { error } = await resend.emails.send({
+        from: process.env.RESEND_FROM_EMAIL || 'Safe Replies <azim@cashin.so>',
+        to: [to],
+        subject: `Suspicious account alert: @${commenterUsername} on ${accountName}`,
+        html: emailHtml,
+      });
+
+      if (error) {
+        console.error('Resend email error:', error);
+        return { success: false, error: error.message };
+      }
+
+      return { success: true };
+    } catch (error) {
+      console.error('Failed to send policy alert email:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to send email'
+      };
+    }
+  }
+
+  /**
+   * Send a threat network alert when a verified global threat first comments on an agency's account
+   */
+  static async sendThreatNetworkAlert(params: SendThreatNetworkAlertEmailParams): Promise<{ success: boolean; error?: string }> {
+    const { to, recipientName, commenterUsername, accountName, reportingAgencies, blackmailCount, threatCount } = params;
+
+    const alertsUrl = `${process.env.FRONTEND_URL || 'http://localhost:3000'}/threat-network/alerts`;
+
+    try {
+      const resend = getResend();
+
+      const emailHtml = await render(
+        ThreatNetworkAlertEmail({
+          recipientName,
+          commenterUsername,
+          accountName,
+          reportingAgencies,
+          blackmailCount,
+          threatCount,
+          alertsUrl,
+        })
+      );
+
+      const { error } = await resend.emails.send({
+        from: process.env.RESEND_FROM_EMAIL || 'Safe Replies <azim@cashin.so>',
+        to: [to],
+        subject: `Threat network alert: known offender @${commenterUsername} on ${accountName}`,
+        html: emailHtml,
+      });
+
+      if (error) {
+        console.error('Resend email error:', error);
+        return { success: false, error: error.message };
+      }
+
+      return { success: true };
+    } catch (error) {
+      console.error('Failed to send threat network alert email:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to send email'
+      };
+    }
+  }
+
+  /**
+   * Send an agency a new contact request from another agency, or tell the sender it was accepted
+   */
+  static async sendAgencyContactRequest(params: SendAgencyContactRequestEmailParams): Promise<{ success: boolean; error?: string }> {
+    const { to, kind, recipientName, agencyName, message, contactEmail, aboutSharedThreat } = params;
+
+    const requestsUrl = `${process.env.FRONTEND_URL || 'http://localhost:3000'}/agency/contact-requests`;
+
+    try {
+      const resend = getResend();
+
+      const emailHtml = await render(
+        AgencyContactRequestEmail({
+          kind,
+          recipientName,
+          agencyName,
+          message,
+          contactEmail,
+          aboutSharedThreat,
+          requestsUrl,
+        })
+      );
+
+      const { error } = await resend.emails.send({
+        from: process.env.RESEND_FROM_EMAIL || 'Safe Replies <azim@cashin.so>',
+        to: [to],
+        subject: kind === 'ACCEPTED'
+          ? `${agencyName} accepted your contact request`
+          : `${agencyName} wants to get in touch`,
+        html: emailHtml,
+      });
+
+      if (error) {
+        console.error('Resend email error:', error);
+        return { success: false, error: error.message };
+      }
+
+      return { success: true };
+    } catch (error) {
+      console.error('Failed to send agency contact request email:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to send email'
+      };
+    }
+  }
 }
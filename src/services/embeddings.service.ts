@@ -2,6 +2,9 @@ import * as https from 'https';
 import { eq, and, gte, sql } from 'drizzle-orm';
 import { db } from '../db';
 import { comments, posts, instagramAccounts } from '../db/schema';
+import { aiUsageService } from './aiUsage.service';
+
+const JINA_EMBEDDING_MODEL = 'jina-embeddings-v3';
 
 interface JinaEmbeddingResponse {
   data: Array<{
@@ -68,7 +71,7 @@ export class EmbeddingsService {
    */
   async generateJinaEmbeddings(texts: string[]): Promise<number[][]> {
     const data = JSON.stringify({
-      model: "jina-embeddings-v3",
+      model: JINA_EMBEDDING_MODEL,
       task: "text-matching",
       input: texts
     });
@@ -84,6 +87,19 @@ export class EmbeddingsService {
       }
     };
 
+    const startTime = Date.now();
+    const recordUsage = (success: boolean, tokens?: number): void => {
+      aiUsageService.record({
+        kind: 'EMBEDDING',
+        purpose: 'EMBEDDING',
+        provider: 'jina',
+        model: JINA_EMBEDDING_MODEL,
+        inputTokens: tokens,
+        latencyMs: Date.now() - startTime,
+        success
+      });
+    };
+
     return new Promise((resolve, reject) => {
       const req = https.request(options, (res) => {
         let responseData = '';
@@ -97,19 +113,23 @@ export class EmbeddingsService {
             const response: JinaEmbeddingResponse = JSON.parse(responseData);
 
             if (!response.data || !Array.isArray(response.data)) {
+              recordUsage(false, response.usage?.total_tokens);
               reject(new Error('Invalid response format from Jina AI'));
               return;
             }
 
             const embeddings = response.data.map(item => item.embedding);
+            recordUsage(true, response.usage?.total_tokens);
             resolve(embeddings);
           } catch (error) {
+            recordUsage(false);
             reject(new Error(`Failed to parse Jina AI response: ${error}`));
           }
         });
       });
 
       req.on('error', (e) => {
+        recordUsage(false);
         reject(new Error(`Jina AI request failed: ${e.message}`));
       });
 
@@ -1,6 +1,7 @@
 import archiver from 'archiver';
+import { createHash, createPrivateKey, createPublicKey, sign, KeyObject } from 'crypto';
 import { db } from '../db';
-import { eq } from 'drizzle-orm';
+import { eq, or, inArray, asc } from 'drizzle-orm';
 import {
   suspiciousAccounts,
   accountCommentMap,
@@ -8,9 +9,75 @@ import {
   moderationLogs,
   posts,
   evidenceAttachments,
-  extractedIdentifiers
+  extractedIdentifiers,
+  legalCases,
+  caseEvidenceMap,
+  evidenceRecords,
+  LegalCase,
+  SuspiciousAccount,
+  CommentRevision
 } from '../db/schema';
 import { storageService } from './storage.service';
+import { commentRevisionService } from './commentRevision.service';
+
+/**
+ * A file in a case export bundle, hashed before it is added to the ZIP
+ */
+interface BundleFile {
+  path: string;
+  content: Buffer;
+  description: string;
+}
+
+/**
+ * Comment row included in a case export
+ */
+interface CaseExportComment {
+  id: string;
+  source: string;
+  igCommentId: string | null;
+  fbCommentId: string | null;
+  text: string;
+  commenterUsername: string;
+  commenterId: string;
+  commentedAt: Date | null;
+  createdAt: Date | null;
+  isDeleted: boolean | null;
+  deletedAt: Date | null;
+  isHidden: boolean | null;
+  hiddenAt: Date | null;
+  lastEditedAt: Date | null;
+  revisionCount: number | null;
+  postId: string | null;
+  postPermalink: string | null;
+}
+
+/**
+ * Chain-of-custody manifest written to chain_of_custody/manifest.json
+ */
+interface CaseExportManifest {
+  manifestVersion: 1;
+  hashAlgorithm: 'SHA-256';
+  signatureAlgorithm: 'Ed25519';
+  case: {
+    id: string;
+    title: string;
+    status: string | null;
+    caseType: string;
+    severity: string;
+    suspiciousAccountId: string;
+  };
+  export: {
+    exportedAt: string;
+    exportedBy: string;
+    totalComments: number;
+    totalEvidenceRecords: number;
+    totalAttachments: number;
+  };
+  custodyEvents: Array<{ at: string | null; event: string; reference: string }>;
+  files: Array<{ path: string; sha256: string; size: number; description: string }>;
+  missingFiles: Array<{ attachmentId: string; reason: string }>;
+}
 
 /**
  * Export Service
@@ -139,6 +206,16 @@ class ExportService {
       const commentsCSV = this.generateCommentsCSV(accountCommentsData);
       archive.append(commentsCSV, { name: `${folderName}/comments.csv` });
 
+      // Revision history of edited/deleted comments (comments.csv holds the latest text)
+      const revisions = await commentRevisionService.getRevisionsForComments(
+        [...new Set(accountCommentsData.map(c => c.commentId))]
+      );
+      if (revisions.size > 0) {
+        archive.append(JSON.stringify(Object.fromEntries(revisions), null, 2), {
+          name: `${folderName}/comment_revisions.json`
+        });
+      }
+
       // 3. Identifiers CSV
       if (identifiers.length > 0) {
         const identifiersCSV = this.generateIdentifiersCSV(identifiers);
@@ -207,6 +284,430 @@ class ExportService {
     }
   }
 
+  /**
+   * Whether a signing key is configured for court-ready case exports
+   */
+  isCaseExportSigningConfigured(): boolean {
+    return !!process.env.EXPORT_SIGNING_PRIVATE_KEY;
+  }
+
+  /**
+   * Export a legal case as a court-ready ZIP bundle.
+   * Every file is SHA-256 hashed into chain_of_custody/manifest.json; the manifest's own hash
+   * (manifest.sha256) is signed with the Ed25519 key in EXPORT_SIGNING_PRIVATE_KEY (manifest.sig),
+   * so any alteration after export can be detected with the included public key.
+   * @param legalCaseId - Legal case ID (ownership is checked by the caller)
+   * @param userId - User requesting export
+   * @returns ZIP file buffer
+   */
+  async exportLegalCase(legalCaseId: string, userId: string): Promise<Buffer> {
+    try {
+      const signingKey = this.getSigningKey();
+
+      const [legalCase] = await db
+        .select()
+        .from(legalCases)
+        .where(eq(legalCases.id, legalCaseId))
+        .limit(1);
+
+      if (!legalCase) {
+        throw new Error('Case not found');
+      }
+
+      const [account] = await db
+        .select()
+        .from(suspiciousAccounts)
+        .where(eq(suspiciousAccounts.id, legalCase.suspiciousAccountId))
+        .limit(1);
+
+      const mappedEvidence = await db
+        .select()
+        .from(caseEvidenceMap)
+        .where(eq(caseEvidenceMap.legalCaseId, legalCaseId))
+        .orderBy(asc(caseEvidenceMap.createdAt));
+
+      const commentIds = [...new Set(mappedEvidence.map(e => e.commentId).filter((id): id is string => !!id))];
+      const mappedAttachmentIds = mappedEvidence
+        .map(e => e.evidenceAttachmentId)
+        .filter((id): id is string => !!id);
+
+      const caseComments: CaseExportComment[] = commentIds.length > 0
+        ? await db
+          .select({
+            id: comments.id,
+            source: comments.source,
+            igCommentId: comments.igCommentId,
+            fbCommentId: comments.fbCommentId,
+            text: comments.text,
+            commenterUsername: comments.commenterUsername,
+            commenterId: comments.commenterId,
+            commentedAt: comments.commentedAt,
+            createdAt: comments.createdAt,
+            isDeleted: comments.isDeleted,
+            deletedAt: comments.deletedAt,
+            isHidden: comments.isHidden,
+            hiddenAt: comments.hiddenAt,
+            lastEditedAt: comments.lastEditedAt,
+            revisionCount: comments.revisionCount,
+            postId: posts.id,
+            postPermalink: posts.permalink
+          })
+          .from(comments)
+          .leftJoin(posts, eq(comments.postId, posts.id))
+          .where(inArray(comments.id, commentIds))
+          .orderBy(asc(comments.commentedAt)) // Chronological order for legal docs
+        : [];
+
+      // Commenter edits/deletions; comments.text is only the latest version
+      const revisions = await commentRevisionService.getRevisionsForComments(commentIds);
+
+      // All moderation decisions for the case comments, each with its preserved evidence record
+      const decisions = commentIds.length > 0
+        ? await db
+          .select({ log: moderationLogs, evidence: evidenceRecords })
+          .from(moderationLogs)
+          .leftJoin(evidenceRecords, eq(evidenceRecords.moderationLogId, moderationLogs.id))
+          .where(inArray(moderationLogs.commentId, commentIds))
+          .orderBy(asc(moderationLogs.createdAt))
+        : [];
+
+      // Attachments mapped to the case directly, plus those uploaded against its comments
+      const attachmentConditions = [];
+      if (mappedAttachmentIds.length > 0) attachmentConditions.push(inArray(evidenceAttachments.id, mappedAttachmentIds));
+      if (commentIds.length > 0) attachmentConditions.push(inArray(evidenceAttachments.commentId, commentIds));
+      const attachments = attachmentConditions.length > 0
+        ? await db
+          .select()
+          .from(evidenceAttachments)
+          .where(attachmentConditions.length === 1 ? attachmentConditions[0] : or(...attachmentConditions))
+          .orderBy(asc(evidenceAttachments.createdAt))
+        : [];
+
+      const exportedAt = new Date().toISOString();
+      const files: BundleFile[] = [];
+      const missingFiles: CaseExportManifest['missingFiles'] = [];
+      const addFile = (path: string, content: string | Buffer, description: string): void => {
+        files.push({ path, content: typeof content === 'string' ? Buffer.from(content, 'utf8') : content, description });
+      };
+
+      // 1. Case summary
+      addFile('case_summary.json', JSON.stringify({
+        case: legalCase,
+        suspiciousAccount: account ?? null,
+        evidenceMap: mappedEvidence
+      }, null, 2), 'Legal case record, suspicious account and evidence mapping');
+
+      // 2. Comments
+      addFile('comments.csv', this.generateCaseCommentsCSV(caseComments), 'All case comments (chronological)');
+      addFile('comments.json', JSON.stringify(caseComments, null, 2), 'All case comments as stored');
+      if (revisions.size > 0) {
+        addFile('comment_revisions.json', JSON.stringify(Object.fromEntries(revisions), null, 2), 'Revision history (original text, edits, deletion) of edited or deleted comments');
+      }
+
+      // 3. Evidence records (raw comment, LLM request/response, risk formula) per comment
+      for (const commentId of commentIds) {
+        const commentDecisions = decisions.filter(d => d.log.commentId === commentId);
+        addFile(`evidence_records/comment_${commentId}.json`, JSON.stringify(
+          commentDecisions.map(d => ({
+            moderationLog: d.log,
+            evidenceRecord: d.evidence
+          })),
+          null,
+          2
+        ), `Moderation decisions and preserved evidence records for comment ${commentId}`);
+      }
+
+      // 4. Attachments pulled from storage
+      const attachmentMetadata = [];
+      for (const attachment of attachments) {
+        const extension = attachment.mimeType?.split('/')[1] || 'bin';
+        const filename = `attachments/${attachment.id}.${extension}`;
+        let included = false;
+
+        if (!attachment.fileUrl) {
+          missingFiles.push({ attachmentId: attachment.id, reason: 'No file URL recorded' });
+        } else {
+          try {
+            const key = storageService.extractKeyFromUrl(attachment.fileUrl);
+            const fileBuffer = await storageService.downloadFile(key);
+            addFile(filename, fileBuffer, `${attachment.fileType} attachment for comment ${attachment.commentId}`);
+            included = true;
+          } catch (error) {
+            console.error(`Failed to download evidence file: ${attachment.fileUrl}`, error);
+            // Recorded in the manifest rather than silently dropped
+            missingFiles.push({ attachmentId: attachment.id, reason: 'Download from storage failed' });
+          }
+        }
+
+        attachmentMetadata.push({
+          ...attachment,
+          bundlePath: included ? filename : null
+        });
+      }
+      addFile('attachments/attachments_metadata.json', JSON.stringify(attachmentMetadata, null, 2), 'Attachment metadata and bundle paths');
+
+      // 5. Human-readable report and README
+      addFile('report.html', this.generateCaseHTMLReport(legalCase, account ?? null, caseComments, revisions, decisions.length, attachments.length), 'Human-readable case report');
+      addFile('README.txt', this.generateCaseREADME(legalCase, exportedAt), 'Bundle contents and verification instructions');
+
+      // 6. Chain-of-custody manifest
+      const custodyEvents: CaseExportManifest['custodyEvents'] = [];
+      for (const comment of caseComments) {
+        custodyEvents.push({ at: this.toISO(comment.createdAt), event: 'COMMENT_CAPTURED', reference: comment.id });
+        if (comment.hiddenAt) custodyEvents.push({ at: this.toISO(comment.hiddenAt), event: 'COMMENT_HIDDEN', reference: comment.id });
+        if (comment.deletedAt) custodyEvents.push({ at: this.toISO(comment.deletedAt), event: 'COMMENT_DELETED', reference: comment.id });
+      }
+      for (const revision of [...revisions.values()].flat()) {
+        if (revision.changeType === 'EDITED') custodyEvents.push({ at: this.toISO(revision.observedAt), event: 'COMMENT_EDIT_RECORDED', reference: revision.id });
+      }
+      for (const { log, evidence } of decisions) {
+        custodyEvents.push({ at: this.toISO(log.createdAt), event: 'MODERATION_DECISION_LOGGED', reference: log.id });
+        if (evidence) custodyEvents.push({ at: this.toISO(evidence.createdAt), event: 'EVIDENCE_RECORD_PRESERVED', reference: evidence.id });
+      }
+      for (const attachment of attachments) {
+        custodyEvents.push({ at: this.toISO(attachment.createdAt), event: 'ATTACHMENT_UPLOADED', reference: attachment.id });
+      }
+      custodyEvents.push({ at: this.toISO(legalCase.createdAt), event: 'CASE_CREATED', reference: legalCase.id });
+      for (const mapping of mappedEvidence) {
+        custodyEvents.push({ at: this.toISO(mapping.createdAt), event: 'EVIDENCE_ATTACHED_TO_CASE', reference: mapping.id });
+      }
+      custodyEvents.push({ at: exportedAt, event: 'CASE_EXPORTED', reference: legalCase.id });
+      custodyEvents.sort((a, b) => (a.at ?? '').localeCompare(b.at ?? ''));
+
+      const manifest: CaseExportManifest = {
+        manifestVersion: 1,
+        hashAlgorithm: 'SHA-256',
+        signatureAlgorithm: 'Ed25519',
+        case: {
+          id: legalCase.id,
+          title: legalCase.caseTitle,
+          status: legalCase.status,
+          caseType: legalCase.caseType,
+          severity: legalCase.severity,
+          suspiciousAccountId: legalCase.suspiciousAccountId
+        },
+        export: {
+          exportedAt,
+          exportedBy: userId,
+          totalComments: caseComments.length,
+          totalEvidenceRecords: decisions.filter(d => d.evidence).length,
+          totalAttachments: attachments.length
+        },
+        custodyEvents,
+        files: files.map(file => ({
+          path: file.path,
+          sha256: this.sha256(file.content),
+          size: file.content.length,
+          description: file.description
+        })),
+        missingFiles
+      };
+
+      const manifestJson = Buffer.from(JSON.stringify(manifest, null, 2), 'utf8');
+      // sha256sum-compatible line; the signature covers these exact bytes
+      const manifestHashFile = Buffer.from(`${this.sha256(manifestJson)}  manifest.json\n`, 'utf8');
+      const signature = sign(null, manifestHashFile, signingKey);
+      const publicKeyPem = createPublicKey(signingKey).export({ type: 'spki', format: 'pem' }).toString();
+
+      // Create ZIP archive
+      const archive = archiver('zip', {
+        zlib: { level: 9 } // Maximum compression
+      });
+
+      const chunks: Buffer[] = [];
+      archive.on('data', (chunk: Buffer) => {
+        chunks.push(chunk);
+      });
+
+      const archivePromise = new Promise<Buffer>((resolve, reject) => {
+        archive.on('end', () => {
+          resolve(Buffer.concat(chunks));
+        });
+        archive.on('error', reject);
+      });
+
+      const folderName = `case_${legalCase.id}_${exportedAt.replace(/[:.]/g, '-')}`;
+      for (const file of files) {
+        archive.append(file.content, { name: `${folderName}/${file.path}` });
+      }
+      archive.append(manifestJson, { name: `${folderName}/chain_of_custody/manifest.json` });
+      archive.append(manifestHashFile, { name: `${folderName}/chain_of_custody/manifest.sha256` });
+      archive.append(signature, { name: `${folderName}/chain_of_custody/manifest.sig` });
+      archive.append(publicKeyPem, { name: `${folderName}/chain_of_custody/signing_public_key.pem` });
+
+      archive.finalize();
+
+      return await archivePromise;
+    } catch (error) {
+      console.error('Case export error:', error);
+      throw new Error('Failed to generate case export');
+    }
+  }
+
+  /**
+   * Load the Ed25519 private key used to sign case export manifests.
+   * PEM may be stored with escaped newlines (\n) in env files.
+   */
+  private getSigningKey(): KeyObject {
+    const pem = process.env.EXPORT_SIGNING_PRIVATE_KEY;
+    if (!pem) {
+      throw new Error('EXPORT_SIGNING_PRIVATE_KEY is not configured');
+    }
+    const key = createPrivateKey(pem.replace(/\\n/g, '\n'));
+    if (key.asymmetricKeyType !== 'ed25519') {
+      throw new Error('EXPORT_SIGNING_PRIVATE_KEY must be an Ed25519 private key');
+    }
+    return key;
+  }
+
+  private sha256(content: Buffer): string {
+    return createHash('sha256').update(content).digest('hex');
+  }
+
+  private toISO(date: Date | null): string | null {
+    return date ? new Date(date).toISOString() : null;
+  }
+
+  /**
+   * Generate case comments CSV (UTC timestamps so hashes don't depend on server locale)
+   */
+  private generateCaseCommentsCSV(comments: CaseExportComment[]): string {
+    const headers = ['Comment ID', 'Date/Time (UTC)', 'Source', 'Platform Comment ID', 'Commenter', 'Comment Text', 'Status', 'Last Edited (UTC)', 'Post Permalink'];
+    const rows = comments.map(c => [
+      c.id,
+      c.commentedAt ? new Date(c.commentedAt).toISOString() : '',
+      c.source || '',
+      c.igCommentId || c.fbCommentId || '',
+      `"${(c.commenterUsername || '').replace(/"/g, '""')}"`,
+      `"${(c.text || '').replace(/"/g, '""')}"`, // Escape quotes
+      c.isDeleted ? 'DELETED' : c.isHidden ? 'HIDDEN' : 'VISIBLE',
+      c.lastEditedAt ? new Date(c.lastEditedAt).toISOString() : '',
+      c.postPermalink || ''
+    ]);
+
+    return [headers.join(','), ...rows.map(row => row.join(','))].join('\n');
+  }
+
+  /**
+   * Generate case HTML report
+   */
+  private generateCaseHTMLReport(
+    legalCase: LegalCase,
+    account: SuspiciousAccount | null,
+    comments: CaseExportComment[],
+    revisions: Map<string, CommentRevision[]>,
+    totalDecisions: number,
+    totalAttachments: number
+  ): string {
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <title>Case Report - ${this.escapeHTML(legalCase.caseTitle)}</title>
+  <style>
+    body { font-family: Arial, sans-serif; line-height: 1.6; max-width: 1200px; margin: 0 auto; padding: 20px; }
+    table { width: 100%; border-collapse: collapse; margin-top: 15px; }
+    th, td { padding: 10px; text-align: left; border-bottom: 1px solid #ddd; vertical-align: top; }
+    th { background: #f8f9fa; }
+    code { font-size: 12px; }
+    .revisions { font-size: 12px; color: #555; margin: 8px 0 0; }
+  </style>
+</head>
+<body>
+  <h1>${this.escapeHTML(legalCase.caseTitle)}</h1>
+  <p><strong>Case ID:</strong> <code>${legalCase.id}</code></p>
+  <p><strong>Type:</strong> ${legalCase.caseType} &nbsp; <strong>Severity:</strong> ${legalCase.severity} &nbsp; <strong>Status:</strong> ${legalCase.status || 'DRAFT'}</p>
+  <p><strong>Account:</strong> @${this.escapeHTML(account?.commenterUsername || 'unknown')} (${this.escapeHTML(account?.commenterId || 'N/A')})</p>
+  ${legalCase.policeReportNumber ? `<p><strong>Police Report:</strong> ${this.escapeHTML(legalCase.policeReportNumber)}</p>` : ''}
+  <h2>Description</h2>
+  <p>${this.escapeHTML(legalCase.description || '')}</p>
+  ${legalCase.impactStatement ? `<h2>Impact Statement</h2><p>${this.escapeHTML(legalCase.impactStatement)}</p>` : ''}
+  <h2>Evidence (${comments.length} comments, ${totalDecisions} moderation decisions, ${totalAttachments} attachments)</h2>
+  <table>
+    <thead>
+      <tr>
+        <th>Date/Time (UTC)</th>
+        <th>Comment</th>
+        <th>Status</th>
+        <th>Comment ID</th>
+      </tr>
+    </thead>
+    <tbody>
+      ${comments.map(c => `
+      <tr>
+        <td>${c.commentedAt ? new Date(c.commentedAt).toISOString() : 'N/A'}</td>
+        <td>${this.escapeHTML(c.text || '')}${this.generateRevisionsHTML(revisions.get(c.id))}</td>
+        <td>${c.isDeleted ? 'DELETED' : c.isHidden ? 'HIDDEN' : 'VISIBLE'}</td>
+        <td><code>${c.id}</code></td>
+      </tr>
+      `).join('')}
+    </tbody>
+  </table>
+  <p>Integrity hashes for every file in this bundle are listed in <code>chain_of_custody/manifest.json</code>.</p>
+</body>
+</html>`;
+  }
+
+  /**
+   * Revision chain shown under a comment in the case report (nothing for unedited comments)
+   */
+  private generateRevisionsHTML(revisions: CommentRevision[] | undefined): string {
+    if (!revisions || revisions.length === 0) return '';
+    return `
+          <ol class="revisions">
+            ${revisions.map(r => `<li><strong>${r.changeType}</strong> ${this.toISO(r.observedAt) ?? ''} (${r.source}): ${this.escapeHTML(r.text)}</li>`).join('')}
+          </ol>`;
+  }
+
+  /**
+   * Generate case README with verification instructions
+   */
+  private generateCaseREADME(legalCase: LegalCase, exportedAt: string): string {
+    return `LEGAL CASE EXPORT PACKAGE
+=========================
+
+Case: ${legalCase.caseTitle}
+Case ID: ${legalCase.id}
+Export Date (UTC): ${exportedAt}
+
+CONTENTS:
+---------
+1. case_summary.json             - Case record, suspicious account and evidence mapping
+2. comments.csv / comments.json  - All case comments (chronological)
+   comment_revisions.json        - Original text, edits and deletion of any comment the commenter
+                                   changed (present only if there are revisions)
+3. evidence_records/             - Per-comment moderation decisions with the preserved raw comment,
+                                   LLM request/response and risk formula
+4. attachments/                  - Screenshots and other files pulled from storage
+5. report.html                   - Human-readable report (can be printed to PDF)
+6. chain_of_custody/
+   - manifest.json               - Custody timeline and SHA-256 of every file above
+   - manifest.sha256             - SHA-256 of manifest.json
+   - manifest.sig                - Ed25519 signature over manifest.sha256
+   - signing_public_key.pem      - Public key to verify the signature
+
+VERIFYING INTEGRITY:
+--------------------
+1. Verify the manifest signature:
+   openssl pkeyutl -verify -pubin -inkey chain_of_custody/signing_public_key.pem \\
+     -rawin -in chain_of_custody/manifest.sha256 -sigfile chain_of_custody/manifest.sig
+2. Verify the manifest hash (from inside chain_of_custody/):
+   sha256sum -c manifest.sha256
+3. Verify each file: run "sha256sum <path>" and compare against the "files" entries in manifest.json.
+
+Compare signing_public_key.pem against the key published by the platform operator.
+Any modification to a file, the manifest or the hash file will cause verification to fail.
+Attachments that could not be retrieved are listed under "missingFiles" in the manifest.
+
+PRIVACY & SECURITY:
+------------------
+This export contains sensitive information. Handle with care.
+Do not share without proper authorization.
+
+Generated by Safe Replies Platform
+`;
+  }
+
   /**
    * Generate comments CSV
    */
@@ -472,6 +973,7 @@ CONTENTS:
 ---------
 1. account_summary.json    - Complete account data and metadata
 2. comments.csv           - All comments from this account (chronological)
+   comment_revisions.json - Original text, edits and deletion of comments the account changed
 3. identifiers.csv        - Extracted payment handles, contacts, etc.
 4. report.html           - Human-readable report (can be printed to PDF)
 5. evidence/             - Folder containing all evidence files
@@ -11,8 +11,10 @@ import {
   FacebookComment,
   FacebookCommentsResponse,
   FacebookDeleteCommentResponse,
-  FacebookHideCommentResponse
+  FacebookHideCommentResponse,
+  FacebookFeedSubscriptionResponse
 } from '../types';
+import * as crypto from 'crypto';
 
 /**
  * Facebook OAuth redirect URI must match Meta App configuration exactly.
@@ -622,6 +624,45 @@ export class FacebookService {
       return false;
     }
   }
+
+  /**
+   * Subscribe the app to a Page's `feed` webhooks (comment add/edit/remove)
+   * https://developers.facebook.com/docs/graph-api/reference/page/subscribed_apps/
+   */
+  async subscribePageToFeed(pageId: string, pageAccessToken: string): Promise<boolean> {
+    try {
+      const response = await axios.post<FacebookFeedSubscriptionResponse>(
+        `${this.baseUrl}/${pageId}/subscribed_apps`,
+        null,
+        {
+          params: {
+            subscribed_fields: 'feed',
+            access_token: pageAccessToken
+          }
+        }
+      );
+
+      return response.data.success ?? false;
+    } catch (error: unknown) {
+      if (axios.isAxiosError(error) && error.response?.data) {
+        const errorData = error.response.data as FacebookApiError;
+        console.error(`Failed to subscribe Page ${pageId} to feed webhooks:`, errorData.error?.message);
+      }
+      return false;
+    }
+  }
+
+  /**
+   * Verify a Page webhook signature (X-Hub-Signature-256, HMAC-SHA256 with the app secret)
+   */
+  verifyWebhookSignature(signature: string, body: string): boolean {
+    const expectedSignature = crypto
+      .createHmac('sha256', this.appSecret)
+      .update(body)
+      .digest('hex');
+
+    return signature === `sha256=${expectedSignature}`;
+  }
 }
 
 export const facebookService = new FacebookService();
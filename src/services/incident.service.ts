@@ -0,0 +1,536 @@
+import { db } from '../db';
+import { incidents, incidentEvents, instagramAccounts, legalCases, moderationLogs, comments, posts, Incident, IncidentEvent, NewIncidentEvent } from '../db/schema';
+import { eq, and, asc, desc, sql, isNull, SQL } from 'drizzle-orm';
+import { AttackLockdown, AttackResponse } from '../types';
+
+export type IncidentStatus = Incident['status'];
+
+export type IncidentType = 'COORDINATED_ATTACK' | 'ACCOUNT_ATTACK' | 'CONTENT_ATTACK';
+
+export type IncidentEventType =
+  | 'OPENED'
+  | 'ATTACK_DETECTED'
+  | 'COMMENT_ACTIONED'
+  | 'ACCOUNT_BLOCKED'
+  | 'FILTER_CREATED'
+  | 'NOTE'
+  | 'LEGAL_CASE_LINKED'
+  | 'STOOD_DOWN';
+
+export interface IncidentOwner {
+  userId?: string;
+  clientId?: string;
+}
+
+/**
+ * Who took an operator action: a user (agency, creator) or a client session
+ */
+export interface IncidentActor {
+  userId: string | null;
+  clientId: string | null;
+}
+
+/**
+ * A comment a HIDE_NON_WHITELISTED lockdown hid without classifying it
+ */
+export interface LockdownHiddenComment {
+  commentId: string;
+  commentText: string;
+  commenterId: string;
+  commenterUsername: string;
+  igCommentId: string | null;
+  postId: string;
+  instagramAccountId: string;
+}
+
+/**
+ * Rationale logged for a comment hidden by an incident's lockdown (how those comments are found again)
+ */
+export function lockdownRationale(incidentId: string): string {
+  return `Auto-hidden: account is in attack lockdown (incident ${incidentId}) - not classified`;
+}
+
+export interface OpenAttackIncidentParams {
+  instagramAccountId: string;
+  postId: string | null;
+  startedAt: Date;
+  lockdownMode: AttackResponse;
+  detection: Record<string, unknown>;
+}
+
+export interface OpenManualIncidentParams {
+  userId: string | null;
+  clientId: string | null;
+  instagramAccountId: string | null;
+  type: Exclude<IncidentType, 'COORDINATED_ATTACK'>;
+  actor: IncidentActor;
+  details?: Record<string, unknown>;
+}
+
+export type IncidentEventInput = Omit<NewIncidentEvent, 'id' | 'incidentId' | 'eventType' | 'occurredAt'> & {
+  eventType: IncidentEventType;
+  occurredAt?: Date;
+};
+
+export interface IncidentSummary {
+  incidentId: string;
+  type: string;
+  source: string;
+  status: IncidentStatus;
+  lockdownMode: AttackResponse;
+  startedAt: string;
+  detectedAt: string;
+  endedAt: string | null;
+  durationMinutes: number;
+  instagramAccountIds: string[];
+  postIds: string[];
+  commenters: Array<{ commenterId: string | null; commenterUsername: string | null; eventCount: number }>;
+  actions: {
+    automatic: number;
+    manual: number;
+    byType: Record<string, number>;
+  };
+  commentsActioned: Record<string, number>; // By moderation action (DELETED, HIDDEN, FLAGGED...)
+  legalCaseId: string | null;
+  detection: unknown;
+}
+
+// Bound on the commenters listed in a summary
+const MAX_SUMMARY_COMMENTERS = 100;
+
+/**
+ * Incident Service
+ * Attack incidents, opened by the attack detector or by the under-attack flow. While an incident
+ * is ACTIVE its lockdown mode overlays the account's moderation settings, until an operator
+ * stands it down. Every detection, automatic action and operator action is appended to the
+ * incident's timeline, and standing down freezes a summary report built from it.
+ */
+export class IncidentService {
+  /**
+   * Open an auto-detected coordinated attack incident for an account. An operator-reported
+   * incident already open on the account without a lockdown is upgraded instead (see
+   * upgradeManualIncident). Returns null if the account already has any other active incident
+   * (one at a time per account).
+   */
+  async openAttackIncident(params: OpenAttackIncidentParams): Promise<Incident | null> {
+    const account = await db.query.instagramAccounts.findFirst({
+      where: eq(instagramAccounts.id, params.instagramAccountId),
+      columns: { userId: true, clientId: true }
+    });
+    if (!account) return null;
+
+    const [incident] = await db
+      .insert(incidents)
+      .values({
+        userId: account.clientId ? null : account.userId,
+        clientId: account.clientId,
+        instagramAccountId: params.instagramAccountId,
+        postId: params.postId,
+        type: 'COORDINATED_ATTACK',
+        source: 'AUTO_DETECTED',
+        status: 'ACTIVE',
+        lockdownMode: params.lockdownMode,
+        detection: params.detection,
+        startedAt: params.startedAt
+      })
+      // incidents_active_account_idx: a concurrent detection already opened one
+      .onConflictDoNothing()
+      .returning();
+
+    if (!incident) return this.upgradeManualIncident(params);
+    const detection = params.detection as { commenterIds?: string[]; commentIds?: string[] };
+    await this.addEvent(incident.id, {
+      eventType: 'OPENED',
+      isAutomatic: true,
+      instagramAccountId: params.instagramAccountId,
+      postId: params.postId,
+      details: {
+        commenterIds: detection.commenterIds ?? [],
+        commentIds: detection.commentIds ?? []
+      },
+      occurredAt: incident.detectedAt
+    });
+    return incident;
+  }
+
+  /**
+   * Apply a detected attack to the account's active operator-reported incident that has no
+   * lockdown and no detection yet: it takes on the configured lockdown and the detector's
+   * metrics, and the detection goes on its timeline. Returns null if there is none.
+   */
+  private async upgradeManualIncident(params: OpenAttackIncidentParams): Promise<Incident | null> {
+    const now = new Date();
+    const [incident] = await db
+      .update(incidents)
+      .set({
+        lockdownMode: params.lockdownMode,
+        detection: params.detection,
+        postId: params.postId,
+        updatedAt: now
+      })
+      .where(and(
+        eq(incidents.instagramAccountId, params.instagramAccountId),
+        eq(incidents.status, 'ACTIVE'),
+        this.upgradableCondition()
+      ))
+      .returning();
+    if (!incident) return null;
+
+    const detection = params.detection as { commenterIds?: string[]; commentIds?: string[] };
+    await this.addEvent(incident.id, {
+      eventType: 'ATTACK_DETECTED',
+      isAutomatic: true,
+      instagramAccountId: params.instagramAccountId,
+      postId: params.postId,
+      details: {
+        lockdownMode: params.lockdownMode,
+        commenterIds: detection.commenterIds ?? [],
+        commentIds: detection.commentIds ?? []
+      },
+      occurredAt: now
+    });
+    return incident;
+  }
+
+  /**
+   * Operator-reported incident without a lockdown or a detection: detection can still upgrade it
+   */
+  private upgradableCondition(): SQL {
+    return and(eq(incidents.source, 'MANUAL'), eq(incidents.lockdownMode, 'NONE'), isNull(incidents.detection))!;
+  }
+
+  /**
+   * Whether the account's active incident (if any) stops the attack detector from
+   * opening one. An upgradable operator-reported incident doesn't.
+   */
+  async blocksDetection(instagramAccountId: string): Promise<boolean> {
+    const [incident] = await db
+      .select({ id: incidents.id })
+      .from(incidents)
+      .where(and(
+        eq(incidents.instagramAccountId, instagramAccountId),
+        eq(incidents.status, 'ACTIVE'),
+        sql`not (${this.upgradableCondition()})`
+      ))
+      .limit(1);
+    return !!incident;
+  }
+
+  /**
+   * Open an incident for an attack reported by an operator (no lockdown). For an account,
+   * returns the account's already-active incident instead, so actions join the ongoing timeline.
+   */
+  async openManualIncident(params: OpenManualIncidentParams): Promise<Incident> {
+    if (params.instagramAccountId) {
+      const active = await this.findActiveIncident(params.instagramAccountId);
+      if (active) return active;
+    }
+
+    const now = new Date();
+    const [incident] = await db
+      .insert(incidents)
+      .values({
+        userId: params.clientId ? null : params.userId,
+        clientId: params.clientId,
+        instagramAccountId: params.instagramAccountId,
+        type: params.type,
+        source: 'MANUAL',
+        status: 'ACTIVE',
+        lockdownMode: 'NONE',
+        startedAt: now
+      })
+      .onConflictDoNothing()
+      .returning();
+
+    // Lost a race with the detector (or another operator) for the account's active incident
+    const opened = incident ?? (params.instagramAccountId ? await this.findActiveIncident(params.instagramAccountId) : null);
+    if (!opened) throw new Error('Failed to open incident');
+
+    if (incident) {
+      await this.addEvent(incident.id, {
+        eventType: 'OPENED',
+        actorUserId: params.actor.userId,
+        actorClientId: params.actor.clientId,
+        instagramAccountId: params.instagramAccountId,
+        details: params.details ?? null,
+        occurredAt: now
+      });
+    }
+    return opened;
+  }
+
+  /**
+   * Active incident on an account, if any
+   */
+  async findActiveIncident(instagramAccountId: string): Promise<Incident | null> {
+    const [incident] = await db
+      .select()
+      .from(incidents)
+      .where(and(eq(incidents.instagramAccountId, instagramAccountId), eq(incidents.status, 'ACTIVE')))
+      .limit(1);
+    return incident ?? null;
+  }
+
+  /**
+   * Append an event to an incident's timeline
+   */
+  async addEvent(incidentId: string, event: IncidentEventInput): Promise<IncidentEvent> {
+    const [row] = await db
+      .insert(incidentEvents)
+      .values({ ...event, incidentId })
+      .returning();
+    return row;
+  }
+
+  /**
+   * Append several events to an incident's timeline in one insert
+   */
+  async addEvents(incidentId: string, events: IncidentEventInput[]): Promise<void> {
+    if (events.length === 0) return;
+    await db.insert(incidentEvents).values(events.map(event => ({ ...event, incidentId })));
+  }
+
+  /**
+   * An incident's timeline, oldest first
+   */
+  async getTimeline(incidentId: string): Promise<IncidentEvent[]> {
+    return db
+      .select()
+      .from(incidentEvents)
+      .where(eq(incidentEvents.incidentId, incidentId))
+      .orderBy(asc(incidentEvents.occurredAt));
+  }
+
+  /**
+   * Lockdown in force for an account, or null when it has no active incident
+   */
+  async getActiveLockdown(instagramAccountId: string): Promise<AttackLockdown | null> {
+    const [incident] = await db
+      .select({ id: incidents.id, lockdownMode: incidents.lockdownMode })
+      .from(incidents)
+      .where(and(eq(incidents.instagramAccountId, instagramAccountId), eq(incidents.status, 'ACTIVE')))
+      .limit(1);
+    return incident ? { incidentId: incident.id, mode: incident.lockdownMode } : null;
+  }
+
+  /**
+   * End an active incident, lift its lockdown and freeze its summary report.
+   * Returns null if not found or not active.
+   */
+  async standDown(incidentId: string, actor: IncidentActor): Promise<Incident | null> {
+    const now = new Date();
+    const [incident] = await db
+      .update(incidents)
+      .set({
+        status: 'STOOD_DOWN',
+        stoodDownAt: now,
+        stoodDownBy: actor.userId,
+        stoodDownByClientId: actor.clientId,
+        updatedAt: now
+      })
+      .where(and(eq(incidents.id, incidentId), eq(incidents.status, 'ACTIVE')))
+      .returning();
+    if (!incident) return null;
+
+    await this.addEvent(incident.id, {
+      eventType: 'STOOD_DOWN',
+      actorUserId: actor.userId,
+      actorClientId: actor.clientId,
+      instagramAccountId: incident.instagramAccountId,
+      occurredAt: now
+    });
+
+    const summary = this.buildSummary(incident, await this.getTimeline(incident.id));
+    const [updated] = await db
+      .update(incidents)
+      .set({ summary })
+      .where(eq(incidents.id, incident.id))
+      .returning();
+    return updated ?? incident;
+  }
+
+  /**
+   * Comments the incident's lockdown hid unclassified that are still hidden (and not deleted)
+   */
+  async getLockdownHiddenComments(incident: Incident): Promise<LockdownHiddenComment[]> {
+    if (!incident.instagramAccountId) return [];
+
+    const rows = await db
+      .selectDistinct({
+        commentId: comments.id,
+        commentText: comments.text,
+        commenterId: comments.commenterId,
+        commenterUsername: comments.commenterUsername,
+        igCommentId: comments.igCommentId,
+        postId: posts.id
+      })
+      .from(moderationLogs)
+      .innerJoin(comments, eq(moderationLogs.commentId, comments.id))
+      .innerJoin(posts, eq(comments.postId, posts.id))
+      .where(and(
+        eq(posts.instagramAccountId, incident.instagramAccountId),
+        eq(moderationLogs.rationale, lockdownRationale(incident.id)),
+        eq(comments.isHidden, true),
+        eq(comments.isDeleted, false)
+      ));
+    return rows.map(row => ({ ...row, instagramAccountId: incident.instagramAccountId! }));
+  }
+
+  /**
+   * Summary report for an incident: the frozen one once stood down, else built live
+   */
+  async getSummary(incident: Incident): Promise<IncidentSummary> {
+    if (incident.status === 'STOOD_DOWN' && incident.summary) {
+      // Linking a legal case after the stand-down is the one change it doesn't capture
+      return { ...(incident.summary as IncidentSummary), legalCaseId: incident.legalCaseId };
+    }
+    return this.buildSummary(incident, await this.getTimeline(incident.id));
+  }
+
+  private buildSummary(incident: Incident, timeline: IncidentEvent[]): IncidentSummary {
+    const accountIds = new Set<string>();
+    const postIds = new Set<string>();
+    const commenters = new Map<string, { commenterId: string | null; commenterUsername: string | null; eventCount: number }>();
+    const byType: Record<string, number> = {};
+    const commentsActioned: Record<string, number> = {};
+    let automatic = 0;
+    let manual = 0;
+
+    if (incident.instagramAccountId) accountIds.add(incident.instagramAccountId);
+    if (incident.postId) postIds.add(incident.postId);
+    const detection = incident.detection as { commenterIds?: string[] } | null;
+    for (const commenterId of detection?.commenterIds ?? []) {
+      commenters.set(commenterId, { commenterId, commenterUsername: null, eventCount: 0 });
+    }
+
+    for (const event of timeline) {
+      byType[event.eventType] = (byType[event.eventType] ?? 0) + 1;
+      if (event.eventType !== 'OPENED' && event.eventType !== 'STOOD_DOWN' && event.eventType !== 'NOTE') {
+        if (event.isAutomatic) automatic++;
+        else manual++;
+      }
+      if (event.instagramAccountId) accountIds.add(event.instagramAccountId);
+      if (event.postId) postIds.add(event.postId);
+
+      const key = event.commenterId ?? event.commenterUsername?.toLowerCase();
+      if (key) {
+        const entry = commenters.get(key) ?? { commenterId: event.commenterId, commenterUsername: null, eventCount: 0 };
+        entry.commenterUsername ??= event.commenterUsername;
+        entry.eventCount++;
+        commenters.set(key, entry);
+      }
+
+      const action = (event.details as { action?: string } | null)?.action;
+      if (event.eventType === 'COMMENT_ACTIONED' && action) {
+        commentsActioned[action] = (commentsActioned[action] ?? 0) + 1;
+      }
+    }
+
+    const endedAt = incident.stoodDownAt ?? null;
+    const durationMs = (endedAt ?? new Date()).getTime() - incident.startedAt.getTime();
+
+    return {
+      incidentId: incident.id,
+      type: incident.type,
+      source: incident.source,
+      status: incident.status,
+      lockdownMode: incident.lockdownMode,
+      startedAt: incident.startedAt.toISOString(),
+      detectedAt: incident.detectedAt.toISOString(),
+      endedAt: endedAt ? endedAt.toISOString() : null,
+      durationMinutes: Math.max(0, Math.round(durationMs / 60_000)),
+      instagramAccountIds: [...accountIds],
+      postIds: [...postIds],
+      commenters: [...commenters.values()]
+        .sort((a, b) => b.eventCount - a.eventCount)
+        .slice(0, MAX_SUMMARY_COMMENTERS),
+      actions: { automatic, manual, byType },
+      commentsActioned,
+      legalCaseId: incident.legalCaseId,
+      detection: incident.detection
+    };
+  }
+
+  /**
+   * Link an incident to one of the owner's legal cases (null unlinks).
+   * Returns null if the case doesn't belong to the owner.
+   */
+  async linkLegalCase(
+    incident: Incident,
+    legalCaseId: string | null,
+    owner: IncidentOwner,
+    actor: IncidentActor
+  ): Promise<Incident | null> {
+    if (legalCaseId) {
+      const [legalCase] = await db
+        .select({ id: legalCases.id })
+        .from(legalCases)
+        .where(and(
+          eq(legalCases.id, legalCaseId),
+          owner.clientId ? eq(legalCases.clientId, owner.clientId) : eq(legalCases.userId, owner.userId!)
+        ))
+        .limit(1);
+      if (!legalCase) return null;
+    }
+
+    const [updated] = await db
+      .update(incidents)
+      .set({ legalCaseId, updatedAt: new Date() })
+      .where(eq(incidents.id, incident.id))
+      .returning();
+
+    await this.addEvent(incident.id, {
+      eventType: 'LEGAL_CASE_LINKED',
+      actorUserId: actor.userId,
+      actorClientId: actor.clientId,
+      details: { legalCaseId, previousLegalCaseId: incident.legalCaseId }
+    });
+    return updated;
+  }
+
+  private ownershipCondition(owner: IncidentOwner): SQL {
+    return owner.clientId
+      ? eq(incidents.clientId, owner.clientId)
+      : eq(incidents.userId, owner.userId!);
+  }
+
+  /**
+   * Get an incident owned by owner
+   */
+  async getIncident(id: string, owner: IncidentOwner): Promise<Incident | null> {
+    const [incident] = await db
+      .select()
+      .from(incidents)
+      .where(and(eq(incidents.id, id), this.ownershipCondition(owner)))
+      .limit(1);
+    return incident ?? null;
+  }
+
+  /**
+   * List an owner's incidents (newest first)
+   */
+  async listIncidents(
+    owner: IncidentOwner,
+    options: { status?: IncidentStatus; instagramAccountId?: string; limit: number; offset: number }
+  ): Promise<{ incidents: Incident[]; total: number }> {
+    const conditions = [this.ownershipCondition(owner)];
+    if (options.status) conditions.push(eq(incidents.status, options.status));
+    if (options.instagramAccountId) conditions.push(eq(incidents.instagramAccountId, options.instagramAccountId));
+    const where = and(...conditions);
+
+    const [rows, [{ count }]] = await Promise.all([
+      db
+        .select()
+        .from(incidents)
+        .where(where)
+        .orderBy(desc(incidents.detectedAt))
+        .limit(options.limit)
+        .offset(options.offset),
+      db.select({ count: sql<number>`count(*)::int` }).from(incidents).where(where)
+    ]);
+
+    return { incidents: rows, total: count };
+  }
+}
+
+export const incidentService = new IncidentService();
@@ -0,0 +1,233 @@
+import { db } from '../db';
+import { keywordFilters, KeywordFilter } from '../db/schema';
+import { eq, and, or, isNull, SQL } from 'drizzle-orm';
+
+export interface KeywordFilterMatch {
+  blacklist: KeywordFilter[];
+  whitelist: KeywordFilter[];
+}
+
+// Regex safety limits (Node has no regex timeout, so risky patterns are rejected up front)
+const MAX_KEYWORD_LENGTH = 500;
+const MAX_REGEX_LENGTH = 200;
+// Only the start of very long comments is tested against REGEX filters
+const MAX_REGEX_INPUT_LENGTH = 2000;
+// Compiled patterns kept in memory; the oldest is evicted beyond this
+const MAX_CACHED_REGEXES = 1000;
+
+const BACKREFERENCE = /\\[1-9]|\\k</;
+// A quantifier following an atom: *, +, ?, {n}, {n,} or {n,m}, optionally lazy
+const QUANTIFIER = /^(?:[*+?]|\{\d+(?:,\d*)?\})\??/;
+// Atoms that match (almost) any character, so they overlap with whatever is next to them
+const WIDE_ATOM = /^(?:\.|\\[SWD]|\[\^.*\])$/;
+
+const NESTED_QUANTIFIER_ERROR = 'Regex contains nested or alternating quantifiers that can cause catastrophic backtracking';
+const ADJACENT_QUANTIFIER_ERROR = 'Regex contains adjacent unbounded quantifiers that can cause catastrophic backtracking';
+
+interface GroupScan {
+  start: number;
+  hasQuantifier: boolean;
+  hasAlternation: boolean;
+}
+
+/**
+ * Scan a regex for the shapes that backtrack exponentially or polynomially: a repeated group
+ * that itself contains a quantifier, e.g. (a+)+ or (?:.*a){8}; an unbounded repeat of a group
+ * containing alternation, e.g. (a|aa)+; and adjacent unbounded quantifiers over overlapping
+ * atoms, e.g. .*.* or \w+\w*. Returns an error message, or null if none is found.
+ */
+function findBacktrackingRisk(pattern: string): string | null {
+  const groups: GroupScan[] = [];
+  let previous: { atom: string; unbounded: boolean } | null = null;
+  let i = 0;
+
+  while (i < pattern.length) {
+    const start = i;
+    let group: GroupScan | undefined;
+    const char = pattern[i];
+
+    if (char === '\\') {
+      i += 2;
+    } else if (char === '[') {
+      i++;
+      if (pattern[i] === '^') i++;
+      if (pattern[i] === ']') i++;
+      while (i < pattern.length && pattern[i] !== ']') {
+        i += pattern[i] === '\\' ? 2 : 1;
+      }
+      i++;
+    } else if (char === '(') {
+      groups.push({ start, hasQuantifier: false, hasAlternation: false });
+      i++;
+      previous = null;
+      continue;
+    } else if (char === ')') {
+      group = groups.pop();
+      i++;
+    } else if (char === '|') {
+      if (groups.length > 0) groups[groups.length - 1].hasAlternation = true;
+      i++;
+      previous = null;
+      continue;
+    } else {
+      i++;
+    }
+
+    const atom = pattern.slice(group ? group.start : start, i);
+    const parent = groups[groups.length - 1];
+    if (group?.hasQuantifier && parent) parent.hasQuantifier = true;
+
+    const quantifier = QUANTIFIER.exec(pattern.slice(i))?.[0];
+    if (!quantifier) {
+      previous = null;
+      continue;
+    }
+    i += quantifier.length;
+
+    const repeats = !quantifier.startsWith('?');
+    const unbounded = quantifier.startsWith('*') || quantifier.startsWith('+') || /^\{\d+,\}/.test(quantifier);
+    if (group && repeats && group.hasQuantifier) return NESTED_QUANTIFIER_ERROR;
+    if (group && unbounded && group.hasAlternation) return NESTED_QUANTIFIER_ERROR;
+    if (
+      unbounded &&
+      previous?.unbounded &&
+      (previous.atom === atom || WIDE_ATOM.test(previous.atom) || WIDE_ATOM.test(atom))
+    ) {
+      return ADJACENT_QUANTIFIER_ERROR;
+    }
+
+    if (parent) parent.hasQuantifier = true;
+    previous = { atom, unbounded };
+  }
+
+  return null;
+}
+
+export class KeywordFilterService {
+  private regexCache: Map<string, RegExp | null> = new Map();
+
+  /**
+   * Load enabled keyword filters for a comment: owned by the client or user,
+   * either global (no instagramAccountId) or scoped to this Instagram account.
+   * On a query failure the comment is moderated without keyword filters.
+   */
+  async loadActiveFilters(owner: {
+    clientId?: string;
+    userId?: string;
+    instagramAccountId?: string;
+  }): Promise<KeywordFilter[]> {
+    const ownershipCondition = ((): SQL | undefined => {
+      if (owner.clientId && owner.userId) {
+        return or(eq(keywordFilters.clientId, owner.clientId), eq(keywordFilters.userId, owner.userId));
+      }
+      if (owner.clientId) return eq(keywordFilters.clientId, owner.clientId);
+      if (owner.userId) return eq(keywordFilters.userId, owner.userId);
+      return undefined;
+    })();
+
+    if (!ownershipCondition) return [];
+
+    const accountConditions = [isNull(keywordFilters.instagramAccountId)];
+    if (owner.instagramAccountId) {
+      accountConditions.push(eq(keywordFilters.instagramAccountId, owner.instagramAccountId));
+    }
+
+    try {
+      return await db
+        .select()
+        .from(keywordFilters)
+        .where(and(
+          ownershipCondition,
+          eq(keywordFilters.isEnabled, true),
+          or(...accountConditions)
+        ));
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      console.error('Failed to load keyword filters:', errorMessage);
+      return [];
+    }
+  }
+
+  /**
+   * Validate a pattern before it is stored. Returns an error message, or null if valid.
+   */
+  validatePattern(pattern: string, patternType: 'KEYWORD' | 'REGEX'): string | null {
+    if (!pattern || !pattern.trim()) {
+      return 'Pattern is required';
+    }
+
+    if (patternType === 'KEYWORD') {
+      return pattern.length > MAX_KEYWORD_LENGTH
+        ? `Keyword must be at most ${MAX_KEYWORD_LENGTH} characters`
+        : null;
+    }
+
+    if (pattern.length > MAX_REGEX_LENGTH) {
+      return `Regex must be at most ${MAX_REGEX_LENGTH} characters`;
+    }
+    const backtrackingRisk = findBacktrackingRisk(pattern);
+    if (backtrackingRisk) {
+      return backtrackingRisk;
+    }
+    if (BACKREFERENCE.test(pattern)) {
+      return 'Regex backreferences are not supported';
+    }
+    try {
+      new RegExp(pattern, 'i');
+    } catch (error) {
+      return `Invalid regex: ${error instanceof Error ? error.message : 'unknown error'}`;
+    }
+    return null;
+  }
+
+  /**
+   * Match comment text against keyword filters, split into blacklist and whitelist hits.
+   * KEYWORD patterns match case-insensitively as substrings; REGEX patterns are compiled
+   * case-insensitively and skipped if they fail validation.
+   */
+  match(commentText: string, filters: KeywordFilter[]): KeywordFilterMatch {
+    const result: KeywordFilterMatch = { blacklist: [], whitelist: [] };
+    const textLower = (commentText || '').toLowerCase();
+
+    for (const filter of filters) {
+      if (!this.matchesPattern(commentText || '', textLower, filter)) continue;
+      if (filter.isWhitelist) {
+        result.whitelist.push(filter);
+      } else {
+        result.blacklist.push(filter);
+      }
+    }
+
+    return result;
+  }
+
+  private matchesPattern(commentText: string, textLower: string, filter: KeywordFilter): boolean {
+    if (filter.patternType === 'KEYWORD') {
+      const keyword = filter.pattern.toLowerCase().trim();
+      return keyword.length > 0 && textLower.includes(keyword);
+    }
+
+    const regex = this.compile(filter);
+    return regex !== null && regex.test(commentText.substring(0, MAX_REGEX_INPUT_LENGTH));
+  }
+
+  private compile(filter: KeywordFilter): RegExp | null {
+    const cached = this.regexCache.get(filter.pattern);
+    if (cached !== undefined) return cached;
+
+    // Rows written before validation existed may still hold unsafe patterns
+    const error = this.validatePattern(filter.pattern, 'REGEX');
+    if (error) {
+      console.warn(`⚠️  Keyword filter regex skipped (${filter.id}): ${error}`);
+    }
+    const regex = error ? null : new RegExp(filter.pattern, 'i');
+    if (this.regexCache.size >= MAX_CACHED_REGEXES) {
+      const oldest = this.regexCache.keys().next().value;
+      if (oldest !== undefined) this.regexCache.delete(oldest);
+    }
+    this.regexCache.set(filter.pattern, regex);
+    return regex;
+  }
+}
+
+export const keywordFilterService = new KeywordFilterService();
@@ -0,0 +1,101 @@
+import { db } from '../db';
+import { legalCases, caseEvidenceMap, comments, LegalCase } from '../db/schema';
+import { eq, inArray, sql } from 'drizzle-orm';
+
+export type CaseStatus = NonNullable<LegalCase['status']>;
+
+/**
+ * Allowed status transitions. Cases move forward through the escalation ladder
+ * (steps may be skipped, e.g. straight to POLICE_REPORT) and can be closed at any point.
+ * RESOLVED can still be CLOSED; CLOSED is terminal.
+ */
+const CASE_STATUS_TRANSITIONS: Record<CaseStatus, CaseStatus[]> = {
+  DRAFT: ['SUBMITTED_TO_INSTAGRAM', 'POLICE_REPORT', 'LEGAL_ACTION', 'CLOSED'],
+  SUBMITTED_TO_INSTAGRAM: ['POLICE_REPORT', 'LEGAL_ACTION', 'RESOLVED', 'CLOSED'],
+  POLICE_REPORT: ['LEGAL_ACTION', 'RESOLVED', 'CLOSED'],
+  LEGAL_ACTION: ['RESOLVED', 'CLOSED'],
+  RESOLVED: ['CLOSED'],
+  CLOSED: []
+};
+
+export const CASE_STATUSES = Object.keys(CASE_STATUS_TRANSITIONS) as CaseStatus[];
+
+export class LegalCaseService {
+  /**
+   * Validate a status transition. Returns an error message, or null if allowed.
+   * POLICE_REPORT requires a police report number (on the case or supplied with the transition).
+   */
+  validateTransition(
+    legalCase: Pick<LegalCase, 'status' | 'policeReportNumber'>,
+    to: CaseStatus,
+    policeReportNumber?: string | null
+  ): string | null {
+    const from: CaseStatus = legalCase.status ?? 'DRAFT';
+    if (from === to) {
+      return `Case is already ${to}`;
+    }
+    if (!CASE_STATUS_TRANSITIONS[from].includes(to)) {
+      const allowed = CASE_STATUS_TRANSITIONS[from];
+      return `Cannot move case from ${from} to ${to}` +
+        (allowed.length > 0 ? ` (allowed: ${allowed.join(', ')})` : ` (${from} is final)`);
+    }
+    if (to === 'POLICE_REPORT' && !policeReportNumber && !legalCase.policeReportNumber) {
+      return 'policeReportNumber is required to move a case to POLICE_REPORT';
+    }
+    return null;
+  }
+
+  /**
+   * Get the statuses a case can move to next
+   */
+  getAllowedTransitions(status: CaseStatus | null): CaseStatus[] {
+    return CASE_STATUS_TRANSITIONS[status ?? 'DRAFT'];
+  }
+
+  /**
+   * Recalculate evidence totals and the date range (first/last commentedAt of the
+   * attached comments) for a case. Called whenever evidence is attached or removed.
+   */
+  async recalculateCaseTotals(legalCaseId: string): Promise<LegalCase> {
+    const evidence = await db
+      .select({
+        commentId: caseEvidenceMap.commentId,
+        evidenceAttachmentId: caseEvidenceMap.evidenceAttachmentId
+      })
+      .from(caseEvidenceMap)
+      .where(eq(caseEvidenceMap.legalCaseId, legalCaseId));
+
+    const commentIds = new Set(evidence.map(e => e.commentId).filter((id): id is string => !!id));
+    const attachmentIds = new Set(evidence.map(e => e.evidenceAttachmentId).filter((id): id is string => !!id));
+
+    let dateRangeStart: Date | null = null;
+    let dateRangeEnd: Date | null = null;
+    if (commentIds.size > 0) {
+      const [range] = await db
+        .select({
+          start: sql<Date | null>`min(${comments.commentedAt})`,
+          end: sql<Date | null>`max(${comments.commentedAt})`
+        })
+        .from(comments)
+        .where(inArray(comments.id, [...commentIds]));
+      dateRangeStart = range?.start ? new Date(range.start) : null;
+      dateRangeEnd = range?.end ? new Date(range.end) : null;
+    }
+
+    const [updated] = await db
+      .update(legalCases)
+      .set({
+        totalComments: commentIds.size,
+        totalAttachments: attachmentIds.size,
+        dateRangeStart,
+        dateRangeEnd,
+        updatedAt: new Date()
+      })
+      .where(eq(legalCases.id, legalCaseId))
+      .returning();
+
+    return updated;
+  }
+}
+
+export const legalCaseService = new LegalCaseService();
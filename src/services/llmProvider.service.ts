@@ -0,0 +1,282 @@
+import Groq from 'groq-sdk';
+import dotenv from 'dotenv';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { dirname } from 'path';
+import { aiUsageService, AIUsagePurpose } from './aiUsage.service';
+
+// ES Module equivalent of __dirname
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+// Load environment variables before reading provider configuration
+dotenv.config({ path: path.resolve(__dirname, '../../.env.local') });
+
+/**
+ * LLM provider abstraction.
+ *
+ * LLMService builds prompts and parses responses; providers only turn a list of
+ * chat messages into the raw completion text. Any OpenAI-compatible endpoint
+ * (OpenAI, Together, vLLM, Ollama, LM Studio, ...) works via OpenAICompatibleProvider.
+ *
+ * Configured per environment:
+ *   LLM_PROVIDER=groq | openai-compatible     (default: groq)
+ *   LLM_MODEL, LLM_BASE_URL, LLM_API_KEY
+ *   LLM_FALLBACK_PROVIDER, LLM_FALLBACK_MODEL, LLM_FALLBACK_BASE_URL, LLM_FALLBACK_API_KEY
+ *   LLM_REQUEST_TIMEOUT_MS                     (default: 30000)
+ *
+ * Every HTTP call a provider makes (including failed and failed-over ones) is recorded
+ * in AI usage accounting with its token counts, latency and the request's purpose.
+ * Each call is aborted after LLM_REQUEST_TIMEOUT_MS.
+ */
+
+export interface LLMChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface LLMCompletionRequest {
+  messages: LLMChatMessage[];
+  temperature?: number;
+  maxTokens?: number;
+  jsonMode?: boolean;
+  /** What the completion is for, used for usage accounting (defaults to CLASSIFY) */
+  purpose?: AIUsagePurpose;
+}
+
+export interface LLMCompletion {
+  /** Completion text, or null when the provider returned no content */
+  content: string | null;
+  /** Model that produced the completion (the fallback's when failover answered) */
+  model: string;
+}
+
+/**
+ * Non-2xx response from an OpenAI-compatible endpoint
+ */
+export class LLMProviderHttpError extends Error {
+  constructor(message: string, readonly status: number) {
+    super(message);
+    this.name = 'LLMProviderHttpError';
+  }
+}
+
+/**
+ * Whether a completion error means the provider itself is down (connection failure,
+ * timeout or 5xx), as opposed to a bad request or an unusable response
+ */
+export function isProviderOutage(error: unknown): boolean {
+  if (error instanceof Groq.APIConnectionError || error instanceof Groq.APIUserAbortError) return true;
+  if (error instanceof Groq.APIError || error instanceof LLMProviderHttpError) {
+    return error.status !== undefined && error.status >= 500;
+  }
+  if (error instanceof Error) {
+    // fetch: AbortSignal.timeout fired, or the connection failed
+    return error.name === 'TimeoutError' || error.name === 'AbortError' || error.message === 'fetch failed';
+  }
+  return false;
+}
+
+export interface LLMProvider {
+  readonly name: string;
+  /** Configured model (the primary's, for a failover chain) */
+  readonly model: string;
+  complete(request: LLMCompletionRequest): Promise<LLMCompletion>;
+}
+
+export type LLMProviderType = 'groq' | 'openai-compatible';
+
+interface LLMProviderConfig {
+  type: LLMProviderType;
+  model?: string;
+  baseUrl?: string;
+  apiKey?: string;
+}
+
+const DEFAULT_GROQ_MODEL = 'openai/gpt-oss-120b';
+const REQUEST_TIMEOUT_MS = parseInt(process.env.LLM_REQUEST_TIMEOUT_MS || '30000', 10);
+
+/**
+ * Record one provider call in usage accounting. usage is the OpenAI-format usage block,
+ * absent when the call failed.
+ */
+function recordUsage(
+  provider: LLMProvider,
+  request: LLMCompletionRequest,
+  startTime: number,
+  usage?: { prompt_tokens?: number; completion_tokens?: number } | null
+): void {
+  aiUsageService.record({
+    kind: 'LLM',
+    purpose: request.purpose ?? 'CLASSIFY',
+    provider: provider.name,
+    model: provider.model,
+    inputTokens: usage?.prompt_tokens,
+    outputTokens: usage?.completion_tokens,
+    latencyMs: Date.now() - startTime,
+    success: !!usage
+  });
+}
+
+/**
+ * Groq (native SDK)
+ */
+export class GroqProvider implements LLMProvider {
+  readonly name = 'groq';
+  readonly model: string;
+  private readonly client: Groq;
+
+  constructor(config: { model?: string; apiKey?: string }) {
+    this.model = config.model || DEFAULT_GROQ_MODEL;
+    this.client = new Groq({ apiKey: config.apiKey || process.env.GROQ_API_KEY, timeout: REQUEST_TIMEOUT_MS });
+  }
+
+  async complete(request: LLMCompletionRequest): Promise<LLMCompletion> {
+    const startTime = Date.now();
+    let completion: Groq.Chat.ChatCompletion;
+    try {
+      completion = await this.client.chat.completions.create({
+        model: this.model,
+        messages: request.messages,
+        temperature: request.temperature,
+        ...(request.maxTokens !== undefined && { max_tokens: request.maxTokens }),
+        ...(request.jsonMode && { response_format: { type: 'json_object' as const } })
+      }, {
+        // Bounds the whole call, SDK retries included
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS)
+      });
+    } catch (error) {
+      recordUsage(this, request, startTime);
+      throw error;
+    }
+    recordUsage(this, request, startTime, completion.usage ?? {});
+    return { content: completion.choices[0]?.message?.content ?? null, model: this.model };
+  }
+}
+
+/**
+ * Any server exposing POST {baseUrl}/chat/completions in the OpenAI format.
+ * The API key is optional so local servers work without one.
+ */
+export class OpenAICompatibleProvider implements LLMProvider {
+  readonly name: string;
+  readonly model: string;
+  private readonly baseUrl: string;
+  private readonly apiKey?: string;
+
+  constructor(config: { model: string; baseUrl: string; apiKey?: string }) {
+    this.model = config.model;
+    this.baseUrl = config.baseUrl.replace(/\/+$/, '');
+    this.apiKey = config.apiKey;
+    this.name = `openai-compatible(${new URL(this.baseUrl).host})`;
+  }
+
+  async complete(request: LLMCompletionRequest): Promise<LLMCompletion> {
+    const startTime = Date.now();
+    try {
+      return await this.request(request, startTime);
+    } catch (error) {
+      recordUsage(this, request, startTime);
+      throw error;
+    }
+  }
+
+  private async request(request: LLMCompletionRequest, startTime: number): Promise<LLMCompletion> {
+    const response = await fetch(`${this.baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(this.apiKey && { 'Authorization': `Bearer ${this.apiKey}` })
+      },
+      body: JSON.stringify({
+        model: this.model,
+        messages: request.messages,
+        temperature: request.temperature,
+        ...(request.maxTokens !== undefined && { max_tokens: request.maxTokens }),
+        ...(request.jsonMode && { response_format: { type: 'json_object' } })
+      }),
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS)
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text().catch(() => '');
+      throw new LLMProviderHttpError(`${this.name} request failed: ${response.status} ${errorText.substring(0, 200)}`, response.status);
+    }
+
+    const data = await response.json() as {
+      choices?: Array<{ message?: { content?: string | null } }>;
+      usage?: { prompt_tokens?: number; completion_tokens?: number };
+    };
+    recordUsage(this, request, startTime, data.usage ?? {});
+    return { content: data.choices?.[0]?.message?.content ?? null, model: this.model };
+  }
+}
+
+/**
+ * Tries the primary provider and, when it throws or returns no content,
+ * retries the same request once on the secondary provider.
+ */
+export class FailoverLLMProvider implements LLMProvider {
+  constructor(
+    private readonly primary: LLMProvider,
+    private readonly secondary: LLMProvider
+  ) {}
+
+  get name(): string {
+    return `${this.primary.name} → ${this.secondary.name}`;
+  }
+
+  get model(): string {
+    return this.primary.model;
+  }
+
+  async complete(request: LLMCompletionRequest): Promise<LLMCompletion> {
+    try {
+      const completion = await this.primary.complete(request);
+      if (completion.content) return completion;
+      console.warn(`⚠️  LLM provider ${this.primary.name} returned no content - failing over to ${this.secondary.name}`);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      console.warn(`⚠️  LLM provider ${this.primary.name} failed (${errorMessage}) - failing over to ${this.secondary.name}`);
+    }
+    return this.secondary.complete(request);
+  }
+}
+
+function createProvider(config: LLMProviderConfig): LLMProvider {
+  switch (config.type) {
+    case 'groq':
+      return new GroqProvider({ model: config.model, apiKey: config.apiKey });
+    case 'openai-compatible':
+      if (!config.baseUrl || !config.model) {
+        throw new Error('openai-compatible LLM provider requires a base URL and model');
+      }
+      return new OpenAICompatibleProvider({ model: config.model, baseUrl: config.baseUrl, apiKey: config.apiKey });
+    default:
+      throw new Error(`Unknown LLM provider: ${config.type as string}`);
+  }
+}
+
+function readProviderConfig(prefix: 'LLM' | 'LLM_FALLBACK'): LLMProviderConfig | null {
+  const type = process.env[`${prefix}_PROVIDER`];
+  if (!type) return null;
+  return {
+    type: type as LLMProviderType,
+    model: process.env[`${prefix}_MODEL`],
+    baseUrl: process.env[`${prefix}_BASE_URL`],
+    apiKey: process.env[`${prefix}_API_KEY`]
+  };
+}
+
+/**
+ * Build the provider chain for this environment (primary + optional fallback)
+ */
+export function createLLMProviderFromEnv(): LLMProvider {
+  const primary = createProvider(readProviderConfig('LLM') ?? { type: 'groq', model: process.env.LLM_MODEL });
+  const fallbackConfig = readProviderConfig('LLM_FALLBACK');
+  if (!fallbackConfig) return primary;
+
+  const secondary = createProvider(fallbackConfig);
+  console.log(`🤖 LLM provider: ${primary.name} (${primary.model}), fallback: ${secondary.name} (${secondary.model})`);
+  return new FailoverLLMProvider(primary, secondary);
+}
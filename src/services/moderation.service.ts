@@ -1,15 +1,24 @@
 import { db } from '../db';
-import { comments, moderationLogs, evidenceRecords, customFilters, extractedIdentifiers, suspiciousAccounts, moderationSettings, CustomFilter, botNetworkMasterminds, botNetworkConnections, mastermindMentions, instagramAccounts, clients } from '../db/schema';
+import { comments, moderationLogs, evidenceRecords, customFilters, extractedIdentifiers, suspiciousAccounts, moderationSettings, CustomFilter, botNetworkMasterminds, botNetworkConnections, mastermindMentions, instagramAccounts, facebookPages, clients } from '../db/schema';
 import { llmService } from './llm.service';
 import { riskScoringService } from './riskScoring.service';
 import { whitelistService } from './whitelist.service';
-import { suspiciousAccountService } from './suspiciousAccount.service';
+import { suspiciousAccountService, surfaceCondition, surfaceValues } from './suspiciousAccount.service';
+import { abuserProfileService } from './abuserProfile.service';
 import { instagramService } from './instagram.service';
 import { facebookService } from './facebook.service';
 import { watchlistService } from './watchlist.service';
+import { threatNetworkService, REPORTABLE_CATEGORIES } from './threatNetwork.service';
 import { mastermindConnectionService } from './mastermindConnection.service';
 import { commentReviewService } from './commentReview.service';
 import { embeddingsService } from './embeddings.service';
+import { keywordFilterService } from './keywordFilter.service';
+import { threadContextService } from './threadContext.service';
+import { aiUsageService } from './aiUsage.service';
+import { attackDetectorService } from './attackDetector.service';
+import { incidentService, lockdownRationale } from './incident.service';
+import { moderationProfileService } from './moderationProfile.service';
+import { isClassificationCacheEnabled, getClassificationCache, setClassificationCache, getClassificationFingerprint } from './cache.service';
 import {
   ModerationResult,
   ActionTaken,
@@ -20,7 +29,11 @@ import {
   EmbeddingSimilarityContext,
   EmbeddingAutoActionMatch,
   SuspiciousAccountMatch,
-  WatchlistCheckResult
+  WatchlistCheckResult,
+  DecisionTraceStep,
+  ThreadContext,
+  AttackLockdown,
+  ReEvaluationReason
 } from '../types';
 import { eq, and, or, isNull, sql } from 'drizzle-orm';
 import { autumn, resolveBillingCustomerId, checkFeatureAllowed } from './autumn.service';
@@ -38,6 +51,16 @@ interface ModerateCommentInput {
   accessToken: string;
   clientId?: string;
   userId?: string;
+  shadowMode?: boolean;
+  degradedMode?: boolean;
+  threadContext?: ThreadContext | null;
+  // Set when the classification was reused from the classification cache
+  classificationCacheSourceCommentId?: string;
+  // moderation_settings_versions row the decision is made with
+  settingsVersionId?: string | null;
+  // Set when re-running a provisional decision (see reEvaluateComment)
+  reEvaluation?: ReEvaluationReason;
+  trace?: DecisionTraceStep[];
 }
 
 export class ModerationService {
@@ -54,17 +77,78 @@ export class ModerationService {
    * Main moderation pipeline — parallelized, confidence-aware, embedding-first.
    *
    * Phase 1 (parallel): whitelist, owner, suspicious account, watchlist,
-   *                       custom filters, embeddings, moderation settings
+   *                       custom filters, embeddings, moderation settings,
+   *                       keyword filters
    * Phase 2 (sequential): evaluate early-exits from Phase 1 results
-   * Phase 3: LLM classification (using custom filters + embedding context)
+   * Phase 3: LLM classification (using custom filters, embedding context and
+   *          thread context per settings.threadContextLevel), skipped on a
+   *          classification cache hit for identical text (case and whitespace aside)
    * Phase 4: post-LLM decisions (risk score, thresholds, actions)
+   *
+   * In shadow mode (settings.shadowModeEnabled) the pipeline is identical, but
+   * hide/delete are never executed and logs are marked isShadowMode.
+   *
+   * Every phase evaluated is recorded in a decision trace, returned as
+   * result.decisionTrace and persisted on the moderation_logs row.
+   *
+   * LLM and embedding calls made by the pipeline are accounted to the comment's owner.
    */
   async moderateComment(input: ModerateCommentInput): Promise<ModerationResult> {
+    const trace: DecisionTraceStep[] = [];
+    const result = await aiUsageService.runWithOwner(
+      { userId: input.userId, clientId: input.clientId },
+      () => this.runModerationPipeline({ ...input, trace })
+    );
+
+    // Feed the attack detector without holding up the moderation result
+    this.observeForAttack(input, result, trace).catch((error: unknown) => {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      console.error('Attack detection failed:', errorMessage);
+    });
+
+    return { ...result, decisionTrace: trace };
+  }
+
+  /**
+   * Re-run a comment whose earlier decision was provisional: classified by the heuristic
+   * fallback (DEGRADED) or hidden unclassified during an attack lockdown (LOCKDOWN).
+   *
+   * The comment was already billed and fed to the attack detector on its first run, and a
+   * DEGRADED decision already tracked the commenter, so none of that is repeated. A hidden
+   * comment the LLM now finds benign is unhidden.
+   */
+  async reEvaluateComment(input: ModerateCommentInput, reason: ReEvaluationReason): Promise<ModerationResult | null> {
+    const comment = await db.query.comments.findFirst({
+      where: eq(comments.id, input.commentId),
+      columns: { isHidden: true, isDeleted: true }
+    });
+    if (!comment || comment.isDeleted) return null;
+
+    const trace: DecisionTraceStep[] = [];
+    const result = await aiUsageService.runWithOwner(
+      { userId: input.userId, clientId: input.clientId },
+      () => this.runModerationPipeline({ ...input, reEvaluation: reason, trace })
+    );
+
+    // Only an LLM verdict can overturn the earlier hide; a second heuristic pass can't
+    const classifiedByLLM = !trace.some(step => step.name === 'HEURISTIC_CLASSIFICATION');
+    if (comment.isHidden && result.action === ActionTaken.BENIGN && classifiedByLLM) {
+      const settings = await this.getModerationSettings(input.clientId, input.userId, input.instagramAccountId);
+      if (!settings.shadowModeEnabled) {
+        await this.executeUnhide(input);
+      }
+    }
+
+    return { ...result, decisionTrace: trace };
+  }
+
+  private async runModerationPipeline(input: ModerateCommentInput): Promise<ModerationResult> {
     const startTime = Date.now();
 
     try {
       // Gate: check comments_moderated limit before running the pipeline
-      const { allowed } = await checkFeatureAllowed({
+      // (a re-evaluated comment was already counted on its first run)
+      const { allowed } = input.reEvaluation ? { allowed: true } : await checkFeatureAllowed({
         userId: input.userId,
         clientId: input.clientId,
         featureId: "comments_moderated",
@@ -93,7 +177,8 @@ export class ModerationService {
         watchlistCheck,
         userCustomFilters,
         embeddingResult,
-        settings
+        settings,
+        keywordFilters
       ] = await Promise.all([
         this.checkWhitelist(input),
         this.checkPostOwner(input),
@@ -101,20 +186,33 @@ export class ModerationService {
         this.checkWatchlist(input),
         this.loadCustomFilters(input),
         this.loadEmbeddingAndSimilarity(input),
-        this.getModerationSettings(input.clientId, input.userId, input.instagramAccountId)
+        this.getModerationSettings(input.clientId, input.userId, input.instagramAccountId),
+        keywordFilterService.loadActiveFilters(input)
       ]);
 
       const { embeddingSimilarityContext, autoActionMatch } = embeddingResult;
+      const keywordMatch = keywordFilterService.match(
+        input.commentText, settings.enableKeywordFilter === false ? [] : keywordFilters
+      );
+
+      input = { ...input, settingsVersionId: settings.settingsVersionId ?? null };
+
+      // Shadow mode: every phase still runs, but executors only record what they would have done
+      if (settings.shadowModeEnabled) {
+        input = { ...input, shadowMode: true };
+      }
 
       // ── PHASE 2: Evaluate early-exit conditions (order = priority) ─────
 
       // 2a: Whitelisted commenter → bypass all
+      this.traceStep(input, '2a', 'WHITELISTED_COMMENTER', isCommenterWhitelisted);
       if (isCommenterWhitelisted) {
         return this.earlyReturn(input, 'COMMENTER_WHITELISTED', CommentCategory.BENIGN,
           'Commenter is whitelisted - moderation bypassed');
       }
 
       // 2b: Post owner → don't moderate own comments
+      this.traceStep(input, '2b', 'POST_OWNER', isPostOwner);
       if (isPostOwner) {
         return this.earlyReturn(input, 'POST_OWNER', CommentCategory.BENIGN,
           'Commenter is the post owner (own account) – not moderated');
@@ -122,6 +220,12 @@ export class ModerationService {
 
       // 2c: Auto-delete for known suspicious accounts
       const autoDeleteEnabled = suspiciousAccount?.autoDeleteEnabled === true;
+      const autoHideEnabled = suspiciousAccount?.autoHideEnabled ?? false;
+      this.traceStep(input, '2c', 'SUSPICIOUS_AUTO_DELETE', autoDeleteEnabled, {
+        suspiciousAccountId: suspiciousAccount?.id ?? null,
+        autoDeleteEnabled,
+        autoHideEnabled
+      });
       if (autoDeleteEnabled) {
         console.log(`🔧 Suspicious account auto-delete: ${suspiciousAccount?.commenterUsername ?? input.commenterUsername} (commenterId: ${input.commenterId})`);
         await this.executeDelete(input);
@@ -146,12 +250,17 @@ export class ModerationService {
         };
       }
 
-      const autoHideEnabled = suspiciousAccount?.autoHideEnabled ?? false;
-
       // 2d: High-confidence embedding auto-action (similarity ≥ configurable threshold)
       // When similarity is very high, skip the expensive LLM call entirely
       const simThreshold = (settings.similarityThreshold ?? 85) / 100;
       const similarityAutoModEnabled = settings.similarityAutoModEnabled !== false;
+      this.traceStep(input, '2d', 'EMBEDDING_HIGH_CONFIDENCE',
+        similarityAutoModEnabled && !!autoActionMatch && autoActionMatch.match.similarity >= simThreshold, {
+          similarityAutoModEnabled,
+          threshold: simThreshold,
+          similarity: autoActionMatch?.match.similarity ?? null,
+          matchAction: autoActionMatch?.action ?? null
+        });
 
       if (similarityAutoModEnabled && autoActionMatch) {
         const matchSimilarity = autoActionMatch.match.similarity;
@@ -192,36 +301,163 @@ export class ModerationService {
         }
       }
 
+      // 2e: Whitelist keyword filter → benign
+      this.traceStep(input, '2e', 'KEYWORD_WHITELIST', keywordMatch.whitelist.length > 0, {
+        keywordFilterCount: keywordFilters.length,
+        matched: keywordMatch.whitelist.map(f => f.pattern)
+      });
+      if (keywordMatch.whitelist.length > 0) {
+        return this.earlyReturn(input, 'KEYWORD_WHITELISTED', CommentCategory.BENIGN,
+          `Matches whitelist keyword filter(s): ${keywordMatch.whitelist.map(f => f.pattern).join(', ')}`);
+      }
+
+      // 2f: Attack lockdown → hide every comment that got past the whitelists above
+      const lockdownHide = settings.attackLockdown?.mode === 'HIDE_NON_WHITELISTED';
+      this.traceStep(input, '2f', 'ATTACK_LOCKDOWN', lockdownHide, {
+        incidentId: settings.attackLockdown?.incidentId ?? null,
+        mode: settings.attackLockdown?.mode ?? null
+      });
+      if (lockdownHide) {
+        await this.executeHide(input);
+        const classification: LLMClassificationResult = {
+          category: CommentCategory.BENIGN,
+          severity: 0,
+          confidence: 0,
+          rationale: lockdownRationale(settings.attackLockdown!.incidentId),
+          extractedIdentifiers: []
+        };
+        await this.logModeration(input, classification, 0, ActionTaken.FLAGGED);
+        return {
+          action: ActionTaken.FLAGGED,
+          reason: 'ATTACK_LOCKDOWN',
+          llmClassification: classification,
+          riskScore: 0
+        };
+      }
+
       // ── PHASE 3: Pattern detection + LLM classification ────────────────
 
-      // 3a: Regex-based pattern detection (cheap, runs in-process)
-      const patternResult = this.detectPatterns(input.commentText);
+      // 3a: Regex-based pattern detection (cheap, runs in-process).
+      // Blacklist keyword filters feed their category in when no built-in pattern fired,
+      // so a benign LLM verdict gets the same targeted re-evaluation (3c).
+      let patternResult = this.detectPatterns(input.commentText);
+      if (!patternResult.category && keywordMatch.blacklist.length > 0) {
+        patternResult = {
+          category: keywordMatch.blacklist[0].category as CommentCategory,
+          details: `Keyword filter match: ${keywordMatch.blacklist.map(f => f.pattern).join(', ')}`
+        };
+      }
+      this.traceStep(input, '3a', 'PATTERN_DETECTION', patternResult.category !== null, {
+        category: patternResult.category,
+        details: patternResult.details
+      });
 
-      // 3b: LLM classification
-      let llmResult = await llmService.classifyComment(
-        input.commentText,
-        userCustomFilters,
-        0,
-        embeddingSimilarityContext
+      // 3b: Classification cache - spam waves repeat the same text, so an identical
+      // comment (case and whitespace aside) under the same filters, settings and context reuses the earlier verdict
+      input = { ...input, threadContext: await this.loadThreadContext(input, settings) };
+      const cacheFingerprint = this.getClassificationCacheFingerprint(
+        input, userCustomFilters, settings, embeddingSimilarityContext, patternResult
       );
+      const cacheOwner = { userId: input.userId, clientId: input.clientId };
+      const cached = cacheFingerprint ? getClassificationCache(cacheOwner, cacheFingerprint) : undefined;
+      this.traceStep(input, '3b', 'CLASSIFICATION_CACHE', !!cached, {
+        cacheable: cacheFingerprint !== null,
+        sourceCommentId: cached?.sourceCommentId ?? null,
+        cachedAt: cached?.cachedAt.toISOString() ?? null
+      });
 
-      // 3c: Two-tier re-evaluation when pattern detection disagrees with LLM
-      llmResult = await this.reEvaluateIfNeeded(llmResult, patternResult, input.commentText);
+      // 3b: LLM classification, with the surrounding thread so replies are read in context
+      let llmResult: LLMClassificationResult | null = null;
+      if (cached) {
+        input = { ...input, classificationCacheSourceCommentId: cached.sourceCommentId };
+        // Copied: later phases prefix the rationale in place
+        llmResult = { ...cached.result };
+      } else if (await llmService.isAvailable()) {
+        llmResult = await llmService.classifyComment(
+          input.commentText,
+          userCustomFilters,
+          0,
+          embeddingSimilarityContext,
+          input.threadContext
+        );
+        // classifyComment falls back to benign after exhausting retries and marks the provider down
+        if (!(await llmService.isAvailable())) {
+          llmResult = null;
+        }
+      }
 
-      // 3d: Validate LLM category
-      llmResult = await this.validateLLMCategory(llmResult, input, userCustomFilters);
+      // A cache hit already went through re-evaluation and validation when it was cached
+      if (llmResult && !cached) {
+        this.traceStep(input, '3b', 'LLM_CLASSIFICATION', true, {
+          category: llmResult.category,
+          severity: llmResult.severity,
+          confidence: llmResult.confidence,
+          customFilterCount: userCustomFilters.length,
+          threadContextLevel: settings.threadContextLevel,
+          threadContext: input.threadContext ? {
+            hasCaption: !!input.threadContext.postCaption,
+            parentCount: input.threadContext.parentChain.length,
+            siblingCount: input.threadContext.siblings.length
+          } : null
+        });
+
+        // 3c: Two-tier re-evaluation when pattern detection disagrees with LLM
+        const preReEvalCategory = llmResult.category;
+        llmResult = await this.reEvaluateIfNeeded(llmResult, patternResult, input.commentText);
+        this.traceStep(input, '3c', 'RE_EVALUATION', llmResult.category !== preReEvalCategory, {
+          before: preReEvalCategory,
+          after: llmResult.category
+        });
+
+        // 3d: Validate LLM category
+        const preValidationCategory = llmResult.category;
+        llmResult = await this.validateLLMCategory(llmResult, input, userCustomFilters);
+        this.traceStep(input, '3d', 'CATEGORY_VALIDATION', llmResult.category !== preValidationCategory, {
+          before: preValidationCategory,
+          after: llmResult.category
+        });
+
+        if (cacheFingerprint) {
+          setClassificationCache(cacheOwner, cacheFingerprint, {
+            result: { ...llmResult },
+            sourceCommentId: input.commentId,
+            cachedAt: new Date()
+          });
+        }
+      } else if (!llmResult) {
+        // Degraded mode: LLM provider unavailable → deterministic classifier.
+        // Logged with isDegradedMode and re-evaluated by the LLM once it recovers (degradedReEvalCron).
+        input = { ...input, degradedMode: true };
+        llmResult = this.classifyHeuristically(
+          patternResult, watchlistCheck, embeddingSimilarityContext, autoActionMatch
+        );
+        this.traceStep(input, '3b', 'HEURISTIC_CLASSIFICATION', true, {
+          category: llmResult.category,
+          severity: llmResult.severity,
+          confidence: llmResult.confidence
+        }, 'LLM unavailable - degraded mode');
+      }
 
       // ── PHASE 4: Post-LLM decisions ───────────────────────────────────
 
       // 4a: Watchlist auto-delete (use LLM category for proper classification)
-      if (watchlistCheck.shouldAutoDelete) {
+      this.traceStep(input, '4a', 'WATCHLIST_AUTO_DELETE', watchlistCheck.shouldAutoDelete, {
+        matches: watchlistCheck.matches.map(m => m.name)
+      });
+      if (watchlistCheck.shouldAutoDelete && !this.wasTracked(input)) {
         for (const match of watchlistCheck.matches) {
+          if (match.threatType === 'global_threat') {
+            await this.recordThreatNetworkSighting(match.threatId, input);
+            continue;
+          }
           await watchlistService.recordDetection(
             match.threatId, input.commentId, input.commenterUsername,
             input.commenterId, input.commentText, 'DIRECT_COMMENT'
           );
         }
-        await this.executeDelete(input);
+      }
+      if (watchlistCheck.shouldAutoDelete) {
+        const watchlistAction = await this.executeDeleteUnlessDegraded(input);
         const combinedRationale = `Auto-deleted: Commenter matches watchlist entry (${watchlistCheck.matches.map(m => m.name).join(', ')}). ${llmResult.rationale}`;
         const watchlistClassification: LLMClassificationResult = {
           category: llmResult.category,
@@ -230,9 +466,9 @@ export class ModerationService {
           rationale: combinedRationale,
           extractedIdentifiers: llmResult.extractedIdentifiers
         };
-        await this.logModeration(input, watchlistClassification, 100, ActionTaken.DELETED);
+        await this.logModeration(input, watchlistClassification, 100, watchlistAction);
         return {
-          action: ActionTaken.DELETED,
+          action: watchlistAction,
           reason: 'WATCHLIST_MATCH',
           llmClassification: watchlistClassification,
           riskScore: 100
@@ -243,6 +479,9 @@ export class ModerationService {
       const isWhitelisted = await whitelistService.check(
         llmResult.extractedIdentifiers, input.clientId, input.userId
       );
+      this.traceStep(input, '4b', 'WHITELISTED_IDENTIFIER', isWhitelisted, {
+        identifiers: llmResult.extractedIdentifiers.map(i => i.value)
+      });
       if (isWhitelisted) {
         await this.logModeration(input, llmResult, 0, ActionTaken.BENIGN);
         return { action: ActionTaken.BENIGN, llmClassification: llmResult, reason: 'WHITELISTED' };
@@ -252,26 +491,29 @@ export class ModerationService {
       const mentionCheck = await watchlistService.checkCommentForMentions(
         input.commentText, input.clientId, input.userId
       );
+      this.traceStep(input, '4c', 'WATCHLIST_MENTION', mentionCheck.shouldAutoDelete, {
+        matches: mentionCheck.matches.map(m => m.name)
+      });
       if (mentionCheck.shouldAutoDelete) {
-        for (const match of mentionCheck.matches) {
+        for (const match of this.wasTracked(input) ? [] : mentionCheck.matches) {
           await watchlistService.recordDetection(
             match.threatId, input.commentId, input.commenterUsername,
-            input.commenterId, input.commentText, 'USERNAME_MENTION', match.name
+            input.commenterId, input.commentText, match.detectionType ?? 'USERNAME_MENTION', match.matchedKeyword ?? match.name
           );
         }
+        const mentionAction = await this.executeDeleteUnlessDegraded(input);
         await this.logModeration(input, {
           ...llmResult,
-          rationale: `Auto-deleted: Comment mentions watchlist account(s): ${mentionCheck.matches.map(m => m.name).join(', ')}`
-        }, 100, ActionTaken.DELETED);
-        await this.executeDelete(input);
-        return { action: ActionTaken.DELETED, llmClassification: llmResult, reason: 'WATCHLIST_MENTION' };
+          rationale: `Auto-deleted: Comment mentions watchlist account(s) or keyword(s): ${mentionCheck.matches.map(m => m.matchedKeyword ?? m.name).join(', ')}`
+        }, 100, mentionAction);
+        return { action: mentionAction, llmClassification: llmResult, reason: 'WATCHLIST_MENTION' };
       }
 
       // 4d: Risk scoring
       let repeatOffenderCount = 0;
-      if (input.instagramAccountId) {
+      if (input.instagramAccountId || input.facebookPageId) {
         repeatOffenderCount = await suspiciousAccountService.getRepeatOffenderCount(
-          input.instagramAccountId, input.commenterId
+          input, input.commenterId
         );
       }
 
@@ -282,6 +524,10 @@ export class ModerationService {
         commentVelocity: 0,
         accountAgeDays: 0
       });
+      this.traceStep(input, '4d', 'RISK_SCORING', false, {
+        riskScore: riskResult.riskScore,
+        repeatOffenderCount
+      });
 
       // 4e: Custom filter auto-actions (MUST run BEFORE confidence thresholds)
       // User-defined custom filters override general confidence-based rules
@@ -298,17 +544,23 @@ export class ModerationService {
       // If LLM confidence is very high (>= configurable %), auto-delete or auto-hide.
       const confDeletePct = (settings.confidenceDeleteThreshold ?? 90) / 100;
       const confHidePct = (settings.confidenceHideThreshold ?? 70) / 100;
+      this.traceStep(input, '4f', 'CONFIDENCE_THRESHOLD',
+        llmResult.category !== CommentCategory.BENIGN && llmResult.confidence >= confHidePct, {
+          confidence: llmResult.confidence,
+          deleteThreshold: confDeletePct,
+          hideThreshold: confHidePct
+        });
 
       if (
         llmResult.category !== CommentCategory.BENIGN &&
         llmResult.confidence >= confDeletePct
       ) {
-        await this.executeDelete(input);
+        const confidenceAction = await this.executeDeleteUnlessDegraded(input);
         llmResult.rationale = `[CONFIDENCE AUTO-DELETE] LLM confidence ${Math.round(llmResult.confidence * 100)}% >= ${Math.round(confDeletePct * 100)}% threshold. ${llmResult.rationale}`;
-        await this.logModeration(input, llmResult, riskResult.riskScore, ActionTaken.DELETED);
-        await this.postModerationTracking(input, llmResult, riskResult.riskScore, ActionTaken.DELETED);
+        await this.logModeration(input, llmResult, riskResult.riskScore, confidenceAction);
+        await this.postModerationTracking(input, llmResult, riskResult.riskScore, confidenceAction);
         return {
-          action: ActionTaken.DELETED,
+          action: confidenceAction,
           reason: 'CONFIDENCE_AUTO_DELETE',
           identifiers: llmResult.extractedIdentifiers,
           llmClassification: llmResult,
@@ -335,14 +587,18 @@ export class ModerationService {
       }
 
       // 4g: Embedding auto-actions (lower-confidence matches that didn't early-exit)
+      this.traceStep(input, '4g', 'EMBEDDING_AUTO_ACTION', !!autoActionMatch, {
+        similarity: autoActionMatch?.match.similarity ?? null,
+        matchAction: autoActionMatch?.action ?? null
+      });
       if (autoActionMatch) {
         if (autoActionMatch.action === 'AUTO_DELETE_SIMILAR') {
-          await this.executeDelete(input);
+          const similarAction = await this.executeDeleteUnlessDegraded(input);
           llmResult.rationale = `Auto-deleted based on similarity to reviewed pattern (${Math.round(autoActionMatch.match.similarity * 100)}% similarity). ${llmResult.rationale}`;
-          await this.logModeration(input, llmResult, riskResult.riskScore, ActionTaken.DELETED);
-          await this.postModerationTracking(input, llmResult, riskResult.riskScore, ActionTaken.DELETED);
+          await this.logModeration(input, llmResult, riskResult.riskScore, similarAction);
+          await this.postModerationTracking(input, llmResult, riskResult.riskScore, similarAction);
           return {
-            action: ActionTaken.DELETED,
+            action: similarAction,
             reason: 'AUTO_DELETE_SIMILAR_MATCH',
             llmClassification: llmResult,
             riskScore: riskResult.riskScore
@@ -362,6 +618,11 @@ export class ModerationService {
       }
 
       // 4h: Embedding allowed-similar + LLM benign agreement
+      this.traceStep(input, '4h', 'ALLOWED_SIMILAR',
+        !!embeddingSimilarityContext?.isSimilarToAllowed && llmResult.category === CommentCategory.BENIGN, {
+          isSimilarToAllowed: embeddingSimilarityContext?.isSimilarToAllowed ?? false,
+          similarity: embeddingSimilarityContext?.similarityScore ?? null
+        });
       if (embeddingSimilarityContext?.isSimilarToAllowed && llmResult.category === CommentCategory.BENIGN) {
         llmResult.rationale = `Similar to allowed pattern (${Math.round((embeddingSimilarityContext.similarityScore ?? 0) * 100)}% similarity) and validated independently as benign. ${llmResult.rationale}`;
         await this.logModeration(input, llmResult, 0, ActionTaken.BENIGN);
@@ -392,11 +653,9 @@ export class ModerationService {
         action = ActionTaken.FLAGGED;
         llmResult.rationale = `Auto-hidden: Commenter has auto-hide enabled. ${llmResult.rationale}`;
       } else if (categoryAutoDeleteEnabled && riskResult.riskScore >= categoryThreshold) {
-        await this.executeDelete(input);
-        action = ActionTaken.DELETED;
+        action = await this.executeDeleteUnlessDegraded(input);
       } else if (categoryFlagDeleteEnabled && riskResult.riskScore >= categoryFlagDeleteThreshold) {
-        await this.executeDelete(input);
-        action = ActionTaken.DELETED;
+        action = await this.executeDeleteUnlessDegraded(input);
       } else if (categoryFlagHideEnabled && riskResult.riskScore >= categoryFlagHideThreshold) {
         await this.executeHide(input);
         action = ActionTaken.FLAGGED;
@@ -405,6 +664,16 @@ export class ModerationService {
       } else {
         action = ActionTaken.BENIGN;
       }
+      this.traceStep(input, '4i', 'CATEGORY_THRESHOLD', action !== ActionTaken.BENIGN, {
+        category: llmResult.category,
+        riskScore: riskResult.riskScore,
+        autoHideEnabled,
+        categoryThreshold,
+        categoryAutoDeleteEnabled,
+        categoryFlagHideThreshold: categoryFlagHideEnabled ? categoryFlagHideThreshold : null,
+        categoryFlagDeleteThreshold: categoryFlagDeleteEnabled ? categoryFlagDeleteThreshold : null,
+        moderationProfile: settings.activeProfile?.name ?? null
+      }, action);
 
       // ── PHASE 5: Logging + post-moderation tracking ────────────────────
       await this.logModeration(input, llmResult, riskResult.riskScore, action);
@@ -463,6 +732,23 @@ export class ModerationService {
     }
   }
 
+  // ═══════════════════════════════════════════════════════════════════════
+  // Decision trace
+
+  /**
+   * Record one evaluated phase on the input's decision trace
+   */
+  private traceStep(
+    input: ModerateCommentInput,
+    phase: string,
+    name: string,
+    fired: boolean,
+    inputs?: Record<string, unknown>,
+    detail?: string
+  ): void {
+    input.trace?.push({ phase, name, fired, inputs, detail });
+  }
+
   // ═══════════════════════════════════════════════════════════════════════
   // Phase 1 helpers — run in parallel
   // ═══════════════════════════════════════════════════════════════════════
@@ -491,7 +777,7 @@ export class ModerationService {
   }
 
   private async findSuspiciousAccount(input: ModerateCommentInput): Promise<SuspiciousAccountMatch | null> {
-    if (!input.instagramAccountId) return null;
+    if (!input.instagramAccountId && !input.facebookPageId) return null;
 
     const normalizeUsername = (s: string | null | undefined): string =>
       (s ?? '').toLowerCase().replace(/^@/, '').trim();
@@ -501,7 +787,7 @@ export class ModerationService {
     // Try exact matches first (fastest)
     let account = await db.query.suspiciousAccounts.findFirst({
       where: and(
-        eq(suspiciousAccounts.instagramAccountId, input.instagramAccountId),
+        surfaceCondition(input),
         eq(suspiciousAccounts.commenterId, input.commenterId)
       )
     }) as SuspiciousAccountMatch | undefined;
@@ -509,7 +795,7 @@ export class ModerationService {
     if (!account && input.commenterUsername) {
       account = await db.query.suspiciousAccounts.findFirst({
         where: and(
-          eq(suspiciousAccounts.instagramAccountId, input.instagramAccountId),
+          surfaceCondition(input),
           eq(suspiciousAccounts.commenterUsername, input.commenterUsername)
         )
       }) as SuspiciousAccountMatch | undefined;
@@ -521,7 +807,7 @@ export class ModerationService {
         : `@${input.commenterUsername}`;
       account = await db.query.suspiciousAccounts.findFirst({
         where: and(
-          eq(suspiciousAccounts.instagramAccountId, input.instagramAccountId),
+          surfaceCondition(input),
           eq(suspiciousAccounts.commenterUsername, altUsername)
         )
       }) as SuspiciousAccountMatch | undefined;
@@ -530,7 +816,7 @@ export class ModerationService {
     // Case-insensitive fallback
     if (!account && (inputUsernameNorm || inputIdNorm)) {
       const candidates = await db.query.suspiciousAccounts.findMany({
-        where: eq(suspiciousAccounts.instagramAccountId, input.instagramAccountId)
+        where: surfaceCondition(input)
       });
       const found = candidates.find((sa) => {
         const saUsernameNorm = normalizeUsername(sa.commenterUsername);
@@ -552,6 +838,48 @@ export class ModerationService {
     );
   }
 
+  /**
+   * Classification cache fingerprint (see getClassificationFingerprint), covering every input
+   * of 3b-3d: the post caption sent with the comment, the embedding similarity context, and
+   * the pattern result (built-in patterns and blacklist keyword filters) that drives 3c.
+   * Returns null when the comment can't share a verdict: caching disabled, or a reply whose
+   * meaning depends on its parent chain.
+   */
+  private getClassificationCacheFingerprint(
+    input: ModerateCommentInput,
+    filters: CustomFilter[],
+    settings: ModerationSettingsResult,
+    embeddingSimilarityContext: EmbeddingSimilarityContext | undefined,
+    patternResult: { category: CommentCategory | null; details: string }
+  ): string | null {
+    if (!isClassificationCacheEnabled() || this.testMode) return null;
+    if (input.threadContext && (input.threadContext.parentChain.length > 0 || input.threadContext.siblings.length > 0)) {
+      return null;
+    }
+
+    return getClassificationFingerprint(input.commentText, llmService.modelName, filters, settings, {
+      postCaption: input.threadContext?.postCaption ?? null,
+      embeddingSimilarityContext: embeddingSimilarityContext ?? null,
+      patternResult
+    });
+  }
+
+  /**
+   * Thread context for the LLM. A failure here only loses context, never the classification.
+   */
+  private async loadThreadContext(
+    input: ModerateCommentInput,
+    settings: ModerationSettingsResult
+  ): Promise<ThreadContext | null> {
+    try {
+      return await threadContextService.buildContext(input.commentId, settings.threadContextLevel ?? 'THREAD');
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      console.error('Thread context loading failed:', errorMessage);
+      return null;
+    }
+  }
+
   private async loadCustomFilters(input: ModerateCommentInput): Promise<CustomFilter[]> {
     const ownershipCondition = (() => {
       if (input.clientId && input.userId) {
@@ -661,6 +989,51 @@ export class ModerationService {
     return { embeddingSimilarityContext, autoActionMatch, commentEmbedding };
   }
 
+  // ═══════════════════════════════════════════════════════════════════════
+  // Degraded mode classifier (LLM unavailable)
+  // ═══════════════════════════════════════════════════════════════════════
+
+  /**
+   * Deterministic fallback for when the LLM provider is down. Signals in priority order:
+   * regex pattern detection and blacklist keywords (both via patternResult; whitelist
+   * keywords already exited at 2e), watchlist matches, similarity to previously reviewed
+   * comments. Degraded decisions hide rather than delete (see executeDeleteUnlessDegraded).
+   */
+  private classifyHeuristically(
+    patternResult: { category: CommentCategory | null; details: string },
+    watchlistCheck: WatchlistCheckResult,
+    embeddingSimilarityContext: EmbeddingSimilarityContext | undefined,
+    autoActionMatch: EmbeddingAutoActionMatch | null
+  ): LLMClassificationResult {
+    const classify = (category: CommentCategory, severity: number, confidence: number, reason: string): LLMClassificationResult => ({
+      category,
+      severity,
+      confidence,
+      rationale: `[DEGRADED MODE] ${reason}`,
+      extractedIdentifiers: []
+    });
+
+    if (patternResult.category) {
+      return classify(patternResult.category, 75, 0.75, `Pattern detection: ${patternResult.details}`);
+    }
+    if (watchlistCheck.matches.length > 0) {
+      return classify(CommentCategory.THREAT, 70, 0.7,
+        `Commenter matches watchlist entry (${watchlistCheck.matches.map(m => m.name).join(', ')})`);
+    }
+    if (autoActionMatch) {
+      const category = Object.values(CommentCategory).includes(autoActionMatch.match.category as CommentCategory)
+        ? autoActionMatch.match.category as CommentCategory
+        : CommentCategory.HARASSMENT;
+      return classify(category, 65, Math.min(autoActionMatch.match.similarity, 0.85),
+        `${Math.round(autoActionMatch.match.similarity * 100)}% similar to a previously actioned comment`);
+    }
+    if (embeddingSimilarityContext?.isSimilarToAllowed) {
+      return classify(CommentCategory.BENIGN, 0, embeddingSimilarityContext.similarityScore ?? 0.6,
+        'Similar to a previously allowed comment');
+    }
+    return classify(CommentCategory.BENIGN, 0, 0.5, 'No heuristic signals matched');
+  }
+
   // ═══════════════════════════════════════════════════════════════════════
   // Pattern detection (in-process, no I/O)
   // ═══════════════════════════════════════════════════════════════════════
@@ -802,7 +1175,7 @@ export class ModerationService {
 
     console.error(`⚠️  LLM returned invalid category: "${llmResult.category}". Re-running...`);
     await new Promise(resolve => setTimeout(resolve, 1000));
-    const retry = await llmService.classifyComment(input.commentText, customFilters);
+    const retry = await llmService.classifyComment(input.commentText, customFilters, 0, undefined, input.threadContext);
 
     if (!retry.category || typeof retry.category !== 'string' || !validCategories.includes(retry.category)) {
       console.error(`❌ Still invalid after retry: "${retry.category}". Defaulting to BENIGN.`);
@@ -852,7 +1225,7 @@ export class ModerationService {
     // Semantic match for descriptive prompts
     const alreadyMatchedIds = new Set(matchingCustomFilters.map(f => f.id));
     const filtersNeedingSemanticCheck = filtersWithActions.filter(f => !alreadyMatchedIds.has(f.id));
-    if (filtersNeedingSemanticCheck.length > 0) {
+    if (filtersNeedingSemanticCheck.length > 0 && !input.degradedMode) {
       const semanticMatchIds = await llmService.matchCommentToFilterDescriptions(
         input.commentText,
         filtersNeedingSemanticCheck.map(f => ({ id: f.id, name: f.name, prompt: f.prompt || '' }))
@@ -864,12 +1237,21 @@ export class ModerationService {
       }
     }
 
-    if (matchingCustomFilters.length === 0) return null;
+    if (matchingCustomFilters.length === 0) {
+      this.traceStep(input, '4e', 'CUSTOM_FILTER', false, { filterCount: filtersWithActions.length });
+      return null;
+    }
 
     const filterWithDelete = matchingCustomFilters.find(f => f.autoDelete);
     const filterWithHide = matchingCustomFilters.find(f => f.autoHide);
     const filterWithFlag = matchingCustomFilters.find(f => f.autoFlag);
 
+    // Auto-flag only annotates the rationale, so it doesn't count as firing
+    this.traceStep(input, '4e', 'CUSTOM_FILTER', !!(filterWithDelete || filterWithHide), {
+      filterCount: filtersWithActions.length,
+      matchedFilters: matchingCustomFilters.map(f => f.name)
+    });
+
     const customFilterRiskScore = this.getRiskScoreForCustomFilterMatch(
       matchingCustomFilters,
       filterWithDelete ? 'delete' : filterWithHide ? 'hide' : 'flag'
@@ -878,11 +1260,11 @@ export class ModerationService {
     if (filterWithDelete) {
       const filterNames = matchingCustomFilters.filter(f => f.autoDelete).map(f => f.name).join(', ');
       console.log(`🔧 Custom filter(s) applying auto-delete: ${filterNames}`);
-      await this.executeDelete(input);
+      const action = await this.executeDeleteUnlessDegraded(input);
       llmResult.rationale = `Auto-deleted by custom filter(s): ${filterNames}. ${llmResult.rationale}`;
-      await this.logModeration(input, llmResult, customFilterRiskScore, ActionTaken.DELETED);
+      await this.logModeration(input, llmResult, customFilterRiskScore, action);
       return {
-        action: ActionTaken.DELETED,
+        action,
         reason: 'CUSTOM_FILTER_AUTO_DELETE',
         llmClassification: llmResult,
         riskScore: customFilterRiskScore
@@ -918,18 +1300,62 @@ export class ModerationService {
     riskScore: number,
     action: ActionTaken
   ): Promise<void> {
+    if (this.wasTracked(input)) return;
+
     const isOwner = await this.isCommenterAccountOwner(input);
-    if (!isOwner && input.instagramAccountId) {
+    if (!isOwner && (input.instagramAccountId || input.facebookPageId)) {
       await suspiciousAccountService.trackAccount({
         instagramAccountId: input.instagramAccountId,
+        facebookPageId: input.facebookPageId,
         commenterId: input.commenterId,
         commenterUsername: input.commenterUsername,
         commentId: input.commentId,
         category: llmResult.category,
         riskScore,
-        wasDeleted: action === ActionTaken.DELETED
+        wasDeleted: action === ActionTaken.DELETED && !input.shadowMode,
+        shadowMode: input.shadowMode
       });
     }
+
+    // Contribute deleted blackmail/threats to the global threat network (agency opt-in);
+    // heuristic verdicts are never shared
+    if (
+      !isOwner && action === ActionTaken.DELETED && !input.shadowMode && !input.degradedMode &&
+      REPORTABLE_CATEGORIES.includes(llmResult.category)
+    ) {
+      try {
+        await threatNetworkService.reportOffender({
+          clientId: input.clientId,
+          userId: input.userId,
+          commenterId: input.commenterId,
+          commenterUsername: input.commenterUsername,
+          category: llmResult.category,
+          severity: llmResult.severity,
+          riskScore
+        });
+      } catch (error) {
+        console.error('Threat network report failed:', error);
+      }
+    }
+  }
+
+  /**
+   * Record a global threat commenting on this account; alerts the agency on first sighting
+   */
+  private async recordThreatNetworkSighting(globalThreatId: string, input: ModerateCommentInput): Promise<void> {
+    if (input.shadowMode) return;
+    try {
+      await threatNetworkService.recordSighting(globalThreatId, {
+        commentId: input.commentId,
+        commenterUsername: input.commenterUsername,
+        instagramAccountId: input.instagramAccountId,
+        facebookPageId: input.facebookPageId,
+        clientId: input.clientId,
+        userId: input.userId
+      });
+    } catch (error) {
+      console.error('Threat network sighting failed:', error);
+    }
   }
 
   // ═══════════════════════════════════════════════════════════════════════
@@ -962,13 +1388,28 @@ export class ModerationService {
   // Utility methods
   // ═══════════════════════════════════════════════════════════════════════
 
+  /**
+   * A degraded decision already ran post-moderation tracking and watchlist detection for
+   * this comment; a lockdown-hidden one stopped before them
+   */
+  private wasTracked(input: ModerateCommentInput): boolean {
+    return input.reEvaluation === 'DEGRADED';
+  }
+
   private normalizeUsername(s: string): string {
     if (!s || typeof s !== 'string') return '';
     return s.toLowerCase().trim().replace(/^@/, '');
   }
 
   private async isCommenterAccountOwner(input: ModerateCommentInput): Promise<boolean> {
-    if (!input.instagramAccountId) return false;
+    if (!input.instagramAccountId) {
+      if (!input.facebookPageId) return false;
+      const page = await db.query.facebookPages.findFirst({
+        where: eq(facebookPages.id, input.facebookPageId),
+        columns: { facebookPageId: true }
+      });
+      return !!page && input.commenterId === page.facebookPageId;
+    }
 
     const account = await db.query.instagramAccounts.findFirst({
       where: eq(instagramAccounts.id, input.instagramAccountId),
@@ -996,6 +1437,10 @@ export class ModerationService {
   // ═══════════════════════════════════════════════════════════════════════
 
   private async executeHide(input: ModerateCommentInput): Promise<void> {
+    if (input.shadowMode) {
+      console.log(`[SHADOW MODE] Would hide comment ${input.igCommentId || input.fbCommentId} on platform`);
+      return;
+    }
     try {
       if (!this.testMode) {
         if (input.igCommentId && input.accessToken) {
@@ -1023,7 +1468,54 @@ export class ModerationService {
     }
   }
 
+  /**
+   * Reverse an earlier hide (re-evaluation found the comment benign)
+   */
+  private async executeUnhide(input: ModerateCommentInput): Promise<void> {
+    try {
+      if (!this.testMode) {
+        if (input.igCommentId && input.accessToken) {
+          const success = await instagramService.unhideComment(input.igCommentId, input.accessToken);
+          if (!success) {
+            console.warn(`[Moderation] Instagram unhideComment failed for comment ${input.commentId}`);
+            return;
+          }
+        } else if (input.fbCommentId && input.accessToken) {
+          const success = await facebookService.hideComment(input.fbCommentId, input.accessToken, false);
+          if (!success) {
+            console.warn(`[Moderation] Facebook unhide failed for comment ${input.commentId}`);
+            return;
+          }
+        }
+      }
+      await db
+        .update(comments)
+        .set({ isHidden: false, hiddenAt: null })
+        .where(eq(comments.id, input.commentId));
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      console.error('Failed to unhide comment:', errorMessage);
+    }
+  }
+
+  /**
+   * Delete the comment, or only hide it in degraded mode: a heuristic verdict is re-evaluated
+   * by the LLM later, and a delete can't be undone. Returns the action taken.
+   */
+  private async executeDeleteUnlessDegraded(input: ModerateCommentInput): Promise<ActionTaken> {
+    if (input.degradedMode) {
+      await this.executeHide(input);
+      return ActionTaken.FLAGGED;
+    }
+    await this.executeDelete(input);
+    return ActionTaken.DELETED;
+  }
+
   private async executeDelete(input: ModerateCommentInput): Promise<void> {
+    if (input.shadowMode) {
+      console.log(`[SHADOW MODE] Would delete comment ${input.igCommentId || input.fbCommentId} from platform`);
+      return;
+    }
     try {
       if (this.testMode) {
         console.log(`[TEST MODE] Would delete comment ${input.igCommentId || input.fbCommentId} from platform`);
@@ -1184,12 +1676,17 @@ export class ModerationService {
         rationale: llmResult.rationale,
         riskScore,
         riskFormula: null,
-        modelName: 'llama-3.1-70b-versatile',
+        modelName: ('model' in llmResult && llmResult.model) || llmService.modelName,
         modelVersion: null,
         actionTaken: (action === ActionTaken.DELETED ? 'DELETED' :
           action === ActionTaken.FLAGGED ? 'FLAGGED' : 'BENIGN') as 'DELETED' | 'FLAGGED' | 'BENIGN',
         actionTimestamp: new Date(),
-        isDegradedMode: false
+        isDegradedMode: input.degradedMode === true,
+        isShadowMode: input.shadowMode === true,
+        isClassificationCacheHit: !!input.classificationCacheSourceCommentId,
+        classificationCacheSourceCommentId: input.classificationCacheSourceCommentId ?? null,
+        settingsVersionId: input.settingsVersionId ?? null,
+        decisionTrace: input.trace ?? null
       })
       .returning();
 
@@ -1198,16 +1695,18 @@ export class ModerationService {
       rawComment: input.commentText,
       rawCommenterUsername: input.commenterUsername,
       rawCommenterId: input.commenterId,
-      llmRequestJson: null,
+      // The thread context shaped the classification, so it is preserved with the evidence
+      llmRequestJson: input.threadContext ? { commentText: input.commentText, threadContext: input.threadContext } : null,
       llmResponseJson: JSON.stringify(llmResult),
       formulaUsed: `risk_score = ${riskScore}`,
       riskVariables: null,
       instagramApiResponse: null,
-      deletionConfirmed: action === ActionTaken.DELETED
+      deletionConfirmed: action === ActionTaken.DELETED && !input.shadowMode
     });
 
-    // Check + track comment moderation usage for Autumn billing (only non-benign actions)
-    if (action !== ActionTaken.BENIGN) {
+    // Check + track comment moderation usage for Autumn billing (only non-benign actions,
+    // once per comment)
+    if (action !== ActionTaken.BENIGN && !input.reEvaluation) {
       resolveBillingCustomerId({
         userId: input.userId,
         clientId: input.clientId,
@@ -1227,29 +1726,27 @@ export class ModerationService {
     if (!isCommenterOwner && llmResult.extractedIdentifiers && llmResult.extractedIdentifiers.length > 0) {
       console.log(`🔍 Extracting ${llmResult.extractedIdentifiers.length} identifiers from comment:`, llmResult.extractedIdentifiers);
 
-      const accountId = input.instagramAccountId ?? input.facebookPageId;
-
       // Skip identifier extraction if no valid account ID is available
-      if (!accountId) {
+      if (!input.instagramAccountId && !input.facebookPageId) {
         console.warn('⚠️ No accountId available for identifier extraction, skipping');
         return;
       }
 
       let account = await db.query.suspiciousAccounts.findFirst({
         where: and(
-          eq(suspiciousAccounts.instagramAccountId, accountId),
+          surfaceCondition(input),
           eq(suspiciousAccounts.commenterId, input.commenterId)
         )
       });
 
       if (!account) {
         const [newAccount] = await db.insert(suspiciousAccounts).values({
-          instagramAccountId: accountId,
+          ...surfaceValues(input),
           commenterId: input.commenterId,
           commenterUsername: input.commenterUsername,
           totalComments: 1,
           flaggedComments: riskScore > 30 ? 1 : 0,
-          deletedComments: action === ActionTaken.DELETED ? 1 : 0,
+          deletedComments: action === ActionTaken.DELETED && !input.shadowMode ? 1 : 0,
           blackmailCount: llmResult.category === CommentCategory.BLACKMAIL ? 1 : 0,
           threatCount: llmResult.category === CommentCategory.THREAT ? 1 : 0,
           harassmentCount: llmResult.category === CommentCategory.HARASSMENT ? 1 : 0,
@@ -1279,6 +1776,13 @@ export class ModerationService {
       if (identifierInserts.length > 0) {
         console.log(`✅ Storing ${identifierInserts.length} identifiers for account ${account.id}`);
         await db.insert(extractedIdentifiers).values(identifierInserts);
+
+        // Link to the tenant's other handles that share a payment or contact identifier
+        try {
+          await abuserProfileService.linkBySharedIdentifiers(account.id, identifierInserts);
+        } catch (linkError) {
+          console.error('Failed to link abuser profile by shared identifiers:', linkError);
+        }
       }
 
       // Detect mastermind mentions
@@ -1391,10 +1895,128 @@ export class ModerationService {
   // Moderation settings resolution
   // ═══════════════════════════════════════════════════════════════════════
 
+  /**
+   * Moderation settings for a comment: the account's scheduled moderation profile (if one is
+   * active) overlays its settings, and the lockdown of an active attack incident goes on top
+   */
   private async getModerationSettings(
     clientId?: string,
     userId?: string,
     instagramAccountId?: string
+  ): Promise<ModerationSettingsResult> {
+    let settings = await this.resolveModerationSettings(clientId, userId, instagramAccountId);
+    if (!instagramAccountId) return settings;
+
+    try {
+      const profile = await moderationProfileService.getActiveProfile(instagramAccountId);
+      if (profile) settings = moderationProfileService.applyProfile(settings, profile);
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      console.error('Error resolving moderation profile:', errorMessage);
+    }
+
+    try {
+      const lockdown = await incidentService.getActiveLockdown(instagramAccountId);
+      if (lockdown) return this.applyAttackLockdown(settings, lockdown);
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      console.error('Error fetching attack lockdown:', errorMessage);
+    }
+    return settings;
+  }
+
+  /**
+   * TIGHTEN: act on lower confidence and risk, hide (rather than only flag) every harmful category
+   * and auto-moderate on looser similarity. Never loosens a setting that is already stricter.
+   * HIDE_NON_WHITELISTED is enforced in the pipeline (2f); NONE only records the incident.
+   */
+  private applyAttackLockdown(
+    settings: ModerationSettingsResult,
+    lockdown: AttackLockdown
+  ): ModerationSettingsResult {
+    if (lockdown.mode !== 'TIGHTEN') {
+      return { ...settings, attackLockdown: lockdown };
+    }
+    const atMost = (value: number | undefined, limit: number): number => Math.min(value ?? limit, limit);
+    return {
+      ...settings,
+      attackLockdown: lockdown,
+      confidenceDeleteThreshold: atMost(settings.confidenceDeleteThreshold, 80),
+      confidenceHideThreshold: atMost(settings.confidenceHideThreshold, 50),
+      flagHideBlackmail: true,
+      flagHideThreat: true,
+      flagHideHarassment: true,
+      flagHideDefamation: true,
+      flagHideSpam: true,
+      flagHideBlackmailThreshold: atMost(settings.flagHideBlackmailThreshold, 40),
+      flagHideThreatThreshold: atMost(settings.flagHideThreatThreshold, 40),
+      flagHideHarassmentThreshold: atMost(settings.flagHideHarassmentThreshold, 40),
+      flagHideDefamationThreshold: atMost(settings.flagHideDefamationThreshold, 40),
+      flagHideSpamThreshold: atMost(settings.flagHideSpamThreshold, 40),
+      similarityAutoModEnabled: true,
+      similarityThreshold: atMost(settings.similarityThreshold, 75)
+    };
+  }
+
+  /**
+   * Report a moderated comment to the attack detector; on a burst, open an incident
+   * with the account's configured attack response. While one is open, comments it
+   * actions are recorded on its timeline.
+   */
+  private async observeForAttack(
+    input: ModerateCommentInput,
+    result: ModerationResult,
+    trace: DecisionTraceStep[]
+  ): Promise<void> {
+    if (!input.instagramAccountId || this.testMode) return;
+
+    // Comments actioned while an incident is open go on its timeline
+    const lockdownIncidentId = trace.find(step => step.name === 'ATTACK_LOCKDOWN')?.inputs?.incidentId;
+    const actioned = result.action !== ActionTaken.BENIGN && result.action !== ActionTaken.APPROVED;
+    if (typeof lockdownIncidentId === 'string' && actioned) {
+      await incidentService.addEvent(lockdownIncidentId, {
+        eventType: 'COMMENT_ACTIONED',
+        isAutomatic: true,
+        instagramAccountId: input.instagramAccountId,
+        postId: input.postId,
+        commentId: input.commentId,
+        commenterId: input.commenterId,
+        commenterUsername: input.commenterUsername,
+        details: {
+          action: result.action,
+          reason: result.reason ?? null,
+          category: result.llmClassification?.category ?? null
+        }
+      });
+    }
+
+    const burst = await attackDetectorService.observe({
+      instagramAccountId: input.instagramAccountId,
+      postId: input.postId,
+      commentId: input.commentId,
+      commenterId: input.commenterId,
+      identifiers: (result.llmClassification?.extractedIdentifiers ?? []).map(i => i.value)
+    });
+    if (!burst) return;
+
+    const settings = await this.resolveModerationSettings(input.clientId, input.userId, input.instagramAccountId);
+    const incident = await incidentService.openAttackIncident({
+      ...burst,
+      lockdownMode: settings.attackResponse ?? 'TIGHTEN'
+    });
+    if (incident) {
+      console.warn(`🚨 Coordinated attack detected on account ${input.instagramAccountId}: incident ${incident.id} opened (lockdown: ${incident.lockdownMode}, ${burst.detection.newCommenterCount} new commenters)`);
+    }
+  }
+
+  /**
+   * The account's own settings (account → agency client rule → global → defaults),
+   * without a scheduled profile or attack lockdown on top
+   */
+  async resolveModerationSettings(
+    clientId?: string,
+    userId?: string,
+    instagramAccountId?: string
   ): Promise<ModerationSettingsResult> {
     try {
       let settingsQuery: typeof moderationSettings.$inferSelect[] | undefined;
@@ -1513,7 +2135,12 @@ export class ModerationService {
           confidenceDeleteThreshold: settings.confidenceDeleteThreshold ?? 90,
           confidenceHideThreshold: settings.confidenceHideThreshold ?? 70,
           similarityAutoModEnabled: settings.similarityAutoModEnabled ?? true,
-          similarityThreshold: settings.similarityThreshold ?? 85
+          similarityThreshold: settings.similarityThreshold ?? 85,
+          shadowModeEnabled: settings.shadowModeEnabled ?? false,
+          enableKeywordFilter: settings.enableKeywordFilter ?? true,
+          threadContextLevel: settings.threadContextLevel ?? 'THREAD',
+          attackResponse: settings.attackResponse ?? 'TIGHTEN',
+          settingsVersionId: settings.currentVersionId ?? null
         };
       }
     } catch (error: unknown) {
@@ -1557,7 +2184,12 @@ export class ModerationService {
       confidenceDeleteThreshold: 90,
       confidenceHideThreshold: 70,
       similarityAutoModEnabled: true,
-      similarityThreshold: 85
+      similarityThreshold: 85,
+      shadowModeEnabled: false,
+      enableKeywordFilter: true,
+      threadContextLevel: 'THREAD',
+      attackResponse: 'TIGHTEN',
+      settingsVersionId: null
     };
   }
 }
@@ -0,0 +1,204 @@
+import { db } from '../db';
+import {
+  moderationProfiles,
+  moderationProfileSchedules,
+  ModerationProfile,
+  ModerationProfileSchedule
+} from '../db/schema';
+import { eq, and } from 'drizzle-orm';
+import { ModerationProfileOverrides, ModerationSettingsResult } from '../types';
+
+export type ProfileScheduleType = ModerationProfileSchedule['scheduleType'];
+
+export interface ProfileScheduleInput {
+  scheduleType: ProfileScheduleType;
+  startsAt?: Date | null;
+  endsAt?: Date | null;
+  daysOfWeek?: unknown;
+  startTime?: string | null;
+  endTime?: string | null;
+  timezone?: string;
+}
+
+export interface ActiveProfileMatch {
+  profile: ModerationProfile;
+  schedule: ModerationProfileSchedule;
+}
+
+const BOOLEAN_OVERRIDE_KEYS = [
+  'flagHideBlackmail', 'flagHideThreat', 'flagHideHarassment', 'flagHideDefamation', 'flagHideSpam',
+  'flagDeleteBlackmail', 'flagDeleteThreat', 'flagDeleteHarassment', 'flagDeleteDefamation', 'flagDeleteSpam',
+  'similarityAutoModEnabled'
+] as const;
+
+// All percentages (0-100)
+const NUMBER_OVERRIDE_KEYS = [
+  'globalThreshold',
+  'blackmailThreshold', 'threatThreshold', 'harassmentThreshold', 'defamationThreshold', 'spamThreshold',
+  'flagHideBlackmailThreshold', 'flagHideThreatThreshold', 'flagHideHarassmentThreshold',
+  'flagHideDefamationThreshold', 'flagHideSpamThreshold',
+  'flagDeleteBlackmailThreshold', 'flagDeleteThreatThreshold', 'flagDeleteHarassmentThreshold',
+  'flagDeleteDefamationThreshold', 'flagDeleteSpamThreshold',
+  'confidenceDeleteThreshold', 'confidenceHideThreshold',
+  'similarityThreshold'
+] as const;
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/;
+
+const toMinutes = (time: string): number => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+/**
+ * Moderation Profile Service
+ * Named overlays on moderation_settings ("Live stream", "Quiet hours") that apply to an
+ * Instagram account while one of their schedules is active. Resolved at classification time,
+ * so a schedule takes effect the minute it starts without touching the account's own settings.
+ */
+export class ModerationProfileService {
+  /**
+   * Validate profile overrides (or other partial threshold settings, named by field).
+   * Returns an error message, or null if valid.
+   */
+  validateOverrides(overrides: unknown, field = 'overrides'): string | null {
+    if (!overrides || typeof overrides !== 'object' || Array.isArray(overrides)) {
+      return `${field} must be an object`;
+    }
+    const entries = Object.entries(overrides);
+    if (entries.length === 0) {
+      return `${field} must change at least one setting`;
+    }
+    for (const [key, value] of entries) {
+      if ((BOOLEAN_OVERRIDE_KEYS as readonly string[]).includes(key)) {
+        if (typeof value !== 'boolean') return `${key} must be a boolean`;
+      } else if ((NUMBER_OVERRIDE_KEYS as readonly string[]).includes(key)) {
+        if (typeof value !== 'number' || !Number.isInteger(value) || value < 0 || value > 100) {
+          return `${key} must be an integer between 0 and 100`;
+        }
+      } else {
+        return `${key} cannot be overridden`;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Validate a schedule. Returns an error message, or null if valid.
+   */
+  validateSchedule(schedule: ProfileScheduleInput): string | null {
+    if (schedule.timezone !== undefined && !this.isValidTimezone(schedule.timezone)) {
+      return 'Invalid timezone';
+    }
+
+    if (schedule.scheduleType === 'ONE_TIME') {
+      if (!schedule.startsAt || !schedule.endsAt || isNaN(schedule.startsAt.getTime()) || isNaN(schedule.endsAt.getTime())) {
+        return 'startsAt and endsAt are required for a ONE_TIME schedule';
+      }
+      if (schedule.endsAt <= schedule.startsAt) {
+        return 'endsAt must be after startsAt';
+      }
+      return null;
+    }
+
+    if (schedule.scheduleType === 'RECURRING') {
+      const days = schedule.daysOfWeek;
+      if (!Array.isArray(days) || days.length === 0 || !days.every(d => Number.isInteger(d) && d >= 0 && d <= 6)) {
+        return 'daysOfWeek must be a non-empty array of weekdays (0 = Sunday to 6 = Saturday)';
+      }
+      if (!schedule.startTime || !TIME_PATTERN.test(schedule.startTime) || !schedule.endTime || !TIME_PATTERN.test(schedule.endTime)) {
+        return 'startTime and endTime (HH:MM) are required for a RECURRING schedule';
+      }
+      return null;
+    }
+
+    return 'scheduleType must be ONE_TIME or RECURRING';
+  }
+
+  private isValidTimezone(timezone: string): boolean {
+    try {
+      new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Whether a schedule is in effect at a given instant
+   */
+  isScheduleActive(schedule: ModerationProfileSchedule, now: Date): boolean {
+    if (!schedule.isEnabled) return false;
+
+    if (schedule.scheduleType === 'ONE_TIME') {
+      return !!schedule.startsAt && !!schedule.endsAt && schedule.startsAt <= now && now < schedule.endsAt;
+    }
+
+    const days = Array.isArray(schedule.daysOfWeek) ? schedule.daysOfWeek as number[] : [];
+    if (!schedule.startTime || !schedule.endTime || days.length === 0) return false;
+
+    const { weekday, minutes } = this.localTime(now, schedule.timezone);
+    const start = toMinutes(schedule.startTime);
+    const end = toMinutes(schedule.endTime);
+
+    if (start < end) {
+      return days.includes(weekday) && minutes >= start && minutes < end;
+    }
+    // Wraps past midnight: the window opened today, or opened yesterday and hasn't closed yet
+    return (days.includes(weekday) && minutes >= start)
+      || (days.includes((weekday + 6) % 7) && minutes < end);
+  }
+
+  private localTime(now: Date, timezone: string): { weekday: number; minutes: number } {
+    const parts = new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone,
+      weekday: 'short',
+      hour: '2-digit',
+      minute: '2-digit',
+      hourCycle: 'h23'
+    }).formatToParts(now);
+    const part = (type: string): string => parts.find(p => p.type === type)?.value ?? '';
+    const weekday = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'].indexOf(part('weekday'));
+    return { weekday, minutes: parseInt(part('hour'), 10) * 60 + parseInt(part('minute'), 10) };
+  }
+
+  /**
+   * Profile in effect for an account: of the schedules active now, the highest priority
+   * (then the most recently created) wins
+   */
+  async getActiveProfile(instagramAccountId: string, now: Date = new Date()): Promise<ActiveProfileMatch | null> {
+    const rows = await db
+      .select({ schedule: moderationProfileSchedules, profile: moderationProfiles })
+      .from(moderationProfileSchedules)
+      .innerJoin(moderationProfiles, eq(moderationProfileSchedules.profileId, moderationProfiles.id))
+      .where(and(
+        eq(moderationProfileSchedules.instagramAccountId, instagramAccountId),
+        eq(moderationProfileSchedules.isEnabled, true)
+      ));
+
+    const active = rows
+      .filter(row => this.isScheduleActive(row.schedule, now))
+      .sort((a, b) =>
+        b.schedule.priority - a.schedule.priority
+        || b.schedule.createdAt.getTime() - a.schedule.createdAt.getTime()
+      );
+    return active[0] ?? null;
+  }
+
+  /**
+   * Overlay a profile's overrides on resolved settings
+   */
+  applyProfile(settings: ModerationSettingsResult, match: ActiveProfileMatch): ModerationSettingsResult {
+    return {
+      ...settings,
+      ...(match.profile.overrides as ModerationProfileOverrides),
+      activeProfile: {
+        profileId: match.profile.id,
+        name: match.profile.name,
+        scheduleId: match.schedule.id
+      }
+    };
+  }
+}
+
+export const moderationProfileService = new ModerationProfileService();
@@ -17,6 +17,7 @@ import { eq, and } from 'drizzle-orm';
 import { instagramService } from './instagram.service';
 import { facebookService } from './facebook.service';
 import { commentQueue } from '../queue/commentQueue';
+import { commentRevisionService, CommentRevisionSource } from './commentRevision.service';
 import pLimit from 'p-limit';
 
 // Concurrency limits
@@ -64,6 +65,7 @@ export async function pollInstagramAccount(accountId: string, options: PollOptio
   let postsUpdated = 0;
   let commentsNew = 0;
   let commentsUpdated = 0;
+  const revisionSource: CommentRevisionSource = options.forceDeepSync ? 'DEEP_SYNC' : 'POLL';
 
   try {
     // Determine post limit based on mode
@@ -148,14 +150,17 @@ export async function pollInstagramAccount(accountId: string, options: PollOptio
           const isHidden = comment.hidden === true;
 
           if (existing) {
-            const textChanged = existing.text !== comment.text;
             const hiddenChanged = existing.isHidden !== isHidden;
+            // Edits go through the revision history, which also updates comments.text
+            const textChanged = existing.text !== comment.text &&
+              await commentRevisionService.recordEdit(existing.id, comment.text, revisionSource);
             if (textChanged || hiddenChanged) {
-               await db.update(comments).set({
-                text: comment.text,
-                isHidden: isHidden,
-                ...(hiddenChanged && isHidden ? { hiddenAt: new Date() } : {})
-              }).where(eq(comments.id, existing.id));
+              if (hiddenChanged) {
+                await db.update(comments).set({
+                  isHidden: isHidden,
+                  ...(isHidden ? { hiddenAt: new Date() } : {})
+                }).where(eq(comments.id, existing.id));
+              }
               commentsUpdated++;
               
               if (textChanged) {
@@ -206,14 +211,17 @@ export async function pollInstagramAccount(accountId: string, options: PollOptio
           const isHidden = reply.hidden === true;
 
           if (existing) {
-             const textChanged = existing.text !== reply.text;
-             const hiddenChanged = existing.isHidden !== isHidden;
-             if (textChanged || hiddenChanged) {
-               await db.update(comments).set({
-                text: reply.text,
-                isHidden: isHidden,
-                ...(hiddenChanged && isHidden ? { hiddenAt: new Date() } : {})
-              }).where(eq(comments.id, existing.id));
+            const hiddenChanged = existing.isHidden !== isHidden;
+            // Edits go through the revision history, which also updates comments.text
+            const textChanged = existing.text !== reply.text &&
+              await commentRevisionService.recordEdit(existing.id, reply.text, revisionSource);
+            if (textChanged || hiddenChanged) {
+              if (hiddenChanged) {
+                await db.update(comments).set({
+                  isHidden: isHidden,
+                  ...(isHidden ? { hiddenAt: new Date() } : {})
+                }).where(eq(comments.id, existing.id));
+              }
               commentsUpdated++;
               
               if (textChanged) {
@@ -226,7 +234,7 @@ export async function pollInstagramAccount(accountId: string, options: PollOptio
                   igCommentId: reply.id
                 });
               }
-             }
+            }
           } else {
             let parentDbId: string | undefined;
             const parentExisting = existingMap.get(reply.parentCommentId!);
@@ -264,9 +272,24 @@ export async function pollInstagramAccount(accountId: string, options: PollOptio
           }
         }
 
+        // 5. Deep sync: top-level comments the API no longer returns were deleted by the commenter.
+        // getComments returns [] on API errors and reply fetches fail silently, so an empty
+        // response and replies are never treated as deletions.
+        if (options.forceDeepSync && topLevelApi.length > 0) {
+          const apiIds = new Set(apiComments.flatMap(c => [c.id, c.legacy_instagram_comment_id].filter((id): id is string => !!id)));
+          for (const existing of existingComments) {
+            if (!existing.igCommentId || existing.parentCommentId || existing.isDeleted || apiIds.has(existing.igCommentId)) continue;
+            if (await commentRevisionService.recordDeletion(existing.id, revisionSource)) {
+              commentsUpdated++;
+            }
+          }
+        }
+
         if (jobsToEnqueue.length > 0) {
-           await Promise.all(jobsToEnqueue.map(job => 
-              commentQueue.enqueue('CLASSIFY_COMMENT', {
+           // Deep sync is backfill: it must not starve live (webhook/poll) comments in the queue
+           await commentQueue.enqueueBatch(jobsToEnqueue.map(job => ({
+              type: 'CLASSIFY_COMMENT',
+              data: {
                 commentId: job.commentId,
                 commentText: job.commentText,
                 commenterId: job.commenterId,
@@ -275,8 +298,8 @@ export async function pollInstagramAccount(accountId: string, options: PollOptio
                 instagramAccountId: accountId,
                 igCommentId: job.igCommentId,
                 accessToken
-              })
-           ));
+              }
+           })), { priority: options.forceDeepSync ? 'BACKFILL' : 'NORMAL' });
         }
 
       } catch (err) {
@@ -306,6 +329,7 @@ export async function pollFacebookPage(pageId: string, options: PollOptions = {}
   let postsUpdated = 0;
   let commentsNew = 0;
   let commentsUpdated = 0;
+  const revisionSource: CommentRevisionSource = options.forceDeepSync ? 'DEEP_SYNC' : 'POLL';
 
   try {
     const fbPosts = await facebookService.getPagePublishedPosts(facebookPageId, accessToken);
@@ -376,14 +400,17 @@ export async function pollFacebookPage(pageId: string, options: PollOptions = {}
            const isHidden = comment.is_hidden || false;
            
            if (existing) {
-             const textChanged = existing.text !== comment.message;
              const hiddenChanged = existing.isHidden !== isHidden;
+             // Edits go through the revision history, which also updates comments.text
+             const textChanged = existing.text !== comment.message &&
+                 await commentRevisionService.recordEdit(existing.id, comment.message, revisionSource);
              if (textChanged || hiddenChanged) {
-                 await db.update(comments).set({
-                    text: comment.message,
-                    isHidden: isHidden,
-                    ...(hiddenChanged && isHidden ? { hiddenAt: new Date() } : {})
-                 }).where(eq(comments.id, existing.id));
+                 if (hiddenChanged) {
+                    await db.update(comments).set({
+                       isHidden: isHidden,
+                       ...(isHidden ? { hiddenAt: new Date() } : {})
+                    }).where(eq(comments.id, existing.id));
+                 }
                  commentsUpdated++;
 
                  if (textChanged) {
@@ -425,14 +452,17 @@ export async function pollFacebookPage(pageId: string, options: PollOptions = {}
            const isHidden = reply.is_hidden || false;
 
            if (existing) {
-             const textChanged = existing.text !== reply.message;
              const hiddenChanged = existing.isHidden !== isHidden;
+             // Edits go through the revision history, which also updates comments.text
+             const textChanged = existing.text !== reply.message &&
+                 await commentRevisionService.recordEdit(existing.id, reply.message, revisionSource);
               if (textChanged || hiddenChanged) {
-                 await db.update(comments).set({
-                    text: reply.message,
-                    isHidden: isHidden,
-                    ...(hiddenChanged && isHidden ? { hiddenAt: new Date() } : {})
-                 }).where(eq(comments.id, existing.id));
+                 if (hiddenChanged) {
+                    await db.update(comments).set({
+                       isHidden: isHidden,
+                       ...(isHidden ? { hiddenAt: new Date() } : {})
+                    }).where(eq(comments.id, existing.id));
+                 }
                  commentsUpdated++;
 
                  if (textChanged) {
@@ -486,8 +516,10 @@ export async function pollFacebookPage(pageId: string, options: PollOptions = {}
         }
 
         if (jobsToEnqueue.length > 0) {
-           await Promise.all(jobsToEnqueue.map(job => 
-              commentQueue.enqueue('CLASSIFY_COMMENT', {
+           // Deep sync is backfill: it must not starve live (webhook/poll) comments in the queue
+           await commentQueue.enqueueBatch(jobsToEnqueue.map(job => ({
+              type: 'CLASSIFY_COMMENT',
+              data: {
                 commentId: job.commentId,
                 commentText: job.commentText,
                 commenterId: job.commenterId,
@@ -496,8 +528,8 @@ export async function pollFacebookPage(pageId: string, options: PollOptions = {}
                 facebookPageId: pageId,
                 fbCommentId: job.fbCommentId,
                 accessToken
-              })
-           ));
+              }
+           })), { priority: options.forceDeepSync ? 'BACKFILL' : 'NORMAL' });
         }
 
       } catch (postErr) {
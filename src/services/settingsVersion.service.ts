@@ -0,0 +1,257 @@
+import { db } from '../db';
+import {
+  moderationSettings,
+  moderationSettingsVersions,
+  ModerationSettings,
+  ModerationSettingsVersion
+} from '../db/schema';
+import { eq, and, desc, isNull, sql, getTableColumns, SQL } from 'drizzle-orm';
+import { PgColumn } from 'drizzle-orm/pg-core';
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+export type SettingsChangeType = 'ORIGINAL' | 'CREATED' | 'UPDATED' | 'DELETED' | 'ROLLED_BACK';
+
+export type SettingsSnapshot = Record<string, unknown>;
+
+export type SettingsDiff = Record<string, { from: unknown; to: unknown }>;
+
+export interface SettingsScope {
+  clientId: string | null;
+  userId: string | null;
+  managedClientId: string | null;
+  instagramAccountId: string | null;
+}
+
+export interface SettingsOwner {
+  userId?: string;
+  clientId?: string;
+}
+
+export interface SettingsActor {
+  userId: string | null;
+  clientId: string | null;
+}
+
+export interface SettingsChange {
+  before: ModerationSettings | null;
+  after: ModerationSettings | null;
+  changeType: Exclude<SettingsChangeType, 'ORIGINAL'>;
+  actor: SettingsActor;
+  rolledBackToVersionId?: string;
+}
+
+// Identity and bookkeeping columns: everything else on moderation_settings is versioned
+const UNVERSIONED_FIELDS = new Set([
+  'id', 'clientId', 'userId', 'managedClientId', 'instagramAccountId', 'currentVersionId', 'createdAt', 'updatedAt'
+]);
+
+const VERSIONED_FIELDS = Object.keys(getTableColumns(moderationSettings)).filter(field => !UNVERSIONED_FIELDS.has(field));
+
+// Scope columns are nullable, and null must match null
+const matchesScope = (column: PgColumn, value: string | null): SQL =>
+  value ? eq(column, value) : isNull(column);
+
+/**
+ * Moderation Settings Version Service
+ * Records every change to a moderation_settings row (who, when, what changed) and rolls
+ * settings back to an earlier version. The first tracked change to a row that predates
+ * versioning also records its prior state as an ORIGINAL version, so it can be restored.
+ */
+export class SettingsVersionService {
+  snapshot(settings: ModerationSettings): SettingsSnapshot {
+    const row = settings as unknown as Record<string, unknown>;
+    return Object.fromEntries(VERSIONED_FIELDS.map(field => [field, row[field] ?? null]));
+  }
+
+  diff(before: SettingsSnapshot | null, after: SettingsSnapshot | null): SettingsDiff {
+    const changes: SettingsDiff = {};
+    for (const field of VERSIONED_FIELDS) {
+      const from = before ? before[field] ?? null : null;
+      const to = after ? after[field] ?? null : null;
+      if (from !== to) changes[field] = { from, to };
+    }
+    return changes;
+  }
+
+  scopeOf(settings: ModerationSettings): SettingsScope {
+    return {
+      clientId: settings.clientId,
+      userId: settings.userId,
+      managedClientId: settings.managedClientId,
+      instagramAccountId: settings.instagramAccountId
+    };
+  }
+
+  private scopeCondition(scope: SettingsScope): SQL {
+    return and(
+      matchesScope(moderationSettingsVersions.clientId, scope.clientId),
+      matchesScope(moderationSettingsVersions.userId, scope.userId),
+      matchesScope(moderationSettingsVersions.managedClientId, scope.managedClientId),
+      matchesScope(moderationSettingsVersions.instagramAccountId, scope.instagramAccountId)
+    )!;
+  }
+
+  /**
+   * Record a change inside the transaction that made it, and point the row at its new version.
+   * Returns the settings row as saved (after), or null for a deletion.
+   * An update that changes nothing on an already-versioned row records nothing.
+   */
+  async recordChange(tx: Transaction, change: SettingsChange): Promise<ModerationSettings | null> {
+    const { before, after } = change;
+    const settings = after ?? before;
+    if (!settings) return null;
+
+    const beforeSnapshot = before ? this.snapshot(before) : null;
+    const afterSnapshot = after ? this.snapshot(after) : null;
+    const diff = this.diff(beforeSnapshot, afterSnapshot);
+    const untracked = before !== null && !before.currentVersionId;
+
+    if (after && before && Object.keys(diff).length === 0 && !untracked) {
+      return after;
+    }
+
+    const scope = this.scopeOf(settings);
+    const [{ latest }] = await tx
+      .select({ latest: sql<number>`coalesce(max(${moderationSettingsVersions.versionNumber}), 0)::int` })
+      .from(moderationSettingsVersions)
+      .where(this.scopeCondition(scope));
+    let versionNumber = latest;
+
+    if (untracked) {
+      await tx.insert(moderationSettingsVersions).values({
+        ...scope,
+        settingsId: before.id,
+        versionNumber: ++versionNumber,
+        changeType: 'ORIGINAL',
+        actorUserId: null,
+        actorClientId: null,
+        snapshot: beforeSnapshot,
+        diff: {},
+        createdAt: before.updatedAt ?? before.createdAt ?? new Date()
+      });
+    }
+
+    const [version] = await tx
+      .insert(moderationSettingsVersions)
+      .values({
+        ...scope,
+        settingsId: settings.id,
+        versionNumber: ++versionNumber,
+        changeType: change.changeType,
+        actorUserId: change.actor.userId,
+        actorClientId: change.actor.clientId,
+        snapshot: afterSnapshot,
+        diff,
+        rolledBackToVersionId: change.rolledBackToVersionId ?? null
+      })
+      .returning();
+
+    if (!after) return null;
+
+    const [saved] = await tx
+      .update(moderationSettings)
+      .set({ currentVersionId: version.id })
+      .where(eq(moderationSettings.id, after.id))
+      .returning();
+    return saved;
+  }
+
+  private ownerCondition(owner: SettingsOwner): SQL {
+    return owner.clientId
+      ? eq(moderationSettingsVersions.clientId, owner.clientId)
+      : eq(moderationSettingsVersions.userId, owner.userId!);
+  }
+
+  /**
+   * Versions of one of the owner's settings rows, newest first: global (neither target set),
+   * account-specific (instagramAccountId) or an agency's client rule (managedClientId)
+   */
+  async listVersions(
+    owner: SettingsOwner,
+    target: { instagramAccountId: string | null; managedClientId: string | null },
+    options: { limit: number; offset: number }
+  ): Promise<{ versions: ModerationSettingsVersion[]; total: number }> {
+    const where = and(
+      this.ownerCondition(owner),
+      matchesScope(moderationSettingsVersions.instagramAccountId, target.instagramAccountId),
+      matchesScope(moderationSettingsVersions.managedClientId, target.managedClientId)
+    );
+    const [versions, [{ count }]] = await Promise.all([
+      db
+        .select()
+        .from(moderationSettingsVersions)
+        .where(where)
+        .orderBy(desc(moderationSettingsVersions.createdAt), desc(moderationSettingsVersions.versionNumber))
+        .limit(options.limit)
+        .offset(options.offset),
+      db.select({ count: sql<number>`count(*)::int` }).from(moderationSettingsVersions).where(where)
+    ]);
+    return { versions, total: count };
+  }
+
+  /**
+   * A version owned by the given owner (clientId, else userId)
+   */
+  async getVersion(versionId: string, owner: SettingsOwner): Promise<ModerationSettingsVersion | null> {
+    const [version] = await db
+      .select()
+      .from(moderationSettingsVersions)
+      .where(and(eq(moderationSettingsVersions.id, versionId), this.ownerCondition(owner)))
+      .limit(1);
+    return version ?? null;
+  }
+
+  /**
+   * Restore a version's settings to its scope, re-creating the row if it was deleted since.
+   * Recorded as a new ROLLED_BACK version, so a rollback can itself be rolled back.
+   */
+  async rollback(version: ModerationSettingsVersion, actor: SettingsActor): Promise<ModerationSettings> {
+    if (!version.snapshot) {
+      throw new Error('Version has no settings snapshot');
+    }
+    const scope: SettingsScope = {
+      clientId: version.clientId,
+      userId: version.userId,
+      managedClientId: version.managedClientId,
+      instagramAccountId: version.instagramAccountId
+    };
+    const values = version.snapshot as Partial<ModerationSettings>;
+
+    return db.transaction(async (tx) => {
+      const [current] = await tx
+        .select()
+        .from(moderationSettings)
+        .where(and(
+          matchesScope(moderationSettings.clientId, scope.clientId),
+          matchesScope(moderationSettings.userId, scope.userId),
+          matchesScope(moderationSettings.managedClientId, scope.managedClientId),
+          matchesScope(moderationSettings.instagramAccountId, scope.instagramAccountId)
+        ))
+        .limit(1)
+        .for('update');
+
+      const [restored] = current
+        ? await tx
+          .update(moderationSettings)
+          .set({ ...values, updatedAt: new Date() })
+          .where(eq(moderationSettings.id, current.id))
+          .returning()
+        : await tx
+          .insert(moderationSettings)
+          .values({ ...values, ...scope })
+          .returning();
+
+      const saved = await this.recordChange(tx, {
+        before: current ?? null,
+        after: restored,
+        changeType: 'ROLLED_BACK',
+        actor,
+        rolledBackToVersionId: version.id
+      });
+      return saved ?? restored;
+    });
+  }
+}
+
+export const settingsVersionService = new SettingsVersionService();
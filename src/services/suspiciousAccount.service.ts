@@ -1,21 +1,52 @@
 import { db } from '../db';
-import { suspiciousAccounts, accountCommentMap, instagramAccounts } from '../db/schema';
-import { eq, and, or } from 'drizzle-orm';
+import { suspiciousAccounts, accountCommentMap, instagramAccounts, facebookPages, NewSuspiciousAccount } from '../db/schema';
+import { eq, and, or, SQL } from 'drizzle-orm';
 import { CommentCategory } from '../types';
+import { autoBlockPolicyService } from './autoBlockPolicy.service';
 
 function normalizeUsername(s: string): string {
   if (!s || typeof s !== 'string') return '';
   return s.toLowerCase().trim().replace(/^@/, '');
 }
 
-interface TrackAccountInput {
-  instagramAccountId: string;
+/**
+ * Monitored surface a commenter is seen on: an Instagram account or a Facebook Page
+ * (exactly one is set)
+ */
+export interface AccountSurface {
+  instagramAccountId?: string;
+  facebookPageId?: string;
+}
+
+/**
+ * Condition matching suspicious accounts on the given surface
+ */
+export function surfaceCondition(surface: AccountSurface): SQL {
+  return surface.instagramAccountId
+    ? eq(suspiciousAccounts.instagramAccountId, surface.instagramAccountId)
+    : eq(suspiciousAccounts.facebookPageId, surface.facebookPageId!);
+}
+
+/**
+ * Surface columns for a new suspicious account
+ */
+export function surfaceValues(
+  surface: AccountSurface
+): Pick<NewSuspiciousAccount, 'source' | 'instagramAccountId' | 'facebookPageId'> {
+  return surface.instagramAccountId
+    ? { source: 'instagram' as const, instagramAccountId: surface.instagramAccountId, facebookPageId: null }
+    : { source: 'facebook' as const, instagramAccountId: null, facebookPageId: surface.facebookPageId! };
+}
+
+interface TrackAccountInput extends AccountSurface {
   commenterId: string;
   commenterUsername: string;
   commentId: string;
   category: CommentCategory;
   riskScore: number;
   wasDeleted: boolean;
+  // Decision made in shadow mode: counters are updated, but no auto-block outcome is applied
+  shadowMode?: boolean;
 }
 
 export class SuspiciousAccountService {
@@ -24,26 +55,38 @@ export class SuspiciousAccountService {
    */
   async trackAccount(input: TrackAccountInput): Promise<void> {
     // Never track the account owner as a suspicious account
-    const igAccount = await db.query.instagramAccounts.findFirst({
-      where: eq(instagramAccounts.id, input.instagramAccountId),
-      columns: { username: true, instagramId: true }
-    });
-    if (igAccount) {
-      const commenterNorm = normalizeUsername(input.commenterUsername);
-      const ownerNorm = normalizeUsername(igAccount.username);
-      if (commenterNorm && ownerNorm && commenterNorm === ownerNorm) return;
-      if (input.commenterId && igAccount.instagramId && input.commenterId === igAccount.instagramId) return;
+    if (input.instagramAccountId) {
+      const igAccount = await db.query.instagramAccounts.findFirst({
+        where: eq(instagramAccounts.id, input.instagramAccountId),
+        columns: { username: true, instagramId: true }
+      });
+      if (igAccount) {
+        const commenterNorm = normalizeUsername(input.commenterUsername);
+        const ownerNorm = normalizeUsername(igAccount.username);
+        if (commenterNorm && ownerNorm && commenterNorm === ownerNorm) return;
+        if (input.commenterId && igAccount.instagramId && input.commenterId === igAccount.instagramId) return;
+      }
+    } else if (input.facebookPageId) {
+      // Pages comment as themselves (commenterId is the page's Facebook ID)
+      const page = await db.query.facebookPages.findFirst({
+        where: eq(facebookPages.id, input.facebookPageId),
+        columns: { facebookPageId: true }
+      });
+      if (page && input.commenterId === page.facebookPageId) return;
+    } else {
+      return;
     }
 
     // Find or create suspicious account
     let account = await db.query.suspiciousAccounts.findFirst({
       where: and(
-        eq(suspiciousAccounts.instagramAccountId, input.instagramAccountId),
+        surfaceCondition(input),
         eq(suspiciousAccounts.commenterId, input.commenterId)
       )
     });
 
     const now = new Date();
+    const previous = account ?? null;
 
     if (!account) {
       // Determine if this account has actual violations (not just benign comments)
@@ -52,7 +95,7 @@ export class SuspiciousAccountService {
       
       // Create new suspicious account record
       const [newAccount] = await db.insert(suspiciousAccounts).values({
-        instagramAccountId: input.instagramAccountId,
+        ...surfaceValues(input),
         commenterId: input.commenterId,
         commenterUsername: input.commenterUsername,
         totalComments: 1,
@@ -141,9 +184,12 @@ export class SuspiciousAccountService {
         .update(suspiciousAccounts)
         .set(updatedValues)
         .where(eq(suspiciousAccounts.id, account.id));
+    }
 
-      // Check auto-block conditions
-      await this.checkAutoBlock(account.id);
+    // Apply the account's auto-block policy to the updated counters. Shadow-mode decisions
+    // were never enforced, so they must not block, notify or act on linked accounts either.
+    if (!input.shadowMode) {
+      await autoBlockPolicyService.applyPolicy(account!.id, previous);
     }
 
     // Link comment to suspicious account
@@ -153,68 +199,6 @@ export class SuspiciousAccountService {
     });
   }
 
-  /**
-   * Check if account should be auto-blocked
-   */
-  private async checkAutoBlock(accountId: string): Promise<void> {
-    const account = await db.query.suspiciousAccounts.findFirst({
-      where: eq(suspiciousAccounts.id, accountId)
-    });
-
-    if (!account || account.isBlocked) {
-      return;
-    }
-
-    let shouldBlock = false;
-    let blockReason = '';
-
-    // Auto-block spam bots (velocity > 10 AND spam count > 5)
-    if ((account.spamCount ?? 0) > 5) {
-      // Calculate velocity (this is simplified - in production you'd check actual time window)
-      const accountAgeDays = Math.max(
-        1,
-        Math.floor((Date.now() - account.firstSeenAt.getTime()) / (1000 * 60 * 60 * 24))
-      );
-      const totalComments = account.totalComments ?? 0;
-      const commentsPerDay = totalComments / accountAgeDays;
-
-      if (commentsPerDay > 10) {
-        shouldBlock = true;
-        blockReason = `Auto-blocked: spam bot detected (${account.spamCount ?? 0} spam comments, ${commentsPerDay.toFixed(1)} per day)`;
-      }
-    }
-
-    // Auto-block serial blackmailers
-    if ((account.blackmailCount ?? 0) >= 2) {
-      shouldBlock = true;
-      blockReason = `Auto-blocked: ${account.blackmailCount ?? 0} blackmail attempts`;
-    }
-
-    // Auto-block repeat threats
-    if ((account.threatCount ?? 0) >= 2) {
-      shouldBlock = true;
-      blockReason = `Auto-blocked: ${account.threatCount ?? 0} threats detected`;
-    }
-
-    // Auto-block high-risk repeat offenders
-    const deletedComments = account.deletedComments ?? 0;
-    if (deletedComments >= 5 && parseFloat(account.averageRiskScore ?? '0') > 80) {
-      shouldBlock = true;
-      blockReason = `Auto-blocked: ${deletedComments} violations, average risk ${account.averageRiskScore}`;
-    }
-
-    if (shouldBlock) {
-      await db
-        .update(suspiciousAccounts)
-        .set({
-          isBlocked: true,
-          blockReason,
-          blockedAt: new Date()
-        })
-        .where(eq(suspiciousAccounts.id, accountId));
-    }
-  }
-
   /**
    * Check if account is blocked (auto-delete enabled)
    */
@@ -240,12 +224,12 @@ export class SuspiciousAccountService {
    * Get repeat offender count for risk scoring
    */
   async getRepeatOffenderCount(
-    instagramAccountId: string,
+    surface: AccountSurface,
     commenterId: string
   ): Promise<number> {
     const account = await db.query.suspiciousAccounts.findFirst({
       where: and(
-        eq(suspiciousAccounts.instagramAccountId, instagramAccountId),
+        surfaceCondition(surface),
         eq(suspiciousAccounts.commenterId, commenterId)
       )
     });
@@ -0,0 +1,81 @@
+import { db } from '../db';
+import { comments, posts } from '../db/schema';
+import { eq, and, ne, lt, desc } from 'drizzle-orm';
+import { ThreadContext, ThreadContextComment, ThreadContextLevel } from '../types';
+
+// Bounds on what is sent to the LLM, so long threads don't blow up prompt size
+const MAX_PARENT_DEPTH = 3;
+const MAX_SIBLINGS = 5;
+const MAX_CONTEXT_TEXT_LENGTH = 500;
+const MAX_CAPTION_LENGTH = 1000;
+
+export class ThreadContextService {
+  /**
+   * Build the conversation around a comment for classification.
+   * Returns null for NONE, or when there is nothing to add (no caption, top-level comment).
+   */
+  async buildContext(commentId: string, level: ThreadContextLevel): Promise<ThreadContext | null> {
+    if (level === 'NONE') return null;
+
+    const [comment] = await db
+      .select({
+        parentCommentId: comments.parentCommentId,
+        commentedAt: comments.commentedAt,
+        caption: posts.caption
+      })
+      .from(comments)
+      .innerJoin(posts, eq(comments.postId, posts.id))
+      .where(eq(comments.id, commentId))
+      .limit(1);
+
+    if (!comment) return null;
+
+    const parentChain: ThreadContextComment[] = [];
+    let parentId = comment.parentCommentId;
+    const seen = new Set<string>([commentId]);
+    while (parentId && parentChain.length < MAX_PARENT_DEPTH && !seen.has(parentId)) {
+      seen.add(parentId);
+      const [parent] = await db
+        .select({
+          text: comments.text,
+          commenterUsername: comments.commenterUsername,
+          parentCommentId: comments.parentCommentId
+        })
+        .from(comments)
+        .where(eq(comments.id, parentId))
+        .limit(1);
+      if (!parent) break;
+      parentChain.push(this.toContextComment(parent.commenterUsername, parent.text));
+      parentId = parent.parentCommentId;
+    }
+
+    let siblings: ThreadContextComment[] = [];
+    if (level === 'THREAD' && comment.parentCommentId) {
+      // The replies just before this one: what the commenter was most likely responding to
+      const rows = await db
+        .select({ text: comments.text, commenterUsername: comments.commenterUsername })
+        .from(comments)
+        .where(and(
+          eq(comments.parentCommentId, comment.parentCommentId),
+          ne(comments.id, commentId),
+          lt(comments.commentedAt, comment.commentedAt)
+        ))
+        .orderBy(desc(comments.commentedAt))
+        .limit(MAX_SIBLINGS);
+      siblings = rows.reverse().map(row => this.toContextComment(row.commenterUsername, row.text));
+    }
+
+    const postCaption = comment.caption ? comment.caption.substring(0, MAX_CAPTION_LENGTH) : null;
+    if (!postCaption && parentChain.length === 0 && siblings.length === 0) {
+      return null;
+    }
+
+    return { postCaption, parentChain, siblings };
+  }
+
+  private toContextComment(username: string, text: string): ThreadContextComment {
+    return { username, text: text.substring(0, MAX_CONTEXT_TEXT_LENGTH) };
+  }
+}
+
+export const threadContextService = new ThreadContextService();
@@ -0,0 +1,294 @@
+import { createHmac } from 'crypto';
+import { db } from '../db';
+import {
+  globalThreatNetwork,
+  threatNetworkReports,
+  threatNetworkAlerts,
+  agencyNetworkSettings,
+  clients,
+  users,
+  GlobalThreatNetwork
+} from '../db/schema';
+import { eq, and, sql } from 'drizzle-orm';
+import { CommentCategory } from '../types';
+import { EmailService } from './email/email.service';
+import { abuserProfileService } from './abuserProfile.service';
+import { isAgency } from '../utils/account-type.utils';
+
+// Only deletions for these categories are contributed to the network
+export const REPORTABLE_CATEGORIES: CommentCategory[] = [CommentCategory.BLACKMAIL, CommentCategory.THREAT];
+
+// Independent agencies that must report an offender before it is flagged as a global threat
+export const GLOBAL_THREAT_MIN_REPORTS = 3;
+
+export interface ThreatSharingSettings {
+  shareThreatData: boolean;
+  receiveThreatAlerts: boolean;
+}
+
+let warnedMissingHashKey = false;
+
+/**
+ * Server-side key for the network's commenter hashes. Usernames and IDs are public, so an
+ * unkeyed hash could be reversed with a list of them. Without a key the network is off:
+ * nothing is reported and no commenter matches a global threat.
+ */
+function getHashKey(): string | null {
+  const key = process.env.THREAT_NETWORK_HASH_KEY;
+  if (key) return key;
+  if (!warnedMissingHashKey) {
+    warnedMissingHashKey = true;
+    console.warn('⚠️ THREAT_NETWORK_HASH_KEY is not set - threat network reporting and matching are disabled');
+  }
+  return null;
+}
+
+function hmac(value: string): string | null {
+  const key = getHashKey();
+  return key ? createHmac('sha256', key).update(value).digest('hex') : null;
+}
+
+interface OffenderReportInput {
+  commenterId: string;
+  commenterUsername: string;
+  category: CommentCategory;
+  severity: number;
+  riskScore: number;
+  clientId?: string;
+  userId?: string;
+}
+
+interface ThreatSightingInput {
+  commentId: string;
+  commenterUsername: string;
+  instagramAccountId?: string;
+  facebookPageId?: string;
+  clientId?: string;
+  userId?: string;
+}
+
+/**
+ * Threat Network Service
+ * Agencies that opt in (shareThreatData) contribute a hashed report when moderation deletes a
+ * blackmail or threat comment. An offender reported by GLOBAL_THREAT_MIN_REPORTS independent
+ * agencies becomes a global threat: auto-deleted everywhere, and agencies that receive alerts
+ * are emailed the first time it comments on one of their accounts. Only HMAC-SHA-256 hashes
+ * (keyed with THREAT_NETWORK_HASH_KEY) of the commenter's ID and username leave the reporting
+ * agency.
+ */
+export class ThreatNetworkService {
+  /**
+   * Hash of a commenter ID as stored in the network (null without a hash key)
+   */
+  hashCommenterId(commenterId: string): string | null {
+    return hmac(commenterId.trim());
+  }
+
+  /**
+   * Hash of a commenter username as stored in the network (case and leading @ ignored;
+   * null without a hash key)
+   */
+  hashUsername(username: string): string | null {
+    return hmac(username.trim().toLowerCase().replace(/^@/, ''));
+  }
+
+  /**
+   * Agency behind a moderated account: the agency managing the client, else the user if it
+   * is an agency account. Creators are not part of the network.
+   */
+  async resolveAgencyId(clientId?: string, userId?: string): Promise<string | null> {
+    if (clientId) {
+      const client = await db.query.clients.findFirst({
+        where: eq(clients.id, clientId),
+        columns: { userId: true }
+      });
+      return client?.userId ?? null;
+    }
+    if (!userId) return null;
+    const user = await db.query.users.findFirst({
+      where: eq(users.id, userId),
+      columns: { accountType: true }
+    });
+    return user && isAgency(user.accountType) ? userId : null;
+  }
+
+  /**
+   * Sharing settings for an agency, with the column defaults when it has none saved
+   */
+  async getSettings(agencyId: string): Promise<ThreatSharingSettings> {
+    const settings = await db.query.agencyNetworkSettings.findFirst({
+      where: eq(agencyNetworkSettings.userId, agencyId),
+      columns: { shareThreatData: true, receiveThreatAlerts: true }
+    });
+    return {
+      shareThreatData: settings?.shareThreatData ?? false,
+      receiveThreatAlerts: settings?.receiveThreatAlerts ?? true
+    };
+  }
+
+  /**
+   * Contribute a report for a deleted blackmail or threat comment, if the agency shares threat
+   * data. Each agency has one report per offender; repeat deletions update it and the
+   * offender's aggregate counters.
+   */
+  async reportOffender(input: OffenderReportInput): Promise<void> {
+    if (!REPORTABLE_CATEGORIES.includes(input.category) || !input.commenterId) return;
+    const commenterIdHash = this.hashCommenterId(input.commenterId);
+    if (!commenterIdHash) return;
+
+    const agencyId = await this.resolveAgencyId(input.clientId, input.userId);
+    if (!agencyId) return;
+    const settings = await this.getSettings(agencyId);
+    if (!settings.shareThreatData) return;
+
+    const now = new Date();
+    const isBlackmail = input.category === CommentCategory.BLACKMAIL ? 1 : 0;
+    const isThreat = input.category === CommentCategory.THREAT ? 1 : 0;
+    const riskScore = Math.round(input.riskScore);
+
+    const [threat] = await db
+      .insert(globalThreatNetwork)
+      .values({
+        commenterIdHash,
+        commenterUsernameHash: input.commenterUsername ? this.hashUsername(input.commenterUsername) : null,
+        totalViolations: 1,
+        blackmailCount: isBlackmail,
+        threatCount: isThreat,
+        averageRiskScore: riskScore.toFixed(2),
+        highestRiskScore: riskScore,
+        firstSeenAt: now,
+        lastSeenAt: now
+      })
+      .onConflictDoUpdate({
+        target: globalThreatNetwork.commenterIdHash,
+        set: {
+          commenterUsernameHash: sql`coalesce(excluded.commenter_username_hash, ${globalThreatNetwork.commenterUsernameHash})`,
+          totalViolations: sql`coalesce(${globalThreatNetwork.totalViolations}, 0) + 1`,
+          blackmailCount: sql`coalesce(${globalThreatNetwork.blackmailCount}, 0) + ${isBlackmail}`,
+          threatCount: sql`coalesce(${globalThreatNetwork.threatCount}, 0) + ${isThreat}`,
+          averageRiskScore: sql`round((coalesce(${globalThreatNetwork.averageRiskScore}, 0) * coalesce(${globalThreatNetwork.totalViolations}, 0) + ${riskScore}) / (coalesce(${globalThreatNetwork.totalViolations}, 0) + 1), 2)`,
+          highestRiskScore: sql`greatest(coalesce(${globalThreatNetwork.highestRiskScore}, 0), ${riskScore})`,
+          lastSeenAt: now,
+          updatedAt: now
+        }
+      })
+      .returning();
+
+    await db
+      .insert(threatNetworkReports)
+      .values({
+        globalThreatId: threat.id,
+        reportingAgencyId: agencyId,
+        violationCategory: input.category,
+        severity: input.severity,
+        anonymizedDescription: this.describeReport(input.category, input.severity)
+      })
+      .onConflictDoUpdate({
+        target: [threatNetworkReports.globalThreatId, threatNetworkReports.reportingAgencyId],
+        set: {
+          violationCategory: input.category,
+          severity: sql`greatest(${threatNetworkReports.severity}, ${input.severity})`,
+          anonymizedDescription: this.describeReport(input.category, input.severity),
+          updatedAt: now
+        }
+      });
+
+    await this.verify(threat);
+  }
+
+  /**
+   * Recount the independent agencies reporting an offender and flag it as a global threat
+   * once there are enough
+   */
+  async verify(threat: GlobalThreatNetwork): Promise<void> {
+    const [{ reporters }] = await db
+      .select({ reporters: sql<number>`count(distinct ${threatNetworkReports.reportingAgencyId})::int` })
+      .from(threatNetworkReports)
+      .where(eq(threatNetworkReports.globalThreatId, threat.id));
+    const verified = reporters >= GLOBAL_THREAT_MIN_REPORTS;
+    const now = new Date();
+
+    await db
+      .update(threatNetworkReports)
+      .set({ verificationCount: reporters, isVerified: verified })
+      .where(eq(threatNetworkReports.globalThreatId, threat.id));
+
+    await db
+      .update(globalThreatNetwork)
+      .set({
+        totalAgenciesTargeted: reporters,
+        ...(verified && !threat.isGlobalThreat ? { isGlobalThreat: true, verifiedAt: now } : {}),
+        updatedAt: now
+      })
+      .where(eq(globalThreatNetwork.id, threat.id));
+
+    if (verified && !threat.isGlobalThreat) {
+      console.log(`🌐 Offender ${threat.id} verified as a global threat by ${reporters} agencies`);
+    }
+  }
+
+  /**
+   * Record a global threat commenting on an agency's account and, the first time it does so
+   * for that agency, email the agency if it receives threat alerts
+   */
+  async recordSighting(globalThreatId: string, input: ThreatSightingInput): Promise<void> {
+    const agencyId = await this.resolveAgencyId(input.clientId, input.userId);
+    if (!agencyId) return;
+    const settings = await this.getSettings(agencyId);
+    if (!settings.receiveThreatAlerts) return;
+
+    const [alert] = await db
+      .insert(threatNetworkAlerts)
+      .values({
+        globalThreatId,
+        agencyId,
+        instagramAccountId: input.instagramAccountId ?? null,
+        facebookPageId: input.facebookPageId ?? null,
+        commentId: input.commentId,
+        commenterUsername: input.commenterUsername
+      })
+      .onConflictDoNothing({ target: [threatNetworkAlerts.globalThreatId, threatNetworkAlerts.agencyId] })
+      .returning();
+    if (!alert) return; // Already alerted for this offender
+
+    const [threat, agency, surface] = await Promise.all([
+      db.query.globalThreatNetwork.findFirst({ where: eq(globalThreatNetwork.id, globalThreatId) }),
+      db.query.users.findFirst({
+        where: eq(users.id, agencyId),
+        columns: { email: true, name: true, businessName: true }
+      }),
+      abuserProfileService.getSurfaceOwner({
+        instagramAccountId: input.instagramAccountId ?? null,
+        facebookPageId: input.facebookPageId ?? null
+      })
+    ]);
+    if (!threat || !agency) return;
+
+    const result = await EmailService.sendThreatNetworkAlert({
+      to: agency.email,
+      recipientName: agency.name ?? agency.businessName ?? agency.email,
+      commenterUsername: input.commenterUsername.replace(/^@/, ''),
+      accountName: surface?.accountName ?? 'your account',
+      reportingAgencies: threat.totalAgenciesTargeted ?? 0,
+      blackmailCount: threat.blackmailCount ?? 0,
+      threatCount: threat.threatCount ?? 0
+    });
+    if (result.success) {
+      await db
+        .update(threatNetworkAlerts)
+        .set({ emailSent: true })
+        .where(and(eq(threatNetworkAlerts.id, alert.id), eq(threatNetworkAlerts.agencyId, agencyId)));
+    } else {
+      console.warn(`⚠️ Threat network alert for agency ${agencyId} not sent: ${result.error}`);
+    }
+  }
+
+  /**
+   * Report text shared with the network; never includes the comment or the commenter
+   */
+  private describeReport(category: CommentCategory, severity: number): string {
+    return `Comment deleted for ${category.toLowerCase()} (severity ${severity})`;
+  }
+}
+
+export const threatNetworkService = new ThreatNetworkService();
@@ -0,0 +1,313 @@
+import { db } from '../db';
+import { moderationLogs, comments, posts } from '../db/schema';
+import { and, eq, gte, desc, inArray } from 'drizzle-orm';
+import { CommentCategory, DecisionTraceStep, ModerationSettingsResult } from '../types';
+import { riskScoringService } from './riskScoring.service';
+
+export type SimulatedOutcome = 'BENIGN' | 'FLAGGED' | 'HIDDEN' | 'DELETED';
+
+export interface SimulationSample {
+  moderationLogId: string;
+  commentId: string;
+  commentText: string;
+  commenterUsername: string;
+  category: string;
+  confidence: number;
+  riskScore: number;
+  originalStage: string;
+  proposedStage: string;
+  moderatedAt: Date | null;
+}
+
+export interface SimulationTransition {
+  from: SimulatedOutcome;
+  to: SimulatedOutcome;
+  count: number;
+  samples: SimulationSample[];
+}
+
+export interface SimulationReport {
+  instagramAccountId: string;
+  days: number;
+  totals: {
+    comments: number;
+    replayed: number;
+    changed: number;
+    unchanged: number;
+    needsClassification: number; // Decided before classification and no longer would be
+    notReplayable: number; // Logged without a decision trace
+    truncated: boolean;
+  };
+  outcomes: {
+    current: Record<SimulatedOutcome, number>;
+    proposed: Record<SimulatedOutcome, number>;
+  };
+  transitions: SimulationTransition[];
+}
+
+interface LoggedDecision {
+  moderationLogId: string;
+  commentId: string;
+  commentText: string;
+  commenterUsername: string;
+  category: string;
+  confidence: string;
+  riskScore: number;
+  actionTaken: string;
+  decisionTrace: unknown;
+  createdAt: Date | null;
+}
+
+type ReplayResult =
+  | { outcome: SimulatedOutcome; stage: string }
+  | { outcome: null; stage: string };
+
+const MAX_SIMULATED_COMMENTS = 20_000;
+const SAMPLES_PER_TRANSITION = 5;
+
+// Stages the simulated settings don't affect: where one fired, the logged outcome stands
+const PRE_CLASSIFICATION_STAGES = ['WHITELISTED_COMMENTER', 'POST_OWNER', 'SUSPICIOUS_AUTO_DELETE'];
+const POST_SIMILARITY_STAGES = ['KEYWORD_WHITELIST', 'ATTACK_LOCKDOWN'];
+const POST_CLASSIFICATION_STAGES = ['WATCHLIST_AUTO_DELETE', 'WHITELISTED_IDENTIFIER', 'WATCHLIST_MENTION', 'CUSTOM_FILTER'];
+
+const emptyOutcomes = (): Record<SimulatedOutcome, number> => ({ BENIGN: 0, FLAGGED: 0, HIDDEN: 0, DELETED: 0 });
+
+/**
+ * Threshold Simulation Service
+ * Replays an account's stored moderation decisions against proposed settings to show what
+ * would change before the settings are saved. Uses the classification, confidence and risk
+ * score already recorded in each comment's latest moderation log and decision trace, so no
+ * LLM calls are made.
+ *
+ * A comment the pipeline decided before classification (e.g. a high-similarity match) that the
+ * proposed settings would send on to the LLM can't be replayed and is counted as needing
+ * classification instead.
+ */
+export class ThresholdSimulationService {
+  async simulate(
+    instagramAccountId: string,
+    settings: ModerationSettingsResult,
+    days: number
+  ): Promise<SimulationReport> {
+    const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+    // Latest decision per comment (edits and reclassifications log again)
+    const latestLogIds = db
+      .selectDistinctOn([moderationLogs.commentId], { id: moderationLogs.id })
+      .from(moderationLogs)
+      .innerJoin(comments, eq(moderationLogs.commentId, comments.id))
+      .innerJoin(posts, eq(comments.postId, posts.id))
+      .where(and(
+        eq(posts.instagramAccountId, instagramAccountId),
+        gte(moderationLogs.createdAt, since)
+      ))
+      .orderBy(moderationLogs.commentId, desc(moderationLogs.createdAt));
+
+    // Most recent decisions first, so a truncated report covers the latest comments
+    const rows: LoggedDecision[] = await db
+      .select({
+        moderationLogId: moderationLogs.id,
+        commentId: comments.id,
+        commentText: comments.text,
+        commenterUsername: comments.commenterUsername,
+        category: moderationLogs.category,
+        confidence: moderationLogs.confidence,
+        riskScore: moderationLogs.riskScore,
+        actionTaken: moderationLogs.actionTaken,
+        decisionTrace: moderationLogs.decisionTrace,
+        createdAt: moderationLogs.createdAt
+      })
+      .from(moderationLogs)
+      .innerJoin(comments, eq(moderationLogs.commentId, comments.id))
+      .where(inArray(moderationLogs.id, latestLogIds))
+      .orderBy(desc(moderationLogs.createdAt))
+      .limit(MAX_SIMULATED_COMMENTS + 1);
+
+    const truncated = rows.length > MAX_SIMULATED_COMMENTS;
+    const decisions = rows.slice(0, MAX_SIMULATED_COMMENTS);
+
+    const report: SimulationReport = {
+      instagramAccountId,
+      days,
+      totals: {
+        comments: decisions.length,
+        replayed: 0,
+        changed: 0,
+        unchanged: 0,
+        needsClassification: 0,
+        notReplayable: 0,
+        truncated
+      },
+      outcomes: { current: emptyOutcomes(), proposed: emptyOutcomes() },
+      transitions: []
+    };
+    const transitions = new Map<string, SimulationTransition>();
+
+    for (const decision of decisions) {
+      const trace = Array.isArray(decision.decisionTrace) ? decision.decisionTrace as DecisionTraceStep[] : [];
+      if (trace.length === 0) {
+        report.totals.notReplayable++;
+        continue;
+      }
+
+      const original = this.originalOutcome(decision, trace);
+      const replay = this.replay(decision, trace, original.outcome, settings);
+      if (replay.outcome === null) {
+        report.totals.needsClassification++;
+        continue;
+      }
+
+      report.totals.replayed++;
+      report.outcomes.current[original.outcome]++;
+      report.outcomes.proposed[replay.outcome]++;
+      if (replay.outcome === original.outcome) {
+        report.totals.unchanged++;
+        continue;
+      }
+
+      report.totals.changed++;
+      const key = `${original.outcome}->${replay.outcome}`;
+      const transition = transitions.get(key) ?? { from: original.outcome, to: replay.outcome, count: 0, samples: [] };
+      transition.count++;
+      if (transition.samples.length < SAMPLES_PER_TRANSITION) {
+        transition.samples.push({
+          moderationLogId: decision.moderationLogId,
+          commentId: decision.commentId,
+          commentText: decision.commentText,
+          commenterUsername: decision.commenterUsername,
+          category: decision.category,
+          confidence: parseFloat(decision.confidence),
+          riskScore: this.riskScore(decision, trace),
+          originalStage: original.stage,
+          proposedStage: replay.stage,
+          moderatedAt: decision.createdAt
+        });
+      }
+      transitions.set(key, transition);
+    }
+
+    report.transitions = [...transitions.values()].sort((a, b) => b.count - a.count);
+    return report;
+  }
+
+  /**
+   * Logged outcome, splitting FLAGGED into hidden and flag-only: every stage that flags also
+   * hides, except the category thresholds when neither auto-hide nor flag-hide applied
+   */
+  private originalOutcome(
+    decision: LoggedDecision,
+    trace: DecisionTraceStep[]
+  ): { outcome: SimulatedOutcome; stage: string } {
+    // The pipeline stops at the stage that decided
+    const decidingStep = trace[trace.length - 1];
+    const stage = decidingStep.name;
+
+    if (decision.actionTaken === 'DELETED') return { outcome: 'DELETED', stage };
+    if (decision.actionTaken !== 'FLAGGED') return { outcome: 'BENIGN', stage };
+    if (stage !== 'CATEGORY_THRESHOLD') return { outcome: 'HIDDEN', stage };
+
+    const inputs = decidingStep.inputs ?? {};
+    const riskScore = Number(inputs.riskScore ?? decision.riskScore);
+    const flagHideThreshold = inputs.categoryFlagHideThreshold;
+    const hidden = inputs.autoHideEnabled === true
+      || (typeof flagHideThreshold === 'number' && riskScore >= flagHideThreshold);
+    return { outcome: hidden ? 'HIDDEN' : 'FLAGGED', stage };
+  }
+
+  private riskScore(decision: LoggedDecision, trace: DecisionTraceStep[]): number {
+    const traced = trace.find(step => step.name === 'RISK_SCORING')?.inputs?.riskScore;
+    return typeof traced === 'number' ? traced : decision.riskScore;
+  }
+
+  /**
+   * Walk the pipeline in order with the proposed settings: fixed stages keep the logged
+   * outcome where they fired, threshold stages are re-evaluated from the traced inputs.
+   * Returns a null outcome where the comment would reach a stage the original run never did.
+   */
+  private replay(
+    decision: LoggedDecision,
+    trace: DecisionTraceStep[],
+    original: SimulatedOutcome,
+    settings: ModerationSettingsResult
+  ): ReplayResult {
+    const steps = new Map(trace.map(step => [step.name, step]));
+    const lastPhase = trace.reduce((last, step) => (step.phase > last ? step.phase : last), '');
+    const reached = (phase: string): boolean => phase <= lastPhase;
+
+    for (const name of PRE_CLASSIFICATION_STAGES) {
+      if (steps.get(name)?.fired) return { outcome: original, stage: name };
+    }
+
+    // 2d: high-confidence similarity match
+    const similarityStep = steps.get('EMBEDDING_HIGH_CONFIDENCE');
+    if (!similarityStep) return { outcome: null, stage: 'EMBEDDING_HIGH_CONFIDENCE' };
+    const similarity = similarityStep.inputs?.similarity;
+    const matchAction = similarityStep.inputs?.matchAction;
+    const matchOutcome: SimulatedOutcome = matchAction === 'AUTO_DELETE_SIMILAR' ? 'DELETED' : 'HIDDEN';
+    if (
+      settings.similarityAutoModEnabled !== false
+      && typeof matchAction === 'string'
+      && typeof similarity === 'number'
+      && similarity >= (settings.similarityThreshold ?? 85) / 100
+    ) {
+      return { outcome: matchOutcome, stage: 'EMBEDDING_HIGH_CONFIDENCE' };
+    }
+
+    // Stages added to the pipeline after a log was written are simply missing from its trace
+    for (const name of POST_SIMILARITY_STAGES) {
+      if (steps.get(name)?.fired) return { outcome: original, stage: name };
+    }
+    if (!reached('4a')) return { outcome: null, stage: 'LLM_CLASSIFICATION' };
+    for (const name of POST_CLASSIFICATION_STAGES) {
+      if (steps.get(name)?.fired) return { outcome: original, stage: name };
+    }
+
+    const category = decision.category;
+    const riskScore = this.riskScore(decision, trace);
+    const tracedConfidence = steps.get('CONFIDENCE_THRESHOLD')?.inputs?.confidence;
+    const confidence = typeof tracedConfidence === 'number' ? tracedConfidence : parseFloat(decision.confidence);
+
+    // 4f: confidence thresholds
+    if (category !== CommentCategory.BENIGN) {
+      if (confidence >= (settings.confidenceDeleteThreshold ?? 90) / 100) {
+        return { outcome: 'DELETED', stage: 'CONFIDENCE_THRESHOLD' };
+      }
+      if (confidence >= (settings.confidenceHideThreshold ?? 70) / 100) {
+        return { outcome: 'HIDDEN', stage: 'CONFIDENCE_THRESHOLD' };
+      }
+    }
+
+    // 4g: any similarity match acts below the high-confidence threshold
+    if (typeof matchAction === 'string') {
+      return { outcome: matchOutcome, stage: 'EMBEDDING_AUTO_ACTION' };
+    }
+
+    // 4h: only confirms benign comments, which 4f never acts on, so an unreached 4h didn't fire
+    if (steps.get('ALLOWED_SIMILAR')?.fired) return { outcome: original, stage: 'ALLOWED_SIMILAR' };
+
+    // 4i: category thresholds
+    const autoHideEnabled = steps.get('SUSPICIOUS_AUTO_DELETE')?.inputs?.autoHideEnabled
+      ?? steps.get('CATEGORY_THRESHOLD')?.inputs?.autoHideEnabled;
+    const stage = 'CATEGORY_THRESHOLD';
+    if (autoHideEnabled === true) {
+      return { outcome: 'HIDDEN', stage };
+    }
+    if (riskScoringService.isCategoryAutoDeleteEnabled(category, settings)
+      && riskScore >= riskScoringService.getCategoryThreshold(category, settings)) {
+      return { outcome: 'DELETED', stage };
+    }
+    if (riskScoringService.isCategoryFlagDeleteEnabled(category, settings)
+      && riskScore >= riskScoringService.getCategoryFlagDeleteThreshold(category, settings)) {
+      return { outcome: 'DELETED', stage };
+    }
+    if (riskScoringService.isCategoryFlagHideEnabled(category, settings)
+      && riskScore >= riskScoringService.getCategoryFlagHideThreshold(category, settings)) {
+      return { outcome: 'HIDDEN', stage };
+    }
+    if (category !== CommentCategory.BENIGN && riskScore >= 50) {
+      return { outcome: 'FLAGGED', stage };
+    }
+    return { outcome: 'BENIGN', stage };
+  }
+}
+
+export const thresholdSimulationService = new ThresholdSimulationService();
@@ -1,6 +1,9 @@
 import { db } from '../db';
 import { knownThreatsWatchlist, watchlistDetections, globalThreatNetwork, botNetworkMasterminds } from '../db/schema';
 import { eq, and, or, sql } from 'drizzle-orm';
+import { threatNetworkService } from './threatNetwork.service';
+
+export type WatchlistDetectionType = 'DIRECT_COMMENT' | 'USERNAME_MENTION' | 'KEYWORD_MATCH' | 'COORDINATED_PATTERN';
 
 interface WatchlistMatch {
   threatId: string;
@@ -8,6 +11,8 @@ interface WatchlistMatch {
   name: string;
   autoDeleteEnabled: boolean;
   threatLevel: string;
+  detectionType?: WatchlistDetectionType;
+  matchedKeyword?: string;
 }
 
 interface WatchlistCheckResult {
@@ -48,6 +53,7 @@ export class WatchlistService {
         .where(and(
           ownershipCondition,
           eq(knownThreatsWatchlist.isActive, true),
+          eq(knownThreatsWatchlist.resolved, false),
           eq(knownThreatsWatchlist.autoBlockDirectComments, true),
           or(...orConditions)
         ));
@@ -63,17 +69,21 @@ export class WatchlistService {
       }
     }
 
-    // Check global threat network
-    const globalThreats = await db
-      .select()
-      .from(globalThreatNetwork)
-      .where(and(
-        eq(globalThreatNetwork.isGlobalThreat, true),
-        or(
-          eq(globalThreatNetwork.commenterUsernameHash, this.hashString(commenterUsername)),
-          eq(globalThreatNetwork.commenterIdHash, this.hashString(commenterId))
-        )
-      ));
+    // Check global threat network (off without a hash key)
+    const commenterIdHash = threatNetworkService.hashCommenterId(commenterId);
+    const usernameHash = threatNetworkService.hashUsername(commenterUsername);
+    const globalThreats = commenterIdHash && usernameHash
+      ? await db
+        .select()
+        .from(globalThreatNetwork)
+        .where(and(
+          eq(globalThreatNetwork.isGlobalThreat, true),
+          or(
+            eq(globalThreatNetwork.commenterUsernameHash, usernameHash),
+            eq(globalThreatNetwork.commenterIdHash, commenterIdHash)
+          )
+        ))
+      : [];
 
     for (const threat of globalThreats) {
       matches.push({
@@ -129,7 +139,7 @@ export class WatchlistService {
   }
 
   /**
-   * Check if a comment contains mentions of watchlist accounts
+   * Check if a comment mentions a watchlist account or contains one of an entry's monitor keywords
    */
   async checkCommentForMentions(
     commentText: string,
@@ -142,7 +152,7 @@ export class WatchlistService {
     if (clientId || userId) {
       const conditions = [
         eq(knownThreatsWatchlist.isActive, true),
-        eq(knownThreatsWatchlist.monitorUsernameMentions, true)
+        eq(knownThreatsWatchlist.resolved, false)
       ];
       if (clientId) {
         conditions.push(eq(knownThreatsWatchlist.clientId, clientId));
@@ -154,19 +164,38 @@ export class WatchlistService {
         .select({
           id: knownThreatsWatchlist.id,
           username: knownThreatsWatchlist.instagramUsername,
+          monitorUsernameMentions: knownThreatsWatchlist.monitorUsernameMentions,
+          monitorKeywords: knownThreatsWatchlist.monitorKeywords,
           monitorMentions: knownThreatsWatchlist.autoFlagReferences
         })
         .from(knownThreatsWatchlist)
         .where(and(...conditions));
 
       for (const entry of watchlistUsernames) {
-        if (entry.username && this.containsMention(commentText, entry.username)) {
+        if (entry.monitorUsernameMentions && entry.username && this.containsMention(commentText, entry.username)) {
           matches.push({
             threatId: entry.id,
             threatType: 'watchlist',
             name: entry.username,
             autoDeleteEnabled: entry.monitorMentions || false,
-            threatLevel: 'MEDIUM'
+            threatLevel: 'MEDIUM',
+            detectionType: 'USERNAME_MENTION',
+            matchedKeyword: entry.username
+          });
+          continue;
+        }
+
+        const keywords = Array.isArray(entry.monitorKeywords) ? entry.monitorKeywords as string[] : [];
+        const keyword = keywords.find(k => typeof k === 'string' && k.trim() && this.containsKeyword(commentText, k));
+        if (keyword) {
+          matches.push({
+            threatId: entry.id,
+            threatType: 'watchlist',
+            name: entry.username || keyword,
+            autoDeleteEnabled: entry.monitorMentions || false,
+            threatLevel: 'MEDIUM',
+            detectionType: 'KEYWORD_MATCH',
+            matchedKeyword: keyword
           });
         }
       }
@@ -190,7 +219,7 @@ export class WatchlistService {
     commenterUsername: string,
     commenterId: string,
     commentText: string,
-    detectionType: 'DIRECT_COMMENT' | 'USERNAME_MENTION' = 'DIRECT_COMMENT',
+    detectionType: WatchlistDetectionType = 'DIRECT_COMMENT',
     matchedKeyword?: string
   ): Promise<void> {
     try {
@@ -267,16 +296,11 @@ export class WatchlistService {
   }
 
   /**
-   * Simple hash function for anonymizing usernames/IDs in global threat network
+   * Check if comment text contains a keyword as a whole word or phrase (case-insensitive)
    */
-  private hashString(input: string): string {
-    let hash = 0;
-    for (let i = 0; i < input.length; i++) {
-      const char = input.charCodeAt(i);
-      hash = ((hash << 5) - hash) + char;
-      hash = hash & hash; // Convert to 32-bit integer
-    }
-    return Math.abs(hash).toString(16);
+  private containsKeyword(commentText: string, keyword: string): boolean {
+    const escaped = keyword.trim().replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    return new RegExp(`(^|\\W)${escaped}(\\W|$)`, 'i').test(commentText);
   }
 }
 
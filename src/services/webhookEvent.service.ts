@@ -0,0 +1,174 @@
+import { db } from '../db';
+import { webhookPayloads, webhookEventKeys, WebhookPayload } from '../db/schema';
+import { eq, and, desc, lt, sql } from 'drizzle-orm';
+
+// Meta retries failed deliveries for up to 36 hours, keeping the original entry.time
+const META_RETRY_WINDOW_SECONDS = 36 * 60 * 60;
+const DEFAULT_MAX_SKEW_SECONDS = META_RETRY_WINDOW_SECONDS;
+// Entry times ahead of our clock are only tolerated by this much
+const MAX_FUTURE_SKEW_MS = 5 * 60 * 1000;
+// Dedupe keys must outlive the retry window
+const DEFAULT_DEDUPE_RETENTION_HOURS = 72;
+const DEFAULT_PAYLOAD_RETENTION_DAYS = 7;
+
+const getEnvNumber = (name: string, fallback: number): number => {
+  const env = process.env[name];
+  if (env === undefined || env === '') return fallback;
+  const n = parseInt(env, 10);
+  return Number.isFinite(n) && n > 0 ? n : fallback;
+};
+
+export type WebhookPayloadStatus = 'RECEIVED' | 'PROCESSED' | 'DUPLICATE' | 'REJECTED' | 'FAILED';
+
+/**
+ * Webhook Event Service
+ * Stores raw webhook deliveries and dedupes retried changes so each comment change is processed once
+ */
+export class WebhookEventService {
+  /**
+   * Persist a signature-verified raw payload. Returns the payload id.
+   */
+  async storePayload(source: string, rawBody: string, signature: string | null): Promise<string> {
+    const [payload] = await db
+      .insert(webhookPayloads)
+      .values({ source, rawBody, signature })
+      .returning({ id: webhookPayloads.id });
+    return payload.id;
+  }
+
+  /**
+   * Record the outcome of processing a payload
+   */
+  async markPayload(
+    payloadId: string,
+    status: WebhookPayloadStatus,
+    details: { error?: string; changesTotal?: number; changesDuplicate?: number } = {}
+  ): Promise<void> {
+    await db
+      .update(webhookPayloads)
+      .set({
+        status,
+        error: details.error ?? null,
+        changesTotal: details.changesTotal,
+        changesDuplicate: details.changesDuplicate,
+        processedAt: new Date()
+      })
+      .where(eq(webhookPayloads.id, payloadId));
+  }
+
+  /**
+   * Dedupe key for one webhook change: field + object (comment) id + change timestamp
+   */
+  buildDedupeKey(source: string, field: string, objectId: string, changeTime: number): string {
+    return `${source}:${field}:${objectId}:${changeTime}`;
+  }
+
+  /**
+   * Claim a change for processing. Returns false if it was already processed (a retried delivery).
+   */
+  async claimChange(source: string, dedupeKey: string, payloadId: string | null): Promise<boolean> {
+    const inserted = await db
+      .insert(webhookEventKeys)
+      .values({ source, dedupeKey, payloadId })
+      .onConflictDoNothing({ target: webhookEventKeys.dedupeKey })
+      .returning({ id: webhookEventKeys.id });
+    return inserted.length > 0;
+  }
+
+  /**
+   * Release a claim after processing failed, so Meta's retry can process the change
+   */
+  async releaseChange(dedupeKey: string): Promise<void> {
+    await db.delete(webhookEventKeys).where(eq(webhookEventKeys.dedupeKey, dedupeKey));
+  }
+
+  /**
+   * Whether an entry timestamp (seconds or milliseconds since epoch) is within the allowed skew.
+   * X-Hub-Signature-256 carries no timestamp, so the signed entry.time is what ages a delivery.
+   * Retries keep the original entry.time, so the allowed age covers Meta's retry window by
+   * default and never exceeds the dedupe retention (an older retry could be processed twice).
+   */
+  isWithinSkew(entryTime: number, now: number = Date.now()): boolean {
+    const maxSkewMs = Math.min(
+      getEnvNumber('WEBHOOK_MAX_SKEW_SECONDS', DEFAULT_MAX_SKEW_SECONDS),
+      getEnvNumber('WEBHOOK_DEDUPE_RETENTION_HOURS', DEFAULT_DEDUPE_RETENTION_HOURS) * 60 * 60
+    ) * 1000;
+    const entryMs = entryTime > 1e12 ? entryTime : entryTime * 1000;
+    return now - entryMs <= maxSkewMs && entryMs - now <= MAX_FUTURE_SKEW_MS;
+  }
+
+  /**
+   * List stored payloads (newest first)
+   */
+  async listPayloads(options: {
+    source?: string;
+    status?: string;
+    limit: number;
+    offset: number;
+  }): Promise<{ payloads: Omit<WebhookPayload, 'rawBody'>[]; total: number }> {
+    const conditions = [];
+    if (options.source) conditions.push(eq(webhookPayloads.source, options.source));
+    if (options.status) conditions.push(eq(webhookPayloads.status, options.status));
+    const where = conditions.length > 0 ? and(...conditions) : undefined;
+
+    const [payloads, [{ count }]] = await Promise.all([
+      db
+        .select({
+          id: webhookPayloads.id,
+          source: webhookPayloads.source,
+          signature: webhookPayloads.signature,
+          status: webhookPayloads.status,
+          error: webhookPayloads.error,
+          changesTotal: webhookPayloads.changesTotal,
+          changesDuplicate: webhookPayloads.changesDuplicate,
+          replayCount: webhookPayloads.replayCount,
+          receivedAt: webhookPayloads.receivedAt,
+          processedAt: webhookPayloads.processedAt
+        })
+        .from(webhookPayloads)
+        .where(where)
+        .orderBy(desc(webhookPayloads.receivedAt))
+        .limit(options.limit)
+        .offset(options.offset),
+      db.select({ count: sql<number>`count(*)::int` }).from(webhookPayloads).where(where)
+    ]);
+
+    return { payloads, total: count };
+  }
+
+  /**
+   * Get a stored payload including its raw body
+   */
+  async getPayload(id: string): Promise<WebhookPayload | null> {
+    const [payload] = await db.select().from(webhookPayloads).where(eq(webhookPayloads.id, id)).limit(1);
+    return payload ?? null;
+  }
+
+  async incrementReplayCount(id: string): Promise<void> {
+    await db
+      .update(webhookPayloads)
+      .set({ replayCount: sql`${webhookPayloads.replayCount} + 1` })
+      .where(eq(webhookPayloads.id, id));
+  }
+
+  /**
+   * Delete dedupe keys and raw payloads past their retention windows
+   */
+  async purgeExpired(): Promise<{ keysDeleted: number; payloadsDeleted: number }> {
+    const keyCutoff = new Date(Date.now() - getEnvNumber('WEBHOOK_DEDUPE_RETENTION_HOURS', DEFAULT_DEDUPE_RETENTION_HOURS) * 60 * 60 * 1000);
+    const payloadCutoff = new Date(Date.now() - getEnvNumber('WEBHOOK_PAYLOAD_RETENTION_DAYS', DEFAULT_PAYLOAD_RETENTION_DAYS) * 24 * 60 * 60 * 1000);
+
+    const keys = await db
+      .delete(webhookEventKeys)
+      .where(lt(webhookEventKeys.createdAt, keyCutoff))
+      .returning({ id: webhookEventKeys.id });
+    const payloads = await db
+      .delete(webhookPayloads)
+      .where(lt(webhookPayloads.receivedAt, payloadCutoff))
+      .returning({ id: webhookPayloads.id });
+
+    return { keysDeleted: keys.length, payloadsDeleted: payloads.length };
+  }
+}
+
+export const webhookEventService = new WebhookEventService();
@@ -88,6 +88,7 @@ export interface LLMClassificationResult {
   confidence: number; // 0-1
   rationale: string;
   extractedIdentifiers: ExtractedIdentifier[];
+  model?: string; // Model that served the classification (the fallback's after failover); absent for fallback results
 }
 
 export interface BotNetworkDetection {
@@ -103,12 +104,22 @@ export interface BotNetworkDetection {
   sampleComments: string[];
 }
 
+// One entry per moderation pipeline phase that was evaluated (2a-2d, 3a-3d, 4a-4i)
+export interface DecisionTraceStep {
+  phase: string;
+  name: string;
+  fired: boolean; // true when this phase decided or altered the outcome
+  inputs?: Record<string, unknown>;
+  detail?: string;
+}
+
 export interface ModerationResult {
   action: ActionTaken;
   identifiers?: ExtractedIdentifier[];
   llmClassification?: LLMClassificationResult;
   riskScore?: number;
   reason?: string;
+  decisionTrace?: DecisionTraceStep[];
 }
 
 // API Response types
@@ -412,6 +423,41 @@ export interface FacebookHideCommentResponse {
   success: boolean;
 }
 
+/**
+ * Page `feed` webhook change value for comments (item = 'comment')
+ * https://developers.facebook.com/docs/graph-api/webhooks/reference/page/#feed
+ */
+export interface FacebookFeedChangeValue {
+  item: string; // 'comment' | 'post' | 'reaction' | ...
+  verb: 'add' | 'edited' | 'remove' | 'hide' | 'unhide' | string;
+  comment_id?: string;
+  post_id?: string;
+  parent_id?: string; // Equals post_id for top-level comments
+  message?: string;
+  from?: {
+    id: string;
+    name: string;
+  };
+  created_time?: number; // Unix seconds
+  is_hidden?: boolean;
+  post?: {
+    permalink_url?: string;
+  };
+}
+
+export interface FacebookWebhookEntry {
+  id: string; // Facebook Page ID
+  time: number;
+  changes?: Array<{
+    field: string;
+    value: FacebookFeedChangeValue;
+  }>;
+}
+
+export interface FacebookFeedSubscriptionResponse {
+  success?: boolean;
+}
+
 // Instagram Insights types
 export interface InstagramInsight {
   name: string;
@@ -448,16 +494,7 @@ export interface PostModerationStats {
   flaggedRatio: number; // percentage
 }
 
-// Queue types
-export interface QueueJob<T = unknown> {
-  id: string;
-  type: string;
-  data: T;
-  attempts: number;
-  maxAttempts: number;
-  createdAt: Date;
-}
-
+// Queue types (persisted jobs: QueueJob in db/schema)
 export interface ClassifyCommentJob {
   commentId: string;
   commentText: string;
@@ -473,6 +510,16 @@ export interface ClassifyCommentJob {
   clientId?: string;
 }
 
+/**
+ * Why a comment's earlier decision is being re-run: it was classified by the heuristic
+ * fallback while the LLM was down, or hidden unclassified during an attack lockdown
+ */
+export type ReEvaluationReason = 'DEGRADED' | 'LOCKDOWN';
+
+export interface ReEvaluateCommentJob extends ClassifyCommentJob {
+  reason: ReEvaluationReason;
+}
+
 export interface DeleteCommentJob {
   commentId: string;
   igCommentId: string;
@@ -552,6 +599,62 @@ export interface ModerationSettingsResult {
   // Similarity-based auto-moderation
   similarityAutoModEnabled?: boolean;
   similarityThreshold?: number;
+  // Shadow mode (log would-have actions without executing them)
+  shadowModeEnabled?: boolean;
+  // Keyword filters (keyword_filters table)
+  enableKeywordFilter?: boolean;
+  // How much of the surrounding thread is sent to the LLM with the comment
+  threadContextLevel?: ThreadContextLevel;
+  // Response to a detected coordinated attack, and the lockdown in force (active incident) if any
+  attackResponse?: AttackResponse;
+  attackLockdown?: AttackLockdown | null;
+  // Scheduled moderation profile overlaid on these settings, if any
+  activeProfile?: ActiveModerationProfile | null;
+  // Version of the moderation_settings row these were resolved from (null = defaults or not yet versioned)
+  settingsVersionId?: string | null;
+}
+
+// Settings a moderation profile can override while one of its schedules is active
+export type ModerationProfileOverrides = Partial<Pick<ModerationSettingsResult,
+  | 'globalThreshold'
+  | 'blackmailThreshold' | 'threatThreshold' | 'harassmentThreshold' | 'defamationThreshold' | 'spamThreshold'
+  | 'flagHideBlackmail' | 'flagHideThreat' | 'flagHideHarassment' | 'flagHideDefamation' | 'flagHideSpam'
+  | 'flagDeleteBlackmail' | 'flagDeleteThreat' | 'flagDeleteHarassment' | 'flagDeleteDefamation' | 'flagDeleteSpam'
+  | 'flagHideBlackmailThreshold' | 'flagHideThreatThreshold' | 'flagHideHarassmentThreshold'
+  | 'flagHideDefamationThreshold' | 'flagHideSpamThreshold'
+  | 'flagDeleteBlackmailThreshold' | 'flagDeleteThreatThreshold' | 'flagDeleteHarassmentThreshold'
+  | 'flagDeleteDefamationThreshold' | 'flagDeleteSpamThreshold'
+  | 'confidenceDeleteThreshold' | 'confidenceHideThreshold'
+  | 'similarityAutoModEnabled' | 'similarityThreshold'
+>>;
+
+export interface ActiveModerationProfile {
+  profileId: string;
+  name: string;
+  scheduleId: string;
+}
+
+// NONE = open an incident only, TIGHTEN = stricter thresholds, HIDE_NON_WHITELISTED = hide every non-whitelisted comment
+export type AttackResponse = 'NONE' | 'TIGHTEN' | 'HIDE_NON_WHITELISTED';
+
+export interface AttackLockdown {
+  incidentId: string;
+  mode: AttackResponse;
+}
+
+// NONE = comment only, PARENT = post caption + parent chain, THREAD = PARENT + earlier sibling replies
+export type ThreadContextLevel = 'NONE' | 'PARENT' | 'THREAD';
+
+export interface ThreadContextComment {
+  username: string;
+  text: string;
+}
+
+// Conversation around a comment, passed to the LLM so replies are classified in context
+export interface ThreadContext {
+  postCaption: string | null;
+  parentChain: ThreadContextComment[]; // Nearest parent first
+  siblings: ThreadContextComment[]; // Earlier replies to the same parent, oldest first
 }
 
 // Embedding similarity context passed between services
@@ -606,6 +709,7 @@ export interface WatchlistCheckResult {
   shouldAutoDelete: boolean;
   matches: Array<{
     threatId: string;
+    threatType?: 'watchlist' | 'global_threat' | 'bot_network';
     name: string;
   }>;
 }
@@ -0,0 +1,12 @@
+/**
+ * Utility functions for request validation
+ */
+
+import { ZodError } from 'zod';
+
+/**
+ * One-line API error for a failed zod parse, e.g. "name: Required; schedules.0.days: Invalid"
+ */
+export function validationError(error: ZodError): string {
+  return error.issues.map(issue => (issue.path.length ? `${issue.path.join('.')}: ${issue.message}` : issue.message)).join('; ');
+}
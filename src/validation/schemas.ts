@@ -66,21 +66,52 @@ export const CreateLegalCaseSchema = z.object({
   impactStatement: z.string().optional()
 });
 
+export const LegalCaseEvidenceIdsSchema = z.object({
+  commentIds: z.array(z.string().uuid()).default([]),
+  evidenceAttachmentIds: z.array(z.string().uuid()).default([])
+});
+
+// Report dates on a legal case (null or '' clears the date on update)
+const LegalCaseDateSchema = z.string()
+  .refine(value => value === '' || !Number.isNaN(Date.parse(value)), { message: 'Invalid date' })
+  .nullable()
+  .optional();
+
+export const LegalCaseReportDatesSchema = z.object({
+  instagramReportDate: LegalCaseDateSchema,
+  policeReportDate: LegalCaseDateSchema
+});
+
+// Route :id params (anything else would fail in Postgres as a uuid cast)
+export const IdParamSchema = z.string().uuid();
+
 // Watchlist validation
-export const AddWatchlistThreatSchema = z.object({
-  instagramUsername: z.string().optional(),
-  instagramId: z.string().optional(),
+const WatchlistThreatFields = z.object({
+  instagramUsername: z.string().max(255).optional(),
+  instagramId: z.string().max(255).optional(),
   threatType: z.enum(['blackmail', 'threat', 'harassment', 'defamation', 'spam_bot', 'coordinated_attack']),
   threatLevel: z.enum(['LOW', 'MEDIUM', 'HIGH', 'CRITICAL']),
   description: z.string().min(20),
   source: z.string().optional(),
   evidenceUrl: z.string().url().optional(),
-  monitorKeywords: z.array(z.string()).optional(),
+  monitorKeywords: z.array(z.string().trim().min(1).max(100)).max(50).optional(),
+  monitorUsernameMentions: z.boolean().default(true),
   autoBlockDirectComments: z.boolean().default(true),
   autoFlagReferences: z.boolean().default(true),
   escalateImmediately: z.boolean().default(false)
 });
 
+export const AddWatchlistThreatSchema = WatchlistThreatFields.refine(
+  threat => !!(threat.instagramUsername || threat.instagramId || threat.monitorKeywords?.length),
+  { message: 'instagramUsername, instagramId or monitorKeywords is required' }
+);
+
+export const UpdateWatchlistThreatSchema = WatchlistThreatFields.partial().extend({
+  isActive: z.boolean().optional(),
+  resolved: z.boolean().optional(),
+  resolvedNote: z.string().max(5000).nullable().optional()
+});
+
 // Whitelist validation
 export const AddWhitelistIdentifierSchema = z.object({
   identifier: z.string().min(1).max(500),
@@ -111,6 +142,60 @@ export const ConnectBotToNetworkSchema = z.object({
   connectionEvidence: z.string().min(20)
 });
 
+// Abuser profile validation
+const LinkedAccountIds = z.array(z.string().uuid()).min(1).max(50);
+
+export const CreateAbuserProfileSchema = z.object({
+  name: z.string().trim().min(1).max(255),
+  notes: z.string().max(5000).optional(),
+  suspiciousAccountIds: LinkedAccountIds
+});
+
+export const UpdateAbuserProfileSchema = z.object({
+  name: z.string().trim().min(1).max(255).optional(),
+  notes: z.string().max(5000).nullable().optional()
+});
+
+export const LinkAbuserAccountsSchema = z.object({
+  suspiciousAccountIds: LinkedAccountIds
+});
+
+// Threat network sharing preferences
+export const UpdateThreatNetworkSettingsSchema = z.object({
+  shareThreatData: z.boolean().optional(),
+  receiveThreatAlerts: z.boolean().optional()
+}).refine(data => Object.values(data).some(value => value !== undefined), {
+  message: 'Provide shareThreatData or receiveThreatAlerts'
+});
+
+// Agency network profile, directory visibility and contact requests
+const SocialHandle = z.string().trim().max(255).transform(handle => handle.replace(/^@/, ''))
+  .pipe(z.string().regex(/^[A-Za-z0-9._]{1,100}$/, 'Invalid handle'));
+
+export const UpdateAgencyNetworkSettingsSchema = z.object({
+  publicName: z.string().trim().min(1).max(255).nullable().optional(),
+  instagramHandle: SocialHandle.nullable().optional(),
+  twitterHandle: SocialHandle.nullable().optional(),
+  website: z.string().trim().url().max(500).nullable().optional(),
+  isPublicProfile: z.boolean().optional(),
+  allowDirectContact: z.boolean().optional()
+}).refine(data => Object.values(data).some(value => value !== undefined), {
+  message: 'Provide at least one setting to update'
+});
+
+export const CreateAgencyContactRequestSchema = z.object({
+  toAgencyId: z.string().uuid(),
+  message: z.string().trim().min(1).max(2000),
+  globalThreatId: z.string().uuid().optional(),
+  contactEmail: z.string().trim().email().max(255).optional()
+});
+
+export const RespondAgencyContactRequestSchema = z.object({
+  status: z.enum(['ACCEPTED', 'DECLINED']),
+  responseMessage: z.string().trim().max(2000).optional(),
+  contactEmail: z.string().trim().email().max(255).optional()
+});
+
 // Evidence upload validation
 export const UploadEvidenceSchema = z.object({
   commentId: z.string().uuid(),
@@ -129,7 +214,14 @@ export type CreateClientInput = z.infer<typeof CreateClientSchema>;
 export type InstagramOAuthCallback = z.infer<typeof InstagramOAuthCallbackSchema>;
 export type CreateLegalCaseInput = z.infer<typeof CreateLegalCaseSchema>;
 export type AddWatchlistThreatInput = z.infer<typeof AddWatchlistThreatSchema>;
+export type UpdateWatchlistThreatInput = z.infer<typeof UpdateWatchlistThreatSchema>;
 export type AddWhitelistIdentifierInput = z.infer<typeof AddWhitelistIdentifierSchema>;
 export type CreateBotNetworkMastermindInput = z.infer<typeof CreateBotNetworkMastermindSchema>;
 export type ConnectBotToNetworkInput = z.infer<typeof ConnectBotToNetworkSchema>;
 export type UploadEvidenceInput = z.infer<typeof UploadEvidenceSchema>;
+export type CreateAbuserProfileInput = z.infer<typeof CreateAbuserProfileSchema>;
+export type UpdateAbuserProfileInput = z.infer<typeof UpdateAbuserProfileSchema>;
+export type UpdateThreatNetworkSettingsInput = z.infer<typeof UpdateThreatNetworkSettingsSchema>;
+export type UpdateAgencyNetworkSettingsInput = z.infer<typeof UpdateAgencyNetworkSettingsSchema>;
+export type CreateAgencyContactRequestInput = z.infer<typeof CreateAgencyContactRequestSchema>;
+export type RespondAgencyContactRequestInput = z.infer<typeof RespondAgencyContactRequestSchema>;
@@ -0,0 +1,52 @@
+/**
+ * One-off backfill: subscribe Facebook Pages connected before feed webhooks existed
+ * to the `feed` field, so their comments arrive in real time instead of only by polling.
+ *
+ * Covers active Pages without a linked Instagram account (the ones connect subscribes).
+ * Subscribing is idempotent, so the script is safe to re-run.
+ */
+
+import { db } from './src/db';
+import { facebookPages, instagramAccounts } from './src/db/schema';
+import { eq, and, isNull } from 'drizzle-orm';
+import { facebookService } from './src/services/facebook.service';
+
+async function subscribeFacebookFeeds(): Promise<void> {
+  console.log('🔄 Subscribing existing Facebook Pages to feed webhooks...\n');
+
+  const pages = await db
+    .select({
+      id: facebookPages.id,
+      facebookPageId: facebookPages.facebookPageId,
+      pageName: facebookPages.pageName,
+      pageAccessToken: facebookPages.pageAccessToken
+    })
+    .from(facebookPages)
+    .leftJoin(instagramAccounts, eq(instagramAccounts.facebookPageId, facebookPages.id))
+    .where(and(eq(facebookPages.isActive, true), isNull(instagramAccounts.id)));
+
+  console.log(`📝 Found ${pages.length} Facebook Page(s) to subscribe\n`);
+
+  let failed = 0;
+  for (const page of pages) {
+    const subscribed = await facebookService.subscribePageToFeed(page.facebookPageId, page.pageAccessToken);
+    if (subscribed) {
+      console.log(`  ✅ ${page.pageName}`);
+    } else {
+      failed++;
+      console.log(`  ⚠️  ${page.pageName} (${page.id}) - subscription failed, still relying on polling`);
+    }
+  }
+
+  console.log(`\n📊 Subscribed ${pages.length - failed}/${pages.length} Page(s)`);
+}
+
+subscribeFacebookFeeds()
+  .then(() => {
+    console.log('\n✅ Feed subscription backfill completed!');
+    process.exit(0);
+  })
+  .catch((error: unknown) => {
+    console.error('\n❌ Feed subscription backfill failed:', error);
+    process.exit(1);
+  });
@@ -587,8 +587,8 @@ class CommentModerationTester {
     console.log('⏳ Waiting for queue processing...');
     await new Promise(resolve => setTimeout(resolve, 3000));
 
-    const queueStats = commentQueue.getStats();
-    console.log(`📊 Queue stats: ${queueStats.processing ? 'Processing' : 'Idle'}, ${queueStats.queueLength} items remaining\n`);
+    const queueStats = await commentQueue.getStats();
+    console.log(`📊 Queue stats: ${queueStats.worker.activeCount > 0 ? 'Processing' : 'Idle'}, ${queueStats.pending + queueStats.running} items remaining\n`);
   }
 
   async runHealthChecks(): Promise<void> {
@@ -612,8 +612,8 @@ class CommentModerationTester {
     }
 
     // Queue status
-    const queueStats = commentQueue.getStats();
-    console.log(`📋 Queue: ✅ Active (${queueStats.queueLength} queued, ${queueStats.processing ? 'processing' : 'idle'})`);
+    const queueStats = await commentQueue.getStats();
+    console.log(`📋 Queue: ✅ Active (${queueStats.pending} queued, ${queueStats.dead} dead, ${queueStats.worker.activeCount > 0 ? 'processing' : 'idle'})`);
 
     console.log();
   }
@@ -0,0 +1,107 @@
+import { test, describe } from 'node:test';
+import assert from 'node:assert/strict';
+import type { SuspiciousAccount } from '../src/db/schema';
+import type { AutoBlockRule } from '../src/services/autoBlockPolicy.service';
+
+// Importing the service sets up the database pool; these tests never query it
+process.env.DATABASE_URL ??= 'postgres://localhost:5432/test';
+const { autoBlockPolicyService, DEFAULT_AUTO_BLOCK_RULES } = await import('../src/services/autoBlockPolicy.service');
+
+const DAY = 1000 * 60 * 60 * 24;
+const NOW = new Date('2026-01-31T12:00:00Z');
+
+function account(overrides: Partial<SuspiciousAccount> = {}): SuspiciousAccount {
+  return {
+    id: 'account-1',
+    totalComments: 0,
+    flaggedComments: 0,
+    deletedComments: 0,
+    blackmailCount: 0,
+    threatCount: 0,
+    harassmentCount: 0,
+    spamCount: 0,
+    defamationCount: 0,
+    averageRiskScore: '0',
+    highestRiskScore: 0,
+    firstSeenAt: new Date(NOW.getTime() - 10 * DAY),
+    lastSeenAt: NOW,
+    ...overrides
+  } as SuspiciousAccount;
+}
+
+describe('autoBlockPolicyService.metricsOf', () => {
+  test('averages comments per day over the days since first seen', () => {
+    const metrics = autoBlockPolicyService.metricsOf([account({ totalComments: 25 })], NOW);
+    assert.equal(metrics.accountAgeDays, 10);
+    assert.equal(metrics.commentsPerDay, 2.5);
+  });
+
+  test('counts a commenter first seen today as one day old', () => {
+    const metrics = autoBlockPolicyService.metricsOf([account({ totalComments: 12, firstSeenAt: NOW })], NOW);
+    assert.equal(metrics.accountAgeDays, 1);
+    assert.equal(metrics.commentsPerDay, 12);
+  });
+
+  test('aggregates counters across linked accounts', () => {
+    const metrics = autoBlockPolicyService.metricsOf([
+      account({ id: 'a', totalComments: 10, blackmailCount: 1, averageRiskScore: '90', highestRiskScore: 95 }),
+      account({ id: 'b', totalComments: 30, blackmailCount: 1, averageRiskScore: '50', highestRiskScore: 70, firstSeenAt: new Date(NOW.getTime() - 20 * DAY) })
+    ], NOW);
+    assert.equal(metrics.totalComments, 40);
+    assert.equal(metrics.blackmailCount, 2);
+    assert.equal(metrics.averageRiskScore, 60);
+    assert.equal(metrics.highestRiskScore, 95);
+    assert.equal(metrics.accountAgeDays, 20);
+    assert.equal(metrics.commentsPerDay, 2);
+  });
+});
+
+describe('autoBlockPolicyService.evaluate', () => {
+  const rules: AutoBlockRule[] = [
+    {
+      name: 'Noisy spammer',
+      conditions: [
+        { metric: 'spamCount', operator: 'gte', value: 3 },
+        { metric: 'commentsPerDay', operator: 'gt', value: 5 }
+      ],
+      outcome: 'AUTO_HIDE'
+    },
+    { name: 'Any threat', conditions: [{ metric: 'threatCount', operator: 'eq', value: 1 }], outcome: 'NOTIFY' }
+  ];
+
+  test('matches a rule only when all its conditions hold', () => {
+    const quiet = autoBlockPolicyService.metricsOf([account({ totalComments: 20, spamCount: 3 })], NOW);
+    assert.deepEqual(autoBlockPolicyService.evaluate(rules, quiet), []);
+
+    const noisy = autoBlockPolicyService.metricsOf([account({ totalComments: 60, spamCount: 3 })], NOW);
+    const matches = autoBlockPolicyService.evaluate(rules, noisy);
+    assert.deepEqual(matches.map(m => m.rule.name), ['Noisy spammer']);
+  });
+
+  test('explains a match with the actual metric values', () => {
+    const metrics = autoBlockPolicyService.metricsOf([account({ totalComments: 60, spamCount: 4, threatCount: 1 })], NOW);
+    const matches = autoBlockPolicyService.evaluate(rules, metrics);
+    assert.deepEqual(matches.map(m => m.reason), [
+      'Noisy spammer: spamCount 4 >= 3, commentsPerDay 6 > 5',
+      'Any threat: threatCount 1 = 1'
+    ]);
+  });
+
+  test('keeps the thresholds of the built-in rules', () => {
+    const evaluateDefaults = (overrides: Partial<SuspiciousAccount>): string[] =>
+      autoBlockPolicyService
+        .evaluate(DEFAULT_AUTO_BLOCK_RULES, autoBlockPolicyService.metricsOf([account(overrides)], NOW))
+        .map(m => m.rule.name);
+
+    assert.deepEqual(evaluateDefaults({ blackmailCount: 1 }), []);
+    assert.deepEqual(evaluateDefaults({ blackmailCount: 2 }), ['Serial blackmailer']);
+    assert.deepEqual(evaluateDefaults({ spamCount: 6, totalComments: 100 }), []);
+    assert.deepEqual(evaluateDefaults({ spamCount: 5, totalComments: 120 }), []);
+    assert.deepEqual(evaluateDefaults({ spamCount: 6, totalComments: 120 }), ['Spam bot']);
+    assert.deepEqual(evaluateDefaults({ deletedComments: 5, averageRiskScore: '80', totalComments: 5 }), []);
+    assert.deepEqual(
+      evaluateDefaults({ deletedComments: 5, averageRiskScore: '85', totalComments: 5 }),
+      ['High-risk repeat offender']
+    );
+  });
+});
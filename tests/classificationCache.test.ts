@@ -0,0 +1,74 @@
+import { test, describe } from 'node:test';
+import assert from 'node:assert/strict';
+import type { CustomFilter } from '../src/db/schema';
+import { getClassificationFingerprint } from '../src/services/cache.service';
+
+const MODEL = 'openai/gpt-oss-120b';
+const SETTINGS = { autoDeleteEnabled: true, thresholds: { blackmail: 0.7 } };
+
+function filter(overrides: Partial<CustomFilter> = {}): CustomFilter {
+  return {
+    id: 'filter-1',
+    name: 'Competitor mentions',
+    prompt: 'Flag comments promoting competitors',
+    category: 'SPAM',
+    scope: 'ALL',
+    description: null,
+    ...overrides
+  } as CustomFilter;
+}
+
+const fingerprint = (
+  text: string,
+  overrides: { model?: string; filters?: CustomFilter[]; settings?: unknown; context?: unknown } = {}
+): string | null =>
+  getClassificationFingerprint(
+    text, overrides.model ?? MODEL, overrides.filters ?? [filter()], overrides.settings ?? SETTINGS, overrides.context
+  );
+
+describe('getClassificationFingerprint', () => {
+  test('folds only case and whitespace', () => {
+    assert.equal(fingerprint('Pay me  NOW\n@someone'), fingerprint('  pay me now @someone '));
+  });
+
+  test('keeps emoji, non-Latin scripts and amounts apart', () => {
+    assert.notEqual(fingerprint('🔪 nice'), fingerprint('❤️ nice'));
+    assert.notEqual(fingerprint('я тебя найду @user'), fingerprint('أنا سأجدك @user'));
+    assert.notEqual(fingerprint('send $500 to my cashapp'), fingerprint('send $50 to my venmo'));
+  });
+
+  test('changes with the model, filter set and settings', () => {
+    const base = fingerprint('hello');
+    assert.notEqual(fingerprint('hello', { model: 'other-model' }), base);
+    assert.notEqual(fingerprint('hello', { filters: [] }), base);
+    assert.notEqual(fingerprint('hello', { filters: [filter({ prompt: 'Flag anything about pricing' })] }), base);
+    assert.notEqual(fingerprint('hello', { settings: { ...SETTINGS, autoDeleteEnabled: false } }), base);
+  });
+
+  test('changes with the context sent to the classifier', () => {
+    const context = {
+      postCaption: 'New drop this Friday',
+      embeddingSimilarityContext: null,
+      patternResult: { category: null, details: '' }
+    };
+    const base = fingerprint('hello', { context });
+    assert.equal(fingerprint('hello', { context: { ...context } }), base);
+    assert.notEqual(fingerprint('hello', { context: { ...context, postCaption: 'Memorial service details' } }), base);
+    assert.notEqual(fingerprint('hello', {
+      context: { ...context, embeddingSimilarityContext: { isSimilarToAllowed: true, similarityScore: 0.91 } }
+    }), base);
+    assert.notEqual(fingerprint('hello', {
+      context: { ...context, patternResult: { category: 'SPAM', details: 'Keyword filter match: hello' } }
+    }), base);
+  });
+
+  test('ignores the order of the filter set', () => {
+    const a = filter({ id: 'a' });
+    const b = filter({ id: 'b', name: 'Scams' });
+    assert.equal(fingerprint('hello', { filters: [a, b] }), fingerprint('hello', { filters: [b, a] }));
+  });
+
+  test('is null for blank text', () => {
+    assert.equal(fingerprint(' \n\t '), null);
+  });
+});
@@ -0,0 +1,73 @@
+import { test, describe } from 'node:test';
+import assert from 'node:assert/strict';
+import type { KeywordFilter } from '../src/db/schema';
+
+// Importing the service sets up the database pool; these tests never query it
+process.env.DATABASE_URL ??= 'postgres://localhost:5432/test';
+const { keywordFilterService } = await import('../src/services/keywordFilter.service');
+
+function keywordFilter(overrides: Partial<KeywordFilter> = {}): KeywordFilter {
+  return {
+    id: 'filter-1',
+    pattern: 'cashapp',
+    patternType: 'KEYWORD',
+    isWhitelist: false,
+    isEnabled: true,
+    ...overrides
+  } as KeywordFilter;
+}
+
+describe('keywordFilterService.validatePattern', () => {
+  test('accepts plain keywords and simple regexes', () => {
+    assert.equal(keywordFilterService.validatePattern('cash app', 'KEYWORD'), null);
+    assert.equal(keywordFilterService.validatePattern('\\$\\d+ (?:now|today)', 'REGEX'), null);
+  });
+
+  test('rejects regexes prone to catastrophic backtracking', () => {
+    assert.match(keywordFilterService.validatePattern('(a+)+$', 'REGEX') ?? '', /nested or alternating quantifiers/);
+    assert.match(keywordFilterService.validatePattern('(a|aa)*b', 'REGEX') ?? '', /nested or alternating quantifiers/);
+    assert.equal(keywordFilterService.validatePattern('(\\w)\\1', 'REGEX'), 'Regex backreferences are not supported');
+  });
+
+  test('rejects fixed repeats of groups containing quantifiers', () => {
+    assert.match(keywordFilterService.validatePattern('(?:.*a){8}x', 'REGEX') ?? '', /nested or alternating quantifiers/);
+    assert.match(keywordFilterService.validatePattern('((a+))+', 'REGEX') ?? '', /nested or alternating quantifiers/);
+    assert.match(keywordFilterService.validatePattern('(a?){20}a{20}', 'REGEX') ?? '', /nested or alternating quantifiers/);
+    assert.equal(keywordFilterService.validatePattern('(?:\\d+)? dollars', 'REGEX'), null);
+  });
+
+  test('rejects adjacent unbounded quantifiers over overlapping atoms', () => {
+    assert.match(keywordFilterService.validatePattern('.*.*x', 'REGEX') ?? '', /adjacent unbounded quantifiers/);
+    assert.match(keywordFilterService.validatePattern('\\w+\\w*@', 'REGEX') ?? '', /adjacent unbounded quantifiers/);
+    assert.match(keywordFilterService.validatePattern('[^ ]+\\d+$', 'REGEX') ?? '', /adjacent unbounded quantifiers/);
+    assert.equal(keywordFilterService.validatePattern('\\w+\\s*\\d+', 'REGEX'), null);
+    assert.equal(keywordFilterService.validatePattern('pay.*now.*or else', 'REGEX'), null);
+  });
+
+  test('rejects blank, overlong and invalid patterns', () => {
+    assert.equal(keywordFilterService.validatePattern('  ', 'KEYWORD'), 'Pattern is required');
+    assert.match(keywordFilterService.validatePattern('x'.repeat(201), 'REGEX') ?? '', /at most 200/);
+    assert.match(keywordFilterService.validatePattern('[unclosed', 'REGEX') ?? '', /^Invalid regex/);
+  });
+});
+
+describe('keywordFilterService.match', () => {
+  test('matches keywords case-insensitively as substrings', () => {
+    const filter = keywordFilter({ pattern: ' CashApp ' });
+    assert.deepEqual(keywordFilterService.match('send it to my cashapp now', [filter]).blacklist, [filter]);
+    assert.deepEqual(keywordFilterService.match('send it to my venmo', [filter]).blacklist, []);
+  });
+
+  test('splits hits into blacklist and whitelist', () => {
+    const blocked = keywordFilter({ id: 'blocked', pattern: 'pay me' });
+    const allowed = keywordFilter({ id: 'allowed', pattern: '^giveaway\\b', patternType: 'REGEX', isWhitelist: true });
+    const result = keywordFilterService.match('Giveaway winners: pay me a visit!', [blocked, allowed]);
+    assert.deepEqual(result.blacklist, [blocked]);
+    assert.deepEqual(result.whitelist, [allowed]);
+  });
+
+  test('skips stored regexes that fail validation', () => {
+    const unsafe = keywordFilter({ id: 'unsafe', pattern: '(a+)+$', patternType: 'REGEX' });
+    assert.deepEqual(keywordFilterService.match('aaaaaaaaaaaaaaaaaaaaaaaaaaaaaa!', [unsafe]).blacklist, []);
+  });
+});
@@ -0,0 +1,50 @@
+import { test, describe } from 'node:test';
+import assert from 'node:assert/strict';
+import { createHash } from 'crypto';
+
+// Importing the service sets up the database pool; these tests never query it
+process.env.DATABASE_URL ??= 'postgres://localhost:5432/test';
+const { threatNetworkService } = await import('../src/services/threatNetwork.service');
+
+function withHashKey(key: string | undefined, run: () => void): void {
+  const previous = process.env.THREAT_NETWORK_HASH_KEY;
+  if (key === undefined) delete process.env.THREAT_NETWORK_HASH_KEY;
+  else process.env.THREAT_NETWORK_HASH_KEY = key;
+  try {
+    run();
+  } finally {
+    if (previous === undefined) delete process.env.THREAT_NETWORK_HASH_KEY;
+    else process.env.THREAT_NETWORK_HASH_KEY = previous;
+  }
+}
+
+describe('threatNetworkService hashes', () => {
+  test('are keyed, so a plain SHA-256 of the username does not reveal them', () => {
+    withHashKey('key-a', () => {
+      const hash = threatNetworkService.hashUsername('offender');
+      assert.match(hash ?? '', /^[0-9a-f]{64}$/);
+      assert.notEqual(hash, createHash('sha256').update('offender').digest('hex'));
+    });
+  });
+
+  test('differ between keys', () => {
+    let first: string | null = null;
+    withHashKey('key-a', () => { first = threatNetworkService.hashCommenterId('17841400000000000'); });
+    withHashKey('key-b', () => {
+      assert.notEqual(threatNetworkService.hashCommenterId('17841400000000000'), first);
+    });
+  });
+
+  test('ignore case, surrounding whitespace and a leading @ in usernames', () => {
+    withHashKey('key-a', () => {
+      assert.equal(threatNetworkService.hashUsername(' @Offender '), threatNetworkService.hashUsername('offender'));
+    });
+  });
+
+  test('are null without a key, which turns the network off', () => {
+    withHashKey(undefined, () => {
+      assert.equal(threatNetworkService.hashCommenterId('17841400000000000'), null);
+      assert.equal(threatNetworkService.hashUsername('offender'), null);
+    });
+  });
+});
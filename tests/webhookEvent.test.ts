@@ -0,0 +1,35 @@
+import { test, describe } from 'node:test';
+import assert from 'node:assert/strict';
+
+// Importing the service sets up the database pool; these tests never query it
+process.env.DATABASE_URL ??= 'postgres://localhost:5432/test';
+const { webhookEventService } = await import('../src/services/webhookEvent.service');
+
+const NOW = Date.parse('2026-01-31T12:00:00Z');
+const HOUR = 60 * 60 * 1000;
+const seconds = (ms: number): number => Math.floor(ms / 1000);
+
+describe('webhookEventService.isWithinSkew', () => {
+  test("accepts Meta's retries across its 36-hour retry window", () => {
+    assert.equal(webhookEventService.isWithinSkew(seconds(NOW - 20 * 60 * 1000), NOW), true);
+    assert.equal(webhookEventService.isWithinSkew(seconds(NOW - 35 * HOUR), NOW), true);
+    assert.equal(webhookEventService.isWithinSkew(NOW - 35 * HOUR, NOW), true);
+  });
+
+  test('rejects entries older than the retry window or from the future', () => {
+    assert.equal(webhookEventService.isWithinSkew(seconds(NOW - 37 * HOUR), NOW), false);
+    assert.equal(webhookEventService.isWithinSkew(seconds(NOW + HOUR), NOW), false);
+  });
+
+  test('never allows more age than the dedupe retention', () => {
+    process.env.WEBHOOK_MAX_SKEW_SECONDS = String(7 * 24 * 60 * 60);
+    process.env.WEBHOOK_DEDUPE_RETENTION_HOURS = '48';
+    try {
+      assert.equal(webhookEventService.isWithinSkew(seconds(NOW - 47 * HOUR), NOW), true);
+      assert.equal(webhookEventService.isWithinSkew(seconds(NOW - 49 * HOUR), NOW), false);
+    } finally {
+      delete process.env.WEBHOOK_MAX_SKEW_SECONDS;
+      delete process.env.WEBHOOK_DEDUPE_RETENTION_HOURS;
+    }
+  });
+});